@@ -9,6 +9,7 @@ import { Header } from '@/components/layout/Header';
 import { BottomNav } from '@/components/layout/BottomNav';
 import { Card, CardContent } from '@/components/ui/Card';
 import { ACHIEVEMENTS, TIER_ORDER } from '@/lib/achievements/definitions';
+import { computeAchievementProgress, loadAchievementInputs } from '@/lib/achievements/evaluator';
 import { cn } from '@/lib/utils';
 
 export default async function AchievementsPage() {
@@ -28,54 +29,18 @@ export default async function AchievementsPage() {
 
   const unlockedIds = new Set(userAchievements.map((ua) => ua.achievement.name));
 
-  // Get stats for progress
-  const [totalEvents, eventsByType, uniqueVenues, uniqueCountries] = await Promise.all([
-    prisma.event.count({ where: { userId } }),
-    prisma.event.groupBy({
-      by: ['type'],
-      where: { userId },
-      _count: { type: true },
-    }),
-    prisma.event.findMany({
-      where: { userId },
-      select: { venueId: true },
-      distinct: ['venueId'],
-    }),
-    prisma.venue.findMany({
-      where: { events: { some: { userId } } },
-      select: { country: true },
-      distinct: ['country'],
-    }),
-  ]);
-
-  const eventTypeCount: Record<string, number> = {};
-  eventsByType.forEach((e) => {
-    eventTypeCount[e.type] = e._count.type;
-  });
+  // Replay the user's events to get progress for every criteria type
+  const { events, context } = await loadAchievementInputs(userId);
+  const progressById = new Map(
+    computeAchievementProgress(events, context).map((p) => [p.achievementId, p])
+  );
 
   // Calculate progress for each achievement
   const achievementsWithProgress = ACHIEVEMENTS.map((def) => {
     const isUnlocked = unlockedIds.has(def.name);
-    let current = 0;
+    const current = progressById.get(def.id)?.current || 0;
     const target = def.criteria.threshold || 1;
 
-    switch (def.criteria.type) {
-      case 'total_events':
-        current = totalEvents;
-        break;
-      case 'events_by_type':
-        current = eventTypeCount[def.criteria.eventType as string] || 0;
-        break;
-      case 'unique_venues':
-        current = uniqueVenues.length;
-        break;
-      case 'unique_countries':
-        current = uniqueCountries.length;
-        break;
-      default:
-        current = 0;
-    }
-
     return {
       ...def,
       isUnlocked,
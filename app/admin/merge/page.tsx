@@ -0,0 +1,327 @@
+'use client';
+
+// Admin: Merge Duplicates Page
+// ✅ Code Quality Agent: Review fuzzy duplicate candidates, preview the impact, then merge
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, ArrowLeft, ArrowRight, GitMerge, History } from 'lucide-react';
+import { Header } from '@/components/layout/Header';
+import { BottomNav } from '@/components/layout/BottomNav';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { cn, formatShortDate } from '@/lib/utils';
+
+type MergeEntity = 'team' | 'player' | 'artist' | 'venue';
+
+interface RecordSummary {
+  id: string;
+  name: string;
+  detail: string;
+  usage: number;
+}
+
+interface Candidate {
+  score: number;
+  a: RecordSummary;
+  b: RecordSummary;
+}
+
+interface MergePreview {
+  source: RecordSummary;
+  target: RecordSummary;
+  affected: Record<string, number>;
+  events: { id: string; type: string; date: string }[];
+  warnings: string[];
+}
+
+interface MergeLogEntry {
+  id: string;
+  entityType: string;
+  sourceName: string;
+  targetName: string;
+  affected: Record<string, number>;
+  createdAt: string;
+}
+
+const ENTITY_TABS: { value: MergeEntity; label: string }[] = [
+  { value: 'team', label: 'Teams' },
+  { value: 'player', label: 'Players' },
+  { value: 'artist', label: 'Artists' },
+  { value: 'venue', label: 'Venues' },
+];
+
+// "soccerAppearances" → "soccer appearances"
+function relationLabel(key: string): string {
+  return key.replace(/([A-Z])/g, ' $1').toLowerCase();
+}
+
+export default function MergePage() {
+  const { status } = useSession();
+  const router = useRouter();
+  const [entity, setEntity] = useState<MergeEntity>('team');
+  const [candidates, setCandidates] = useState<Candidate[]>([]);
+  const [logs, setLogs] = useState<MergeLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [preview, setPreview] = useState<MergePreview | null>(null);
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  const loadCandidates = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/merge/candidates?entity=${entity}`);
+      const data = await res.json();
+      if (!data.success) throw new Error(data.error);
+      setCandidates(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load candidates');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [entity]);
+
+  const loadLogs = useCallback(async () => {
+    const res = await fetch('/api/admin/merge?limit=20');
+    const data = await res.json();
+    if (data.success) setLogs(data.data);
+  }, []);
+
+  useEffect(() => {
+    if (status !== 'authenticated') return;
+    loadCandidates();
+    loadLogs();
+  }, [status, loadCandidates, loadLogs]);
+
+  const postMerge = async (sourceId: string, targetId: string, dryRun: boolean) => {
+    const res = await fetch('/api/admin/merge', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ entity, sourceId, targetId, dryRun }),
+    });
+    const data = await res.json();
+    if (!data.success) throw new Error(data.error || 'Merge failed');
+    return data.data;
+  };
+
+  const handlePreview = async (source: RecordSummary, target: RecordSummary) => {
+    setError(null);
+    try {
+      setPreview(await postMerge(source.id, target.id, true));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to preview merge');
+    }
+  };
+
+  const handleMerge = async () => {
+    if (!preview) return;
+    setIsMerging(true);
+    setError(null);
+    try {
+      await postMerge(preview.source.id, preview.target.id, false);
+      setPreview(null);
+      await Promise.all([loadCandidates(), loadLogs()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen pb-20">
+      <Header title="Merge Duplicates" />
+
+      <main className="px-4 py-6 max-w-4xl mx-auto space-y-6">
+        <h1 className="text-2xl font-bold">Merge Duplicates</h1>
+
+        {/* Entity tabs */}
+        <div className="flex gap-2 overflow-x-auto">
+          {ENTITY_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => {
+                setEntity(tab.value);
+                setPreview(null);
+              }}
+              className={cn(
+                'px-4 py-2 rounded-full text-sm font-medium whitespace-nowrap transition-colors',
+                entity === tab.value
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:bg-muted/80'
+              )}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
+        {error && (
+          <div className="p-3 rounded-lg bg-red-50 dark:bg-red-950 text-red-700 dark:text-red-300 text-sm">
+            {error}
+          </div>
+        )}
+
+        {/* Preview */}
+        {preview && (
+          <Card className="border-primary">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <GitMerge className="h-5 w-5" />
+                Merge &ldquo;{preview.source.name}&rdquo; into &ldquo;{preview.target.name}&rdquo;
+              </CardTitle>
+              <CardDescription>
+                &ldquo;{preview.source.name}&rdquo; will be deleted and everything pointing at it moved across.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <ul className="text-sm space-y-1">
+                {Object.entries(preview.affected).map(([key, count]) => (
+                  <li key={key} className="flex justify-between">
+                    <span className="text-muted-foreground">{relationLabel(key)}</span>
+                    <span className="font-medium">{count}</span>
+                  </li>
+                ))}
+              </ul>
+
+              {preview.warnings.length > 0 && (
+                <ul className="space-y-1">
+                  {preview.warnings.map((warning) => (
+                    <li key={warning} className="flex items-start gap-2 text-sm text-amber-600">
+                      <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                      {warning}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {preview.events.length > 0 && (
+                <div>
+                  <p className="text-sm font-medium mb-1">Affected events</p>
+                  <ul className="text-sm text-muted-foreground max-h-40 overflow-y-auto">
+                    {preview.events.map((event) => (
+                      <li key={event.id}>
+                        {formatShortDate(event.date)} · {event.type.toLowerCase()}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Button variant="destructive" onClick={handleMerge} isLoading={isMerging}>
+                  Merge
+                </Button>
+                <Button variant="outline" onClick={() => setPreview(null)} disabled={isMerging}>
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Candidates */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Possible duplicates</CardTitle>
+            <CardDescription>Pick the record to keep - the other is merged into it.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground animate-pulse">Searching...</p>
+            ) : candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No likely duplicates found.</p>
+            ) : (
+              <ul className="divide-y">
+                {candidates.map(({ score, a, b }) => (
+                  <li key={`${a.id}:${b.id}`} className="py-3 flex items-center gap-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{a.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {a.detail} · used {a.usage}×
+                      </p>
+                    </div>
+                    <div className="flex flex-col items-center gap-1">
+                      <span className="text-xs text-muted-foreground">{score}%</span>
+                      <div className="flex gap-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handlePreview(b, a)}
+                          aria-label={`Keep ${a.name}`}
+                        >
+                          <ArrowLeft className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => handlePreview(a, b)}
+                          aria-label={`Keep ${b.name}`}
+                        >
+                          <ArrowRight className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="flex-1 min-w-0 text-right">
+                      <p className="font-medium truncate">{b.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {b.detail} · used {b.usage}×
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Audit log */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Recent merges
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {logs.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No merges yet.</p>
+            ) : (
+              <ul className="divide-y text-sm">
+                {logs.map((log) => (
+                  <li key={log.id} className="py-2 flex justify-between gap-4">
+                    <span>
+                      <span className="text-muted-foreground">{log.entityType.toLowerCase()}</span>{' '}
+                      {log.sourceName} → {log.targetName}
+                    </span>
+                    <span className="text-muted-foreground whitespace-nowrap">
+                      {formatShortDate(log.createdAt)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+
+      <BottomNav />
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+// Admin Dashboard Page
+// ✅ Code Quality Agent: Maintenance jobs with their last run, plus links to the other admin tools
+
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { useCallback, useEffect, useState } from 'react';
+import { CheckCircle2, ChevronRight, GitMerge, Loader2, Play, ShieldAlert, XCircle } from 'lucide-react';
+import { Header } from '@/components/layout/Header';
+import { BottomNav } from '@/components/layout/BottomNav';
+import { Button } from '@/components/ui/Button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { formatShortDate } from '@/lib/utils';
+
+interface JobRun {
+  id: string;
+  status: 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+  result: Record<string, unknown> | null;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface JobSummary {
+  id: string;
+  name: string;
+  description: string;
+  lastRun: JobRun | null;
+}
+
+function formatDuration(run: JobRun): string {
+  if (!run.finishedAt) return 'running';
+  const ms = new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime();
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function RunStatus({ run }: { run: JobRun }) {
+  if (run.status === 'RUNNING') {
+    return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+  }
+  return run.status === 'SUCCEEDED' ? (
+    <CheckCircle2 className="h-4 w-4 text-green-600" />
+  ) : (
+    <XCircle className="h-4 w-4 text-red-600" />
+  );
+}
+
+export default function AdminPage() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [runningJob, setRunningJob] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/auth/signin');
+    }
+  }, [status, router]);
+
+  const loadJobs = useCallback(async () => {
+    const res = await fetch('/api/admin/jobs');
+    const data = await res.json();
+    if (data.success) {
+      setJobs(data.data);
+    } else {
+      setError(data.error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (session?.user?.role === 'ADMIN') loadJobs();
+  }, [session?.user?.role, loadJobs]);
+
+  const handleRun = async (jobId: string) => {
+    setRunningJob(jobId);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/jobs/${jobId}`, { method: 'POST' });
+      const data = await res.json();
+      if (!data.success) setError(data.error);
+    } finally {
+      setRunningJob(null);
+      await loadJobs();
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!session?.user) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen pb-20">
+      <Header title="Admin" />
+
+      <main className="px-4 py-6 max-w-4xl mx-auto space-y-6">
+        <h1 className="text-2xl font-bold">Admin</h1>
+
+        {session.user.role !== 'ADMIN' ? (
+          <Card>
+            <CardContent className="py-8 flex flex-col items-center gap-2 text-center">
+              <ShieldAlert className="h-8 w-8 text-muted-foreground" />
+              <p className="font-medium">Admin access required</p>
+              <p className="text-sm text-muted-foreground">
+                Ask an admin to run <code>npm run job -- grant-admin {session.user.email ?? '<email>'}</code>
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            {error && (
+              <div className="p-3 rounded-lg bg-red-50 dark:bg-red-950 text-red-700 dark:text-red-300 text-sm">
+                {error}
+              </div>
+            )}
+
+            <Link href="/admin/merge">
+              <Card className="hover:bg-secondary transition-colors">
+                <CardContent className="py-4 flex items-center gap-3">
+                  <GitMerge className="h-5 w-5" />
+                  <div className="flex-1">
+                    <p className="font-medium">Merge duplicates</p>
+                    <p className="text-sm text-muted-foreground">Teams, players, artists and venues</p>
+                  </div>
+                  <ChevronRight className="h-5 w-5 text-muted-foreground" />
+                </CardContent>
+              </Card>
+            </Link>
+
+            <h2 className="text-lg font-semibold">Maintenance jobs</h2>
+            {jobs.map((job) => (
+              <Card key={job.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle>{job.name}</CardTitle>
+                      <CardDescription>{job.description}</CardDescription>
+                    </div>
+                    <Button
+                      size="sm"
+                      onClick={() => handleRun(job.id)}
+                      isLoading={runningJob === job.id}
+                      disabled={runningJob !== null}
+                    >
+                      <Play className="h-4 w-4 mr-1" />
+                      Run
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {job.lastRun ? (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2 text-sm">
+                        <RunStatus run={job.lastRun} />
+                        <span>
+                          Last run {formatShortDate(job.lastRun.startedAt)} ·{' '}
+                          {new Date(job.lastRun.startedAt).toLocaleTimeString()} ·{' '}
+                          {formatDuration(job.lastRun)}
+                        </span>
+                      </div>
+                      {job.lastRun.error && (
+                        <p className="text-sm text-red-600">{job.lastRun.error}</p>
+                      )}
+                      {job.lastRun.result && (
+                        <pre className="text-xs bg-muted rounded-md p-3 overflow-x-auto max-h-48">
+                          {JSON.stringify(job.lastRun.result, null, 2)}
+                        </pre>
+                      )}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">Never run</p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </>
+        )}
+      </main>
+
+      <BottomNav />
+    </div>
+  );
+}
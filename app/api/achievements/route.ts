@@ -7,6 +7,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { ACHIEVEMENTS } from '@/lib/achievements/definitions';
+import { computeAchievementProgress, loadAchievementInputs } from '@/lib/achievements/evaluator';
 
 export async function GET() {
   try {
@@ -33,73 +34,18 @@ export async function GET() {
       orderBy: { unlockedAt: 'desc' },
     });
 
-    // Get stats for progress calculation
-    const [
-      totalEvents,
-      eventsByType,
-      uniqueVenues,
-      uniqueCountries,
-    ] = await Promise.all([
-      prisma.event.count({ where: { userId } }),
-      prisma.event.groupBy({
-        by: ['type'],
-        where: { userId },
-        _count: { type: true },
-      }),
-      prisma.event.findMany({
-        where: { userId },
-        select: { venueId: true },
-        distinct: ['venueId'],
-      }),
-      prisma.venue.findMany({
-        where: {
-          events: { some: { userId } },
-        },
-        select: { country: true },
-        distinct: ['country'],
-      }),
-    ]);
-
-    // Build progress map
-    const progressMap: Record<string, { current: number; target: number }> = {};
-    const eventTypeCount: Record<string, number> = {};
-    for (const item of eventsByType) {
-      eventTypeCount[item.type] = item._count.type;
-    }
-
-    // Calculate progress for each achievement
-    for (const achievement of ACHIEVEMENTS) {
-      const { criteria } = achievement;
-      let current = 0;
-      const target = criteria.threshold || 1;
-
-      switch (criteria.type) {
-        case 'total_events':
-          current = totalEvents;
-          break;
-        case 'events_by_type':
-          current = eventTypeCount[criteria.eventType as string] || 0;
-          break;
-        case 'unique_venues':
-          current = uniqueVenues.length;
-          break;
-        case 'unique_countries':
-          current = uniqueCountries.length;
-          break;
-        default:
-          // For complex criteria, we'd need more specific queries
-          current = 0;
-      }
-
-      progressMap[achievement.id] = { current, target };
-    }
+    // Replay the user's events to get progress for every criteria type
+    const { events, context } = await loadAchievementInputs(userId);
+    const progressMap = new Map(
+      computeAchievementProgress(events, context).map((p) => [p.achievementId, p])
+    );
 
     // Combine all achievements with unlock status and progress
     const allAchievements = ACHIEVEMENTS.map((def) => {
       const unlocked = userAchievements.find(
         (ua) => ua.achievement.name === def.name
       );
-      const progress = progressMap[def.id] || { current: 0, target: 1 };
+      const progress = progressMap.get(def.id) || { current: 0, target: 1 };
 
       return {
         ...def,
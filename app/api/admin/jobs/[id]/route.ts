@@ -0,0 +1,49 @@
+// Admin: Run Maintenance Job
+// Runs one job by id and returns the recorded run
+// Admin only
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin/guard';
+import { getMaintenanceJob, JobAlreadyRunError, runMaintenanceJob } from '@/lib/admin/jobs';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const admin = await requireAdmin();
+    if (!admin.ok) return admin.response;
+
+    const { id } = await params;
+    const job = getMaintenanceJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { success: false, error: `Unknown job: ${id}` },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const run = await runMaintenanceJob(
+      job,
+      { userId: typeof body?.userId === 'string' ? body.userId : undefined },
+      admin.userId
+    );
+
+    return NextResponse.json({ success: true, data: run });
+  } catch (error) {
+    if (error instanceof JobAlreadyRunError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 409 }
+      );
+    }
+    // The failed run is already recorded with its error
+    console.error('Job run error:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Job failed' },
+      { status: 500 }
+    );
+  }
+}
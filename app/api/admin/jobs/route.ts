@@ -0,0 +1,24 @@
+// Admin: Maintenance Jobs
+// Lists the maintenance jobs with their most recent run
+// Admin only
+
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin/guard';
+import { listMaintenanceJobs } from '@/lib/admin/jobs';
+
+export async function GET() {
+  try {
+    const admin = await requireAdmin();
+    if (!admin.ok) return admin.response;
+
+    const jobs = await listMaintenanceJobs();
+
+    return NextResponse.json({ success: true, data: jobs });
+  } catch (error) {
+    console.error('Job list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list jobs' },
+      { status: 500 }
+    );
+  }
+}
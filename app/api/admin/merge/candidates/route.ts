@@ -0,0 +1,45 @@
+// Admin: Duplicate Candidates
+// Likely duplicate teams, players, artists or venues, scored by name similarity
+// Admin only
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin/guard';
+import { findMergeCandidates, MERGE_ENTITIES } from '@/lib/db/merge-candidates';
+
+const querySchema = z.object({
+  entity: z.enum(MERGE_ENTITIES),
+  sport: z.enum(['SOCCER', 'BASKETBALL', 'BASEBALL', 'TENNIS']).optional(),
+  minScore: z.coerce.number().min(0).max(100).optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if (!admin.ok) return admin.response;
+
+    const params = request.nextUrl.searchParams;
+    const parseResult = querySchema.safeParse({
+      entity: params.get('entity'),
+      sport: params.get('sport') || undefined,
+      minScore: params.get('minScore') || undefined,
+    });
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query', details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+    const { entity, sport, minScore } = parseResult.data;
+
+    const candidates = await findMergeCandidates(entity, { sport, minScore });
+
+    return NextResponse.json({ success: true, data: candidates });
+  } catch (error) {
+    console.error('Merge candidates error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to find duplicate candidates' },
+      { status: 500 }
+    );
+  }
+}
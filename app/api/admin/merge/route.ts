@@ -0,0 +1,78 @@
+// Admin: Merge Duplicate Records
+// Preview or perform a team/player/artist/venue merge, and list the merge audit log
+// Admin only
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin/guard';
+import { MERGE_ENTITIES } from '@/lib/db/merge-candidates';
+import { listMergeLogs, mergeRecords, MergeError, previewMerge } from '@/lib/db/merge';
+import { recomputeAchievementsSafely } from '@/lib/achievements/evaluator';
+
+const mergeSchema = z.object({
+  entity: z.enum(MERGE_ENTITIES),
+  sourceId: z.string().min(1, 'Source is required'),
+  targetId: z.string().min(1, 'Target is required'),
+  dryRun: z.boolean().default(false),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if (!admin.ok) return admin.response;
+
+    const limit = Math.min(Number(request.nextUrl.searchParams.get('limit')) || 50, 200);
+    const logs = await listMergeLogs(limit);
+
+    return NextResponse.json({ success: true, data: logs });
+  } catch (error) {
+    console.error('Merge log list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list merges' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if (!admin.ok) return admin.response;
+
+    const body = await request.json().catch(() => ({}));
+    const parseResult = mergeSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+    const { entity, sourceId, targetId, dryRun } = parseResult.data;
+
+    if (dryRun) {
+      const preview = await previewMerge(entity, sourceId, targetId);
+      return NextResponse.json({ success: true, data: preview });
+    }
+
+    const { log, userIds } = await mergeRecords(entity, sourceId, targetId, admin.userId);
+
+    // Merged players/teams can change counts behind achievements for every owner of an affected event
+    for (const userId of userIds) {
+      await recomputeAchievementsSafely(userId);
+    }
+
+    return NextResponse.json({ success: true, data: log });
+  } catch (error) {
+    if (error instanceof MergeError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Merge error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to merge records' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+// Admin: Migrate Team References
+// Links existing soccer/basketball/baseball matches to Team rows and seeds TeamAlias
+// Admin only - also available as the "migrate-teams" job
+
+import { NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin/guard';
+import { getMaintenanceJob, runMaintenanceJob } from '@/lib/admin/jobs';
+
+export async function POST() {
+  try {
+    const admin = await requireAdmin();
+    if (!admin.ok) return admin.response;
+
+    // Only touches matches that aren't linked yet, so re-running is cheap
+    const run = await runMaintenanceJob(getMaintenanceJob('migrate-teams')!, {}, admin.userId);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Team reference migration complete',
+      results: run.result,
+    });
+  } catch (error) {
+    console.error('Team migration error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to migrate team references' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+// Admin: Recompute Achievements
+// Re-derives every user's unlocked achievements from their current events
+// Admin only - also available as the "recompute-achievements" job
+
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin/guard';
+import { getMaintenanceJob, runMaintenanceJob } from '@/lib/admin/jobs';
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if (!admin.ok) return admin.response;
+
+    // Optionally limit the run to a single user
+    const body = await request.json().catch(() => ({}));
+    const run = await runMaintenanceJob(
+      getMaintenanceJob('recompute-achievements')!,
+      { userId: typeof body?.userId === 'string' ? body.userId : undefined },
+      admin.userId
+    );
+
+    return NextResponse.json({
+      success: true,
+      summary: run.result,
+    });
+  } catch (error) {
+    console.error('Achievement recompute error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Recompute failed' },
+      { status: 500 }
+    );
+  }
+}
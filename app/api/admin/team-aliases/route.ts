@@ -0,0 +1,102 @@
+// Admin: Team Aliases
+// List, add and remove the alternate names that resolve to a canonical team
+// Admin only
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { requireAdmin } from '@/lib/admin/guard';
+import { deleteTeamAlias, listTeamAliases, setTeamAlias } from '@/lib/db/teams';
+import { findOrCreateTeam } from '@/lib/api/team-logos';
+
+const teamSportSchema = z.enum(['SOCCER', 'BASKETBALL', 'BASEBALL']);
+
+const aliasSchema = z.object({
+  alias: z.string().trim().min(1, 'Alias is required'),
+  teamName: z.string().trim().min(1, 'Team name is required'),
+  sport: teamSportSchema,
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if (!admin.ok) return admin.response;
+
+    const sport = teamSportSchema.safeParse(request.nextUrl.searchParams.get('sport'));
+    const aliases = await listTeamAliases(sport.success ? sport.data : undefined);
+
+    return NextResponse.json({ success: true, data: aliases });
+  } catch (error) {
+    console.error('Team aliases list error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to list team aliases' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if (!admin.ok) return admin.response;
+
+    const body = await request.json().catch(() => ({}));
+    const parseResult = aliasSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+    const { alias, teamName, sport } = parseResult.data;
+
+    const team = await findOrCreateTeam(teamName, sport);
+    if (team.name === alias) {
+      return NextResponse.json(
+        { success: false, error: `"${alias}" is already the team's name` },
+        { status: 400 }
+      );
+    }
+    const created = await setTeamAlias(alias, team.id);
+
+    // Applies to names resolved from now on - matches already linked keep their team
+    return NextResponse.json(
+      { success: true, data: { ...created, teamName: team.name } },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Team alias create error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to save team alias' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const admin = await requireAdmin();
+    if (!admin.ok) return admin.response;
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Query parameter "id" is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await deleteTeamAlias(id))) {
+      return NextResponse.json(
+        { success: false, error: 'Alias not found' },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Team alias delete error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete team alias' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,7 +5,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getGameDetails, getGameBoxScore, processBoxScore } from '@/lib/api/mlb';
+import {
+  getGameDetails,
+  getGameBoxScore,
+  getGameLineScore,
+  processBoxScore,
+  processLineScore,
+} from '@/lib/api/mlb';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -32,31 +38,59 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Fetch game details and box score in parallel
-    const [gameDetails, boxScore] = await Promise.all([
+    // Fetch game details, box score and line score in parallel (the line score is optional)
+    const [gameDetails, boxScore, lineScore] = await Promise.all([
       getGameDetails(gameId),
       getGameBoxScore(gameId),
+      getGameLineScore(gameId).catch(() => null),
     ]);
 
     // Process box score into player appearances
-    const { homeStats, awayStats } = processBoxScore(boxScore);
+    const { homeStats, awayStats, homePitching, awayPitching } = processBoxScore(boxScore);
 
-    // Combine all players with team designation (KEY STATS ONLY: HR & RBI)
+    // Pitching lines ride along with the player's batting line
+    const pitchingById = new Map(
+      [...homePitching, ...awayPitching].map((p) => [
+        p.playerId,
+        {
+          inningsPitched: p.inningsPitched,
+          hits: p.hits,
+          runs: p.runs,
+          earnedRuns: p.earnedRuns,
+          walks: p.walks,
+          strikeOuts: p.strikeOuts,
+          pitchCount: p.pitchCount,
+          decision: p.decision,
+        },
+      ])
+    );
+
+    // Combine all players with team designation (KEY STATS: HR & RBI, plus pitching)
+    const batters = [
+      ...homeStats.map((p) => ({ ...p, team: 'home' as const })),
+      ...awayStats.map((p) => ({ ...p, team: 'away' as const })),
+    ];
+    const battedIds = new Set(batters.map((p) => p.playerId));
     const players = [
-      ...homeStats.map((p) => ({
-        playerId: p.playerId,
-        playerName: p.playerName,
-        team: 'home' as const,
-        homeRuns: p.homeRuns,
-        rbis: p.rbis,
-      })),
-      ...awayStats.map((p) => ({
+      ...batters.map((p) => ({
         playerId: p.playerId,
         playerName: p.playerName,
-        team: 'away' as const,
+        team: p.team,
         homeRuns: p.homeRuns,
         rbis: p.rbis,
+        pitching: pitchingById.get(p.playerId),
       })),
+      // Pitchers who didn't bat
+      ...[...homePitching, ...awayPitching]
+        .filter((p) => !battedIds.has(p.playerId))
+        .map((p) => ({
+          playerId: p.playerId,
+          playerName: p.playerName,
+          team: p.isHome ? ('home' as const) : ('away' as const),
+          homeRuns: 0,
+          rbis: 0,
+          pitching: pitchingById.get(p.playerId),
+        })),
     ];
 
     return NextResponse.json({
@@ -74,6 +108,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           gameType: gameDetails.gameType,
         },
         players,
+        // Runs by inning
+        lineScore: lineScore ? processLineScore(lineScore) : null,
         // Summary stats
         summary: {
           homeTotalHits: homeStats.reduce((sum, p) => sum + p.hits, 0),
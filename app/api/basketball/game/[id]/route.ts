@@ -5,7 +5,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getGameDetails, getGameStats, processGameStats } from '@/lib/api/balldontlie';
+import {
+  getGameDetails,
+  getGameStats,
+  processGameLineScore,
+  processGameStats,
+} from '@/lib/api/balldontlie';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -72,6 +77,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           postseason: gameDetails.postseason,
         },
         players,
+        // Points by quarter
+        lineScore: processGameLineScore(gameDetails),
         // Summary stats
         summary: {
           homeTotalPoints: homeStats.reduce((sum, p) => sum + p.points, 0),
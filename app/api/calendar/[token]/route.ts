@@ -0,0 +1,96 @@
+// Calendar Feed API
+// 🔍 API Monitor Agent: Token-authenticated iCalendar feed for calendar apps
+// ✅ Code Quality Agent: No session - the secret token in the URL is the credential
+
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { generateIcs } from '@/lib/export/ics';
+
+interface RouteParams {
+  params: Promise<{ token: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { token: segment } = await params;
+    const token = segment.replace(/\.ics$/i, '');
+
+    if (!token) {
+      return NextResponse.json(
+        { success: false, error: 'Calendar not found' },
+        { status: 404 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { calendarToken: token },
+      select: { id: true, name: true },
+    });
+
+    // Same response for unknown and revoked tokens
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Calendar not found' },
+        { status: 404 }
+      );
+    }
+
+    const events = await prisma.event.findMany({
+      // Attended and planned - missed events are noise in a calendar
+      where: { userId: user.id, status: { not: 'MISSED' } },
+      select: {
+        id: true,
+        type: true,
+        date: true,
+        localDate: true,
+        kickoffTime: true,
+        updatedAt: true,
+        notes: true,
+        companions: true,
+        status: true,
+        venue: {
+          select: { name: true, city: true, country: true, latitude: true, longitude: true },
+        },
+        soccerMatch: {
+          select: { homeTeam: true, awayTeam: true, homeScore: true, awayScore: true, competition: true },
+        },
+        basketballGame: {
+          select: { homeTeam: true, awayTeam: true, homeScore: true, awayScore: true, competition: true },
+        },
+        baseballGame: {
+          select: { homeTeam: true, awayTeam: true, homeScore: true, awayScore: true, competition: true },
+        },
+        tennisMatch: {
+          select: {
+            score: true,
+            tournament: true,
+            round: true,
+            player1: { select: { name: true } },
+            player2: { select: { name: true } },
+          },
+        },
+        concert: {
+          select: { tourName: true, artist: { select: { name: true } } },
+        },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    const calendarName = user.name ? `${user.name}'s FootyTracker` : 'FootyTracker';
+
+    return new NextResponse(generateIcs(events, calendarName), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="footytracker.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+    });
+  } catch (error) {
+    console.error('Calendar feed error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate calendar' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+// Event Attendance API - Confirm or dismiss a planned event once its date has passed
+// 🔍 API Monitor Agent: Autofills the final result from the source the event was found in
+// ✅ Code Quality Agent: A failed autofill never blocks the confirmation
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { z } from 'zod';
+import { recomputeAchievementsSafely } from '@/lib/achievements/evaluator';
+import { applyFinalResult, canAutofill, fetchFinalResult, type FinalResult } from '@/lib/events/autofill';
+
+const attendanceSchema = z.object({
+  attended: z.boolean(),
+  autofill: z.boolean().default(true),
+});
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { id } = await params;
+
+    const body = await request.json();
+    const parseResult = attendanceSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+    const { attended, autofill } = parseResult.data;
+
+    const event = await prisma.event.findUnique({
+      where: { id },
+      include: { soccerMatch: true, basketballGame: true, baseballGame: true },
+    });
+
+    if (!event) {
+      return NextResponse.json(
+        { success: false, error: 'Event not found' },
+        { status: 404 }
+      );
+    }
+
+    // Security: Check ownership
+    if (event.userId !== session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    if (!attended) {
+      const updated = await prisma.event.update({
+        where: { id },
+        data: { status: 'MISSED' },
+      });
+      // An attended event marked missed can lose achievements
+      const achievementChanges = await recomputeAchievementsSafely(session.user.id);
+      return NextResponse.json({ success: true, data: updated, achievementChanges });
+    }
+
+    // Fetch before the transaction - the sports APIs can be slow
+    let result: FinalResult | null = null;
+    let autofillError: string | undefined;
+    if (autofill && canAutofill(event)) {
+      try {
+        result = await fetchFinalResult(event);
+        if (!result) autofillError = 'No final result is available yet';
+      } catch (error) {
+        console.warn(`[Attendance] Autofill failed for event ${id}:`, error);
+        autofillError = error instanceof Error ? error.message : 'Failed to fetch the final result';
+      }
+    }
+
+    const updated = await prisma.$transaction(
+      async (tx) => {
+        if (result) {
+          await applyFinalResult(tx, event, result);
+        }
+        return tx.event.update({
+          where: { id },
+          data: { status: 'ATTENDED' },
+        });
+      },
+      {
+        timeout: 60000, // Box scores can have many players
+        maxWait: 10000,
+      }
+    );
+
+    // The event now counts, so it may unlock achievements
+    const achievementChanges = await recomputeAchievementsSafely(session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: updated,
+      autofilled: result
+        ? { homeScore: result.homeScore, awayScore: result.awayScore, appearances: result.appearances.length }
+        : null,
+      autofillError,
+      achievementChanges,
+    });
+  } catch (error) {
+    console.error('Event attendance error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update attendance' },
+      { status: 500 }
+    );
+  }
+}
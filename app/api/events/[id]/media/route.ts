@@ -0,0 +1,152 @@
+// Event Media API Route - GET list, POST multipart upload
+// 🔍 API Monitor Agent: Ownership check, size/type validation before storing
+// ✅ Code Quality Agent: Storage backend chosen by MEDIA_STORAGE
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  MediaValidationError,
+  deleteMediaBlobs,
+  inferMediaType,
+  storeMediaFile,
+  validateUpload,
+} from '@/lib/media';
+
+const uploadFieldsSchema = z.object({
+  type: z.enum(['PHOTO', 'VIDEO', 'TICKET']).optional(),
+  caption: z.string().max(500).optional(),
+});
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+// Resolve the event and make sure the session user owns it
+async function authorize(id: string) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return {
+      error: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }),
+    };
+  }
+
+  const event = await prisma.event.findUnique({
+    where: { id },
+    select: { id: true, userId: true },
+  });
+
+  if (!event) {
+    return {
+      error: NextResponse.json({ success: false, error: 'Event not found' }, { status: 404 }),
+    };
+  }
+  if (event.userId !== session.user.id) {
+    return {
+      error: NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 }),
+    };
+  }
+
+  return { userId: session.user.id, event };
+}
+
+// GET - List media for an event
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const auth = await authorize(id);
+    if ('error' in auth) return auth.error;
+
+    const media = await prisma.media.findMany({
+      where: { eventId: id },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ success: true, data: media });
+  } catch (error) {
+    console.error('Media GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch media' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Upload a photo, video or ticket scan (multipart/form-data: file, type?, caption?)
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const auth = await authorize(id);
+    if ('error' in auth) return auth.error;
+
+    let formData: FormData;
+    try {
+      formData = await request.formData();
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Expected multipart/form-data' },
+        { status: 400 }
+      );
+    }
+
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: 'Missing file' },
+        { status: 400 }
+      );
+    }
+
+    const fields = uploadFieldsSchema.safeParse({
+      type: formData.get('type') || undefined,
+      caption: formData.get('caption') || undefined,
+    });
+    if (!fields.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: fields.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const type = fields.data.type ?? inferMediaType(file.type);
+    validateUpload(type, file.type, file.size);
+
+    const stored = await storeMediaFile(
+      auth.userId,
+      id,
+      Buffer.from(await file.arrayBuffer()),
+      file.type
+    );
+
+    try {
+      const media = await prisma.media.create({
+        data: {
+          eventId: id,
+          type,
+          caption: fields.data.caption || null,
+          ...stored,
+        },
+      });
+
+      return NextResponse.json({ success: true, data: media }, { status: 201 });
+    } catch (error) {
+      // Don't leave orphaned blobs behind if the row couldn't be written
+      await deleteMediaBlobs([{ id: '', ...stored }]);
+      throw error;
+    }
+  } catch (error) {
+    if (error instanceof MediaValidationError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Media POST error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to upload media' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,26 +7,136 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import { recomputeAchievementsSafely } from '@/lib/achievements/evaluator';
+import { deleteMediaBlobs } from '@/lib/media';
+import {
+  eventDateSchema,
+  eventStatusSchema,
+  kickoffTimeSchema,
+  lineScoreSchema,
+  matchTimelineSchema,
+  supportedSideSchema,
+} from '@/lib/events/schemas';
+import { saveTennisScore } from '@/lib/events/tennis';
+import { saveLineScore } from '@/lib/events/line-score';
+import { saveMatchTimeline } from '@/lib/events/match-timeline';
+import { CupTieError, saveCupTie } from '@/lib/events/cup-tie';
+import { shootoutIssues } from '@/lib/utils/match-result';
+import { parseTennisScore } from '@/lib/utils/tennis-score';
+import { localDayKey, resolveEventTiming } from '@/lib/utils/timezone';
 
 // Validation schema for event updates (all fields optional for partial update)
 const updateEventSchema = z.object({
-  date: z.string().transform((s) => new Date(s)).optional(),
+  date: eventDateSchema.optional(),
+  kickoffTime: kickoffTimeSchema.optional().nullable(), // Venue-local; null makes it date-only
   venueName: z.string().min(1).optional(),
   venueCity: z.string().optional(),
   notes: z.string().optional().nullable(),
   rating: z.number().min(1).max(5).optional().nullable(),
   companions: z.array(z.string()).optional(),
+  status: eventStatusSchema.optional(),
+  supportedSide: supportedSideSchema.optional().nullable(), // Team sports; null clears the tag
   // Sport-specific fields
   homeScore: z.number().min(0).optional(),
   awayScore: z.number().min(0).optional(),
+  lineScore: lineScoreSchema.optional(), // Team sports; an empty list clears it
+  timeline: matchTimelineSchema.optional(), // Soccer; an empty list clears it
+  extraTime: z.boolean().optional(), // Soccer
+  homePenalties: z.number().int().min(0).optional().nullable(), // Soccer; null clears the shootout
+  awayPenalties: z.number().int().min(0).optional().nullable(),
+  firstLegEventId: z.string().optional().nullable(), // Soccer second legs; null unlinks the tie
   score: z.string().optional(), // Tennis
   tourName: z.string().optional(), // Concert
+  // Optimistic concurrency: the updatedAt the client last saw
+  expectedUpdatedAt: z.string().transform((s) => new Date(s)).optional(),
 });
 
+// Thrown inside the update transaction when another write got there first
+class VersionConflictError extends Error {}
+
+// Full event shape returned by GET, PUT and conflict responses
+const fullEventInclude = {
+  venue: true,
+  media: true,
+  periodScores: {
+    orderBy: { period: 'asc' },
+  },
+  soccerMatch: {
+    include: {
+      appearances: {
+        include: { player: true },
+      },
+      timeline: {
+        include: { player: true, relatedPlayer: true },
+        orderBy: [{ minute: 'asc' }, { extraMinute: 'asc' }, { order: 'asc' }],
+      },
+      firstLeg: true,
+      secondLeg: true,
+    },
+  },
+  basketballGame: {
+    include: {
+      appearances: {
+        include: { player: true },
+      },
+    },
+  },
+  baseballGame: {
+    include: {
+      appearances: {
+        include: { player: true },
+      },
+      pitching: {
+        include: { player: true },
+        orderBy: { order: 'asc' },
+      },
+    },
+  },
+  tennisMatch: {
+    include: {
+      player1: true,
+      player2: true,
+      winner: true,
+      appearances: {
+        include: { player: true },
+      },
+      sets: {
+        orderBy: { setNumber: 'asc' },
+      },
+    },
+  },
+  concert: {
+    include: {
+      artist: true,
+      setlist: {
+        orderBy: { order: 'asc' },
+      },
+    },
+  },
+} satisfies Prisma.EventInclude;
+
 interface RouteParams {
   params: Promise<{ id: string }>;
 }
 
+// 409 response carrying the current server copy so the client can resolve
+async function conflictResponse(id: string) {
+  const serverEvent = await prisma.event.findUnique({
+    where: { id },
+    include: fullEventInclude,
+  });
+
+  return NextResponse.json(
+    {
+      success: false,
+      error: 'Event was changed on the server since this edit was made',
+      data: serverEvent,
+    },
+    { status: 409 }
+  );
+}
+
 // GET - Fetch single event with all relations
 export async function GET(request: NextRequest, { params }: RouteParams) {
   try {
@@ -42,49 +152,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     const event = await prisma.event.findUnique({
       where: { id },
-      include: {
-        venue: true,
-        media: true,
-        soccerMatch: {
-          include: {
-            appearances: {
-              include: { player: true },
-            },
-          },
-        },
-        basketballGame: {
-          include: {
-            appearances: {
-              include: { player: true },
-            },
-          },
-        },
-        baseballGame: {
-          include: {
-            appearances: {
-              include: { player: true },
-            },
-          },
-        },
-        tennisMatch: {
-          include: {
-            player1: true,
-            player2: true,
-            winner: true,
-            appearances: {
-              include: { player: true },
-            },
-          },
-        },
-        concert: {
-          include: {
-            artist: true,
-            setlist: {
-              orderBy: { order: 'asc' },
-            },
-          },
-        },
-      },
+      include: fullEventInclude,
     });
 
     if (!event) {
@@ -133,7 +201,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       where: { id },
       include: {
         venue: true,
-        soccerMatch: true,
+        soccerMatch: { include: { firstLeg: { select: { eventId: true } } } },
         basketballGame: true,
         baseballGame: true,
         tennisMatch: true,
@@ -169,10 +237,43 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
     const validated = parseResult.data;
 
+    if (existingEvent.type === 'TENNIS' && validated.score?.trim()) {
+      const { errors } = parseTennisScore(validated.score);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid score', details: errors },
+          { status: 400 }
+        );
+      }
+    }
+
+    if (existingEvent.soccerMatch) {
+      // Check the shootout as it will be saved, so one side can't be cleared on its own
+      const errors = shootoutIssues(
+        validated.homePenalties !== undefined ? validated.homePenalties : existingEvent.soccerMatch.homePenalties,
+        validated.awayPenalties !== undefined ? validated.awayPenalties : existingEvent.soccerMatch.awayPenalties
+      );
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid penalty shootout', details: errors },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Reject edits made against a stale copy of the event
+    if (
+      validated.expectedUpdatedAt &&
+      validated.expectedUpdatedAt.getTime() !== existingEvent.updatedAt.getTime()
+    ) {
+      return conflictResponse(id);
+    }
+
     // Update event with transaction
     const updatedEvent = await prisma.$transaction(async (tx) => {
       // Handle venue update if venue fields provided
       let venueId = existingEvent.venueId;
+      let timezone = existingEvent.venue.timezone;
       if (validated.venueName) {
         // Find or create venue
         let venue = await tx.venue.findFirst({
@@ -193,22 +294,37 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
           });
         }
         venueId = venue.id;
+        timezone = venue.timezone;
       }
 
       // Update the base event
       const eventUpdate: Record<string, unknown> = {};
-      if (validated.date) eventUpdate.date = validated.date;
+      if (validated.date || validated.kickoffTime !== undefined || venueId !== existingEvent.venueId) {
+        // Re-resolve against the (possibly new) venue's zone, keeping whatever wasn't edited
+        Object.assign(
+          eventUpdate,
+          resolveEventTiming(
+            validated.date ?? (existingEvent.localDate ? localDayKey(existingEvent) : existingEvent.date),
+            validated.kickoffTime !== undefined ? validated.kickoffTime : existingEvent.kickoffTime,
+            timezone
+          )
+        );
+      }
       if (venueId !== existingEvent.venueId) eventUpdate.venueId = venueId;
       if (validated.notes !== undefined) eventUpdate.notes = validated.notes;
       if (validated.rating !== undefined) eventUpdate.rating = validated.rating;
       if (validated.companions) eventUpdate.companions = validated.companions;
-
-      // Only update event if there are changes
-      if (Object.keys(eventUpdate).length > 0) {
-        await tx.event.update({
-          where: { id },
-          data: eventUpdate,
-        });
+      if (validated.status) eventUpdate.status = validated.status;
+      if (validated.supportedSide !== undefined) eventUpdate.supportedSide = validated.supportedSide;
+
+      // Always bump updatedAt (it doubles as the version), guarding against
+      // a concurrent write that landed after the version check above
+      const { count } = await tx.event.updateMany({
+        where: { id, updatedAt: existingEvent.updatedAt },
+        data: { ...eventUpdate, updatedAt: new Date() },
+      });
+      if (count === 0) {
+        throw new VersionConflictError();
       }
 
       // Update sport-specific data based on event type
@@ -216,11 +332,26 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         const soccerUpdate: Record<string, unknown> = {};
         if (validated.homeScore !== undefined) soccerUpdate.homeScore = validated.homeScore;
         if (validated.awayScore !== undefined) soccerUpdate.awayScore = validated.awayScore;
-        if (Object.keys(soccerUpdate).length > 0) {
-          await tx.soccerMatch.update({
+        if (validated.extraTime !== undefined) soccerUpdate.extraTime = validated.extraTime;
+        if (validated.homePenalties !== undefined) soccerUpdate.homePenalties = validated.homePenalties;
+        if (validated.awayPenalties !== undefined) soccerUpdate.awayPenalties = validated.awayPenalties;
+        if (Object.keys(soccerUpdate).length > 0 || validated.firstLegEventId !== undefined) {
+          const match = await tx.soccerMatch.update({
             where: { id: existingEvent.soccerMatch.id },
             data: soccerUpdate,
           });
+          // Re-check the tie against the new score, keeping the first leg unless it was changed
+          await saveCupTie(
+            tx,
+            session.user.id,
+            match,
+            validated.firstLegEventId !== undefined
+              ? validated.firstLegEventId
+              : existingEvent.soccerMatch.firstLeg?.eventId ?? null
+          );
+        }
+        if (validated.timeline !== undefined) {
+          await saveMatchTimeline(tx, existingEvent.soccerMatch.id, validated.timeline);
         }
       }
 
@@ -248,14 +379,20 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         }
       }
 
+      const teamSport = existingEvent.soccerMatch || existingEvent.basketballGame || existingEvent.baseballGame;
+      if (teamSport && validated.lineScore !== undefined) {
+        await saveLineScore(tx, id, validated.lineScore);
+      }
+
       if (existingEvent.type === 'TENNIS' && existingEvent.tennisMatch) {
-        const tennisUpdate: Record<string, unknown> = {};
-        if (validated.score !== undefined) tennisUpdate.score = validated.score;
-        if (Object.keys(tennisUpdate).length > 0) {
-          await tx.tennisMatch.update({
-            where: { id: existingEvent.tennisMatch.id },
-            data: tennisUpdate,
-          });
+        if (validated.score !== undefined) {
+          // Re-derives sets and sets won; keeps the stored winner if the score can't name one
+          await saveTennisScore(
+            tx,
+            existingEvent.tennisMatch,
+            validated.score,
+            existingEvent.tennisMatch.winnerId
+          );
         }
       }
 
@@ -273,57 +410,29 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       // Fetch and return the updated event with all relations
       return tx.event.findUnique({
         where: { id },
-        include: {
-          venue: true,
-          media: true,
-          soccerMatch: {
-            include: {
-              appearances: {
-                include: { player: true },
-              },
-            },
-          },
-          basketballGame: {
-            include: {
-              appearances: {
-                include: { player: true },
-              },
-            },
-          },
-          baseballGame: {
-            include: {
-              appearances: {
-                include: { player: true },
-              },
-            },
-          },
-          tennisMatch: {
-            include: {
-              player1: true,
-              player2: true,
-              winner: true,
-              appearances: {
-                include: { player: true },
-              },
-            },
-          },
-          concert: {
-            include: {
-              artist: true,
-              setlist: {
-                orderBy: { order: 'asc' },
-              },
-            },
-          },
-        },
+        include: fullEventInclude,
       });
     });
 
+    // Edits can change scores, dates or venues, so unlocks may be gained or lost
+    const achievementChanges = await recomputeAchievementsSafely(session.user.id);
+
     return NextResponse.json({
       success: true,
       data: updatedEvent,
+      achievementChanges,
     });
   } catch (error) {
+    if (error instanceof VersionConflictError) {
+      const { id } = await params;
+      return conflictResponse(id);
+    }
+    if (error instanceof CupTieError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
     console.error('Event PUT error:', error);
     return NextResponse.json(
       { success: false, error: 'Failed to update event' },
@@ -348,7 +457,11 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     // First, fetch the event to check ownership
     const event = await prisma.event.findUnique({
       where: { id },
-      select: { userId: true, type: true },
+      select: {
+        userId: true,
+        type: true,
+        media: { select: { id: true, storageKey: true, thumbnailKey: true } },
+      },
     });
 
     if (!event) {
@@ -372,9 +485,16 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       where: { id },
     });
 
+    // Media rows cascade; their stored files need removing separately
+    await deleteMediaBlobs(event.media);
+
+    // Revoke achievements that depended on this event, re-point the rest
+    const achievementChanges = await recomputeAchievementsSafely(session.user.id);
+
     return NextResponse.json({
       success: true,
       message: 'Event deleted successfully',
+      achievementChanges,
     });
   } catch (error) {
     console.error('Event DELETE error:', error);
@@ -6,33 +6,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
-import { z } from 'zod';
+import { concertEventSchema } from '@/lib/events/schemas';
+import { createConcertEvent } from '@/lib/events/create';
 import { ensureVenueCoordinates, updateVenueCoordinates } from '@/lib/utils/geocode';
-
-// Input validation schema
-const concertEventSchema = z.object({
-  date: z.string().transform((s) => new Date(s)),
-  venueName: z.string().min(1, 'Venue name is required'),
-  venueCity: z.string().min(1, 'City is required'),
-  venueCountry: z.string().min(1, 'Country is required'),
-  artistName: z.string().min(1, 'Artist name is required'),
-  artistMbid: z.string().optional(),
-  tourName: z.string().optional(),
-  openingActs: z.array(z.string()).default([]),
-  externalSetlistId: z.string().optional(),
-  notes: z.string().optional(),
-  rating: z.number().min(1).max(5).optional(),
-  companions: z.array(z.string()).default([]),
-  // Venue coordinates from Setlist.fm
-  venueLatitude: z.number().optional(),
-  venueLongitude: z.number().optional(),
-  setlist: z.array(z.object({
-    songName: z.string().min(1),
-    order: z.number().min(1),
-    isEncore: z.boolean().default(false),
-    notes: z.string().optional(),
-  })).default([]),
-});
+import { evaluateAchievementsSafely } from '@/lib/achievements/evaluator';
 
 export async function POST(request: NextRequest) {
   try {
@@ -59,95 +36,9 @@ export async function POST(request: NextRequest) {
     const validated = parseResult.data;
 
     // Create event with transaction
-    const event = await prisma.$transaction(async (tx) => {
-      // Find or create venue
-      let venue = await tx.venue.findFirst({
-        where: {
-          name: validated.venueName,
-          city: validated.venueCity,
-          country: validated.venueCountry,
-        },
-      });
-
-      if (!venue) {
-        venue = await tx.venue.create({
-          data: {
-            name: validated.venueName,
-            city: validated.venueCity,
-            country: validated.venueCountry,
-            type: 'THEATER',
-          },
-        });
-      }
-
-      // Find or create artist
-      let artist = await tx.artist.findFirst({
-        where: { name: validated.artistName },
-      });
-
-      if (!artist) {
-        artist = await tx.artist.create({
-          data: {
-            name: validated.artistName,
-            externalId: validated.artistMbid,
-          },
-        });
-      }
-
-      // Create event
-      const newEvent = await tx.event.create({
-        data: {
-          type: 'CONCERT',
-          date: validated.date,
-          venueId: venue.id,
-          userId: session.user.id,
-          notes: validated.notes,
-          rating: validated.rating,
-          companions: validated.companions,
-          concert: {
-            create: {
-              artistId: artist.id,
-              tourName: validated.tourName,
-              openingActs: validated.openingActs,
-              externalSetlistId: validated.externalSetlistId,
-            },
-          },
-        },
-        include: {
-          venue: true,
-          concert: true,
-        },
-      });
-
-      // Create setlist items
-      if (validated.setlist.length > 0 && newEvent.concert) {
-        await tx.setlistItem.createMany({
-          data: validated.setlist.map((song) => ({
-            concertId: newEvent.concert!.id,
-            songName: song.songName,
-            order: song.order,
-            isEncore: song.isEncore,
-            notes: song.notes,
-          })),
-        });
-      }
-
-      // Fetch complete event with all relations
-      return tx.event.findUnique({
-        where: { id: newEvent.id },
-        include: {
-          venue: true,
-          concert: {
-            include: {
-              artist: true,
-              setlist: {
-                orderBy: { order: 'asc' },
-              },
-            },
-          },
-        },
-      });
-    });
+    const event = await prisma.$transaction(
+      (tx) => createConcertEvent(tx, session.user.id, validated)
+    );
 
     // Store venue coordinates (fire-and-forget)
     if (event?.venue) {
@@ -169,7 +60,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    return NextResponse.json({ success: true, data: event }, { status: 201 });
+    // Unlock any achievements this event earned
+    const unlockedAchievements = await evaluateAchievementsSafely(session.user.id);
+
+    return NextResponse.json(
+      { success: true, data: event, unlockedAchievements },
+      { status: 201 }
+    );
   } catch (error) {
     // 🧠 Error Memory Agent: Log error for tracking
     console.error('Concert event creation error:', error);
@@ -0,0 +1,65 @@
+// Fixture Local Date API
+// 🔍 API Monitor Agent: Places a searched fixture's kickoff on the venue's clock for the event forms
+// ✅ Code Quality Agent: localDate is null when the venue's zone can't be worked out
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { findVenueTimezone } from '@/lib/utils/geocode';
+import { toVenueLocal } from '@/lib/utils/timezone';
+
+const querySchema = z.object({
+  date: z.string().refine((s) => !Number.isNaN(new Date(s).getTime()), 'Invalid date'),
+  venueName: z.string().min(1),
+  venueCity: z.string().default(''),
+  venueCountry: z.string().default(''),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const parseResult = querySchema.safeParse({
+      date: params.get('date'),
+      venueName: params.get('venueName'),
+      venueCity: params.get('venueCity') || undefined,
+      venueCountry: params.get('venueCountry') || undefined,
+    });
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query', details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+    const { date, venueName, venueCity, venueCountry } = parseResult.data;
+
+    const timezone = await findVenueTimezone(venueName, venueCity, venueCountry);
+    if (!timezone) {
+      return NextResponse.json({ success: true, data: { timezone: null, localDate: null, kickoffTime: null } });
+    }
+
+    const local = toVenueLocal(new Date(date), timezone);
+    return NextResponse.json({
+      success: true,
+      data: {
+        timezone,
+        localDate: local.localDate.toISOString().split('T')[0],
+        kickoffTime: local.kickoffTime,
+      },
+    });
+  } catch (error) {
+    console.error('Fixture local date error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to resolve local date' },
+      { status: 500 }
+    );
+  }
+}
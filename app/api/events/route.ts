@@ -7,6 +7,7 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { z } from 'zod';
+import { parseSeason, periodEventWhere } from '@/lib/utils/seasons';
 
 // Query params validation schema
 const querySchema = z.object({
@@ -14,6 +15,12 @@ const querySchema = z.object({
   limit: z.coerce.number().min(1).max(100).default(50),
   offset: z.coerce.number().min(0).default(0),
   year: z.coerce.number().min(1900).max(2100).optional(),
+  season: z
+    .string()
+    .refine((value) => parseSeason(value) !== null, 'Invalid season')
+    .transform((value) => parseSeason(value) as number)
+    .optional(),
+  status: z.enum(['PLANNED', 'ATTENDED', 'MISSED']).optional(),
   sortBy: z.enum(['date', 'createdAt']).default('date'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
@@ -40,22 +47,20 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    const { type, limit, offset, year, sortBy, sortOrder } = parseResult.data;
+    const { type, limit, offset, year, season, status, sortBy, sortOrder } = parseResult.data;
 
     // Build where clause
     const where: Record<string, unknown> = {
       userId: session.user.id,
+      ...periodEventWhere({ year, season }),
     };
 
     if (type) {
       where.type = type;
     }
 
-    if (year) {
-      where.date = {
-        gte: new Date(`${year}-01-01`),
-        lt: new Date(`${year + 1}-01-01`),
-      };
+    if (status) {
+      where.status = status;
     }
 
     // Fetch events with full relations
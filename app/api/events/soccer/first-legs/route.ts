@@ -0,0 +1,56 @@
+// Cup Tie First Legs API
+// 🔍 API Monitor Agent: The user's earlier matches between two teams, to pick a first leg from
+// ✅ Code Quality Agent: ?exclude is the event being edited, so its own first leg stays listed
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { findFirstLegCandidates } from '@/lib/events/cup-tie';
+
+const querySchema = z.object({
+  homeTeam: z.string().min(1),
+  awayTeam: z.string().min(1),
+  before: z.string().transform((s) => new Date(s)).optional(),
+  exclude: z.string().optional(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const parseResult = querySchema.safeParse({
+      homeTeam: params.get('homeTeam'),
+      awayTeam: params.get('awayTeam'),
+      before: params.get('before') || undefined,
+      exclude: params.get('exclude') || undefined,
+    });
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid query', details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+    const { homeTeam, awayTeam, before, exclude } = parseResult.data;
+
+    const candidates = await findFirstLegCandidates(session.user.id, homeTeam, awayTeam, {
+      before: before && !Number.isNaN(before.getTime()) ? before : undefined,
+      excludeEventId: exclude,
+    });
+
+    return NextResponse.json({ success: true, data: candidates });
+  } catch (error) {
+    console.error('First leg candidates error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to find first legs' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 // Data Export API
-// 🔍 API Monitor Agent: Export user data as JSON or CSV
+// 🔍 API Monitor Agent: Export user data as JSON, CSV or a ZIP of CSVs
 // ✅ Code Quality Agent: Proper streaming for large exports
 
 import { NextRequest, NextResponse } from 'next/server';
@@ -8,6 +8,7 @@ import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { generateExportJson } from '@/lib/export/json';
 import { generateEventsCsv } from '@/lib/export/csv';
+import { generateExportZip } from '@/lib/export/zip';
 import type { EventWithRelations } from '@/types';
 
 export async function GET(request: NextRequest) {
@@ -31,9 +32,15 @@ export async function GET(request: NextRequest) {
         include: {
           venue: true,
           media: true,
+          periodScores: { orderBy: { period: 'asc' } },
           soccerMatch: {
             include: {
               appearances: { include: { player: true } },
+              timeline: {
+                include: { player: true, relatedPlayer: true },
+                orderBy: [{ minute: 'asc' }, { extraMinute: 'asc' }, { order: 'asc' }],
+              },
+              firstLeg: { select: { eventId: true } },
             },
           },
           basketballGame: {
@@ -44,6 +51,7 @@ export async function GET(request: NextRequest) {
           baseballGame: {
             include: {
               appearances: { include: { player: true } },
+              pitching: { include: { player: true }, orderBy: { order: 'asc' } },
             },
           },
           tennisMatch: {
@@ -80,6 +88,27 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    if (format === 'zip') {
+      const zip = generateExportZip(
+        events as EventWithRelations[],
+        session.user,
+        achievements.map((ua) => ({
+          name: ua.achievement.name,
+          description: ua.achievement.description,
+          tier: ua.achievement.tier,
+          unlockedAt: ua.unlockedAt,
+          triggerEventId: ua.triggerEventId,
+        }))
+      );
+
+      return new NextResponse(Buffer.from(zip), {
+        headers: {
+          'Content-Type': 'application/zip',
+          'Content-Disposition': `attachment; filename="footytracker-export-${new Date().toISOString().split('T')[0]}.zip"`,
+        },
+      });
+    }
+
     // Default: JSON export
     const exportData = generateExportJson(
       events as EventWithRelations[],
@@ -6,8 +6,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
-import { getMatchDetails, processMatchToAppearances, FootballMatchDetails } from '@/lib/api/football-data';
+import {
+  getMatchDetails,
+  processMatchLineScore,
+  processMatchTimeline,
+  processMatchToAppearances,
+  FootballMatchDetails,
+} from '@/lib/api/football-data';
 import { getExtendedMatchDetails, isApiFootballConfigured, ApiFootballMatchDetails } from '@/lib/api/api-football';
+import { soccerResultFromApi } from '@/lib/utils/match-result';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -131,8 +138,8 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         const isHome = goal.team?.id === matchDetails.homeTeam.id;
         const team = isHome ? 'home' : 'away';
         
-        // Add/update scorer
-        if (goal.scorer?.id) {
+        // Add/update scorer - own goals aren't credited to the player
+        if (goal.scorer?.id && goal.type !== 'OWN') {
           const existing = playerMap.get(goal.scorer.id);
           if (existing) {
             existing.goals++;
@@ -217,13 +224,17 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
           date: matchDetails.utcDate,
           homeTeam: matchDetails.homeTeam.name,
           awayTeam: matchDetails.awayTeam.name,
-          homeScore: matchDetails.score.fullTime.home,
-          awayScore: matchDetails.score.fullTime.away,
+          // Shootout kept apart from the score, which runs to the end of extra time
+          ...(soccerResultFromApi(matchDetails.score) ?? { homeScore: null, awayScore: null }),
           competition: matchDetails.competition.name,
           venue: matchDetails.venue,
           status: matchDetails.status,
         },
         players,
+        // Goals by half, extra time and shootout
+        lineScore: processMatchLineScore(matchDetails),
+        // Goals, cards, substitutions and VAR calls in match order
+        timeline: processMatchTimeline(matchDetails),
         // Return raw goal and booking data for reference
         goals: matchDetails.goals || [],
         bookings: matchDetails.bookings || [],
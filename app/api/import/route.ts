@@ -0,0 +1,137 @@
+// Data Import API
+// 🔍 API Monitor Agent: Import JSON/CSV exports with a dry-run preview
+// ✅ Code Quality Agent: Invalid rows block the whole import, duplicates are skipped
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import {
+  MAX_IMPORT_ROWS,
+  commitImport,
+  csvToImportRows,
+  jsonToImportRows,
+  previewImport,
+  type ImportRow,
+} from '@/lib/import';
+import { recomputeAchievementsSafely } from '@/lib/achievements/evaluator';
+
+const MAX_IMPORT_BYTES = 10 * 1024 * 1024; // 10 MB
+
+type ImportFormat = 'json' | 'csv';
+
+function detectFormat(explicit: string | null, contentType: string, fileName: string, text: string): ImportFormat {
+  if (explicit === 'json' || explicit === 'csv') return explicit;
+  if (contentType.includes('json') || fileName.toLowerCase().endsWith('.json')) return 'json';
+  if (contentType.includes('csv') || fileName.toLowerCase().endsWith('.csv')) return 'csv';
+  // Sniff: exports are either a JSON document or a CSV with a header row
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Auth check
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const params = request.nextUrl.searchParams;
+    const requestType = request.headers.get('content-type') || '';
+    let dryRun = params.get('dryRun') === 'true';
+    let text: string;
+    let contentType = requestType;
+    let fileName = '';
+
+    // Multipart upload from the settings page, or the raw file as the body
+    if (requestType.includes('multipart/form-data')) {
+      const formData = await request.formData();
+      const file = formData.get('file');
+      if (!(file instanceof File)) {
+        return NextResponse.json(
+          { success: false, error: 'No file provided' },
+          { status: 400 }
+        );
+      }
+      if (file.size > MAX_IMPORT_BYTES) {
+        return NextResponse.json(
+          { success: false, error: 'File is too large to import' },
+          { status: 413 }
+        );
+      }
+      if (formData.get('dryRun') === 'true') dryRun = true;
+      text = await file.text();
+      contentType = file.type;
+      fileName = file.name;
+    } else {
+      text = await request.text();
+      if (text.length > MAX_IMPORT_BYTES) {
+        return NextResponse.json(
+          { success: false, error: 'File is too large to import' },
+          { status: 413 }
+        );
+      }
+    }
+
+    // Parse into rows
+    let rows: ImportRow[];
+    try {
+      rows =
+        detectFormat(params.get('format'), contentType, fileName, text) === 'json'
+          ? jsonToImportRows(JSON.parse(text))
+          : csvToImportRows(text);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? `Could not read file: ${error.message}` : 'Could not read file' },
+        { status: 400 }
+      );
+    }
+
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'The file contains no events' },
+        { status: 400 }
+      );
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      return NextResponse.json(
+        { success: false, error: `Imports are limited to ${MAX_IMPORT_ROWS} events per file` },
+        { status: 400 }
+      );
+    }
+
+    if (dryRun) {
+      const preview = await previewImport(session.user.id, rows);
+      return NextResponse.json({ success: true, data: preview });
+    }
+
+    const result = await commitImport(session.user.id, rows);
+    if (result.invalid > 0) {
+      return NextResponse.json(
+        { success: false, error: 'Some rows are invalid. Nothing was imported.', details: result },
+        { status: 422 }
+      );
+    }
+
+    // Imported events can unlock (or re-point) achievements
+    const achievementChanges =
+      result.created > 0
+        ? await recomputeAchievementsSafely(session.user.id)
+        : { unlocked: [], revoked: [], repointed: [] };
+
+    return NextResponse.json(
+      { success: true, data: result, achievementChanges },
+      { status: result.created > 0 ? 201 : 200 }
+    );
+  } catch (error) {
+    // 🧠 Error Memory Agent: Log error for tracking
+    console.error('Import error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to import data' },
+      { status: 500 }
+    );
+  }
+}
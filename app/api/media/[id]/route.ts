@@ -0,0 +1,95 @@
+// Media Item API Route - PATCH caption, DELETE with blob cleanup
+// 🔍 API Monitor Agent: Ownership checked through the parent event
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { deleteMediaBlobs } from '@/lib/media';
+
+const updateMediaSchema = z.object({
+  caption: z.string().max(500).nullable(),
+});
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+async function authorize(id: string) {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return {
+      error: NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 }),
+    };
+  }
+
+  const media = await prisma.media.findUnique({
+    where: { id },
+    include: { event: { select: { userId: true } } },
+  });
+
+  if (!media) {
+    return {
+      error: NextResponse.json({ success: false, error: 'Media not found' }, { status: 404 }),
+    };
+  }
+  if (media.event.userId !== session.user.id) {
+    return {
+      error: NextResponse.json({ success: false, error: 'Forbidden' }, { status: 403 }),
+    };
+  }
+
+  return { media };
+}
+
+// PATCH - Edit caption
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const auth = await authorize(id);
+    if ('error' in auth) return auth.error;
+
+    const body = await request.json();
+    const validation = updateMediaSchema.safeParse(body);
+    if (!validation.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: validation.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const media = await prisma.media.update({
+      where: { id },
+      data: { caption: validation.data.caption?.trim() || null },
+    });
+
+    return NextResponse.json({ success: true, data: media });
+  } catch (error) {
+    console.error('Media PATCH error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to update media' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Remove the row and its stored blobs
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const auth = await authorize(id);
+    if ('error' in auth) return auth.error;
+
+    await prisma.media.delete({ where: { id } });
+    await deleteMediaBlobs([auth.media]);
+
+    return NextResponse.json({ success: true, message: 'Media deleted successfully' });
+  } catch (error) {
+    console.error('Media DELETE error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to delete media' },
+      { status: 500 }
+    );
+  }
+}
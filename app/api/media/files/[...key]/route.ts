@@ -0,0 +1,70 @@
+// Media File API Route - streams stored blobs to their owner
+// 🔍 API Monitor Agent: Keys are prefixed with the owner's user ID
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { getStorage } from '@/lib/storage';
+
+interface RouteParams {
+  params: Promise<{ key: string[] }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { key: segments } = await params;
+    if (segments[0] !== session.user.id) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
+    const key = segments.join('/');
+    const media = await prisma.media.findFirst({
+      where: { OR: [{ storageKey: key }, { thumbnailKey: key }] },
+      select: { storageKey: true, mimeType: true },
+    });
+    if (!media) {
+      return NextResponse.json(
+        { success: false, error: 'Media not found' },
+        { status: 404 }
+      );
+    }
+
+    const data = await getStorage().get(key);
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: 'Media not found' },
+        { status: 404 }
+      );
+    }
+
+    const contentType =
+      key === media.storageKey ? media.mimeType || 'application/octet-stream' : 'image/webp';
+
+    return new NextResponse(new Uint8Array(data), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Length': String(data.length),
+        // Keys are immutable - a new upload always gets a new key
+        'Cache-Control': 'private, max-age=31536000, immutable',
+      },
+    });
+  } catch (error) {
+    console.error('Media file GET error:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to load media' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,169 @@
+// Season in Review API
+// 🔍 API Monitor Agent: Generate season-in-review statistics for one sport
+// ✅ Code Quality Agent: Same shape as the year review, bounded by the sport's season instead of Jan-Dec
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import {
+  getBaseballLeaderboard,
+  getBasketballLeaderboard,
+  getSoccerLeaderboard,
+  getTeamStats,
+} from '@/lib/db/stats';
+import { getSeasonRule, parseSeason, periodEventWhere, seasonFor } from '@/lib/utils/seasons';
+import { eventLocalDate } from '@/lib/utils/timezone';
+
+const SEASON_SPORTS = ['SOCCER', 'BASKETBALL', 'BASEBALL', 'TENNIS'] as const;
+type SeasonSport = (typeof SEASON_SPORTS)[number];
+
+interface RouteParams {
+  params: Promise<{ sport: string; season: string }>;
+}
+
+// Top performer per sport, by its headline stat
+function getTopPerformers(userId: string, sport: SeasonSport, startYear: number) {
+  const period = { season: startYear };
+  switch (sport) {
+    case 'SOCCER':
+      return getSoccerLeaderboard(userId, 'goals', 5, period);
+    case 'BASKETBALL':
+      return getBasketballLeaderboard(userId, 'points', 5, period);
+    case 'BASEBALL':
+      return getBaseballLeaderboard(userId, 'homeRuns', 5, period);
+    default:
+      return Promise.resolve([]);
+  }
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Auth check
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { sport: sportParam, season: seasonParam } = await params;
+    const sport = sportParam.toUpperCase() as SeasonSport;
+    const startYear = parseSeason(seasonParam);
+
+    if (!SEASON_SPORTS.includes(sport) || startYear === null) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid sport or season' },
+        { status: 400 }
+      );
+    }
+
+    const userId = session.user.id;
+    const rule = getSeasonRule(sport);
+    const season = seasonFor(startYear, rule);
+
+    // Competition overrides (MLS, WNBA, ...) are matched against their own boundaries
+    const [events, topPerformers, teamStats, achievements] = await Promise.all([
+      prisma.event.findMany({
+        where: {
+          userId,
+          status: 'ATTENDED',
+          type: sport,
+          ...periodEventWhere({ season: startYear }),
+        },
+        include: {
+          venue: true,
+          soccerMatch: true,
+          basketballGame: true,
+          baseballGame: true,
+          tennisMatch: { include: { player1: true, player2: true } },
+        },
+        orderBy: { date: 'desc' },
+      }),
+
+      getTopPerformers(userId, sport, startYear),
+
+      getTeamStats(userId, { season: startYear }),
+
+      // Achievements unlocked during the season
+      prisma.userAchievement.findMany({
+        where: {
+          userId,
+          unlockedAt: { gte: season.start, lt: season.end },
+        },
+        include: { achievement: true },
+      }),
+    ]);
+
+    // Top venues
+    const venueCounts = new Map<string, { venue: (typeof events)[number]['venue']; count: number }>();
+    for (const event of events) {
+      const entry = venueCounts.get(event.venueId) ?? { venue: event.venue, count: 0 };
+      entry.count++;
+      venueCounts.set(event.venueId, entry);
+    }
+    const topVenues = [...venueCounts.values()].sort((a, b) => b.count - a.count).slice(0, 5);
+
+    // Competitions (tournaments for tennis)
+    const competitionCounts: Record<string, number> = {};
+    for (const event of events) {
+      const competition =
+        (event.soccerMatch || event.basketballGame || event.baseballGame)?.competition ??
+        event.tennisMatch?.tournament ??
+        'Other';
+      competitionCounts[competition] = (competitionCounts[competition] || 0) + 1;
+    }
+    const competitions = Object.entries(competitionCounts)
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count);
+
+    // Monthly breakdown in season order, e.g. Jul → Jun for European football
+    const monthlyBreakdown = Array.from({ length: 12 }, (_, i) => {
+      const month = ((rule.startMonth - 1 + i) % 12) + 1;
+      return {
+        month,
+        count: events.filter((e) => eventLocalDate(e).getUTCMonth() + 1 === month).length,
+      };
+    });
+
+    const teams = teamStats
+      .filter((team) => team.sport === sport.toLowerCase())
+      .slice(0, 5);
+
+    const countriesVisited = [...new Set(events.map((e) => e.venue.country))];
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sport,
+        season: season.label,
+        startYear,
+        start: season.start,
+        end: season.end,
+        totalEvents: events.length,
+        competitions,
+        topVenues,
+        topTeams: teams,
+        topPerformers,
+        monthlyBreakdown,
+        countriesVisited,
+        achievementsUnlocked: achievements.length,
+        achievements: achievements.map((ua) => ({
+          id: ua.achievement.id,
+          name: ua.achievement.name,
+          icon: ua.achievement.icon,
+          unlockedAt: ua.unlockedAt,
+        })),
+        highlights: events.slice(0, 10),
+      },
+    });
+  } catch (error) {
+    console.error('Season review API error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to generate season review' },
+      { status: 500 }
+    );
+  }
+}
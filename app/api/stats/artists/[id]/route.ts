@@ -6,6 +6,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import prisma from '@/lib/prisma';
+import { parseStatsPeriod, periodEventWhere } from '@/lib/utils/seasons';
+import { getArtistStats } from '@/lib/db/stats';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -22,6 +24,13 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
 
     const { id } = await params;
+    const period = parseStatsPeriod(request.nextUrl.searchParams);
+    if (!period) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid year or season' },
+        { status: 400 }
+      );
+    }
 
     // Get artist with all concerts
     const artist = await prisma.artist.findUnique({
@@ -29,7 +38,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       include: {
         concerts: {
           where: {
-            event: { userId: session.user.id },
+            event: { userId: session.user.id, ...periodEventWhere(period) },
           },
           include: {
             event: {
@@ -53,22 +62,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       );
     }
 
-    // Calculate aggregate stats
-    const songCounts = new Map<string, number>();
-    let totalSongs = 0;
-
-    for (const concert of artist.concerts) {
-      for (const song of concert.setlist) {
-        totalSongs++;
-        const current = songCounts.get(song.songName) || 0;
-        songCounts.set(song.songName, current + 1);
-      }
-    }
-
-    const topSongs = Array.from(songCounts.entries())
-      .map(([songName, count]) => ({ songName, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 20);
+    // Song stats fold "(Live)" variants together and leave tapes out
+    const [stats] = await getArtistStats(session.user.id, period, id);
+    const songStats = stats?.songStats ?? null;
 
     return NextResponse.json({
       success: true,
@@ -76,10 +72,11 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         artist,
         totalStats: {
           concerts: artist.concerts.length,
-          totalSongsHeard: totalSongs,
-          uniqueSongs: songCounts.size,
+          totalSongsHeard: stats?.totalSongsHeard ?? 0,
+          uniqueSongs: songStats?.uniqueSongs ?? 0,
         },
-        topSongs,
+        topSongs: (songStats?.mostHeard ?? []).map((song) => ({ songName: song.songName, count: song.timesHeard })),
+        songStats,
         concerts: artist.concerts,
       },
     });
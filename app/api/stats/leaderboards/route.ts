@@ -10,7 +10,9 @@ import {
   getBasketballLeaderboard,
   getBaseballLeaderboard,
   getArtistStats,
+  type BaseballStat,
 } from '@/lib/db/stats';
+import { parseStatsPeriod } from '@/lib/utils/seasons';
 
 export async function GET(request: NextRequest) {
   try {
@@ -25,8 +27,14 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const sport = searchParams.get('sport') || 'soccer';
     const statType = searchParams.get('stat') || 'goals';
-    const year = searchParams.get('year');
     const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const period = parseStatsPeriod(searchParams);
+    if (!period) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid year or season' },
+        { status: 400 }
+      );
+    }
 
     let leaderboard;
 
@@ -36,7 +44,7 @@ export async function GET(request: NextRequest) {
           session.user.id,
           statType as 'goals' | 'assists' | 'appearances',
           limit,
-          year ? parseInt(year, 10) : undefined
+          period
         );
         break;
       case 'basketball':
@@ -44,21 +52,21 @@ export async function GET(request: NextRequest) {
           session.user.id,
           statType as 'points' | 'rebounds' | 'assists' | 'appearances',
           limit,
-          year ? parseInt(year, 10) : undefined
+          period
         );
         break;
       case 'baseball':
         leaderboard = await getBaseballLeaderboard(
           session.user.id,
-          statType as 'homeRuns' | 'hits' | 'rbis' | 'appearances',
+          statType as BaseballStat,
           limit,
-          year ? parseInt(year, 10) : undefined
+          period
         );
         break;
       case 'concert':
         leaderboard = await getArtistStats(
           session.user.id,
-          year ? parseInt(year, 10) : undefined
+          period
         );
         break;
       default:
@@ -6,6 +6,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { getPlayerProfile } from '@/lib/db/stats';
+import { parseStatsPeriod } from '@/lib/utils/seasons';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -22,8 +23,15 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     }
 
     const { id } = await params;
+    const period = parseStatsPeriod(request.nextUrl.searchParams);
+    if (!period) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid year or season' },
+        { status: 400 }
+      );
+    }
 
-    const profile = await getPlayerProfile(session.user.id, id);
+    const profile = await getPlayerProfile(session.user.id, id, period);
 
     if (!profile) {
       return NextResponse.json(
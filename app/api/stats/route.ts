@@ -2,12 +2,14 @@
 // 🔍 API Monitor Agent: Aggregated user statistics
 // ✅ Code Quality Agent: Efficient aggregation queries
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { getLineScoreStats, getLuckRecord, getSoccerTimelineStats, getTennisStats } from '@/lib/db/stats';
+import { parseStatsPeriod, periodEventWhere } from '@/lib/utils/seasons';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
     // Auth check
     const session = await getServerSession(authOptions);
@@ -19,6 +21,14 @@ export async function GET() {
     }
 
     const userId = session.user.id;
+    const period = parseStatsPeriod(request.nextUrl.searchParams);
+    if (!period) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid year or season' },
+        { status: 400 }
+      );
+    }
+    const eventWhere = { userId, status: 'ATTENDED' as const, ...periodEventWhere(period) };
 
     // Run all aggregation queries in parallel
     const [
@@ -28,21 +38,25 @@ export async function GET() {
       soccerAppearances,
       basketballAppearances,
       baseballAppearances,
+      tennisStats,
+      lineScoreStats,
+      timelineStats,
+      luckRecord,
       recentEvents,
     ] = await Promise.all([
       // Total events
-      prisma.event.count({ where: { userId } }),
+      prisma.event.count({ where: eventWhere }),
 
       // Events by type
       prisma.event.groupBy({
         by: ['type'],
-        where: { userId },
+        where: eventWhere,
         _count: { type: true },
       }),
 
       // Venue stats
       prisma.event.findMany({
-        where: { userId },
+        where: eventWhere,
         select: {
           venue: {
             select: { id: true, name: true, city: true, country: true },
@@ -53,7 +67,7 @@ export async function GET() {
       // Soccer stats
       prisma.soccerAppearance.aggregate({
         where: {
-          match: { event: { userId } },
+          match: { event: eventWhere },
         },
         _sum: { goals: true, assists: true },
       }),
@@ -61,7 +75,7 @@ export async function GET() {
       // Basketball stats
       prisma.basketballAppearance.aggregate({
         where: {
-          game: { event: { userId } },
+          game: { event: eventWhere },
         },
         _sum: { points: true, rebounds: true, assists: true },
       }),
@@ -69,14 +83,26 @@ export async function GET() {
       // Baseball stats
       prisma.baseballAppearance.aggregate({
         where: {
-          game: { event: { userId } },
+          game: { event: eventWhere },
         },
         _sum: { hits: true, homeRuns: true, rbis: true },
       }),
 
+      // Tennis stats (set-level, from parsed scores)
+      getTennisStats(userId, period),
+
+      // Comebacks, walk-offs and overtime games (from line scores)
+      getLineScoreStats(userId, period),
+
+      // Hat-tricks and the latest winner (from soccer match timelines)
+      getSoccerTimelineStats(userId, period),
+
+      // Supported-team results (favourites or per-event tags)
+      getLuckRecord(userId, period),
+
       // Recent events (last 5)
       prisma.event.findMany({
-        where: { userId },
+        where: eventWhere,
         include: {
           venue: true,
           soccerMatch: true,
@@ -93,17 +119,17 @@ export async function GET() {
     // Get unique players count from all sports
     const [soccerPlayers, basketballPlayers, baseballPlayers] = await Promise.all([
       prisma.soccerAppearance.findMany({
-        where: { match: { event: { userId } } },
+        where: { match: { event: eventWhere } },
         select: { playerId: true },
         distinct: ['playerId'],
       }),
       prisma.basketballAppearance.findMany({
-        where: { game: { event: { userId } } },
+        where: { game: { event: eventWhere } },
         select: { playerId: true },
         distinct: ['playerId'],
       }),
       prisma.baseballAppearance.findMany({
-        where: { game: { event: { userId } } },
+        where: { game: { event: eventWhere } },
         select: { playerId: true },
         distinct: ['playerId'],
       }),
@@ -149,6 +175,10 @@ export async function GET() {
         homeRunsWitnessed: baseballAppearances._sum.homeRuns || 0,
         rbisWitnessed: baseballAppearances._sum.rbis || 0,
       },
+      tennisStats,
+      lineScoreStats,
+      timelineStats,
+      luckRecord,
       // Legacy aggregateStats for backwards compatibility (deprecated)
       aggregateStats: {
         goalsWitnessed: soccerAppearances._sum.goals || 0,
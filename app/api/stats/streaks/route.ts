@@ -0,0 +1,50 @@
+// Attendance Streaks API
+// 🔍 API Monitor Agent: Current and longest streaks per period, overall or per sport/venue/team
+// ✅ Code Quality Agent: ?period and ?scope take comma-separated lists; at-risk streaks are listed separately
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getStreaks, STREAK_PERIODS, STREAK_SCOPES } from '@/lib/db/streaks';
+
+// "week,month" → ['week', 'month'], dropping anything unknown
+function parseList<T extends string>(value: string | null, allowed: readonly T[]): T[] | undefined {
+  if (!value) return undefined;
+  const items = value.split(',').filter((item): item is T => allowed.includes(item as T));
+  return items.length > 0 ? items : undefined;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const limit = searchParams.get('limit');
+
+    const report = await getStreaks(session.user.id, {
+      periods: parseList(searchParams.get('period'), STREAK_PERIODS),
+      scopes: parseList(searchParams.get('scope'), STREAK_SCOPES),
+      limit: limit ? Math.min(Math.max(parseInt(limit, 10) || 10, 1), 50) : undefined,
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    console.error('Streak stats API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch streaks',
+      },
+      { status: 500 }
+    );
+  }
+}
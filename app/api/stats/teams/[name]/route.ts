@@ -0,0 +1,70 @@
+// Team Detail API
+// 🔍 API Monitor Agent: A team's record at the games you attended, plus head-to-head with ?vs=
+// ✅ Code Quality Agent: Proper error handling, type safety
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getHeadToHead, getTeamProfile } from '@/lib/db/stats';
+import { parseStatsPeriod } from '@/lib/utils/seasons';
+
+interface RouteParams {
+  params: Promise<{ name: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { name } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const vs = searchParams.get('vs');
+    const period = parseStatsPeriod(searchParams);
+    if (!period) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid year or season' },
+        { status: 400 }
+      );
+    }
+    const options = {
+      ...period,
+      sport: searchParams.get('sport')?.toUpperCase() || undefined,
+    };
+
+    const profile = await getTeamProfile(session.user.id, name, options);
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, error: 'No attended games for this team' },
+        { status: 404 }
+      );
+    }
+
+    // Pin the opponent lookup to the sport the team resolved to
+    const headToHead = vs
+      ? await getHeadToHead(session.user.id, profile.teamName, vs, {
+          ...options,
+          sport: profile.sport.toUpperCase(),
+        })
+      : null;
+
+    return NextResponse.json({
+      success: true,
+      data: { profile, headToHead },
+    });
+  } catch (error) {
+    console.error('Team detail API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to fetch team stats',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { getVenueStats } from '@/lib/db/stats';
+import { parseStatsPeriod } from '@/lib/utils/seasons';
 
 export async function GET(request: NextRequest) {
   try {
@@ -18,11 +19,17 @@ export async function GET(request: NextRequest) {
     }
 
     const searchParams = request.nextUrl.searchParams;
-    const year = searchParams.get('year');
+    const period = parseStatsPeriod(searchParams);
+    if (!period) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid year or season' },
+        { status: 400 }
+      );
+    }
 
     const venueStats = await getVenueStats(
       session.user.id,
-      year ? parseInt(year, 10) : undefined
+      period
     );
 
     return NextResponse.json({
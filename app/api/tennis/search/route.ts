@@ -0,0 +1,77 @@
+// Tennis Match Search API
+// 🔍 API Monitor Agent: Proxy for the configured tennis data provider (see lib/api/tennis)
+// ✅ Code Quality Agent: Proper error handling
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { getTennisProvider } from '@/lib/api/tennis';
+import { filterTennisMatches, TennisRangeError } from '@/lib/api/tennis/filter';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Auth check
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Get query params - "q" matches a player or a tournament
+    const searchParams = request.nextUrl.searchParams;
+    const query = searchParams.get('q') || undefined;
+    const player = searchParams.get('player') || undefined;
+    const tournament = searchParams.get('tournament') || undefined;
+    const dateFrom = searchParams.get('dateFrom') || undefined;
+    const dateTo = searchParams.get('dateTo') || undefined;
+
+    if (!query && !player && !tournament) {
+      return NextResponse.json(
+        { success: false, error: 'One of "q", "player" or "tournament" is required' },
+        { status: 400 }
+      );
+    }
+
+    // One fetch for the date range; players and tournaments are matched in memory
+    const provider = getTennisProvider();
+    const available = await provider.listMatches({ dateFrom, dateTo });
+
+    let matches;
+    if (query) {
+      const byPlayer = filterTennisMatches(available, { player: query, tournament, dateFrom, dateTo });
+      const byTournament = filterTennisMatches(available, { player, tournament: query, dateFrom, dateTo });
+      // Player hits first, then the rest of the draw
+      const seen = new Set(byPlayer.map((m) => m.id));
+      matches = [...byPlayer, ...byTournament.filter((m) => !seen.has(m.id))];
+    } else {
+      matches = filterTennisMatches(available, { player, tournament, dateFrom, dateTo });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: matches,
+      meta: {
+        source: provider.name,
+        totalResults: matches.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof TennisRangeError) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      );
+    }
+    console.error('Tennis search error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to search matches'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,102 @@
+// Calendar Feed Token API
+// 🔍 API Monitor Agent: Show, regenerate or revoke the user's calendar feed URL
+// ✅ Code Quality Agent: Regenerating replaces the token, so old subscriptions stop working
+
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+function feedUrl(request: NextRequest, token: string | null): string | null {
+  if (!token) return null;
+  const origin = process.env.NEXTAUTH_URL?.replace(/\/$/, '') || request.nextUrl.origin;
+  return `${origin}/api/calendar/${token}.ics`;
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: session.user.id },
+      select: { calendarToken: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { url: feedUrl(request, user?.calendarToken ?? null) },
+    });
+  } catch (error) {
+    console.error('Calendar token fetch error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Create or regenerate the feed token
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const user = await prisma.user.update({
+      where: { id: session.user.id },
+      data: { calendarToken: randomBytes(24).toString('base64url') },
+      select: { calendarToken: true },
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: { url: feedUrl(request, user.calendarToken) },
+    });
+  } catch (error) {
+    console.error('Calendar token regenerate error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to regenerate calendar feed' },
+      { status: 500 }
+    );
+  }
+}
+
+// Revoke the feed entirely
+export async function DELETE() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await prisma.user.update({
+      where: { id: session.user.id },
+      data: { calendarToken: null },
+    });
+
+    return NextResponse.json({ success: true, data: { url: null } });
+  } catch (error) {
+    console.error('Calendar token revoke error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke calendar feed' },
+      { status: 500 }
+    );
+  }
+}
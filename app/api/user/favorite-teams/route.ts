@@ -0,0 +1,131 @@
+// Favourite Teams API
+// 🔍 API Monitor Agent: List, add and remove the teams the user supports
+// ✅ Code Quality Agent: Changing favourites can change supported-team achievements, so they're recomputed
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { z } from 'zod';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { findOrCreateTeam } from '@/lib/api/team-logos';
+import { recomputeAchievementsSafely } from '@/lib/achievements/evaluator';
+
+const favoriteSchema = z.object({
+  teamName: z.string().trim().min(1, 'Team name is required'),
+  sport: z.enum(['SOCCER', 'BASKETBALL', 'BASEBALL']),
+});
+
+const favoriteSelect = {
+  id: true,
+  createdAt: true,
+  team: { select: { id: true, name: true, sport: true, logoUrl: true } },
+} as const;
+
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const favorites = await prisma.favoriteTeam.findMany({
+      where: { userId: session.user.id },
+      select: favoriteSelect,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({ success: true, data: favorites });
+  } catch (error) {
+    console.error('Favourite teams fetch error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch favourite teams' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const parseResult = favoriteSchema.safeParse(body);
+    if (!parseResult.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: parseResult.error.issues },
+        { status: 400 }
+      );
+    }
+    const { teamName, sport } = parseResult.data;
+
+    const team = await findOrCreateTeam(teamName, sport);
+    const favorite = await prisma.favoriteTeam.upsert({
+      where: { userId_teamId: { userId: session.user.id, teamId: team.id } },
+      create: { userId: session.user.id, teamId: team.id },
+      update: {},
+      select: favoriteSelect,
+    });
+
+    await recomputeAchievementsSafely(session.user.id);
+
+    return NextResponse.json({ success: true, data: favorite }, { status: 201 });
+  } catch (error) {
+    console.error('Favourite team create error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to add favourite team' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const id = request.nextUrl.searchParams.get('id');
+    if (!id) {
+      return NextResponse.json(
+        { success: false, error: 'Query parameter "id" is required' },
+        { status: 400 }
+      );
+    }
+
+    const { count } = await prisma.favoriteTeam.deleteMany({
+      where: { id, userId: session.user.id },
+    });
+    if (count === 0) {
+      return NextResponse.json(
+        { success: false, error: 'Favourite team not found' },
+        { status: 404 }
+      );
+    }
+
+    await recomputeAchievementsSafely(session.user.id);
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Favourite team delete error:', error);
+
+    return NextResponse.json(
+      { success: false, error: 'Failed to remove favourite team' },
+      { status: 500 }
+    );
+  }
+}
@@ -6,6 +6,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { periodEventWhere } from '@/lib/utils/seasons';
+import { eventLocalDate } from '@/lib/utils/timezone';
 
 export async function GET(
   request: NextRequest,
@@ -46,7 +48,8 @@ export async function GET(
       prisma.event.findMany({
         where: {
           userId,
-          date: { gte: startDate, lt: endDate },
+          status: 'ATTENDED',
+          ...periodEventWhere({ year }),
         },
         include: {
           venue: true,
@@ -64,7 +67,8 @@ export async function GET(
         by: ['type'],
         where: {
           userId,
-          date: { gte: startDate, lt: endDate },
+          status: 'ATTENDED',
+          ...periodEventWhere({ year }),
         },
         _count: { type: true },
       }),
@@ -74,7 +78,8 @@ export async function GET(
         by: ['venueId'],
         where: {
           userId,
-          date: { gte: startDate, lt: endDate },
+          status: 'ATTENDED',
+          ...periodEventWhere({ year }),
         },
         _count: { venueId: true },
         orderBy: { _count: { venueId: 'desc' } },
@@ -102,10 +107,10 @@ export async function GET(
       count: stat._count.venueId,
     }));
 
-    // Calculate monthly breakdown
+    // Calculate monthly breakdown (by the month at the venue)
     const monthlyBreakdown = Array.from({ length: 12 }, (_, i) => ({
       month: i + 1,
-      count: events.filter((e) => new Date(e.date).getMonth() === i).length,
+      count: events.filter((e) => eventLocalDate(e).getUTCMonth() === i).length,
     }));
 
     // Format events by type
@@ -10,6 +10,7 @@ import { prisma } from '@/lib/prisma';
 import { Header } from '@/components/layout/Header';
 import { BottomNav } from '@/components/layout/BottomNav';
 import { EditEventForm } from '@/components/events/EditEventForm';
+import { toMatchEventInputs } from '@/lib/utils/match-timeline';
 
 interface EditEventPageProps {
   params: Promise<{ id: string }>;
@@ -28,7 +29,16 @@ export default async function EditEventPage({ params }: EditEventPageProps) {
     where: { id },
     include: {
       venue: true,
-      soccerMatch: true,
+      periodScores: { orderBy: { period: 'asc' } },
+      soccerMatch: {
+        include: {
+          timeline: {
+            include: { player: true, relatedPlayer: true },
+            orderBy: [{ minute: 'asc' }, { extraMinute: 'asc' }, { order: 'asc' }],
+          },
+          firstLeg: { include: { event: { select: { date: true } } } },
+        },
+      },
       basketballGame: true,
       baseballGame: true,
       tennisMatch: {
@@ -54,19 +64,41 @@ export default async function EditEventPage({ params }: EditEventPageProps) {
     id: event.id,
     type: event.type,
     date: event.date.toISOString(),
+    localDate: event.localDate?.toISOString() ?? null,
+    kickoffTime: event.kickoffTime,
     notes: event.notes,
     rating: event.rating,
     companions: event.companions,
+    supportedSide: event.supportedSide,
+    updatedAt: event.updatedAt.toISOString(),
     venue: {
       name: event.venue.name,
       city: event.venue.city,
     },
+    periodScores: event.periodScores.map((p) => ({
+      type: p.type,
+      homeScore: p.homeScore,
+      awayScore: p.awayScore,
+    })),
     soccerMatch: event.soccerMatch ? {
       homeTeam: event.soccerMatch.homeTeam,
       awayTeam: event.soccerMatch.awayTeam,
       homeScore: event.soccerMatch.homeScore,
       awayScore: event.soccerMatch.awayScore,
       competition: event.soccerMatch.competition,
+      timeline: toMatchEventInputs(event.soccerMatch.timeline),
+      extraTime: event.soccerMatch.extraTime,
+      homePenalties: event.soccerMatch.homePenalties,
+      awayPenalties: event.soccerMatch.awayPenalties,
+      firstLeg: event.soccerMatch.firstLeg ? {
+        eventId: event.soccerMatch.firstLeg.eventId,
+        date: event.soccerMatch.firstLeg.event.date.toISOString(),
+        homeTeam: event.soccerMatch.firstLeg.homeTeam,
+        awayTeam: event.soccerMatch.firstLeg.awayTeam,
+        homeScore: event.soccerMatch.firstLeg.homeScore,
+        awayScore: event.soccerMatch.firstLeg.awayScore,
+        competition: event.soccerMatch.firstLeg.competition,
+      } : null,
     } : null,
     basketballGame: event.basketballGame ? {
       homeTeam: event.basketballGame.homeTeam,
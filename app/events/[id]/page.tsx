@@ -4,6 +4,7 @@
 import { getServerSession } from 'next-auth';
 import { redirect, notFound } from 'next/navigation';
 import Link from 'next/link';
+import { Fragment } from 'react';
 import { 
   ArrowLeft, 
   MapPin, 
@@ -23,8 +24,25 @@ import { Header } from '@/components/layout/Header';
 import { BottomNav } from '@/components/layout/BottomNav';
 import { TeamLogo, ArtistPhoto } from '@/components/shared/TeamLogo';
 import { DeleteEventButton } from '@/components/events/DeleteEventButton';
+import { MediaGallery } from '@/components/events/MediaGallery';
+import { AttendancePrompt } from '@/components/events/AttendancePrompt';
 import { cn } from '@/lib/utils';
+import { resolveSupportedSide, supportedResult } from '@/lib/utils/supported-team';
 import { format } from 'date-fns';
+import { localDisplayDate } from '@/lib/utils/timezone';
+import { DECISION_LABELS, formatInningsPitched } from '@/lib/utils/pitching';
+import { periodLabels, summarizeLineScore, type LineScoreSport } from '@/lib/utils/line-score';
+import {
+  findHatTricks,
+  findWinningGoal,
+  formatMinute,
+  isGoal,
+  MATCH_EVENT_LABELS,
+  RELATED_PLAYER_LABELS,
+  runningScores,
+  toMatchEventInputs,
+} from '@/lib/utils/match-timeline';
+import { aggregateScore, hasShootout } from '@/lib/utils/match-result';
 
 interface EventDetailPageProps {
   params: Promise<{ id: string }>;
@@ -77,13 +95,20 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
     where: { id },
     include: {
       venue: true,
-      media: true,
+      media: { orderBy: { createdAt: 'asc' } },
+      periodScores: { orderBy: { period: 'asc' } },
       soccerMatch: {
         include: {
           appearances: {
             include: { player: true },
             orderBy: { goals: 'desc' },
           },
+          timeline: {
+            include: { player: true, relatedPlayer: true },
+            orderBy: [{ minute: 'asc' }, { extraMinute: 'asc' }, { order: 'asc' }],
+          },
+          firstLeg: true,
+          secondLeg: true,
         },
       },
       basketballGame: {
@@ -100,6 +125,10 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
             include: { player: true },
             orderBy: { homeRuns: 'desc' },
           },
+          pitching: {
+            include: { player: true },
+            orderBy: [{ isHome: 'desc' }, { order: 'asc' }],
+          },
         },
       },
       tennisMatch: {
@@ -110,6 +139,9 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
           appearances: {
             include: { player: true },
           },
+          sets: {
+            orderBy: { setNumber: 'asc' },
+          },
         },
       },
       concert: {
@@ -127,6 +159,48 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
     notFound();
   }
 
+  // Side the user supported - tagged on the event, or from their favourite teams
+  const teamMatch = event.soccerMatch || event.basketballGame || event.baseballGame;
+  const favorites = teamMatch
+    ? await prisma.favoriteTeam.findMany({ where: { userId: session.user.id }, select: { teamId: true } })
+    : [];
+  const supportedSide = teamMatch
+    ? resolveSupportedSide(
+        event.supportedSide,
+        teamMatch.homeTeamRefId,
+        teamMatch.awayTeamRefId,
+        new Set(favorites.map((f) => f.teamId))
+      )
+    : null;
+  const supportedOutcome = teamMatch && supportedSide
+    ? supportedResult(supportedSide, teamMatch)
+    : null;
+
+  // Line score, visitors on top for US sports
+  const lineScoreSport = teamMatch && event.periodScores.length > 0 ? (event.type as LineScoreSport) : null;
+  const lineScoreSummary = lineScoreSport ? summarizeLineScore(lineScoreSport, event.periodScores) : null;
+  const lineScoreRows = teamMatch
+    ? [
+        { side: 'homeScore' as const, name: teamMatch.homeTeam, total: teamMatch.homeScore },
+        { side: 'awayScore' as const, name: teamMatch.awayTeam, total: teamMatch.awayScore },
+      ]
+    : [];
+  if (lineScoreSport && lineScoreSport !== 'SOCCER') lineScoreRows.reverse();
+
+  // Soccer timeline, with the score after each goal and the goal that won it
+  const timeline = event.soccerMatch ? toMatchEventInputs(event.soccerMatch.timeline) : [];
+  const timelineScores = runningScores(timeline);
+  const winningGoal = event.soccerMatch
+    ? findWinningGoal(timeline, event.soccerMatch.homeScore, event.soccerMatch.awayScore)
+    : null;
+  const hatTricks = findHatTricks(timeline);
+
+  // Two-legged ties: the aggregate is shown on the second leg
+  const tie = event.soccerMatch?.firstLeg ? aggregateScore(event.soccerMatch.firstLeg, event.soccerMatch) : null;
+  const tieWinner = tie?.winner && event.soccerMatch
+    ? tie.winner === 'home' ? event.soccerMatch.homeTeam : event.soccerMatch.awayTeam
+    : null;
+
   const gradient = getEventGradient(event.type);
   const accentColor = getAccentColor(event.type);
   const eventIcon = getEventIcon(event.type);
@@ -158,14 +232,26 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
           </div>
         </div>
 
+        {/* Planned event whose date has passed */}
+        {event.status === 'PLANNED' && event.date < new Date() && (
+          <AttendancePrompt eventId={event.id} />
+        )}
+
         {/* Main event card */}
         <div className={cn('relative overflow-hidden rounded-2xl border border-border p-6', 'bg-gradient-to-br', gradient)}>
           {/* Event type badge */}
           <div className="flex items-center justify-between mb-6">
             <span className={cn('text-4xl')}>{eventIcon}</span>
-            <span className={cn('text-sm font-medium px-3 py-1 rounded-full bg-background/50', accentColor)}>
-              {event.type.charAt(0) + event.type.slice(1).toLowerCase()}
-            </span>
+            <div className="flex items-center gap-2">
+              {event.status !== 'ATTENDED' && (
+                <span className="text-sm font-medium px-3 py-1 rounded-full bg-background/50 text-muted-foreground">
+                  {event.status === 'PLANNED' ? 'Planned' : 'Missed'}
+                </span>
+              )}
+              <span className={cn('text-sm font-medium px-3 py-1 rounded-full bg-background/50', accentColor)}>
+                {event.type.charAt(0) + event.type.slice(1).toLowerCase()}
+              </span>
+            </div>
           </div>
 
           {/* Sport match display */}
@@ -180,6 +266,35 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
                   <span className="text-4xl font-mono font-bold">
                     {event.soccerMatch.homeScore} - {event.soccerMatch.awayScore}
                   </span>
+                  {hasShootout(event.soccerMatch) ? (
+                    <p className="text-sm font-medium mt-1">
+                      {event.soccerMatch.homePenalties} - {event.soccerMatch.awayPenalties} on penalties
+                    </p>
+                  ) : event.soccerMatch.extraTime && (
+                    <p className="text-sm font-medium mt-1">After extra time</p>
+                  )}
+                  {tie && (
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Agg {tie.home} - {tie.away}
+                      {tieWinner && ` · ${tieWinner} ${tie.decidedBy === 'penalties' ? 'won on penalties' : 'went through'}`}
+                    </p>
+                  )}
+                  {event.soccerMatch.firstLeg && (
+                    <Link
+                      href={`/events/${event.soccerMatch.firstLeg.eventId}`}
+                      className="text-xs text-primary hover:underline"
+                    >
+                      First leg
+                    </Link>
+                  )}
+                  {event.soccerMatch.secondLeg && (
+                    <Link
+                      href={`/events/${event.soccerMatch.secondLeg.eventId}`}
+                      className="text-xs text-primary hover:underline"
+                    >
+                      Second leg
+                    </Link>
+                  )}
                   {event.soccerMatch.competition && (
                     <p className="text-sm text-muted-foreground mt-1">{event.soccerMatch.competition}</p>
                   )}
@@ -238,6 +353,25 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
             </div>
           )}
 
+          {teamMatch && supportedSide && event.status === 'ATTENDED' && (
+            <p className="text-center text-sm text-muted-foreground mt-4">
+              You supported{' '}
+              <span className="font-medium text-foreground">
+                {supportedSide === 'HOME' ? teamMatch.homeTeam : teamMatch.awayTeam}
+              </span>
+              {' · '}
+              <span
+                className={cn(
+                  'font-medium',
+                  supportedOutcome === 'W' && 'text-green-400',
+                  supportedOutcome === 'L' && 'text-red-400'
+                )}
+              >
+                {supportedOutcome === 'W' ? 'Won' : supportedOutcome === 'L' ? 'Lost' : 'Drew'}
+              </span>
+            </p>
+          )}
+
           {event.type === 'TENNIS' && event.tennisMatch && (
             <div className="text-center space-y-4">
               <div className="flex items-center justify-center gap-6">
@@ -267,6 +401,32 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
                   </span>
                 </div>
               </div>
+
+              {/* Set by set, player 1 on top */}
+              {event.tennisMatch.sets.length > 0 && (
+                <div className="inline-grid grid-flow-col gap-x-4 gap-y-1 grid-rows-3 font-mono text-sm">
+                  {event.tennisMatch.sets.map((set) => (
+                    <Fragment key={set.setNumber}>
+                      <span className="text-xs text-muted-foreground">
+                        {set.isMatchTiebreak ? 'TB' : `S${set.setNumber}`}
+                      </span>
+                      <span className={cn(set.player1Games > set.player2Games && 'font-bold text-green-400')}>
+                        {set.player1Games}
+                        {set.tiebreakPlayer1 !== null && <sup>{set.tiebreakPlayer1}</sup>}
+                      </span>
+                      <span className={cn(set.player2Games > set.player1Games && 'font-bold text-green-400')}>
+                        {set.player2Games}
+                        {set.tiebreakPlayer2 !== null && <sup>{set.tiebreakPlayer2}</sup>}
+                      </span>
+                    </Fragment>
+                  ))}
+                </div>
+              )}
+              {event.tennisMatch.outcome !== 'COMPLETED' && (
+                <p className="text-sm text-muted-foreground">
+                  {event.tennisMatch.outcome === 'RETIRED' ? 'Retired' : 'Walkover'}
+                </p>
+              )}
             </div>
           )}
 
@@ -295,7 +455,10 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
           <div className="flex flex-wrap items-center justify-center gap-6 mt-8 pt-6 border-t border-border/50">
             <div className="flex items-center gap-2">
               <Calendar className={cn('h-5 w-5', accentColor)} />
-              <span>{format(new Date(event.date), 'EEEE, MMMM d, yyyy')}</span>
+              <span>
+                {format(localDisplayDate(event), 'EEEE, MMMM d, yyyy')}
+                {event.kickoffTime && ` · ${event.kickoffTime} local time`}
+              </span>
             </div>
             <div className="flex items-center gap-2">
               <MapPin className={cn('h-5 w-5', accentColor)} />
@@ -325,6 +488,116 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
           )}
         </div>
 
+        {/* Line score */}
+        {lineScoreSport && lineScoreSummary && (
+          <div className="rounded-xl border border-border p-4">
+            <h3 className="font-semibold mb-4 flex items-center gap-2">
+              Line Score
+              {lineScoreSummary.walkOff && (
+                <span className="text-xs font-normal px-2 py-0.5 rounded-full bg-green-500/10 text-green-400">Walk-off</span>
+              )}
+              {lineScoreSummary.overtime && (
+                <span className="text-xs font-normal px-2 py-0.5 rounded-full bg-secondary">
+                  {lineScoreSport === 'BASEBALL' ? 'Extra innings' : lineScoreSport === 'SOCCER' ? 'Extra time' : 'Overtime'}
+                </span>
+              )}
+              {lineScoreSummary.comeback && (
+                <span className="text-xs font-normal px-2 py-0.5 rounded-full bg-yellow-500/10 text-yellow-400">
+                  Comeback from {lineScoreSummary.comebackFrom} down
+                </span>
+              )}
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left font-normal pb-2" />
+                    {periodLabels(lineScoreSport, event.periodScores).map((label, index) => (
+                      <th key={index} className="text-center font-normal pb-2 px-1">{label}</th>
+                    ))}
+                    <th className="text-center font-medium pb-2 px-1">T</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lineScoreRows.map(({ side, name, total }) => (
+                    <tr key={side} className="border-t border-border/50">
+                      <td className="py-2 font-medium truncate max-w-[10rem]">{name}</td>
+                      {event.periodScores.map((period) => (
+                        <td key={period.id} className="text-center font-mono px-1">
+                          {period[side] ?? 'x'}
+                        </td>
+                      ))}
+                      <td className="text-center font-mono font-bold px-1">{total}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {/* Match timeline */}
+        {event.soccerMatch && timeline.length > 0 && (
+          <div className="rounded-xl border border-border p-4">
+            <h3 className="font-semibold mb-4 flex items-center gap-2">
+              <Clock className="h-5 w-5" />
+              Match Timeline
+              {hatTricks.map((hatTrick) => (
+                <span
+                  key={hatTrick.playerName}
+                  className="text-xs font-normal px-2 py-0.5 rounded-full bg-green-500/10 text-green-400"
+                >
+                  🎩 {hatTrick.playerName}
+                </span>
+              ))}
+            </h3>
+            <div className="space-y-1">
+              {timeline.map((item, index) => {
+                const score = timelineScores.get(index);
+                const related = RELATED_PLAYER_LABELS[item.type] && item.relatedPlayerName;
+                return (
+                  <div
+                    key={index}
+                    className={cn(
+                      'flex items-center gap-3 py-1.5 text-sm border-b border-border/50 last:border-0',
+                      item.team === 'away' && 'flex-row-reverse text-right'
+                    )}
+                  >
+                    <span className="w-12 shrink-0 font-mono text-muted-foreground">
+                      {formatMinute(item.minute, item.extraMinute)}
+                    </span>
+                    <span title={MATCH_EVENT_LABELS[item.type].label}>{MATCH_EVENT_LABELS[item.type].icon}</span>
+                    <div className="flex-1 min-w-0">
+                      <span className={cn(isGoal(item.type) && 'font-medium')}>
+                        {item.playerName ?? MATCH_EVENT_LABELS[item.type].label}
+                      </span>
+                      {item.type === 'OWN_GOAL' && <span className="text-muted-foreground"> (og)</span>}
+                      {item.type === 'PENALTY_GOAL' && <span className="text-muted-foreground"> (pen)</span>}
+                      {related && (
+                        <span className="text-xs text-muted-foreground">
+                          {' '}
+                          {item.type === 'SUBSTITUTION' ? `↔ ${item.relatedPlayerName}` : `${RELATED_PLAYER_LABELS[item.type]}: ${item.relatedPlayerName}`}
+                        </span>
+                      )}
+                      {item.detail && <span className="text-xs text-muted-foreground"> · {item.detail}</span>}
+                    </div>
+                    {score && (
+                      <span className="font-mono font-semibold shrink-0">
+                        {score.home}-{score.away}
+                      </span>
+                    )}
+                    {item === winningGoal && (
+                      <span className="text-xs px-2 py-0.5 rounded-full bg-yellow-500/10 text-yellow-400 shrink-0">
+                        Winner
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         {/* Notes */}
         {event.notes && (
           <div className="rounded-xl border border-border p-4">
@@ -399,6 +672,48 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
           </div>
         )}
 
+        {event.type === 'BASEBALL' && event.baseballGame?.pitching && event.baseballGame.pitching.length > 0 && (
+          <div className="rounded-xl border border-border p-4">
+            <h3 className="font-semibold mb-4 flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Pitching
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-muted-foreground">
+                    <th className="text-left font-normal pb-2">Pitcher</th>
+                    {['IP', 'H', 'R', 'ER', 'BB', 'K', 'PC'].map((label) => (
+                      <th key={label} className="text-right font-normal pb-2 px-1">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {event.baseballGame.pitching.map((line) => (
+                    <tr key={line.id} className="border-t border-border/50">
+                      <td className="py-2 font-medium">
+                        {line.player.name}
+                        {line.decision && (
+                          <span className="ml-2 text-xs text-muted-foreground">
+                            ({DECISION_LABELS[line.decision]})
+                          </span>
+                        )}
+                      </td>
+                      <td className="text-right font-mono px-1">{formatInningsPitched(line.outsRecorded)}</td>
+                      <td className="text-right font-mono px-1">{line.hits}</td>
+                      <td className="text-right font-mono px-1">{line.runs}</td>
+                      <td className="text-right font-mono px-1">{line.earnedRuns}</td>
+                      <td className="text-right font-mono px-1">{line.walks}</td>
+                      <td className="text-right font-mono px-1 text-green-400">{line.strikeOuts}</td>
+                      <td className="text-right font-mono px-1">{line.pitchCount ?? '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
         {/* Setlist for concerts */}
         {event.type === 'CONCERT' && event.concert?.setlist && event.concert.setlist.length > 0 && (
           <div className="rounded-xl border border-border p-4">
@@ -416,10 +731,17 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
                   )}
                 >
                   <span className="text-muted-foreground text-sm w-6">{index + 1}.</span>
-                  <span className="flex-1 font-medium">
+                  <span className={cn('flex-1 font-medium', item.isTape && 'text-muted-foreground italic')}>
                     {item.songName}
+                    {item.segue && <span className="text-muted-foreground ml-1" title="Segues into the next song">&gt;</span>}
                     {item.isEncore && <span className="text-purple-400 text-sm ml-2">(Encore)</span>}
+                    {item.isTape && <span className="text-xs ml-2">(Tape)</span>}
                   </span>
+                  {item.isCover && (
+                    <span className="text-xs px-2 py-0.5 rounded bg-blue-500/20 text-blue-400">
+                      {item.coverArtist ? `${item.coverArtist} cover` : 'Cover'}
+                    </span>
+                  )}
                   {item.notes && <span className="text-sm text-muted-foreground">{item.notes}</span>}
                 </div>
               ))}
@@ -428,23 +750,17 @@ export default async function EventDetailPage({ params }: EventDetailPageProps)
         )}
 
         {/* Media */}
-        {event.media && event.media.length > 0 && (
-          <div className="rounded-xl border border-border p-4">
-            <h3 className="font-semibold mb-4">Photos & Media</h3>
-            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-              {event.media.map((item) => (
-                <div key={item.id} className="aspect-square rounded-lg overflow-hidden bg-muted">
-                  {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <img 
-                    src={item.url} 
-                    alt={item.caption || 'Event photo'} 
-                    className="w-full h-full object-cover"
-                  />
-                </div>
-              ))}
-            </div>
-          </div>
-        )}
+        <MediaGallery
+          eventId={event.id}
+          initialMedia={event.media.map((item) => ({
+            id: item.id,
+            type: item.type,
+            url: item.url,
+            thumbnailUrl: item.thumbnailUrl,
+            caption: item.caption,
+            mimeType: item.mimeType,
+          }))}
+        />
       </main>
 
       <BottomNav />
@@ -6,6 +6,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -19,9 +20,19 @@ import { Card, CardContent } from '@/components/ui/Card';
 import { MatchSearch, type MatchResult, type BasketballGameResult, type BasketballPlayerAppearance, type PlayerAppearance } from '@/components/shared/MatchSearch';
 import { PlayerStatsEditor, type BasketballPlayer, type Player } from '@/components/events/PlayerStatsEditor';
 import { TeamBadge } from '@/components/shared/TeamBadge';
+import { TicketScanner } from '@/components/shared/TicketScanner';
+import { SupportedSidePicker } from '@/components/events/SupportedSidePicker';
+import { LineScoreEditor } from '@/components/events/LineScoreEditor';
+import { useFixtureDate } from '@/hooks/useFixtureDate';
+import { submitEvent } from '@/lib/cache/sync';
+import { eventDateFields } from '@/lib/utils/timezone';
+import { attachTicketScan } from '@/lib/media/client';
+import type { TicketFields } from '@/lib/ocr';
+import type { PeriodScoreInput } from '@/lib/utils/line-score';
 
 const basketballSchema = z.object({
   date: z.string().min(1, 'Date is required'),
+  kickoffTime: z.string().optional(), // Venue-local HH:mm
   venueName: z.string().min(1, 'Venue name is required'),
   venueCity: z.string().min(1, 'City is required'),
   venueCountry: z.string().min(1, 'Country is required'),
@@ -33,14 +44,18 @@ const basketballSchema = z.object({
   notes: z.string().optional(),
   rating: z.coerce.number().min(1).max(5).optional(),
   externalGameId: z.number().optional(),
+  supportedSide: z.enum(['HOME', 'AWAY', 'NEUTRAL']).optional(),
 });
 
 type BasketballFormData = z.infer<typeof basketballSchema>;
 
 export default function BasketballFormPage() {
   const router = useRouter();
+  const { data: session } = useSession();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [ticket, setTicket] = useState<{ file: File; seat?: string } | null>(null);
   const [players, setPlayers] = useState<BasketballPlayer[]>([]);
+  const [lineScore, setLineScore] = useState<PeriodScoreInput[]>([]);
   const [teamIds, setTeamIds] = useState<{
     homeId?: number;
     awayId?: number;
@@ -51,6 +66,7 @@ export default function BasketballFormPage() {
     handleSubmit,
     watch,
     setValue,
+    getValues,
     formState: { errors },
   } = useForm<BasketballFormData>({
     resolver: zodResolver(basketballSchema),
@@ -62,6 +78,13 @@ export default function BasketballFormPage() {
     },
   });
 
+  // Kickoff of a fixture picked from search, shown on the venue's day
+  const { fixture, selectFixture } = useFixtureDate(
+    watch('date'),
+    { name: watch('venueName'), city: watch('venueCity'), country: watch('venueCountry') },
+    (day) => setValue('date', day)
+  );
+
   const homeScore = watch('homeScore');
   const awayScore = watch('awayScore');
   const homeTeam = watch('homeTeam');
@@ -75,6 +98,7 @@ export default function BasketballFormPage() {
     setValue('awayTeam', match.awayTeam);
     setValue('homeScore', match.homeScore ?? 0);
     setValue('awayScore', match.awayScore ?? 0);
+    setLineScore([]); // Replaced once the game's details load
     setValue('externalGameId', match.id);
     
     // Store team IDs for badge display
@@ -85,8 +109,7 @@ export default function BasketballFormPage() {
     
     // Set date
     if (match.date) {
-      const date = new Date(match.date);
-      setValue('date', date.toISOString().split('T')[0]);
+      selectFixture(match.date);
     }
   };
 
@@ -104,11 +127,24 @@ export default function BasketballFormPage() {
     setPlayers(formattedPlayers);
   };
 
+  // Prefill from a scanned ticket - only fields the scan actually found
+  const handleTicketScan = (fields: TicketFields, file: File) => {
+    setTicket({ file, seat: fields.seat });
+    if (fields.date) setValue('date', fields.date);
+    if (fields.venueName) setValue('venueName', fields.venueName);
+    if (fields.venueCity) setValue('venueCity', fields.venueCity);
+    if (fields.homeTeam) setValue('homeTeam', fields.homeTeam);
+    if (fields.awayTeam) setValue('awayTeam', fields.awayTeam);
+    if (fields.seat && !getValues('notes')) setValue('notes', `Seat: ${fields.seat}`);
+  };
+
   const onSubmit = async (data: BasketballFormData) => {
     setIsSubmitting(true);
     try {
       const payload = {
         ...data,
+        ...eventDateFields(data.date, data.kickoffTime, fixture),
+        lineScore,
         appearances: players.map((p) => ({
           playerName: p.name,
           externalId: p.id,
@@ -119,17 +155,30 @@ export default function BasketballFormPage() {
         })),
       };
 
-      const response = await fetch('/api/events/basketball', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
+      // Falls back to the offline queue when there is no connection
+      const result = await submitEvent('basketball', payload, session?.user?.id, ticket);
+      if (result.queued) {
+        alert(
+          `You're offline. This game was saved on your device and will sync when you reconnect.` +
+            (ticket ? ' Its ticket scan will be attached then.' : '')
+        );
+        router.push('/events');
+        return;
+      }
+      const { response } = result;
 
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error || 'Failed to create event');
       }
 
+      // Keep the scanned ticket with the new event
+      if (ticket) {
+        const { data: created } = await response.json();
+        const attached = await attachTicketScan(created.id, ticket.file, ticket.seat);
+        if (!attached) alert('The event was saved, but the ticket scan could not be attached.');
+      }
+
       router.push('/events');
       router.refresh();
     } catch (error) {
@@ -153,18 +202,32 @@ export default function BasketballFormPage() {
           Back to event types
         </Link>
 
+        {/* Ticket Scan */}
+        <TicketScanner
+          file={ticket?.file ?? null}
+          onScan={handleTicketScan}
+          onClear={() => setTicket(null)}
+        />
+
         {/* API Search */}
         <MatchSearch
           sportType="basketball"
           onMatchSelect={handleMatchSelect}
           onPlayersLoaded={handlePlayersLoaded}
+          onLineScoreLoaded={setLineScore}
         />
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
           {/* Date */}
-          <div>
-            <label className="block text-sm font-medium mb-2">Date</label>
-            <Input type="date" {...register('date')} error={errors.date?.message} />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Date</label>
+              <Input type="date" {...register('date')} error={errors.date?.message} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Tip-off (local time)</label>
+              <Input type="time" {...register('kickoffTime')} error={errors.kickoffTime?.message} />
+            </div>
           </div>
 
           {/* Teams and Score */}
@@ -248,6 +311,17 @@ export default function BasketballFormPage() {
             </CardContent>
           </Card>
 
+          {/* Line score */}
+          <LineScoreEditor
+            sport="BASKETBALL"
+            homeTeamName={homeTeam}
+            awayTeamName={awayTeam}
+            homeScore={homeScore}
+            awayScore={awayScore}
+            value={lineScore}
+            onChange={setLineScore}
+          />
+
           {/* Competition */}
           <div>
             <label className="block text-sm font-medium mb-2">League / Competition (Optional)</label>
@@ -279,6 +353,14 @@ export default function BasketballFormPage() {
             onPlayersChange={(players) => setPlayers(players as BasketballPlayer[])}
           />
 
+          {/* Supported side */}
+          <SupportedSidePicker
+            homeTeamName={homeTeam}
+            awayTeamName={awayTeam}
+            value={watch('supportedSide')}
+            onChange={(side) => setValue('supportedSide', side ?? undefined)}
+          />
+
           {/* Notes */}
           <div>
             <label className="block text-sm font-medium mb-2">Notes (Optional)</label>
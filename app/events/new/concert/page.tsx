@@ -6,6 +6,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -17,9 +18,15 @@ import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
 import { Card, CardContent } from '@/components/ui/Card';
 import { ConcertSearch, type ConcertResult, type SetlistSong } from '@/components/shared/ConcertSearch';
+import { TicketScanner } from '@/components/shared/TicketScanner';
+import { submitEvent } from '@/lib/cache/sync';
+import { eventDateFields } from '@/lib/utils/timezone';
+import { attachTicketScan } from '@/lib/media/client';
+import type { TicketFields } from '@/lib/ocr';
 
 const concertSchema = z.object({
   date: z.string().min(1, 'Date is required'),
+  kickoffTime: z.string().optional(), // Venue-local HH:mm
   venueName: z.string().min(1, 'Venue name is required'),
   venueCity: z.string().min(1, 'City is required'),
   venueCountry: z.string().min(1, 'Country is required'),
@@ -38,11 +45,16 @@ interface LocalSetlistSong {
   isEncore: boolean;
   isCover: boolean;
   coverArtist?: string;
+  isTape: boolean;
+  segue: boolean;
+  notes?: string;
 }
 
 export default function ConcertFormPage() {
   const router = useRouter();
+  const { data: session } = useSession();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [ticket, setTicket] = useState<{ file: File; seat?: string } | null>(null);
   const [setlist, setSetlist] = useState<LocalSetlistSong[]>([]);
   const [newSong, setNewSong] = useState('');
   const [venueCoords, setVenueCoords] = useState<{ lat?: number; lng?: number }>({});
@@ -52,6 +64,7 @@ export default function ConcertFormPage() {
     handleSubmit,
     watch,
     setValue,
+    getValues,
     formState: { errors },
   } = useForm<ConcertFormData>({
     resolver: zodResolver(concertSchema),
@@ -76,8 +89,7 @@ export default function ConcertFormPage() {
     // Parse date from dd-MM-yyyy format
     if (concert.eventDate) {
       const [day, month, year] = concert.eventDate.split('-');
-      const date = new Date(parseInt(year), parseInt(month) - 1, parseInt(day));
-      setValue('date', date.toISOString().split('T')[0]);
+      setValue('date', `${year}-${month}-${day}`);
     }
     
     // Store venue coordinates from Setlist.fm
@@ -94,12 +106,18 @@ export default function ConcertFormPage() {
         isEncore: false,
         isCover: s.isCover,
         coverArtist: s.coverArtist,
+        isTape: s.isTape,
+        segue: s.segue,
+        notes: s.notes,
       })),
       ...concert.encoreSongs.map((s: SetlistSong) => ({
         songName: s.name,
         isEncore: true,
         isCover: s.isCover,
         coverArtist: s.coverArtist,
+        isTape: s.isTape,
+        segue: s.segue,
+        notes: s.notes,
       })),
     ];
     setSetlist(allSongs);
@@ -107,7 +125,7 @@ export default function ConcertFormPage() {
 
   const addSong = (isEncore: boolean = false) => {
     if (newSong.trim()) {
-      setSetlist([...setlist, { songName: newSong.trim(), isEncore, isCover: false }]);
+      setSetlist([...setlist, { songName: newSong.trim(), isEncore, isCover: false, isTape: false, segue: false }]);
       setNewSong('');
     }
   };
@@ -122,11 +140,23 @@ export default function ConcertFormPage() {
     setSetlist(updated);
   };
 
+  // Prefill from a scanned ticket - only fields the scan actually found
+  const handleTicketScan = (fields: TicketFields, file: File) => {
+    setTicket({ file, seat: fields.seat });
+    if (fields.date) setValue('date', fields.date);
+    if (fields.venueName) setValue('venueName', fields.venueName);
+    if (fields.venueCity) setValue('venueCity', fields.venueCity);
+    if (fields.artistName) setValue('artistName', fields.artistName);
+    if (fields.tourName) setValue('tourName', fields.tourName);
+    if (fields.seat && !getValues('notes')) setValue('notes', `Seat: ${fields.seat}`);
+  };
+
   const onSubmit = async (data: ConcertFormData) => {
     setIsSubmitting(true);
     try {
       const payload = {
         ...data,
+        ...eventDateFields(data.date, data.kickoffTime, null),
         openingActs: data.openingActs ? data.openingActs.split(',').map((s) => s.trim()) : [],
         venueLatitude: venueCoords.lat,
         venueLongitude: venueCoords.lng,
@@ -136,20 +166,36 @@ export default function ConcertFormPage() {
           isEncore: song.isEncore,
           isCover: song.isCover,
           coverArtist: song.coverArtist,
+          isTape: song.isTape,
+          segue: song.segue,
+          notes: song.notes,
         })),
       };
 
-      const response = await fetch('/api/events/concert', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
+      // Falls back to the offline queue when there is no connection
+      const result = await submitEvent('concert', payload, session?.user?.id, ticket);
+      if (result.queued) {
+        alert(
+          `You're offline. This concert was saved on your device and will sync when you reconnect.` +
+            (ticket ? ' Its ticket scan will be attached then.' : '')
+        );
+        router.push('/events');
+        return;
+      }
+      const { response } = result;
 
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error || 'Failed to create event');
       }
 
+      // Keep the scanned ticket with the new event
+      if (ticket) {
+        const { data: created } = await response.json();
+        const attached = await attachTicketScan(created.id, ticket.file, ticket.seat);
+        if (!attached) alert('The event was saved, but the ticket scan could not be attached.');
+      }
+
       router.push('/events');
       router.refresh();
     } catch (error) {
@@ -177,13 +223,26 @@ export default function ConcertFormPage() {
           Back to event types
         </Link>
 
+        {/* Ticket Scan */}
+        <TicketScanner
+          file={ticket?.file ?? null}
+          onScan={handleTicketScan}
+          onClear={() => setTicket(null)}
+        />
+
         {/* Concert Search */}
         <ConcertSearch onConcertSelect={handleConcertSelect} />
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-          <div>
-            <label className="block text-sm font-medium mb-2">Date</label>
-            <Input type="date" {...register('date')} error={errors.date?.message} />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Date</label>
+              <Input type="date" {...register('date')} error={errors.date?.message} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Show time (local time)</label>
+              <Input type="time" {...register('kickoffTime')} error={errors.kickoffTime?.message} />
+            </div>
           </div>
 
           <div>
@@ -260,6 +319,16 @@ export default function ConcertFormPage() {
                             {song.coverArtist} cover
                           </span>
                         )}
+                        {song.isTape && (
+                          <span className="text-xs px-2 py-0.5 rounded bg-secondary text-muted-foreground">
+                            Tape
+                          </span>
+                        )}
+                        {song.segue && (
+                          <span className="text-xs text-muted-foreground" title="Segues into the next song">
+                            &gt;
+                          </span>
+                        )}
                         <button
                           type="button"
                           onClick={() => toggleEncore(globalIndex)}
@@ -301,6 +370,16 @@ export default function ConcertFormPage() {
                             {song.coverArtist} cover
                           </span>
                         )}
+                        {song.isTape && (
+                          <span className="text-xs px-2 py-0.5 rounded bg-secondary text-muted-foreground">
+                            Tape
+                          </span>
+                        )}
+                        {song.segue && (
+                          <span className="text-xs text-muted-foreground" title="Segues into the next song">
+                            &gt;
+                          </span>
+                        )}
                         <button
                           type="button"
                           onClick={() => toggleEncore(globalIndex)}
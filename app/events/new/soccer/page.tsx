@@ -6,6 +6,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -19,9 +20,22 @@ import { Card, CardContent } from '@/components/ui/Card';
 import { MatchSearch, type MatchResult, type SoccerMatchResult, type SoccerPlayerAppearance, type PlayerAppearance } from '@/components/shared/MatchSearch';
 import { PlayerStatsEditor, type SoccerPlayer, type Player } from '@/components/events/PlayerStatsEditor';
 import { TeamBadge } from '@/components/shared/TeamBadge';
+import { TicketScanner } from '@/components/shared/TicketScanner';
+import { SupportedSidePicker } from '@/components/events/SupportedSidePicker';
+import { LineScoreEditor } from '@/components/events/LineScoreEditor';
+import { MatchTimelineEditor } from '@/components/events/MatchTimelineEditor';
+import { CupTieEditor, EMPTY_CUP_TIE, type CupTieInput } from '@/components/events/CupTieEditor';
+import { useFixtureDate } from '@/hooks/useFixtureDate';
+import { submitEvent } from '@/lib/cache/sync';
+import { eventDateFields } from '@/lib/utils/timezone';
+import { attachTicketScan } from '@/lib/media/client';
+import type { TicketFields } from '@/lib/ocr';
+import type { PeriodScoreInput } from '@/lib/utils/line-score';
+import type { MatchEventInput } from '@/lib/utils/match-timeline';
 
 const soccerSchema = z.object({
   date: z.string().min(1, 'Date is required'),
+  kickoffTime: z.string().optional(), // Venue-local HH:mm
   venueName: z.string().min(1, 'Venue name is required'),
   venueCity: z.string().optional(), // Optional - API doesn't always provide this
   venueCountry: z.string().optional(), // Optional - API doesn't always provide this
@@ -33,14 +47,20 @@ const soccerSchema = z.object({
   notes: z.string().optional(),
   rating: z.coerce.number().min(1).max(5).optional(),
   externalMatchId: z.number().optional(),
+  supportedSide: z.enum(['HOME', 'AWAY', 'NEUTRAL']).optional(),
 });
 
 type SoccerFormData = z.infer<typeof soccerSchema>;
 
 export default function SoccerFormPage() {
   const router = useRouter();
+  const { data: session } = useSession();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [ticket, setTicket] = useState<{ file: File; seat?: string } | null>(null);
   const [players, setPlayers] = useState<SoccerPlayer[]>([]);
+  const [lineScore, setLineScore] = useState<PeriodScoreInput[]>([]);
+  const [timeline, setTimeline] = useState<MatchEventInput[]>([]);
+  const [cupTie, setCupTie] = useState<CupTieInput>(EMPTY_CUP_TIE);
   const [teamCrests, setTeamCrests] = useState<{
     home?: string;
     away?: string;
@@ -53,6 +73,7 @@ export default function SoccerFormPage() {
     handleSubmit,
     watch,
     setValue,
+    getValues,
     formState: { errors },
   } = useForm<SoccerFormData>({
     resolver: zodResolver(soccerSchema),
@@ -63,6 +84,13 @@ export default function SoccerFormPage() {
     },
   });
 
+  // Kickoff of a fixture picked from search, shown on the venue's day
+  const { fixture, selectFixture } = useFixtureDate(
+    watch('date'),
+    { name: watch('venueName'), city: watch('venueCity'), country: watch('venueCountry') },
+    (day) => setValue('date', day)
+  );
+
   const homeScore = watch('homeScore');
   const awayScore = watch('awayScore');
   const homeTeam = watch('homeTeam');
@@ -76,6 +104,14 @@ export default function SoccerFormPage() {
     setValue('awayTeam', match.awayTeam);
     setValue('homeScore', match.homeScore ?? 0);
     setValue('awayScore', match.awayScore ?? 0);
+    setLineScore([]); // Replaced once the game's details load
+    setTimeline([]);
+    setCupTie({
+      extraTime: match.extraTime ?? false,
+      homePenalties: match.homePenalties ?? null,
+      awayPenalties: match.awayPenalties ?? null,
+      firstLegEventId: null,
+    });
     setValue('competition', match.competition || '');
     setValue('externalMatchId', match.id);
     
@@ -89,8 +125,7 @@ export default function SoccerFormPage() {
     
     // Set date
     if (match.date) {
-      const date = new Date(match.date);
-      setValue('date', date.toISOString().split('T')[0]);
+      selectFixture(match.date);
     }
     
     // Set venue if available
@@ -130,11 +165,27 @@ export default function SoccerFormPage() {
     setPlayers(formattedPlayers);
   };
 
+  // Prefill from a scanned ticket - only fields the scan actually found
+  const handleTicketScan = (fields: TicketFields, file: File) => {
+    setTicket({ file, seat: fields.seat });
+    if (fields.date) setValue('date', fields.date);
+    if (fields.venueName) setValue('venueName', fields.venueName);
+    if (fields.venueCity) setValue('venueCity', fields.venueCity);
+    if (fields.homeTeam) setValue('homeTeam', fields.homeTeam);
+    if (fields.awayTeam) setValue('awayTeam', fields.awayTeam);
+    if (fields.seat && !getValues('notes')) setValue('notes', `Seat: ${fields.seat}`);
+  };
+
   const onSubmit = async (data: SoccerFormData) => {
     setIsSubmitting(true);
     try {
       const payload = {
         ...data,
+        ...eventDateFields(data.date, data.kickoffTime, fixture),
+        lineScore,
+        timeline,
+        ...cupTie,
+        firstLegEventId: cupTie.firstLegEventId ?? undefined,
         // Include team logo data for Team entries
         homeTeamId: teamCrests.homeId,
         awayTeamId: teamCrests.awayId,
@@ -155,11 +206,17 @@ export default function SoccerFormPage() {
           })),
       };
 
-      const response = await fetch('/api/events/soccer', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
+      // Falls back to the offline queue when there is no connection
+      const result = await submitEvent('soccer', payload, session?.user?.id, ticket);
+      if (result.queued) {
+        alert(
+          `You're offline. This match was saved on your device and will sync when you reconnect.` +
+            (ticket ? ' Its ticket scan will be attached then.' : '')
+        );
+        router.push('/events');
+        return;
+      }
+      const { response } = result;
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -173,6 +230,13 @@ export default function SoccerFormPage() {
         throw new Error(errorData.error || 'Failed to create event');
       }
 
+      // Keep the scanned ticket with the new event
+      if (ticket) {
+        const { data: created } = await response.json();
+        const attached = await attachTicketScan(created.id, ticket.file, ticket.seat);
+        if (!attached) alert('The event was saved, but the ticket scan could not be attached.');
+      }
+
       router.push('/events');
       router.refresh();
     } catch (error) {
@@ -196,18 +260,33 @@ export default function SoccerFormPage() {
           Back to event types
         </Link>
 
+        {/* Ticket Scan */}
+        <TicketScanner
+          file={ticket?.file ?? null}
+          onScan={handleTicketScan}
+          onClear={() => setTicket(null)}
+        />
+
         {/* API Search */}
         <MatchSearch
           sportType="soccer"
           onMatchSelect={handleMatchSelect}
           onPlayersLoaded={handlePlayersLoaded}
+          onLineScoreLoaded={setLineScore}
+          onTimelineLoaded={setTimeline}
         />
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
           {/* Date */}
-          <div>
-            <label className="block text-sm font-medium mb-2">Date</label>
-            <Input type="date" {...register('date')} error={errors.date?.message} />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Date</label>
+              <Input type="date" {...register('date')} error={errors.date?.message} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Kickoff (local time)</label>
+              <Input type="time" {...register('kickoffTime')} error={errors.kickoffTime?.message} />
+            </div>
           </div>
 
           {/* Teams and Score */}
@@ -293,6 +372,39 @@ export default function SoccerFormPage() {
             </CardContent>
           </Card>
 
+          {/* Line score */}
+          <LineScoreEditor
+            sport="SOCCER"
+            homeTeamName={homeTeam}
+            awayTeamName={awayTeam}
+            homeScore={homeScore}
+            awayScore={awayScore}
+            value={lineScore}
+            onChange={setLineScore}
+          />
+
+          {/* Goals, cards and substitutions */}
+          <MatchTimelineEditor
+            homeTeamName={homeTeam}
+            awayTeamName={awayTeam}
+            homeScore={homeScore}
+            awayScore={awayScore}
+            value={timeline}
+            onChange={setTimeline}
+          />
+
+          {/* Extra time, shootout and first leg */}
+          <CupTieEditor
+            key={watch('externalMatchId') ?? 'manual'}
+            homeTeamName={homeTeam}
+            awayTeamName={awayTeam}
+            homeScore={homeScore}
+            awayScore={awayScore}
+            date={watch('date')}
+            value={cupTie}
+            onChange={setCupTie}
+          />
+
           {/* Competition */}
           <div>
             <label className="block text-sm font-medium mb-2">Competition (Optional)</label>
@@ -324,6 +436,14 @@ export default function SoccerFormPage() {
             onPlayersChange={(players) => setPlayers(players as SoccerPlayer[])}
           />
 
+          {/* Supported side */}
+          <SupportedSidePicker
+            homeTeamName={homeTeam}
+            awayTeamName={awayTeam}
+            value={watch('supportedSide')}
+            onChange={(side) => setValue('supportedSide', side ?? undefined)}
+          />
+
           {/* Notes */}
           <div>
             <label className="block text-sm font-medium mb-2">Notes (Optional)</label>
@@ -5,6 +5,7 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
@@ -14,33 +15,48 @@ import { Header } from '@/components/layout/Header';
 import { BottomNav } from '@/components/layout/BottomNav';
 import { Button } from '@/components/ui/Button';
 import { Input } from '@/components/ui/Input';
+import { MatchSearch, type MatchResult, type TennisMatchResult } from '@/components/shared/MatchSearch';
+import { TicketScanner } from '@/components/shared/TicketScanner';
+import { useFixtureDate } from '@/hooks/useFixtureDate';
+import { submitEvent } from '@/lib/cache/sync';
+import { eventDateFields } from '@/lib/utils/timezone';
+import { attachTicketScan } from '@/lib/media/client';
+import type { TicketFields } from '@/lib/ocr';
 
 const tennisSchema = z.object({
   date: z.string().min(1, 'Date is required'),
+  kickoffTime: z.string().optional(), // Venue-local HH:mm
   venueName: z.string().min(1, 'Venue name is required'),
   venueCity: z.string().min(1, 'City is required'),
   venueCountry: z.string().min(1, 'Country is required'),
   player1Name: z.string().min(1, 'Player 1 is required'),
   player2Name: z.string().min(1, 'Player 2 is required'),
   winnerName: z.string().optional(),
-  score: z.string().min(1, 'Score is required'),
+  score: z.string(),
   tournament: z.string().optional(),
   round: z.string().optional(),
   notes: z.string().optional(),
   rating: z.coerce.number().min(1).max(5).optional(),
-});
+}).refine(
+  // Upcoming matches are saved as planned and don't have a score yet
+  (data) => data.score.trim().length > 0 || new Date(data.date).getTime() > Date.now(),
+  { message: 'Score is required', path: ['score'] }
+);
 
 type TennisFormData = z.infer<typeof tennisSchema>;
 
 export default function TennisFormPage() {
   const router = useRouter();
+  const { data: session } = useSession();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [ticket, setTicket] = useState<{ file: File; seat?: string } | null>(null);
 
   const {
     register,
     handleSubmit,
     watch,
     setValue,
+    getValues,
     formState: { errors },
   } = useForm<TennisFormData>({
     resolver: zodResolver(tennisSchema),
@@ -49,20 +65,75 @@ export default function TennisFormPage() {
     },
   });
 
+  // Kickoff of a fixture picked from search, shown on the venue's day
+  const { fixture, selectFixture } = useFixtureDate(
+    watch('date'),
+    { name: watch('venueName'), city: watch('venueCity'), country: watch('venueCountry') },
+    (day) => setValue('date', day)
+  );
+
+  // Prefill from a scanned ticket - only fields the scan actually found
+  const handleTicketScan = (fields: TicketFields, file: File) => {
+    setTicket({ file, seat: fields.seat });
+    if (fields.date) setValue('date', fields.date);
+    if (fields.venueName) setValue('venueName', fields.venueName);
+    if (fields.venueCity) setValue('venueCity', fields.venueCity);
+    if (fields.homeTeam) setValue('player1Name', fields.homeTeam);
+    if (fields.awayTeam) setValue('player2Name', fields.awayTeam);
+    if (fields.seat && !getValues('notes')) setValue('notes', `Seat: ${fields.seat}`);
+  };
+
+  const handleMatchSelect = (result: MatchResult) => {
+    const match = result as TennisMatchResult;
+    // Auto-fill form fields
+    setValue('player1Name', match.player1);
+    setValue('player2Name', match.player2);
+    setValue('score', match.score ?? '');
+    setValue('tournament', match.tournament);
+    setValue('round', match.round ?? '');
+    if (match.winner) {
+      setValue('winnerName', match.winner === 1 ? match.player1 : match.player2);
+    }
+
+    // Set date
+    if (match.date) {
+      selectFixture(match.date);
+    }
+
+    // Set venue if available
+    if (match.venue) setValue('venueName', match.venue);
+    if (match.city) setValue('venueCity', match.city);
+    if (match.country) setValue('venueCountry', match.country);
+  };
+
   const onSubmit = async (data: TennisFormData) => {
     setIsSubmitting(true);
     try {
-      const response = await fetch('/api/events/tennis', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(data),
-      });
+      // Falls back to the offline queue when there is no connection
+      const payload = { ...data, ...eventDateFields(data.date, data.kickoffTime, fixture) };
+      const result = await submitEvent('tennis', payload, session?.user?.id, ticket);
+      if (result.queued) {
+        alert(
+          `You're offline. This match was saved on your device and will sync when you reconnect.` +
+            (ticket ? ' Its ticket scan will be attached then.' : '')
+        );
+        router.push('/events');
+        return;
+      }
+      const { response } = result;
 
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error || 'Failed to create event');
       }
 
+      // Keep the scanned ticket with the new event
+      if (ticket) {
+        const { data: created } = await response.json();
+        const attached = await attachTicketScan(created.id, ticket.file, ticket.seat);
+        if (!attached) alert('The event was saved, but the ticket scan could not be attached.');
+      }
+
       router.push('/events');
       router.refresh();
     } catch (error) {
@@ -89,10 +160,29 @@ export default function TennisFormPage() {
           Back to event types
         </Link>
 
+        {/* Ticket Scan */}
+        <TicketScanner
+          file={ticket?.file ?? null}
+          onScan={handleTicketScan}
+          onClear={() => setTicket(null)}
+        />
+
+        {/* API Search */}
+        <MatchSearch
+          sportType="tennis"
+          onMatchSelect={handleMatchSelect}
+        />
+
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-          <div>
-            <label className="block text-sm font-medium mb-2">Date</label>
-            <Input type="date" {...register('date')} error={errors.date?.message} />
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium mb-2">Date</label>
+              <Input type="date" {...register('date')} error={errors.date?.message} />
+            </div>
+            <div>
+              <label className="block text-sm font-medium mb-2">Start time (local time)</label>
+              <Input type="time" {...register('kickoffTime')} error={errors.kickoffTime?.message} />
+            </div>
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -108,7 +198,7 @@ export default function TennisFormPage() {
 
           <div>
             <label className="block text-sm font-medium mb-2">Score</label>
-            <Input {...register('score')} placeholder="e.g., 6-4, 3-6, 7-5" error={errors.score?.message} />
+            <Input {...register('score')} placeholder="e.g., 6-4, 3-6, 7-5 (blank for an upcoming match)" error={errors.score?.message} />
           </div>
 
           <div>
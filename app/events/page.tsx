@@ -15,6 +15,8 @@ import {
   getMLBTeamLogo,
 } from '@/lib/api/team-logos';
 import type { EventWithRelations } from '@/types';
+import { periodEventWhere } from '@/lib/utils/seasons';
+import { eventLocalDate } from '@/lib/utils/timezone';
 
 // Helper to get logos for an event
 async function getEventLogos(
@@ -27,10 +29,14 @@ async function getEventLogos(
       if (event.soccerMatch) {
         const [homeTeam, awayTeam] = await Promise.all([
           prisma.team.findFirst({
-            where: { name: event.soccerMatch.homeTeam, sport: 'SOCCER' },
+            where: event.soccerMatch.homeTeamRefId
+              ? { id: event.soccerMatch.homeTeamRefId }
+              : { name: event.soccerMatch.homeTeam, sport: 'SOCCER' },
           }),
           prisma.team.findFirst({
-            where: { name: event.soccerMatch.awayTeam, sport: 'SOCCER' },
+            where: event.soccerMatch.awayTeamRefId
+              ? { id: event.soccerMatch.awayTeamRefId }
+              : { name: event.soccerMatch.awayTeam, sport: 'SOCCER' },
           }),
         ]);
         
@@ -70,16 +76,18 @@ async function getEventLogos(
 }
 
 // Search form component (client-side for form submission)
-function SearchForm({ defaultValue, typeFilter, yearFilter }: { 
+function SearchForm({ defaultValue, typeFilter, yearFilter, statusFilter }: { 
   defaultValue?: string; 
   typeFilter?: string;
   yearFilter?: number;
+  statusFilter?: string;
 }) {
   return (
     <form method="GET" className="relative">
       {/* Preserve existing filters */}
       {typeFilter && <input type="hidden" name="type" value={typeFilter.toLowerCase()} />}
       {yearFilter && <input type="hidden" name="year" value={yearFilter} />}
+      {statusFilter && <input type="hidden" name="status" value={statusFilter.toLowerCase()} />}
       
       <div className="relative">
         <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
@@ -104,7 +112,7 @@ function SearchForm({ defaultValue, typeFilter, yearFilter }: {
 }
 
 interface EventsPageProps {
-  searchParams: Promise<{ type?: string; year?: string; search?: string }>;
+  searchParams: Promise<{ type?: string; year?: string; search?: string; status?: string }>;
 }
 
 export default async function EventsPage({ searchParams }: EventsPageProps) {
@@ -118,17 +126,18 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
   const typeFilter = params.type?.toUpperCase();
   const yearFilter = params.year ? parseInt(params.year, 10) : undefined;
   const searchQuery = params.search?.trim();
+  const statusFilter = params.status?.toUpperCase();
 
   // Build where clause
   const where: Record<string, unknown> = { userId: session.user.id };
   if (typeFilter && ['SOCCER', 'BASKETBALL', 'BASEBALL', 'TENNIS', 'CONCERT'].includes(typeFilter)) {
     where.type = typeFilter;
   }
+  if (statusFilter && ['PLANNED', 'ATTENDED', 'MISSED'].includes(statusFilter)) {
+    where.status = statusFilter;
+  }
   if (yearFilter) {
-    where.date = {
-      gte: new Date(`${yearFilter}-01-01`),
-      lt: new Date(`${yearFilter + 1}-01-01`),
-    };
+    Object.assign(where, periodEventWhere({ year: yearFilter }));
   }
 
   // Add search filter using OR across multiple fields
@@ -168,10 +177,9 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
   // Get available years for filter
   const years = await prisma.event.findMany({
     where: { userId: session.user.id },
-    select: { date: true },
-    distinct: ['date'],
+    select: { date: true, localDate: true },
   });
-  const availableYears = [...new Set(years.map((e) => new Date(e.date).getFullYear()))].sort((a, b) => b - a);
+  const availableYears = [...new Set(years.map((e) => eventLocalDate(e).getUTCFullYear()))].sort((a, b) => b - a);
 
   // Get total count for display
   const totalCount = await prisma.event.count({
@@ -183,7 +191,7 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
     events.map((event) => getEventLogos(event as EventWithRelations))
   );
 
-  const hasFilters = typeFilter || yearFilter || searchQuery;
+  const hasFilters = typeFilter || yearFilter || searchQuery || statusFilter;
 
   return (
     <div className="min-h-screen pb-20">
@@ -195,6 +203,7 @@ export default async function EventsPage({ searchParams }: EventsPageProps) {
           defaultValue={searchQuery} 
           typeFilter={typeFilter} 
           yearFilter={yearFilter} 
+          statusFilter={statusFilter}
         />
 
         {/* Type Filters */}
@@ -20,11 +20,11 @@ export default async function MapPage() {
   // Fetch venues with event counts and event type breakdowns
   const venues = await prisma.venue.findMany({
     where: {
-      events: { some: { userId: session.user.id } },
+      events: { some: { userId: session.user.id, status: 'ATTENDED' } },
     },
     include: {
       events: {
-        where: { userId: session.user.id },
+        where: { userId: session.user.id, status: 'ATTENDED' },
         select: { type: true },
       },
       _count: { select: { events: true } },
@@ -5,13 +5,16 @@ import { getServerSession } from 'next-auth';
 import { redirect } from 'next/navigation';
 import Link from 'next/link';
 import { Calendar, BarChart3, Trophy, MapPin, Sparkles } from 'lucide-react';
-import { startOfMonth, endOfMonth } from 'date-fns';
 import { authOptions } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
 import { Header } from '@/components/layout/Header';
 import { BottomNav } from '@/components/layout/BottomNav';
 import { EventCard } from '@/components/shared/EventCard';
 import { StreakHighlight } from '@/components/shared/StreakHighlight';
+import { AttendancePrompt } from '@/components/events/AttendancePrompt';
+import { formatShortDate } from '@/lib/utils';
+import { getStreaks } from '@/lib/db/streaks';
+import { localDateWhere } from '@/lib/utils/timezone';
 import {
   getTeamLogoUrl,
   getNBATeamLogo,
@@ -31,10 +34,14 @@ async function getEventLogos(
         // Try to find teams in database first
         const [homeTeam, awayTeam] = await Promise.all([
           prisma.team.findFirst({
-            where: { name: event.soccerMatch.homeTeam, sport: 'SOCCER' },
+            where: event.soccerMatch.homeTeamRefId
+              ? { id: event.soccerMatch.homeTeamRefId }
+              : { name: event.soccerMatch.homeTeam, sport: 'SOCCER' },
           }),
           prisma.team.findFirst({
-            where: { name: event.soccerMatch.awayTeam, sport: 'SOCCER' },
+            where: event.soccerMatch.awayTeamRefId
+              ? { id: event.soccerMatch.awayTeamRefId }
+              : { name: event.soccerMatch.awayTeam, sport: 'SOCCER' },
           }),
         ]);
         
@@ -81,6 +88,15 @@ async function getEventLogos(
   return logos;
 }
 
+// One-line description for the attendance prompts
+function getEventTitle(event: EventWithRelations): string {
+  const game = event.soccerMatch ?? event.basketballGame ?? event.baseballGame;
+  if (game) return `${game.homeTeam} vs ${game.awayTeam}`;
+  if (event.tennisMatch) return `${event.tennisMatch.player1.name} vs ${event.tennisMatch.player2.name}`;
+  if (event.concert) return event.concert.artist.name;
+  return event.venue.name;
+}
+
 export default async function HomePage() {
   const session = await getServerSession(authOptions);
 
@@ -90,15 +106,15 @@ export default async function HomePage() {
 
   const now = new Date();
 
-  // Fetch user stats, recent events, and monthly streak
-  const [stats, recentEvents, eventsThisMonth, venueCount] = await Promise.all([
+  // Fetch user stats, recent events, and streaks
+  const [stats, recentEvents, eventsThisMonth, venueCount, plannedEvents, streakReport] = await Promise.all([
     prisma.event.groupBy({
       by: ['type'],
-      where: { userId: session.user.id },
+      where: { userId: session.user.id, status: 'ATTENDED' },
       _count: { type: true },
     }),
     prisma.event.findMany({
-      where: { userId: session.user.id },
+      where: { userId: session.user.id, status: 'ATTENDED' },
       include: {
         venue: true,
         soccerMatch: true,
@@ -114,21 +130,44 @@ export default async function HomePage() {
     prisma.event.count({
       where: {
         userId: session.user.id,
-        date: {
-          gte: startOfMonth(now),
-          lte: endOfMonth(now),
-        },
+        status: 'ATTENDED',
+        // This month by the venue's calendar
+        ...localDateWhere(
+          new Date(Date.UTC(now.getFullYear(), now.getMonth(), 1)),
+          new Date(Date.UTC(now.getFullYear(), now.getMonth() + 1, 1))
+        ),
       },
     }),
     prisma.venue.count({
       where: {
         events: {
-          some: { userId: session.user.id },
+          some: { userId: session.user.id, status: 'ATTENDED' },
         },
       },
     }),
+    prisma.event.findMany({
+      where: { userId: session.user.id, status: 'PLANNED' },
+      include: {
+        venue: true,
+        soccerMatch: true,
+        basketballGame: true,
+        baseballGame: true,
+        tennisMatch: { include: { player1: true, player2: true } },
+        concert: { include: { artist: true } },
+        media: true,
+      },
+      orderBy: { date: 'asc' },
+    }),
+    getStreaks(session.user.id, { scopes: ['all', 'sport', 'venue', 'team'], limit: 5, now }),
   ]);
 
+  // Planned events whose date has passed need a yes/no from the user
+  const awaitingConfirmation = plannedEvents.filter((event) => event.date < now);
+  const upcomingEvents = plannedEvents.filter((event) => event.date >= now).slice(0, 3);
+  const upcomingLogos = await Promise.all(
+    upcomingEvents.map((event) => getEventLogos(event as EventWithRelations))
+  );
+
   // Fetch logos for all events
   const eventLogos = await Promise.all(
     recentEvents.map((event) => getEventLogos(event as EventWithRelations))
@@ -148,7 +187,12 @@ export default async function HomePage() {
 
       <main className="px-4 py-6 max-w-4xl mx-auto space-y-6">
         {/* Streak Highlight */}
-        <StreakHighlight count={eventsThisMonth} userName={firstName} />
+        <StreakHighlight
+          count={eventsThisMonth}
+          userName={firstName}
+          streaks={streakReport.streaks.filter((streak) => streak.scope === 'all')}
+          atRisk={streakReport.atRisk}
+        />
 
         {/* Compact Stats Row */}
         <section>
@@ -188,6 +232,45 @@ export default async function HomePage() {
           </div>
         </section>
 
+        {/* Planned events to confirm */}
+        {awaitingConfirmation.length > 0 && (
+          <section className="space-y-3">
+            <h2 className="text-lg font-bold">Did you go?</h2>
+            {awaitingConfirmation.map((event) => (
+              <AttendancePrompt
+                key={event.id}
+                eventId={event.id}
+                title={`${getEventTitle(event as EventWithRelations)} · ${formatShortDate(event.date)}`}
+              />
+            ))}
+          </section>
+        )}
+
+        {/* Upcoming planned events */}
+        {upcomingEvents.length > 0 && (
+          <section>
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-bold">Upcoming</h2>
+              <Link
+                href="/events?status=planned"
+                className="text-sm text-primary hover:text-primary/80 transition-colors"
+              >
+                View all
+              </Link>
+            </div>
+            <div className="space-y-3">
+              {upcomingEvents.map((event, index) => (
+                <EventCard
+                  key={event.id}
+                  event={event as EventWithRelations}
+                  index={index}
+                  logos={upcomingLogos[index]}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+
         {/* Recent Events */}
         <section>
           <div className="flex items-center justify-between mb-4">
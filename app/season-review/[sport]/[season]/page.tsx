@@ -0,0 +1,226 @@
+'use client';
+
+// Season in Review Display Page
+// ✅ Code Quality Agent: One sport's season, e.g. Soccer 2024-25
+
+import { useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { Header } from '@/components/layout/Header';
+import { BottomNav } from '@/components/layout/BottomNav';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+
+interface SeasonReviewData {
+  sport: string;
+  season: string;
+  totalEvents: number;
+  competitions: { name: string; count: number }[];
+  topVenues: { venue: { name: string; city: string }; count: number }[];
+  topTeams: { teamName: string; wins: number; draws: number; losses: number; totalGames: number }[];
+  topPerformers: {
+    playerId: string;
+    playerName: string;
+    totalGoals?: number;
+    totalPoints?: number;
+    totalHomeRuns?: number;
+    appearances: number;
+  }[];
+  monthlyBreakdown: { month: number; count: number }[];
+  countriesVisited: string[];
+  achievementsUnlocked: number;
+}
+
+const SPORT_LABELS: Record<string, { label: string; stat: string }> = {
+  soccer: { label: '⚽ Soccer', stat: 'goals' },
+  basketball: { label: '🏀 Basketball', stat: 'pts' },
+  baseball: { label: '⚾ Baseball', stat: 'HR' },
+  tennis: { label: '🎾 Tennis', stat: '' },
+};
+
+export default function SeasonReviewDetailPage() {
+  const params = useParams();
+  const sport = params.sport as string;
+  const season = params.season as string;
+  const [data, setData] = useState<SeasonReviewData | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch(`/api/season-review/${sport}/${season}`)
+      .then((res) => res.json())
+      .then((res) => {
+        if (res.success) setData(res.data);
+      })
+      .catch(console.error)
+      .finally(() => setLoading(false));
+  }, [sport, season]);
+
+  const sportInfo = SPORT_LABELS[sport] ?? { label: sport, stat: '' };
+  const title = `${data?.season ?? season} Season`;
+
+  if (loading) {
+    return (
+      <div className="min-h-screen pb-20">
+        <Header title={title} />
+        <main className="px-4 py-6 max-w-4xl mx-auto">
+          <div className="animate-pulse space-y-4">
+            <div className="h-8 bg-secondary rounded w-1/2" />
+            <div className="h-32 bg-secondary rounded" />
+          </div>
+        </main>
+        <BottomNav />
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen pb-20">
+        <Header title={title} />
+        <main className="px-4 py-6 max-w-4xl mx-auto text-center">
+          <p className="text-muted-foreground">No data for the {season} season</p>
+        </main>
+        <BottomNav />
+      </div>
+    );
+  }
+
+  const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+  const performerStat = (p: SeasonReviewData['topPerformers'][number]) =>
+    p.totalGoals ?? p.totalPoints ?? p.totalHomeRuns ?? 0;
+
+  return (
+    <div className="min-h-screen pb-20">
+      <Header title={title} />
+      <main className="px-4 py-6 max-w-4xl mx-auto space-y-6">
+        <div className="text-center">
+          <h1 className="text-4xl font-bold gradient-text">{data.season}</h1>
+          <p className="text-muted-foreground">{sportInfo.label} Season in Review</p>
+        </div>
+
+        {/* Summary Stats */}
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <Card>
+            <CardContent className="p-4 text-center">
+              <p className="text-3xl font-mono font-bold">{data.totalEvents}</p>
+              <p className="text-sm text-muted-foreground">Events</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 text-center">
+              <p className="text-3xl font-mono font-bold">{data.competitions.length}</p>
+              <p className="text-sm text-muted-foreground">Competitions</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 text-center">
+              <p className="text-3xl font-mono font-bold">{data.countriesVisited.length}</p>
+              <p className="text-sm text-muted-foreground">Countries</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4 text-center">
+              <p className="text-3xl font-mono font-bold">{data.achievementsUnlocked}</p>
+              <p className="text-sm text-muted-foreground">Achievements</p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Monthly Chart - in season order */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Events by Month</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-end justify-between h-32 gap-1">
+              {data.monthlyBreakdown.map((item) => {
+                const max = Math.max(...data.monthlyBreakdown.map((m) => m.count), 1);
+                const height = (item.count / max) * 100;
+                return (
+                  <div key={item.month} className="flex-1 flex flex-col items-center gap-1">
+                    <div
+                      className="w-full bg-primary rounded-t transition-all"
+                      style={{ height: `${height}%` }}
+                    />
+                    <span className="text-xs text-muted-foreground">{months[item.month - 1]}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Competitions */}
+        {data.competitions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Competitions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {data.competitions.map((item) => (
+                <div key={item.name} className="flex justify-between items-center">
+                  <span>{item.name}</span>
+                  <span className="font-mono">{item.count}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Teams */}
+        {data.topTeams.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Most Watched Teams</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {data.topTeams.map((team) => (
+                <div key={team.teamName} className="flex justify-between items-center">
+                  <span>{team.teamName}</span>
+                  <span className="font-mono text-sm">
+                    {team.wins}W {team.draws}D {team.losses}L
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Top Performers */}
+        {data.topPerformers.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Performers</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {data.topPerformers.map((player) => (
+                <div key={player.playerId} className="flex justify-between items-center">
+                  <span>{player.playerName}</span>
+                  <span className="font-mono">
+                    {performerStat(player)} {sportInfo.stat}
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Top Venues */}
+        {data.topVenues.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Top Venues</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {data.topVenues.map((item, i) => (
+                <div key={i} className="flex justify-between items-center">
+                  <span>{item.venue.name}</span>
+                  <span className="font-mono">{item.count} events</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </main>
+      <BottomNav />
+    </div>
+  );
+}
@@ -6,11 +6,14 @@
 import { useSession, signOut } from 'next-auth/react';
 import { useRouter } from 'next/navigation';
 import { useState, useEffect } from 'react';
-import { Download, LogOut, Trash2, User, FileJson, FileSpreadsheet } from 'lucide-react';
+import { Download, LogOut, Trash2, User, FileJson, FileSpreadsheet, FileArchive, Upload, CalendarDays, ShieldCheck, Heart } from 'lucide-react';
 import { Header } from '@/components/layout/Header';
 import { BottomNav } from '@/components/layout/BottomNav';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/Card';
+import { ImportData } from '@/components/shared/ImportData';
+import { CalendarFeed } from '@/components/shared/CalendarFeed';
+import { FavoriteTeams } from '@/components/shared/FavoriteTeams';
 
 export default function SettingsPage() {
   const { data: session, status } = useSession();
@@ -35,7 +38,7 @@ export default function SettingsPage() {
     return null;
   }
 
-  const handleExport = async (format: 'json' | 'csv') => {
+  const handleExport = async (format: 'json' | 'csv' | 'zip') => {
     setIsExporting(true);
     try {
       const response = await fetch(`/api/export?format=${format}`);
@@ -126,6 +129,64 @@ export default function SettingsPage() {
               Export as CSV
               <span className="text-xs text-muted-foreground ml-auto">Spreadsheet</span>
             </Button>
+            <Button
+              variant="outline"
+              className="w-full justify-start gap-3"
+              onClick={() => handleExport('zip')}
+              isLoading={isExporting}
+            >
+              <FileArchive className="h-5 w-5 text-amber-500" />
+              Export all as ZIP
+              <span className="text-xs text-muted-foreground ml-auto">Every table as CSV</span>
+            </Button>
+          </CardContent>
+        </Card>
+
+        {/* Data Import Section */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Upload className="h-5 w-5" />
+              Import Data
+            </CardTitle>
+            <CardDescription>
+              Restore a backup or move events from another instance. Events you already have are skipped.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ImportData />
+          </CardContent>
+        </Card>
+
+        {/* Favourite Teams Section */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Heart className="h-5 w-5" />
+              Favourite Teams
+            </CardTitle>
+            <CardDescription>
+              The side you support in matches you attend, unless you tag a different one on the event.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <FavoriteTeams />
+          </CardContent>
+        </Card>
+
+        {/* Calendar Feed Section */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CalendarDays className="h-5 w-5" />
+              Calendar Feed
+            </CardTitle>
+            <CardDescription>
+              Subscribe from Google Calendar, Apple Calendar or Outlook. Anyone with the link can see your events.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <CalendarFeed />
           </CardContent>
         </Card>
 
@@ -135,6 +196,16 @@ export default function SettingsPage() {
             <CardTitle>Account</CardTitle>
           </CardHeader>
           <CardContent className="space-y-3">
+            {session.user.role === 'ADMIN' && (
+              <Button
+                variant="outline"
+                className="w-full justify-start gap-3"
+                onClick={() => router.push('/admin')}
+              >
+                <ShieldCheck className="h-5 w-5" />
+                Admin
+              </Button>
+            )}
             <Button
               variant="outline"
               className="w-full justify-start gap-3"
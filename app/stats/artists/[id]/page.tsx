@@ -17,6 +17,9 @@ import {
   Loader2,
   ArrowLeft,
   Heart,
+  Gem,
+  Repeat,
+  HelpCircle,
 } from 'lucide-react';
 import Link from 'next/link';
 
@@ -33,6 +36,13 @@ interface ArtistProfile {
     uniqueSongs: number;
   };
   topSongs: Array<{ songName: string; count: number }>;
+  // Played counts come from every setlist stored for the artist
+  songStats: {
+    rarest: Array<{ songName: string; timesHeard: number; timesPlayed: number }>;
+    covers: Array<{ songName: string; coverArtist: string | null; timesHeard: number }>;
+    neverHeard: Array<{ songName: string; timesPlayed: number }>;
+    setlistsStored: number;
+  } | null;
   concerts: Array<{
     id: string;
     tourName: string | null;
@@ -206,6 +216,82 @@ export default function ArtistProfilePage({ params }: { params: Promise<{ id: st
           </Card>
         )}
 
+        {/* Rarest songs caught */}
+        {profile.songStats && profile.songStats.rarest.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Gem className="h-5 w-5 text-blue-400" />
+                Rarest Catches
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {profile.songStats.rarest.map((song) => (
+                  <div key={song.songName} className="flex items-center gap-3 p-2 rounded-lg bg-secondary/20">
+                    <div className="flex-1">{song.songName}</div>
+                    <div className="text-sm text-muted-foreground">
+                      in {song.timesPlayed} of {profile.songStats!.setlistsStored} setlists
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Covers */}
+        {profile.songStats && profile.songStats.covers.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Repeat className="h-5 w-5 text-blue-400" />
+                Covers Heard
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {profile.songStats.covers.map((song) => (
+                  <div key={song.songName} className="flex items-center gap-3 p-2 rounded-lg bg-secondary/20">
+                    <div className="flex-1">
+                      {song.songName}
+                      {song.coverArtist && (
+                        <span className="text-sm text-muted-foreground"> ({song.coverArtist})</span>
+                      )}
+                    </div>
+                    <div className="text-purple-400 font-bold">{song.timesHeard}x</div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Gap list */}
+        {profile.songStats && profile.songStats.neverHeard.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <HelpCircle className="h-5 w-5 text-muted-foreground" />
+                Never Heard Live
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-xs text-muted-foreground mb-3">
+                From the {profile.songStats.setlistsStored} setlists stored for {profile.artist.name}
+              </p>
+              <div className="space-y-2">
+                {profile.songStats.neverHeard.map((song) => (
+                  <div key={song.songName} className="flex items-center gap-3 p-2 rounded-lg bg-secondary/20">
+                    <div className="flex-1">{song.songName}</div>
+                    <div className="text-sm text-muted-foreground">played {song.timesPlayed}x</div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Concerts List */}
         <Card>
           <CardHeader>
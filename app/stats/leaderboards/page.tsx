@@ -20,11 +20,20 @@ import {
 } from 'lucide-react';
 import Link from 'next/link';
 import { TeamBadge } from '@/components/shared/TeamBadge';
+import { getSeasonRule, seasonFor } from '@/lib/utils/seasons';
 
 type SportType = 'soccer' | 'basketball' | 'baseball' | 'concert';
 type SoccerStat = 'goals' | 'assists' | 'appearances';
 type BasketballStat = 'points' | 'rebounds' | 'assists' | 'appearances';
-type BaseballStat = 'homeRuns' | 'hits' | 'rbis' | 'appearances';
+type BaseballStat =
+  | 'homeRuns'
+  | 'hits'
+  | 'rbis'
+  | 'appearances'
+  | 'pitcherStrikeOuts'
+  | 'inningsPitched'
+  | 'wins'
+  | 'saves';
 
 interface LeaderboardEntry {
   playerId: string;
@@ -37,6 +46,13 @@ interface LeaderboardEntry {
   totalRebounds?: number;
   totalHits?: number;
   totalHomeRuns?: number;
+  totalRbis?: number;
+  totalStrikeOuts?: number;
+  inningsPitched?: string;
+  earnedRunAverage?: number | null;
+  wins?: number;
+  losses?: number;
+  saves?: number;
   appearances?: number;
   timesSeen?: number;
   totalSongsHeard?: number;
@@ -52,6 +68,7 @@ function LeaderboardsContent() {
     searchParams.get('stat') || 'goals'
   );
   const [year, setYear] = useState<string>(searchParams.get('year') || '');
+  const [season, setSeason] = useState<string>(searchParams.get('season') || '');
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -67,6 +84,7 @@ function LeaderboardsContent() {
         params.append('sport', sport);
         params.append('stat', statType);
         if (year) params.append('year', year);
+        if (season) params.append('season', season);
 
         const response = await fetch(`/api/stats/leaderboards?${params}`);
         const data = await response.json();
@@ -84,7 +102,7 @@ function LeaderboardsContent() {
     };
 
     fetchLeaderboard();
-  }, [sport, statType, year]);
+  }, [sport, statType, year, season]);
 
   // Update URL when filters change
   useEffect(() => {
@@ -92,8 +110,9 @@ function LeaderboardsContent() {
     params.append('sport', sport);
     params.append('stat', statType);
     if (year) params.append('year', year);
+    if (season) params.append('season', season);
     router.replace(`/stats/leaderboards?${params}`, { scroll: false });
-  }, [sport, statType, year, router]);
+  }, [sport, statType, year, season, router]);
 
   // Get stat options based on sport
   const getStatOptions = () => {
@@ -117,6 +136,10 @@ function LeaderboardsContent() {
           { value: 'hits', label: 'Hits', icon: '🏏' },
           { value: 'rbis', label: 'RBIs', icon: '📈' },
           { value: 'appearances', label: 'Appearances', icon: '👤' },
+          { value: 'pitcherStrikeOuts', label: 'Strikeouts (pitching)', icon: '🎯' },
+          { value: 'inningsPitched', label: 'Innings Pitched', icon: '⏱️' },
+          { value: 'wins', label: 'Wins', icon: '🏆' },
+          { value: 'saves', label: 'Saves', icon: '🔒' },
         ];
       case 'concert':
         return [
@@ -148,7 +171,15 @@ function LeaderboardsContent() {
       case 'hits':
         return entry.totalHits || 0;
       case 'rbis':
-        return entry.appearances || 0;
+        return entry.totalRbis || 0;
+      case 'pitcherStrikeOuts':
+        return entry.totalStrikeOuts || 0;
+      case 'inningsPitched':
+        return entry.inningsPitched || '0.0';
+      case 'wins':
+        return entry.wins || 0;
+      case 'saves':
+        return entry.saves || 0;
       case 'appearances':
         return entry.appearances || 0;
       default:
@@ -162,6 +193,23 @@ function LeaderboardsContent() {
     return Array.from({ length: 10 }, (_, i) => currentYear - i);
   };
 
+  // Seasons use the sport's boundaries - "2024-25" for soccer, "2024" for baseball
+  const seasonOptions = () => {
+    const rule = getSeasonRule(sport.toUpperCase());
+    return yearOptions().map((y) => seasonFor(y, rule));
+  };
+
+  // Year and season are exclusive; season values are prefixed in the select
+  const handlePeriodChange = (value: string) => {
+    if (value.startsWith('season:')) {
+      setSeason(value.slice('season:'.length));
+      setYear('');
+    } else {
+      setYear(value);
+      setSeason('');
+    }
+  };
+
   // Get medal for position
   const getMedal = (position: number) => {
     switch (position) {
@@ -239,18 +287,27 @@ function LeaderboardsContent() {
 
               {/* Year Filter */}
               <div>
-                <label className="block text-sm font-medium mb-2">Year</label>
+                <label className="block text-sm font-medium mb-2">Year / Season</label>
                 <select
-                  value={year}
-                  onChange={(e) => setYear(e.target.value)}
+                  value={season ? `season:${season}` : year}
+                  onChange={(e) => handlePeriodChange(e.target.value)}
                   className="w-full h-10 rounded-lg border border-input bg-background px-3 text-sm"
                 >
                   <option value="">All Time</option>
-                  {yearOptions().map((y) => (
-                    <option key={y} value={y}>
-                      {y}
-                    </option>
-                  ))}
+                  <optgroup label="Calendar year">
+                    {yearOptions().map((y) => (
+                      <option key={y} value={y}>
+                        {y}
+                      </option>
+                    ))}
+                  </optgroup>
+                  <optgroup label="Season">
+                    {seasonOptions().map((option) => (
+                      <option key={option.startYear} value={`season:${option.startYear}`}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </optgroup>
                 </select>
               </div>
             </div>
@@ -316,6 +373,13 @@ function LeaderboardsContent() {
                           {entry.teamName}
                         </div>
                       )}
+                      {entry.inningsPitched !== undefined && (
+                        <div className="text-xs text-muted-foreground">
+                          {entry.inningsPitched} IP · ERA {entry.earnedRunAverage?.toFixed(2) ?? '-'} ·{' '}
+                          {entry.wins}-{entry.losses}
+                          {(entry.saves || 0) > 0 && `, ${entry.saves} SV`}
+                        </div>
+                      )}
                     </div>
 
                     {/* Stat Value */}
@@ -21,6 +21,7 @@ import {
   ChevronRight,
 } from 'lucide-react';
 import Link from 'next/link';
+import { formatMinute } from '@/lib/utils/match-timeline';
 
 interface OverviewStats {
   totalEvents: number;
@@ -42,6 +43,61 @@ interface OverviewStats {
     homeRunsWitnessed: number;
     rbisWitnessed: number;
   };
+  tennisStats?: {
+    matchesSeen: number;
+    setsSeen: number;
+    tiebreaksWitnessed: number;
+    matchTiebreaks: number;
+    fiveSetters: number;
+    decidingSets: number;
+    bagels: number;
+    retirements: number;
+    walkovers: number;
+  };
+  lineScoreStats?: {
+    gamesWithLineScore: number;
+    comebacks: number;
+    walkOffs: number;
+    overtimeGames: number;
+    biggestComeback: {
+      eventId: string;
+      winner: string;
+      loser: string;
+      deficit: number;
+    } | null;
+  };
+  timelineStats?: {
+    matchesWithTimeline: number;
+    goalsLogged: number;
+    redCards: number;
+    hatTricks: {
+      eventId: string;
+      playerName: string;
+      goals: number;
+      team: string;
+      opponent: string;
+    }[];
+    latestWinner: {
+      eventId: string;
+      playerName: string | null;
+      minute: number;
+      extraMinute: number | null;
+      team: string;
+      opponent: string;
+    } | null;
+  };
+  luckRecord?: {
+    played: number;
+    wins: number;
+    draws: number;
+    losses: number;
+    winRate: number;
+    currentUnbeaten: number;
+    currentWinless: number;
+    longestUnbeaten: number;
+    longestWinless: number;
+    recent: { eventId: string; result: 'W' | 'D' | 'L' }[];
+  };
   // Legacy format (backwards compatibility)
   aggregateStats: {
     goalsWitnessed: number;
@@ -310,6 +366,201 @@ export default function StatsPage() {
                   </div>
                 </div>
               )}
+
+              {/* Tennis Stats */}
+              {stats.tennisStats && stats.tennisStats.setsSeen > 0 && (
+                <div>
+                  <div className="text-xs uppercase tracking-wide text-muted-foreground mb-2 flex items-center gap-1">
+                    🎾 Tennis
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="p-3 rounded-lg bg-yellow-500/10">
+                      <div className="text-sm text-muted-foreground">Sets</div>
+                      <div className="text-2xl font-bold text-yellow-400">
+                        {stats.tennisStats.setsSeen}
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-lg bg-yellow-500/10">
+                      <div className="text-sm text-muted-foreground">Tiebreaks</div>
+                      <div className="text-2xl font-bold text-yellow-400">
+                        {stats.tennisStats.tiebreaksWitnessed + stats.tennisStats.matchTiebreaks}
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-lg bg-yellow-500/10">
+                      <div className="text-sm text-muted-foreground">Deciding Sets</div>
+                      <div className="text-2xl font-bold text-yellow-400">
+                        {stats.tennisStats.decidingSets}
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-lg bg-yellow-500/10">
+                      <div className="text-sm text-muted-foreground">Five-Setters</div>
+                      <div className="text-2xl font-bold text-yellow-400">
+                        {stats.tennisStats.fiveSetters}
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-lg bg-yellow-500/10">
+                      <div className="text-sm text-muted-foreground">Bagels</div>
+                      <div className="text-2xl font-bold text-yellow-400">
+                        {stats.tennisStats.bagels}
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-lg bg-yellow-500/10">
+                      <div className="text-sm text-muted-foreground">Retirements</div>
+                      <div className="text-2xl font-bold text-yellow-400">
+                        {stats.tennisStats.retirements}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Game flow, from line scores */}
+              {stats.lineScoreStats && stats.lineScoreStats.gamesWithLineScore > 0 && (
+                <div>
+                  <div className="text-xs uppercase tracking-wide text-muted-foreground mb-2 flex items-center gap-1">
+                    📈 Game Flow
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="p-3 rounded-lg bg-primary/10">
+                      <div className="text-sm text-muted-foreground">Comebacks</div>
+                      <div className="text-2xl font-bold text-primary">
+                        {stats.lineScoreStats.comebacks}
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-lg bg-primary/10">
+                      <div className="text-sm text-muted-foreground">Walk-offs</div>
+                      <div className="text-2xl font-bold text-primary">
+                        {stats.lineScoreStats.walkOffs}
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-lg bg-primary/10">
+                      <div className="text-sm text-muted-foreground">Overtime</div>
+                      <div className="text-2xl font-bold text-primary">
+                        {stats.lineScoreStats.overtimeGames}
+                      </div>
+                    </div>
+                  </div>
+                  {stats.lineScoreStats.biggestComeback && (
+                    <Link
+                      href={`/events/${stats.lineScoreStats.biggestComeback.eventId}`}
+                      className="block text-xs text-muted-foreground mt-2 hover:text-foreground"
+                    >
+                      Biggest comeback: {stats.lineScoreStats.biggestComeback.winner} from{' '}
+                      {stats.lineScoreStats.biggestComeback.deficit} down against{' '}
+                      {stats.lineScoreStats.biggestComeback.loser}
+                    </Link>
+                  )}
+                </div>
+              )}
+
+              {/* Match moments, from soccer timelines */}
+              {stats.timelineStats && stats.timelineStats.matchesWithTimeline > 0 && (
+                <div>
+                  <div className="text-xs uppercase tracking-wide text-muted-foreground mb-2 flex items-center gap-1">
+                    ⏱️ Match Moments
+                  </div>
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="p-3 rounded-lg bg-green-500/10">
+                      <div className="text-sm text-muted-foreground">Hat-tricks</div>
+                      <div className="text-2xl font-bold text-green-400">
+                        {stats.timelineStats.hatTricks.length}
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-lg bg-green-500/10">
+                      <div className="text-sm text-muted-foreground">Red cards</div>
+                      <div className="text-2xl font-bold text-green-400">
+                        {stats.timelineStats.redCards}
+                      </div>
+                    </div>
+                    <div className="p-3 rounded-lg bg-green-500/10">
+                      <div className="text-sm text-muted-foreground">Latest winner</div>
+                      <div className="text-2xl font-bold text-green-400">
+                        {stats.timelineStats.latestWinner
+                          ? formatMinute(stats.timelineStats.latestWinner.minute, stats.timelineStats.latestWinner.extraMinute)
+                          : '—'}
+                      </div>
+                    </div>
+                  </div>
+                  {stats.timelineStats.latestWinner && (
+                    <Link
+                      href={`/events/${stats.timelineStats.latestWinner.eventId}`}
+                      className="block text-xs text-muted-foreground mt-2 hover:text-foreground"
+                    >
+                      Latest winner: {stats.timelineStats.latestWinner.playerName ?? stats.timelineStats.latestWinner.team}{' '}
+                      for {stats.timelineStats.latestWinner.team} against {stats.timelineStats.latestWinner.opponent}
+                    </Link>
+                  )}
+                  {stats.timelineStats.hatTricks.map((hatTrick) => (
+                    <Link
+                      key={`${hatTrick.eventId}-${hatTrick.playerName}`}
+                      href={`/events/${hatTrick.eventId}`}
+                      className="block text-xs text-muted-foreground mt-1 hover:text-foreground"
+                    >
+                      🎩 {hatTrick.playerName} ({hatTrick.goals}) for {hatTrick.team} against {hatTrick.opponent}
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Lucky Charm - results of the side the user supported */}
+        {stats?.luckRecord && stats.luckRecord.played > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                🍀 Lucky Charm
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-4 gap-3 text-center">
+                <div className="p-3 rounded-lg bg-green-500/10">
+                  <div className="text-sm text-muted-foreground">Won</div>
+                  <div className="text-2xl font-bold text-green-400">{stats.luckRecord.wins}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-muted">
+                  <div className="text-sm text-muted-foreground">Drawn</div>
+                  <div className="text-2xl font-bold">{stats.luckRecord.draws}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-red-500/10">
+                  <div className="text-sm text-muted-foreground">Lost</div>
+                  <div className="text-2xl font-bold text-red-400">{stats.luckRecord.losses}</div>
+                </div>
+                <div className="p-3 rounded-lg bg-primary/10">
+                  <div className="text-sm text-muted-foreground">Win %</div>
+                  <div className="text-2xl font-bold text-primary">{stats.luckRecord.winRate}</div>
+                </div>
+              </div>
+
+              <div className="flex gap-1">
+                {[...stats.luckRecord.recent].reverse().map((match) => (
+                  <Link
+                    key={match.eventId}
+                    href={`/events/${match.eventId}`}
+                    className={`w-7 h-7 rounded flex items-center justify-center text-xs font-bold text-white ${
+                      match.result === 'W' ? 'bg-green-500' : match.result === 'L' ? 'bg-red-500' : 'bg-gray-400'
+                    }`}
+                  >
+                    {match.result}
+                  </Link>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Unbeaten run</div>
+                  <div className="font-medium">
+                    {stats.luckRecord.currentUnbeaten} now · best {stats.luckRecord.longestUnbeaten}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Winless run</div>
+                  <div className="font-medium">
+                    {stats.luckRecord.currentWinless} now · worst {stats.luckRecord.longestWinless}
+                  </div>
+                </div>
+              </div>
             </CardContent>
           </Card>
         )}
@@ -19,6 +19,7 @@ import {
   ArrowLeft,
 } from 'lucide-react';
 import Link from 'next/link';
+import { DECISION_LABELS, type PitchingDecision, type PitchingLine } from '@/lib/utils/pitching';
 
 interface PlayerProfile {
   player: {
@@ -38,6 +39,13 @@ interface PlayerProfile {
     homeRuns: number;
     rbis: number;
     appearances: number;
+    inningsPitched: string;
+    strikeOuts: number;
+    earnedRunAverage: number | null;
+    wins: number;
+    losses: number;
+    saves: number;
+    pitchingAppearances: number;
   };
   appearances: Array<{
     id: string;
@@ -47,6 +55,7 @@ interface PlayerProfile {
     rebounds: number | null;
     hits: number | null;
     homeRuns: number | null;
+    pitching: (PitchingLine & { decision: PitchingDecision | null }) | null;
     event: {
       id: string;
       date: string;
@@ -236,6 +245,48 @@ export default function PlayerProfilePage({ params }: { params: Promise<{ id: st
           </CardContent>
         </Card>
 
+        {/* Pitching Summary */}
+        {isBaseball && profile.totalStats.pitchingAppearances > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Target className="h-5 w-5" />
+                Pitching
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+                <div className="p-4 rounded-lg bg-secondary/30 text-center">
+                  <div className="text-3xl font-bold text-primary">
+                    {profile.totalStats.inningsPitched}
+                  </div>
+                  <div className="text-sm text-muted-foreground">Innings</div>
+                </div>
+                <div className="p-4 rounded-lg bg-secondary/30 text-center">
+                  <div className="text-3xl font-bold text-green-400">
+                    {profile.totalStats.strikeOuts}
+                  </div>
+                  <div className="text-sm text-muted-foreground">Strikeouts</div>
+                </div>
+                <div className="p-4 rounded-lg bg-secondary/30 text-center">
+                  <div className="text-3xl font-bold text-blue-400">
+                    {profile.totalStats.earnedRunAverage?.toFixed(2) ?? '-'}
+                  </div>
+                  <div className="text-sm text-muted-foreground">ERA</div>
+                </div>
+                <div className="p-4 rounded-lg bg-secondary/30 text-center">
+                  <div className="text-3xl font-bold text-yellow-400">
+                    {profile.totalStats.wins}-{profile.totalStats.losses}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    W-L{profile.totalStats.saves > 0 && ` · ${profile.totalStats.saves} SV`}
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Appearances List */}
         <Card>
           <CardHeader>
@@ -325,6 +376,12 @@ export default function PlayerProfilePage({ params }: { params: Promise<{ id: st
                                   {app.hits} H
                                 </span>
                               )}
+                              {app.pitching && (
+                                <span className="text-blue-400">
+                                  {app.pitching.inningsPitched} IP, {app.pitching.strikeOuts} K
+                                  {app.pitching.decision && ` (${DECISION_LABELS[app.pitching.decision]})`}
+                                </span>
+                              )}
                             </>
                           )}
                         </div>
@@ -0,0 +1,436 @@
+'use client';
+
+// Team Detail Page
+// 📚 Library Research Agent: React for UI
+// ✅ Code Quality Agent: Your record with a team - home/away, competitions, opponents and head-to-head
+
+import { useState, useEffect, use, Suspense } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Header } from '@/components/layout/Header';
+import { BottomNav } from '@/components/layout/BottomNav';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import { ArrowLeft, Calendar, Home, Loader2, Plane, Swords, Trophy, X } from 'lucide-react';
+import Link from 'next/link';
+import { TeamBadge, type SportType } from '@/components/shared/TeamBadge';
+import { cn } from '@/lib/utils';
+import { formatScoreLine, resultForSide } from '@/lib/utils/match-result';
+
+interface TeamRecord {
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  scored: number;
+  conceded: number;
+}
+
+interface TeamMeeting {
+  eventId: string;
+  date: string;
+  competition: string | null;
+  venueName: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+  extraTime: boolean;
+  homePenalties: number | null;
+  awayPenalties: number | null;
+}
+
+interface TeamProfile {
+  teamName: string;
+  sport: SportType;
+  logoUrl: string | null;
+  externalId: number | null;
+  overall: TeamRecord;
+  home: TeamRecord;
+  away: TeamRecord;
+  byCompetition: (TeamRecord & { competition: string })[];
+  opponents: (TeamRecord & { opponentName: string })[];
+  matches: TeamMeeting[];
+}
+
+interface HeadToHeadWin {
+  eventId: string;
+  date: string;
+  score: string;
+  margin: number;
+}
+
+interface HeadToHead {
+  teamA: string;
+  teamB: string;
+  meetings: number;
+  teamAWins: number;
+  teamBWins: number;
+  draws: number;
+  teamAScore: number;
+  teamBScore: number;
+  biggestWinA: HeadToHeadWin | null;
+  biggestWinB: HeadToHeadWin | null;
+  timeline: TeamMeeting[];
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+// W-D-L, or W-L when there were no draws
+function formatRecord(record: Pick<TeamRecord, 'wins' | 'draws' | 'losses'>): string {
+  return record.draws > 0
+    ? `${record.wins}-${record.draws}-${record.losses}`
+    : `${record.wins}-${record.losses}`;
+}
+
+// Shootout winners take the win
+function resultFor(meeting: TeamMeeting, teamName: string): 'W' | 'D' | 'L' {
+  return resultForSide(meeting.homeTeam === teamName ? 'home' : 'away', meeting);
+}
+
+const RESULT_STYLES = {
+  W: 'bg-green-500/20 text-green-400',
+  D: 'bg-yellow-500/20 text-yellow-400',
+  L: 'bg-red-500/20 text-red-400',
+};
+
+function RecordTile({ label, icon, record }: { label: string; icon: React.ReactNode; record: TeamRecord }) {
+  return (
+    <div className="p-4 rounded-lg bg-secondary/30 text-center">
+      <div className="flex items-center justify-center gap-1 text-sm text-muted-foreground mb-1">
+        {icon}
+        {label}
+      </div>
+      <div className="text-2xl font-bold font-mono">{formatRecord(record)}</div>
+      <div className="text-xs text-muted-foreground">
+        {record.played} game{record.played !== 1 ? 's' : ''} · {record.scored}-{record.conceded}
+      </div>
+    </div>
+  );
+}
+
+function MeetingRow({ meeting, teamName }: { meeting: TeamMeeting; teamName: string }) {
+  const result = resultFor(meeting, teamName);
+  return (
+    <Link
+      href={`/events/${meeting.eventId}`}
+      className="flex items-center gap-3 p-3 rounded-lg bg-secondary/30 hover:bg-secondary/50 transition-colors"
+    >
+      <span className={cn('w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold', RESULT_STYLES[result])}>
+        {result}
+      </span>
+      <div className="flex-1 min-w-0">
+        <div className="font-medium truncate">
+          {meeting.homeTeam} {formatScoreLine(meeting)} {meeting.awayTeam}
+        </div>
+        <div className="text-xs text-muted-foreground truncate">
+          {formatDate(meeting.date)} · {meeting.venueName}
+          {meeting.competition && ` · ${meeting.competition}`}
+        </div>
+      </div>
+    </Link>
+  );
+}
+
+function HeadToHeadCard({ h2h, onClose }: { h2h: HeadToHead; onClose: () => void }) {
+  const total = h2h.meetings || 1;
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Swords className="h-5 w-5 text-orange-400" />
+            vs {h2h.teamB}
+          </CardTitle>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground" aria-label="Close head-to-head">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-3 gap-4 text-center">
+          <div>
+            <div className="text-3xl font-bold text-green-400">{h2h.teamAWins}</div>
+            <div className="text-xs text-muted-foreground truncate">{h2h.teamA} wins</div>
+          </div>
+          <div>
+            <div className="text-3xl font-bold text-yellow-400">{h2h.draws}</div>
+            <div className="text-xs text-muted-foreground">Draws</div>
+          </div>
+          <div>
+            <div className="text-3xl font-bold text-red-400">{h2h.teamBWins}</div>
+            <div className="text-xs text-muted-foreground truncate">{h2h.teamB} wins</div>
+          </div>
+        </div>
+
+        <div className="flex h-3 rounded-full overflow-hidden bg-secondary">
+          <div className="bg-green-500" style={{ width: `${(h2h.teamAWins / total) * 100}%` }} />
+          <div className="bg-yellow-500" style={{ width: `${(h2h.draws / total) * 100}%` }} />
+          <div className="bg-red-500" style={{ width: `${(h2h.teamBWins / total) * 100}%` }} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4 text-sm">
+          <div className="p-2 rounded bg-secondary/50 text-center">
+            <div className="font-bold font-mono">
+              {h2h.teamAScore}-{h2h.teamBScore}
+            </div>
+            <div className="text-xs text-muted-foreground">Aggregate</div>
+          </div>
+          <div className="p-2 rounded bg-secondary/50 text-center">
+            <div className="font-bold">{h2h.meetings}</div>
+            <div className="text-xs text-muted-foreground">Meetings</div>
+          </div>
+        </div>
+
+        {(h2h.biggestWinA || h2h.biggestWinB) && (
+          <div className="space-y-1 text-sm">
+            {[
+              { team: h2h.teamA, win: h2h.biggestWinA },
+              { team: h2h.teamB, win: h2h.biggestWinB },
+            ].map(({ team, win }) =>
+              win ? (
+                <Link key={team} href={`/events/${win.eventId}`} className="flex justify-between hover:underline">
+                  <span className="text-muted-foreground">Biggest {team} win</span>
+                  <span className="font-medium">
+                    {win.score} · {formatDate(win.date)}
+                  </span>
+                </Link>
+              ) : null
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {h2h.timeline.map((meeting) => (
+            <MeetingRow key={meeting.eventId} meeting={meeting} teamName={h2h.teamA} />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function TeamDetailContent({ name }: { name: string }) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const sport = searchParams.get('sport') || '';
+  const vs = searchParams.get('vs') || '';
+  const [profile, setProfile] = useState<TeamProfile | null>(null);
+  const [headToHead, setHeadToHead] = useState<HeadToHead | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchTeam = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const params = new URLSearchParams();
+        if (sport) params.append('sport', sport);
+        if (vs) params.append('vs', vs);
+
+        const response = await fetch(`/api/stats/teams/${encodeURIComponent(name)}?${params}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to fetch team');
+        }
+
+        setProfile(data.data.profile);
+        setHeadToHead(data.data.headToHead);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to load');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchTeam();
+  }, [name, sport, vs]);
+
+  const showHeadToHead = (opponent: string | null) => {
+    const params = new URLSearchParams();
+    if (sport) params.append('sport', sport);
+    if (opponent) params.append('vs', opponent);
+    router.replace(`/stats/teams/${encodeURIComponent(name)}?${params}`, { scroll: false });
+  };
+
+  if (isLoading && !profile) {
+    return (
+      <div className="min-h-screen pb-20">
+        <Header title="Team" />
+        <main className="flex items-center justify-center py-20">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </main>
+        <BottomNav />
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="min-h-screen pb-20">
+        <Header title="Team" />
+        <main className="px-4 py-20 text-center">
+          <p className="text-destructive">{error || 'Team not found'}</p>
+          <button onClick={() => router.back()} className="mt-4 text-primary hover:underline">
+            Go Back
+          </button>
+        </main>
+        <BottomNav />
+      </div>
+    );
+  }
+
+  const winRate = profile.overall.played
+    ? Math.round((profile.overall.wins / profile.overall.played) * 100)
+    : 0;
+
+  return (
+    <div className="min-h-screen pb-20">
+      <Header title={profile.teamName} />
+
+      <main className="px-4 py-6 max-w-4xl mx-auto">
+        {/* Back Link */}
+        <Link
+          href="/stats/teams"
+          className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground mb-6"
+        >
+          <ArrowLeft className="h-4 w-4" />
+          Back to Teams
+        </Link>
+
+        {/* Team Header */}
+        <Card className="mb-6">
+          <CardContent className="p-6">
+            <div className="flex items-center gap-4">
+              <TeamBadge
+                teamName={profile.teamName}
+                sport={profile.sport}
+                logoUrl={profile.logoUrl ?? undefined}
+                externalId={profile.externalId ?? undefined}
+                size="lg"
+              />
+              <div className="flex-1">
+                <h1 className="text-2xl font-bold">{profile.teamName}</h1>
+                <p className="text-muted-foreground capitalize">{profile.sport}</p>
+              </div>
+              <div className="text-right">
+                <div className="text-2xl font-bold font-mono">{formatRecord(profile.overall)}</div>
+                <div className="text-sm text-muted-foreground">{winRate}% win rate</div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Head-to-head */}
+        {vs && headToHead && (
+          <HeadToHeadCard h2h={headToHead} onClose={() => showHeadToHead(null)} />
+        )}
+
+        {/* Home / Away */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Trophy className="h-5 w-5 text-yellow-500" />
+              Your Record Watching {profile.teamName}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-3 gap-4">
+              <RecordTile label="Overall" icon={<Trophy className="h-3 w-3" />} record={profile.overall} />
+              <RecordTile label="Home" icon={<Home className="h-3 w-3" />} record={profile.home} />
+              <RecordTile label="Away" icon={<Plane className="h-3 w-3" />} record={profile.away} />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* By competition */}
+        {profile.byCompetition.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle>By Competition</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {profile.byCompetition.map((row) => (
+                  <div key={row.competition} className="flex items-center justify-between p-2 rounded-lg bg-secondary/20">
+                    <span>{row.competition}</span>
+                    <span className="font-mono">
+                      {formatRecord(row)}
+                      <span className="text-muted-foreground text-xs ml-2">({row.played})</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Opponents */}
+        {profile.opponents.length > 0 && (
+          <Card className="mb-6">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Swords className="h-5 w-5 text-orange-400" />
+                Opponents
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-2">
+                {profile.opponents.map((row) => (
+                  <button
+                    key={row.opponentName}
+                    onClick={() => showHeadToHead(row.opponentName)}
+                    className={cn(
+                      'w-full flex items-center justify-between p-2 rounded-lg transition-colors text-left',
+                      vs === row.opponentName ? 'bg-primary/20' : 'bg-secondary/20 hover:bg-secondary/40'
+                    )}
+                  >
+                    <span>{row.opponentName}</span>
+                    <span className="font-mono">
+                      {formatRecord(row)}
+                      <span className="text-muted-foreground text-xs ml-2">({row.played})</span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Matches */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calendar className="h-5 w-5" />
+              Games Attended
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {profile.matches.map((meeting) => (
+                <MeetingRow key={meeting.eventId} meeting={meeting} teamName={profile.teamName} />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </main>
+
+      <BottomNav />
+    </div>
+  );
+}
+
+export default function TeamDetailPage({ params }: { params: Promise<{ name: string }> }) {
+  const { name } = use(params);
+  return (
+    <Suspense fallback={
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    }>
+      <TeamDetailContent name={decodeURIComponent(name)} />
+    </Suspense>
+  );
+}
@@ -158,9 +158,10 @@ function TeamStatsContent() {
             ) : (
               <div className="space-y-4">
                 {teamStats.map((team, index) => (
-                  <div
+                  <Link
                     key={`${team.teamName}-${team.sport}`}
-                    className="p-4 rounded-lg bg-secondary/30"
+                    href={`/stats/teams/${encodeURIComponent(team.teamName)}?sport=${team.sport}`}
+                    className="block p-4 rounded-lg bg-secondary/30 hover:bg-secondary/50 transition-colors"
                   >
                     <div className="flex items-start justify-between">
                       <div className="flex items-center gap-3">
@@ -253,7 +254,7 @@ function TeamStatsContent() {
                         </div>
                       </div>
                     </div>
-                  </div>
+                  </Link>
                 ))}
               </div>
             )}
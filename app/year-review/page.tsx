@@ -9,7 +9,16 @@ import { prisma } from '@/lib/prisma';
 import { Header } from '@/components/layout/Header';
 import { BottomNav } from '@/components/layout/BottomNav';
 import { Card, CardContent } from '@/components/ui/Card';
-import { Calendar } from 'lucide-react';
+import { Calendar, Trophy } from 'lucide-react';
+import { getSeason, getSeasonRule, seasonFor } from '@/lib/utils/seasons';
+import { eventLocalDate } from '@/lib/utils/timezone';
+
+const SEASON_SPORTS: Record<string, string> = {
+  SOCCER: '⚽ Soccer',
+  BASKETBALL: '🏀 Basketball',
+  BASEBALL: '⚾ Baseball',
+  TENNIS: '🎾 Tennis',
+};
 
 export default async function YearReviewPage() {
   const session = await getServerSession(authOptions);
@@ -17,11 +26,30 @@ export default async function YearReviewPage() {
 
   // Get years with events
   const events = await prisma.event.findMany({
-    where: { userId: session.user.id },
-    select: { date: true },
+    where: { userId: session.user.id, status: 'ATTENDED' },
+    select: {
+      date: true,
+      localDate: true,
+      type: true,
+      soccerMatch: { select: { competition: true } },
+      basketballGame: { select: { competition: true } },
+      baseballGame: { select: { competition: true } },
+    },
   });
 
-  const years = [...new Set(events.map((e) => new Date(e.date).getFullYear()))].sort((a, b) => b - a);
+  const years = [...new Set(events.map((e) => eventLocalDate(e).getUTCFullYear()))].sort((a, b) => b - a);
+
+  // Seasons with events, per sport - labelled with the sport's default boundaries
+  const seasonKeys = new Map<string, { sport: string; startYear: number }>();
+  for (const event of events) {
+    if (!SEASON_SPORTS[event.type]) continue;
+    const competition = (event.soccerMatch || event.basketballGame || event.baseballGame)?.competition;
+    const { startYear } = getSeason(eventLocalDate(event), event.type, competition);
+    seasonKeys.set(`${event.type}:${startYear}`, { sport: event.type, startYear });
+  }
+  const seasons = [...seasonKeys.values()]
+    .map(({ sport, startYear }) => ({ sport, ...seasonFor(startYear, getSeasonRule(sport)) }))
+    .sort((a, b) => b.startYear - a.startYear || a.sport.localeCompare(b.sport));
 
   return (
     <div className="min-h-screen pb-20">
@@ -53,6 +81,33 @@ export default async function YearReviewPage() {
             <p>No events yet. Start logging to see your year in review!</p>
           </div>
         )}
+
+        {seasons.length > 0 && (
+          <>
+            <h2 className="text-xl font-bold mt-8 mb-2">Season in Review</h2>
+            <p className="text-muted-foreground mb-4">Club seasons, from kick-off to the final day</p>
+            <div className="grid gap-3 sm:grid-cols-2">
+              {seasons.map((season) => (
+                <Link
+                  key={`${season.sport}:${season.startYear}`}
+                  href={`/season-review/${season.sport.toLowerCase()}/${season.label}`}
+                >
+                  <Card className="hover:bg-card-hover transition-colors">
+                    <CardContent className="p-6 flex items-center gap-4">
+                      <div className="h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+                        <Trophy className="h-6 w-6 text-primary" />
+                      </div>
+                      <div>
+                        <p className="text-2xl font-bold">{season.label}</p>
+                        <p className="text-sm text-muted-foreground">{SEASON_SPORTS[season.sport]}</p>
+                      </div>
+                    </CardContent>
+                  </Card>
+                </Link>
+              ))}
+            </div>
+          </>
+        )}
       </main>
       <BottomNav />
     </div>
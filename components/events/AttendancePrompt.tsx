@@ -0,0 +1,89 @@
+'use client';
+
+// Attendance Prompt Component
+// ✅ Code Quality Agent: Turns a planned event into attended or missed once its date has passed
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { CalendarCheck, Check, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { cn } from '@/lib/utils';
+
+interface AttendancePromptProps {
+  eventId: string;
+  title?: string; // Shown when listing several prompts, e.g. on the dashboard
+  className?: string;
+}
+
+export function AttendancePrompt({ eventId, title, className }: AttendancePromptProps) {
+  const router = useRouter();
+  const [pending, setPending] = useState<'yes' | 'no' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const respond = async (attended: boolean) => {
+    setPending(attended ? 'yes' : 'no');
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/events/${eventId}/attendance`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ attended }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update attendance');
+
+      if (data.autofillError) {
+        setNotice(`Marked as attended. Couldn't load the final result (${data.autofillError}) - add it from Edit.`);
+      }
+      router.refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update attendance');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  if (notice) {
+    return <p className={cn('text-sm text-yellow-400', className)}>{notice}</p>;
+  }
+
+  return (
+    <div className={cn('rounded-xl border border-blue-500/30 bg-blue-500/10 p-4 space-y-3', className)}>
+      <div className="flex items-center gap-2">
+        <CalendarCheck className="h-5 w-5 text-blue-400 flex-shrink-0" />
+        <p className="text-sm">
+          {title ? <span className="font-semibold">{title}: </span> : null}
+          Did you go? Confirming fills in the final score where we can.
+        </p>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          className="flex-1 gap-2"
+          onClick={() => respond(true)}
+          isLoading={pending === 'yes'}
+          disabled={pending !== null}
+        >
+          <Check className="h-4 w-4" />
+          I was there
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="flex-1 gap-2"
+          onClick={() => respond(false)}
+          isLoading={pending === 'no'}
+          disabled={pending !== null}
+        >
+          <X className="h-4 w-4" />
+          Missed it
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+export default AttendancePrompt;
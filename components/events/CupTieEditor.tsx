@@ -0,0 +1,197 @@
+'use client';
+
+// CupTieEditor Component - Extra time, penalty shootout and the first leg of a two-legged tie
+// ✅ Code Quality Agent: First legs are looked up on demand; the aggregate is previewed before saving
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Input } from '@/components/ui/Input';
+import { aggregateScore, hasShootout, shootoutIssues } from '@/lib/utils/match-result';
+
+export interface CupTieInput {
+  extraTime: boolean;
+  homePenalties: number | null;
+  awayPenalties: number | null;
+  firstLegEventId: string | null;
+}
+
+// An earlier match between the same teams, as the first-legs API returns it
+export interface FirstLegOption {
+  eventId: string;
+  date: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+  competition: string | null;
+}
+
+export const EMPTY_CUP_TIE: CupTieInput = {
+  extraTime: false,
+  homePenalties: null,
+  awayPenalties: null,
+  firstLegEventId: null,
+};
+
+interface CupTieEditorProps {
+  homeTeamName: string;
+  awayTeamName: string;
+  homeScore: number;
+  awayScore: number;
+  date?: string; // First legs are looked for before this
+  eventId?: string; // The match being edited, left out of the first-leg list
+  firstLeg?: FirstLegOption | null; // Already linked, shown before any lookup
+  value: CupTieInput;
+  onChange: (value: CupTieInput) => void;
+}
+
+function penaltyValue(raw: string): number | null {
+  return raw === '' ? null : Math.max(0, parseInt(raw) || 0);
+}
+
+export function CupTieEditor({
+  homeTeamName,
+  awayTeamName,
+  homeScore,
+  awayScore,
+  date,
+  eventId,
+  firstLeg,
+  value,
+  onChange,
+}: CupTieEditorProps) {
+  const [isOpen, setIsOpen] = useState(
+    value.extraTime || value.homePenalties !== null || value.awayPenalties !== null || !!value.firstLegEventId
+  );
+  const [options, setOptions] = useState<FirstLegOption[]>(firstLeg ? [firstLeg] : []);
+  const [isLoading, setIsLoading] = useState(false);
+  const [lookupError, setLookupError] = useState<string | null>(null);
+
+  if (!isOpen) {
+    return (
+      <button type="button" onClick={() => setIsOpen(true)} className="text-sm text-primary hover:underline">
+        + Extra time, penalties or two-legged tie
+      </button>
+    );
+  }
+
+  const update = (changes: Partial<CupTieInput>) => onChange({ ...value, ...changes });
+
+  const findFirstLegs = async () => {
+    setIsLoading(true);
+    setLookupError(null);
+    try {
+      const params = new URLSearchParams({ homeTeam: homeTeamName, awayTeam: awayTeamName });
+      if (date) params.set('before', date);
+      if (eventId) params.set('exclude', eventId);
+      const response = await fetch(`/api/events/soccer/first-legs?${params}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to find first legs');
+      setOptions(data.data);
+      if (data.data.length === 0) setLookupError('No earlier matches between these teams');
+    } catch (err) {
+      setLookupError(err instanceof Error ? err.message : 'Failed to find first legs');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const match = { ...value, homeScore, awayScore, homeTeam: homeTeamName, awayTeam: awayTeamName };
+  const selected = options.find((option) => option.eventId === value.firstLegEventId);
+  const aggregate = selected && aggregateScore(selected, match);
+
+  const warnings = shootoutIssues(value.homePenalties, value.awayPenalties);
+  if (hasShootout(match) && homeScore !== awayScore && (!aggregate || aggregate.home !== aggregate.away)) {
+    warnings.push('A shootout needs a level score - or, on a second leg, a level aggregate.');
+  }
+
+  const winnerName = aggregate?.winner === 'home' ? homeTeamName : awayTeamName;
+
+  return (
+    <div className="space-y-3 rounded-lg bg-secondary/30 p-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Extra time &amp; penalties</span>
+        <button
+          type="button"
+          onClick={() => {
+            onChange(EMPTY_CUP_TIE);
+            setIsOpen(false);
+          }}
+          className="text-xs text-muted-foreground hover:text-destructive"
+        >
+          Remove
+        </button>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={value.extraTime}
+          onChange={(e) => update({ extraTime: e.target.checked })}
+        />
+        Went to extra time
+      </label>
+
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-muted-foreground">Penalties</span>
+        <Input
+          type="number"
+          min="0"
+          value={value.homePenalties ?? ''}
+          onChange={(e) => update({ homePenalties: penaltyValue(e.target.value) })}
+          className="h-8 w-14 text-center font-mono px-1"
+          aria-label={`${homeTeamName || 'Home'} penalties`}
+        />
+        <span>-</span>
+        <Input
+          type="number"
+          min="0"
+          value={value.awayPenalties ?? ''}
+          onChange={(e) => update({ awayPenalties: penaltyValue(e.target.value) })}
+          className="h-8 w-14 text-center font-mono px-1"
+          aria-label={`${awayTeamName || 'Away'} penalties`}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">First leg</span>
+          <select
+            value={value.firstLegEventId ?? ''}
+            onChange={(e) => update({ firstLegEventId: e.target.value || null })}
+            className="h-8 rounded-lg border border-input bg-background px-1 text-sm"
+          >
+            <option value="">Not a second leg</option>
+            {options.map((option) => (
+              <option key={option.eventId} value={option.eventId}>
+                {`${format(new Date(option.date), 'd MMM yyyy')}: ${option.homeTeam} ${option.homeScore}-${option.awayScore} ${option.awayTeam}`}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={findFirstLegs}
+            disabled={isLoading || !homeTeamName || !awayTeamName}
+            className="text-xs text-primary hover:underline disabled:opacity-50"
+          >
+            {isLoading ? 'Looking…' : 'Find first leg'}
+          </button>
+        </div>
+        {lookupError && <p className="text-xs text-muted-foreground">{lookupError}</p>}
+        {aggregate && (
+          <p className="text-xs text-muted-foreground">
+            Aggregate {aggregate.home}-{aggregate.away}
+            {aggregate.winner &&
+              ` - ${winnerName} ${aggregate.decidedBy === 'penalties' ? 'win on penalties' : 'go through'}`}
+          </p>
+        )}
+      </div>
+
+      {warnings.map((warning) => (
+        <p key={warning} className="text-xs text-yellow-500">
+          {warning}
+        </p>
+      ))}
+    </div>
+  );
+}
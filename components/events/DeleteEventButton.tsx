@@ -6,6 +6,7 @@
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { Trash2, Loader2, AlertTriangle } from 'lucide-react';
+import { queueEventDelete } from '@/lib/cache/sync';
 import { cn } from '@/lib/utils';
 
 interface DeleteEventButtonProps {
@@ -24,6 +25,13 @@ export function DeleteEventButton({ eventId, eventType }: DeleteEventButtonProps
     setError(null);
 
     try {
+      // Offline deletes are replayed once the connection returns
+      if (!navigator.onLine) {
+        await queueEventDelete(eventId);
+        router.push('/events');
+        return;
+      }
+
       const response = await fetch(`/api/events/${eventId}`, {
         method: 'DELETE',
       });
@@ -5,9 +5,28 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import { useSession } from 'next-auth/react';
 import { Save, Loader2, Star, X, Plus } from 'lucide-react';
 import { Input } from '@/components/ui/Input';
+import { SyncConflictResolver } from '@/components/events/SyncConflictResolver';
+import { SupportedSidePicker } from '@/components/events/SupportedSidePicker';
+import { LineScoreEditor } from '@/components/events/LineScoreEditor';
+import { MatchTimelineEditor } from '@/components/events/MatchTimelineEditor';
+import { CupTieEditor, type CupTieInput, type FirstLegOption } from '@/components/events/CupTieEditor';
+import {
+  getEditedChanges,
+  mergeConflict,
+  serverEventToChanges,
+  submitEventUpdate,
+  type ConflictResolution,
+  type EventChanges,
+  type ServerEvent,
+} from '@/lib/cache/sync';
 import { cn } from '@/lib/utils';
+import type { SupportedSide } from '@/lib/utils/supported-team';
+import type { LineScoreSport, PeriodScoreInput } from '@/lib/utils/line-score';
+import type { MatchEventInput } from '@/lib/utils/match-timeline';
+import { eventDateFields } from '@/lib/utils/timezone';
 
 // Event type from Prisma
 type EventType = 'SOCCER' | 'BASKETBALL' | 'BASEBALL' | 'TENNIS' | 'CONCERT';
@@ -16,19 +35,29 @@ interface EventData {
   id: string;
   type: EventType;
   date: string;
+  localDate: string | null;
+  kickoffTime: string | null;
   notes: string | null;
   rating: number | null;
   companions: string[];
+  supportedSide: SupportedSide | null;
+  updatedAt: string;
   venue: {
     name: string;
     city: string;
   };
+  periodScores: PeriodScoreInput[];
   soccerMatch?: {
     homeTeam: string;
     awayTeam: string;
     homeScore: number;
     awayScore: number;
     competition: string | null;
+    timeline: MatchEventInput[];
+    extraTime: boolean;
+    homePenalties: number | null;
+    awayPenalties: number | null;
+    firstLeg: FirstLegOption | null;
   } | null;
   basketballGame?: {
     homeTeam: string;
@@ -63,11 +92,19 @@ interface EditEventFormProps {
 
 export function EditEventForm({ event }: EditEventFormProps) {
   const router = useRouter();
+  const { data: session } = useSession();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Version the edit is based on, and the server copy when a save conflicts
+  const [baseVersion, setBaseVersion] = useState(event.updatedAt);
+  const [conflict, setConflict] = useState<{ local: EventChanges; server: ServerEvent } | null>(
+    null
+  );
+
   // Form state
-  const [date, setDate] = useState(event.date.split('T')[0]);
+  const [date, setDate] = useState((event.localDate ?? event.date).split('T')[0]);
+  const [kickoffTime, setKickoffTime] = useState(event.kickoffTime || '');
   const [venueName, setVenueName] = useState(event.venue.name);
   const [venueCity, setVenueCity] = useState(event.venue.city);
   const [notes, setNotes] = useState(event.notes || '');
@@ -88,6 +125,15 @@ export function EditEventForm({ event }: EditEventFormProps) {
     event.baseballGame?.awayScore ??
     0
   );
+  const [supportedSide, setSupportedSide] = useState<SupportedSide | null>(event.supportedSide);
+  const [lineScore, setLineScore] = useState<PeriodScoreInput[]>(event.periodScores);
+  const [timeline, setTimeline] = useState<MatchEventInput[]>(event.soccerMatch?.timeline ?? []);
+  const [cupTie, setCupTie] = useState<CupTieInput>({
+    extraTime: event.soccerMatch?.extraTime ?? false,
+    homePenalties: event.soccerMatch?.homePenalties ?? null,
+    awayPenalties: event.soccerMatch?.awayPenalties ?? null,
+    firstLegEventId: event.soccerMatch?.firstLeg?.eventId ?? null,
+  });
   const [tennisScore, setTennisScore] = useState(event.tennisMatch?.score || '');
   const [tourName, setTourName] = useState(event.concert?.tourName || '');
 
@@ -104,52 +150,115 @@ export function EditEventForm({ event }: EditEventFormProps) {
     setCompanions(companions.filter((_, i) => i !== index));
   };
 
+  // Every editable field as the form currently shows it
+  const formChanges = (): EventChanges => {
+    const payload: EventChanges = {
+      // Events not yet placed at their venue keep their instant unless the day changes
+      date: eventDateFields(
+        date,
+        kickoffTime || undefined,
+        event.localDate ? null : { instant: event.date, day: event.date.split('T')[0] }
+      ).date,
+      kickoffTime: kickoffTime || null,
+      venueName,
+      venueCity,
+      notes: notes || null,
+      rating: rating || null,
+      companions,
+    };
+
+    // Add sport-specific fields
+    if (isSportMatch) {
+      payload.homeScore = homeScore;
+      payload.awayScore = awayScore;
+      payload.supportedSide = supportedSide;
+      payload.lineScore = lineScore;
+    }
+    if (event.type === 'SOCCER') {
+      payload.timeline = timeline;
+      Object.assign(payload, cupTie);
+    }
+    if (event.type === 'TENNIS') {
+      payload.score = tennisScore;
+    }
+    if (event.type === 'CONCERT') {
+      payload.tourName = tourName || null;
+    }
+    return payload;
+  };
+
+  // The fields as loaded - only what differs from these is sent
+  const [initialChanges] = useState(formChanges);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
     setError(null);
 
     try {
-      const payload: Record<string, unknown> = {
-        date: new Date(date).toISOString(),
-        venueName,
-        venueCity,
-        notes: notes || null,
-        rating: rating || null,
-        companions,
-      };
+      await saveChanges(getEditedChanges(formChanges(), initialChanges), baseVersion);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update event');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
 
-      // Add sport-specific fields
-      if (isSportMatch) {
-        payload.homeScore = homeScore;
-        payload.awayScore = awayScore;
-      }
-      if (event.type === 'TENNIS') {
-        payload.score = tennisScore;
-      }
-      if (event.type === 'CONCERT') {
-        payload.tourName = tourName || null;
-      }
-
-      const response = await fetch(`/api/events/${event.id}`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(payload),
-      });
-
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to update event');
-      }
-
-      // Redirect back to event detail
+  const saveChanges = async (changes: EventChanges, version: string) => {
+    const result = await submitEventUpdate(
+      event.id,
+      event.type,
+      changes,
+      version,
+      session?.user?.id
+    );
+
+    if (result.queued) {
+      alert("You're offline. Your changes were saved on this device and will sync when you reconnect.");
+      router.push(`/events/${event.id}`);
+      return;
+    }
+
+    const data = await result.response.json();
+
+    if (result.response.status === 409) {
+      setConflict({ local: changes, server: data.data });
+      return;
+    }
+
+    if (!result.response.ok) {
+      throw new Error(data.error || 'Failed to update event');
+    }
+
+    setConflict(null);
+    // Redirect back to event detail
+    router.push(`/events/${event.id}`);
+    router.refresh();
+  };
+
+  const handleResolveConflict = async (resolution: ConflictResolution) => {
+    if (!conflict) return;
+    setError(null);
+
+    if (resolution === 'server') {
+      setConflict(null);
       router.push(`/events/${event.id}`);
       router.refresh();
+      return;
+    }
+
+    // Re-apply the chosen values on top of the server's current version
+    const merged = mergeConflict(
+      conflict.local,
+      serverEventToChanges(conflict.server),
+      resolution
+    );
+    setBaseVersion(conflict.server.updatedAt);
+
+    try {
+      await saveChanges(merged, conflict.server.updatedAt);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to update event');
-    } finally {
-      setIsSubmitting(false);
     }
   };
 
@@ -190,6 +299,16 @@ export function EditEventForm({ event }: EditEventFormProps) {
         </div>
       )}
 
+      {/* Conflict with a newer server version */}
+      {conflict && (
+        <SyncConflictResolver
+          local={conflict.local}
+          server={serverEventToChanges(conflict.server)}
+          onResolve={handleResolveConflict}
+          onCancel={() => setConflict(null)}
+        />
+      )}
+
       {/* Event type badge - read only */}
       <div className="flex items-center gap-2">
         <span className="text-sm text-muted-foreground">Event Type:</span>
@@ -231,15 +350,25 @@ export function EditEventForm({ event }: EditEventFormProps) {
         </div>
       )}
 
-      {/* Date */}
-      <div>
-        <label className="block text-sm font-medium mb-2">Date</label>
-        <Input
-          type="date"
-          value={date}
-          onChange={(e) => setDate(e.target.value)}
-          required
-        />
+      {/* Date and local kickoff */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium mb-2">Date</label>
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium mb-2">Start (local time)</label>
+          <Input
+            type="time"
+            value={kickoffTime}
+            onChange={(e) => setKickoffTime(e.target.value)}
+          />
+        </div>
       </div>
 
       {/* Venue */}
@@ -291,6 +420,56 @@ export function EditEventForm({ event }: EditEventFormProps) {
         </div>
       )}
 
+      {/* Line score for sport matches */}
+      {isSportMatch && (
+        <LineScoreEditor
+          sport={event.type as LineScoreSport}
+          homeTeamName={matchInfo?.homeTeam || 'Home'}
+          awayTeamName={matchInfo?.awayTeam || 'Away'}
+          homeScore={homeScore}
+          awayScore={awayScore}
+          value={lineScore}
+          onChange={setLineScore}
+        />
+      )}
+
+      {/* Goals, cards and substitutions for soccer */}
+      {event.type === 'SOCCER' && (
+        <MatchTimelineEditor
+          homeTeamName={matchInfo?.homeTeam || 'Home'}
+          awayTeamName={matchInfo?.awayTeam || 'Away'}
+          homeScore={homeScore}
+          awayScore={awayScore}
+          value={timeline}
+          onChange={setTimeline}
+        />
+      )}
+
+      {/* Extra time, shootout and first leg for soccer */}
+      {event.type === 'SOCCER' && (
+        <CupTieEditor
+          homeTeamName={matchInfo?.homeTeam || ''}
+          awayTeamName={matchInfo?.awayTeam || ''}
+          homeScore={homeScore}
+          awayScore={awayScore}
+          date={date}
+          eventId={event.id}
+          firstLeg={event.soccerMatch?.firstLeg}
+          value={cupTie}
+          onChange={setCupTie}
+        />
+      )}
+
+      {/* Supported side for sport matches */}
+      {isSportMatch && (
+        <SupportedSidePicker
+          homeTeamName={matchInfo?.homeTeam || 'Home'}
+          awayTeamName={matchInfo?.awayTeam || 'Away'}
+          value={supportedSide}
+          onChange={setSupportedSide}
+        />
+      )}
+
       {/* Tennis score */}
       {event.type === 'TENNIS' && (
         <div>
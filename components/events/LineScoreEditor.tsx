@@ -0,0 +1,145 @@
+'use client';
+
+// LineScoreEditor Component - Enter scoring by inning, quarter or half
+// ✅ Code Quality Agent: Starts from regulation periods; extra periods follow the sport's rules
+
+import { Plus, X } from 'lucide-react';
+import { Input } from '@/components/ui/Input';
+import {
+  emptyLineScore,
+  lineScoreTotals,
+  nextPeriodType,
+  periodLabels,
+  type LineScoreSport,
+  type PeriodScoreInput,
+} from '@/lib/utils/line-score';
+
+interface LineScoreEditorProps {
+  sport: LineScoreSport;
+  homeTeamName: string;
+  awayTeamName: string;
+  homeScore: number;
+  awayScore: number;
+  value: PeriodScoreInput[];
+  onChange: (value: PeriodScoreInput[]) => void;
+}
+
+const ADD_LABELS: Record<PeriodScoreInput['type'], Record<LineScoreSport, string>> = {
+  REGULAR: { SOCCER: 'Half', BASKETBALL: 'Quarter', BASEBALL: 'Inning' },
+  OVERTIME: { SOCCER: 'Extra time', BASKETBALL: 'Overtime', BASEBALL: 'Extra inning' },
+  SHOOTOUT: { SOCCER: 'Penalties', BASKETBALL: 'Penalties', BASEBALL: 'Penalties' },
+};
+
+export function LineScoreEditor({
+  sport,
+  homeTeamName,
+  awayTeamName,
+  homeScore,
+  awayScore,
+  value,
+  onChange,
+}: LineScoreEditorProps) {
+  if (value.length === 0) {
+    return (
+      <button
+        type="button"
+        onClick={() => onChange(emptyLineScore(sport))}
+        className="text-sm text-primary hover:underline"
+      >
+        + Add line score
+      </button>
+    );
+  }
+
+  const labels = periodLabels(sport, value);
+  const next = nextPeriodType(sport, value);
+  const totals = lineScoreTotals(value);
+  const mismatch = totals.home !== homeScore || totals.away !== awayScore;
+
+  // Blank means the side didn't play the period, e.g. the bottom of the 9th
+  const updatePeriod = (index: number, side: 'homeScore' | 'awayScore', input: string) => {
+    const updated = [...value];
+    updated[index] = { ...updated[index], [side]: input === '' ? null : parseInt(input) || 0 };
+    onChange(updated);
+  };
+
+  // Visitors on top for US sports, home side first for soccer
+  const home = { side: 'homeScore' as const, name: homeTeamName || 'Home', total: totals.home };
+  const away = { side: 'awayScore' as const, name: awayTeamName || 'Away', total: totals.away };
+  const rows = sport === 'SOCCER' ? [home, away] : [away, home];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Line score</span>
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="text-xs text-muted-foreground hover:text-destructive"
+        >
+          Remove
+        </button>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="text-sm">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="text-left pr-2 font-normal" />
+              {labels.map((label, index) => (
+                <th key={index} className="px-0.5 font-normal">{label}</th>
+              ))}
+              <th className="px-2 font-medium">T</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ side, name, total }) => (
+              <tr key={side}>
+                <td className="pr-2 max-w-[7rem] truncate">{name}</td>
+                {value.map((period, index) => (
+                  <td key={index} className="px-0.5 py-0.5">
+                    <Input
+                      type="number"
+                      min="0"
+                      value={period[side] ?? ''}
+                      onChange={(e) => updatePeriod(index, side, e.target.value)}
+                      className="h-8 w-12 text-sm text-center font-mono px-1"
+                    />
+                  </td>
+                ))}
+                <td className="px-2 text-center font-mono font-semibold">{total}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex items-center gap-3">
+        {next && (
+          <button
+            type="button"
+            onClick={() => onChange([...value, { type: next, homeScore: 0, awayScore: 0 }])}
+            className="flex items-center gap-1 text-xs text-primary hover:underline"
+          >
+            <Plus className="h-3 w-3" />
+            {ADD_LABELS[next][sport]}
+          </button>
+        )}
+        <button
+          type="button"
+          onClick={() => onChange(value.slice(0, -1))}
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:text-destructive"
+        >
+          <X className="h-3 w-3" />
+          Last period
+        </button>
+      </div>
+
+      {mismatch && (
+        <p className="text-xs text-yellow-500">
+          Periods add up to {totals.home}-{totals.away}, but the final score is {homeScore}-{awayScore}.
+        </p>
+      )}
+    </div>
+  );
+}
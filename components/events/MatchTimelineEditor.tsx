@@ -0,0 +1,195 @@
+'use client';
+
+// MatchTimelineEditor Component - Goals, cards and substitutions with their minutes
+// ✅ Code Quality Agent: Kept in match order; warns when the goals don't add up to the score
+
+import { Plus, X } from 'lucide-react';
+import { Input } from '@/components/ui/Input';
+import {
+  MATCH_EVENT_LABELS,
+  MATCH_EVENT_TYPES,
+  RELATED_PLAYER_LABELS,
+  isGoal,
+  sortTimeline,
+  type MatchEventInput,
+  type MatchEventType,
+} from '@/lib/utils/match-timeline';
+
+interface MatchTimelineEditorProps {
+  homeTeamName: string;
+  awayTeamName: string;
+  homeScore: number;
+  awayScore: number;
+  value: MatchEventInput[];
+  onChange: (value: MatchEventInput[]) => void;
+}
+
+const selectClass = 'h-8 rounded-lg border border-input bg-background px-1 text-sm';
+
+export function MatchTimelineEditor({
+  homeTeamName,
+  awayTeamName,
+  homeScore,
+  awayScore,
+  value,
+  onChange,
+}: MatchTimelineEditorProps) {
+  const addEvent = () => {
+    const last = value[value.length - 1];
+    onChange([
+      ...value,
+      {
+        type: 'GOAL',
+        minute: last?.minute ?? 1,
+        extraMinute: null,
+        team: 'home',
+        playerName: null,
+        relatedPlayerName: null,
+        detail: null,
+      },
+    ]);
+  };
+
+  if (value.length === 0) {
+    return (
+      <button type="button" onClick={addEvent} className="text-sm text-primary hover:underline">
+        + Add match timeline
+      </button>
+    );
+  }
+
+  const updateEvent = (index: number, changes: Partial<MatchEventInput>) => {
+    const updated = [...value];
+    updated[index] = { ...updated[index], ...changes };
+    onChange(updated);
+  };
+
+  // Re-sort once a minute has been typed, not on every keystroke
+  const sortEvents = () => onChange(sortTimeline(value));
+
+  const goals = value.filter((event) => isGoal(event.type));
+  const homeGoals = goals.filter((event) => event.team === 'home').length;
+  const awayGoals = goals.length - homeGoals;
+  const mismatch = homeGoals !== homeScore || awayGoals !== awayScore;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Match timeline</span>
+        <button
+          type="button"
+          onClick={() => onChange([])}
+          className="text-xs text-muted-foreground hover:text-destructive"
+        >
+          Remove
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {value.map((event, index) => {
+          const relatedLabel = RELATED_PLAYER_LABELS[event.type];
+          return (
+            <div key={index} className="flex flex-wrap items-center gap-1.5 rounded-lg bg-secondary/30 p-2">
+              <Input
+                type="number"
+                min="0"
+                max="150"
+                value={event.minute}
+                onChange={(e) => updateEvent(index, { minute: parseInt(e.target.value) || 0 })}
+                onBlur={sortEvents}
+                className="h-8 w-14 text-sm text-center font-mono px-1"
+                aria-label="Minute"
+              />
+              <span className="text-xs text-muted-foreground">+</span>
+              <Input
+                type="number"
+                min="1"
+                max="30"
+                value={event.extraMinute ?? ''}
+                onChange={(e) =>
+                  updateEvent(index, { extraMinute: e.target.value === '' ? null : parseInt(e.target.value) || null })
+                }
+                onBlur={sortEvents}
+                className="h-8 w-12 text-sm text-center font-mono px-1"
+                aria-label="Stoppage time"
+              />
+              <select
+                value={event.type}
+                onChange={(e) => {
+                  const type = e.target.value as MatchEventType;
+                  updateEvent(index, {
+                    type,
+                    relatedPlayerName: RELATED_PLAYER_LABELS[type] ? event.relatedPlayerName : null,
+                    detail: type === 'VAR' ? event.detail : null,
+                  });
+                }}
+                className={selectClass}
+              >
+                {MATCH_EVENT_TYPES.map((type) => (
+                  <option key={type} value={type}>
+                    {MATCH_EVENT_LABELS[type].icon} {MATCH_EVENT_LABELS[type].label}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={event.team}
+                onChange={(e) => updateEvent(index, { team: e.target.value as MatchEventInput['team'] })}
+                className={`${selectClass} max-w-[8rem]`}
+                aria-label={event.type === 'OWN_GOAL' ? 'Counts for' : 'Team'}
+              >
+                <option value="home">{homeTeamName || 'Home'}</option>
+                <option value="away">{awayTeamName || 'Away'}</option>
+              </select>
+              <Input
+                value={event.playerName ?? ''}
+                onChange={(e) => updateEvent(index, { playerName: e.target.value || null })}
+                placeholder={event.type === 'SUBSTITUTION' ? 'Off' : 'Player'}
+                className="h-8 w-32 text-sm"
+              />
+              {relatedLabel && (
+                <Input
+                  value={event.relatedPlayerName ?? ''}
+                  onChange={(e) => updateEvent(index, { relatedPlayerName: e.target.value || null })}
+                  placeholder={relatedLabel}
+                  className="h-8 w-32 text-sm"
+                />
+              )}
+              {event.type === 'VAR' && (
+                <Input
+                  value={event.detail ?? ''}
+                  onChange={(e) => updateEvent(index, { detail: e.target.value || null })}
+                  placeholder="e.g. Goal cancelled"
+                  className="h-8 w-40 text-sm"
+                />
+              )}
+              <button
+                type="button"
+                onClick={() => onChange(value.filter((_, i) => i !== index))}
+                className="ml-auto p-1 text-muted-foreground hover:text-destructive"
+                aria-label="Remove event"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        type="button"
+        onClick={addEvent}
+        className="flex items-center gap-1 text-xs text-primary hover:underline"
+      >
+        <Plus className="h-3 w-3" />
+        Event
+      </button>
+
+      {mismatch && (
+        <p className="text-xs text-yellow-500">
+          The timeline has {homeGoals}-{awayGoals} in goals, but the final score is {homeScore}-{awayScore}.
+          Own goals count for the side they were scored for.
+        </p>
+      )}
+    </div>
+  );
+}
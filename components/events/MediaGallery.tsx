@@ -0,0 +1,298 @@
+'use client';
+
+// Media Gallery Component
+// ✅ Code Quality Agent: Upload, caption and delete photos, videos and ticket scans
+
+import { useRef, useState } from 'react';
+import {
+  Upload,
+  Loader2,
+  Trash2,
+  Pencil,
+  Check,
+  X,
+  FileText,
+  Film,
+} from 'lucide-react';
+import { Input } from '@/components/ui/Input';
+import { uploadEventMedia } from '@/lib/media/client';
+import { cn } from '@/lib/utils';
+
+type MediaType = 'PHOTO' | 'VIDEO' | 'TICKET';
+
+interface MediaItem {
+  id: string;
+  type: MediaType;
+  url: string;
+  thumbnailUrl: string | null;
+  caption: string | null;
+  mimeType: string | null;
+}
+
+interface MediaGalleryProps {
+  eventId: string;
+  initialMedia: MediaItem[];
+}
+
+const TYPE_OPTIONS: { value: MediaType; label: string }[] = [
+  { value: 'PHOTO', label: 'Photo' },
+  { value: 'VIDEO', label: 'Video' },
+  { value: 'TICKET', label: 'Ticket' },
+];
+
+function MediaPreview({ item }: { item: MediaItem }) {
+  if (item.thumbnailUrl) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={item.thumbnailUrl}
+        alt={item.caption || 'Event photo'}
+        className="w-full h-full object-cover"
+      />
+    );
+  }
+  if (item.type === 'VIDEO') {
+    return (
+      <div className="w-full h-full flex items-center justify-center">
+        <Film className="h-8 w-8 text-muted-foreground" />
+      </div>
+    );
+  }
+  if (item.mimeType === 'application/pdf') {
+    return (
+      <div className="w-full h-full flex items-center justify-center">
+        <FileText className="h-8 w-8 text-muted-foreground" />
+      </div>
+    );
+  }
+  return (
+    // eslint-disable-next-line @next/next/no-img-element
+    <img
+      src={item.url}
+      alt={item.caption || 'Event photo'}
+      className="w-full h-full object-cover"
+    />
+  );
+}
+
+export function MediaGallery({ eventId, initialMedia }: MediaGalleryProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [media, setMedia] = useState<MediaItem[]>(initialMedia);
+  const [uploadType, setUploadType] = useState<MediaType>('PHOTO');
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [captionDraft, setCaptionDraft] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const handleUpload = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    setIsUploading(true);
+    setError(null);
+
+    try {
+      for (const file of Array.from(files)) {
+        const uploaded = await uploadEventMedia(eventId, file, uploadType);
+        setMedia((current) => [...current, uploaded]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload media');
+    } finally {
+      setIsUploading(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleSaveCaption = async (id: string) => {
+    setBusyId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/media/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ caption: captionDraft || null }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update caption');
+      }
+      setMedia((current) => current.map((item) => (item.id === id ? data.data : item)));
+      setEditingId(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update caption');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this file? This cannot be undone.')) return;
+    setBusyId(id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/media/${id}`, { method: 'DELETE' });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete media');
+      }
+      setMedia((current) => current.filter((item) => item.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete media');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-border p-4">
+      <div className="flex items-center justify-between gap-2 mb-4">
+        <h3 className="font-semibold">Photos & Media</h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={uploadType}
+            onChange={(e) => setUploadType(e.target.value as MediaType)}
+            className="h-9 rounded-lg border border-input bg-background px-2 text-sm"
+            aria-label="Media type"
+          >
+            {TYPE_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isUploading}
+            className="inline-flex items-center gap-2 h-9 px-3 rounded-lg bg-secondary hover:bg-secondary/80 text-sm transition-colors disabled:opacity-50"
+          >
+            {isUploading ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4" />
+            )}
+            Upload
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept={
+              uploadType === 'VIDEO'
+                ? 'video/*'
+                : uploadType === 'TICKET'
+                  ? 'image/*,application/pdf'
+                  : 'image/*'
+            }
+            onChange={(e) => handleUpload(e.target.files)}
+            className="hidden"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded-lg bg-red-500/10 border border-red-500/30 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {media.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No photos yet. Add pictures, videos or a scan of your ticket.
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+          {media.map((item) => (
+            <div key={item.id} className="space-y-1">
+              <div className="group relative aspect-square rounded-lg overflow-hidden bg-muted">
+                <a href={item.url} target="_blank" rel="noopener noreferrer">
+                  <MediaPreview item={item} />
+                </a>
+                {item.type !== 'PHOTO' && (
+                  <span className="absolute left-1 top-1 rounded bg-black/60 px-1.5 py-0.5 text-[10px] uppercase text-white">
+                    {item.type.toLowerCase()}
+                  </span>
+                )}
+                <div
+                  className={cn(
+                    'absolute right-1 top-1 flex gap-1 transition-opacity',
+                    busyId === item.id ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'
+                  )}
+                >
+                  {busyId === item.id ? (
+                    <Loader2 className="h-6 w-6 p-1 rounded bg-black/60 text-white animate-spin" />
+                  ) : (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setEditingId(item.id);
+                          setCaptionDraft(item.caption || '');
+                        }}
+                        className="p-1 rounded bg-black/60 text-white hover:bg-black/80"
+                        aria-label="Edit caption"
+                      >
+                        <Pencil className="h-3.5 w-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(item.id)}
+                        className="p-1 rounded bg-black/60 text-white hover:bg-red-500"
+                        aria-label="Delete media"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {editingId === item.id ? (
+                <div className="flex items-center gap-1">
+                  <Input
+                    value={captionDraft}
+                    onChange={(e) => setCaptionDraft(e.target.value)}
+                    placeholder="Add a caption..."
+                    maxLength={500}
+                    className="h-8 text-xs"
+                    autoFocus
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleSaveCaption(item.id);
+                      if (e.key === 'Escape') setEditingId(null);
+                    }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => handleSaveCaption(item.id)}
+                    className="p-1 text-green-400 hover:text-green-300"
+                    aria-label="Save caption"
+                  >
+                    <Check className="h-4 w-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setEditingId(null)}
+                    className="p-1 text-muted-foreground hover:text-foreground"
+                    aria-label="Cancel"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              ) : (
+                item.caption && (
+                  <p className="text-xs text-muted-foreground line-clamp-2">{item.caption}</p>
+                )
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MediaGallery;
@@ -9,6 +9,13 @@ import { Plus, X, ChevronDown, ChevronUp, Trophy } from 'lucide-react';
 import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/Card';
+import {
+  DECISION_LABELS,
+  INNINGS_PITCHED_PATTERN,
+  PITCHING_DECISIONS,
+  type PitchingDecision,
+  type PitchingLine,
+} from '@/lib/utils/pitching';
 
 // Sport type definition
 export type SportType = 'soccer' | 'basketball' | 'baseball' | 'tennis';
@@ -37,12 +44,33 @@ export interface BasketballPlayer extends BasePlayer {
   assists: number;
 }
 
-// Baseball player stats - KEY STATS ONLY: Home Runs & RBIs
+// Baseball player stats - KEY STATS: Home Runs & RBIs, plus a pitching line for pitchers
 export interface BaseballPlayer extends BasePlayer {
   homeRuns: number;
   rbis: number;
+  pitching?: PitchingLine;
 }
 
+const EMPTY_PITCHING_LINE: PitchingLine = {
+  inningsPitched: '0.0',
+  hits: 0,
+  runs: 0,
+  earnedRuns: 0,
+  walks: 0,
+  strikeOuts: 0,
+  pitchCount: null,
+  decision: null,
+};
+
+// Pitching line columns, in box-score order
+const PITCHING_COUNTS: { key: 'hits' | 'runs' | 'earnedRuns' | 'walks' | 'strikeOuts'; label: string }[] = [
+  { key: 'hits', label: 'H' },
+  { key: 'runs', label: 'R' },
+  { key: 'earnedRuns', label: 'ER' },
+  { key: 'walks', label: 'BB' },
+  { key: 'strikeOuts', label: 'K' },
+];
+
 // Tennis player stats - KEY STAT: Winner
 export interface TennisPlayer extends BasePlayer {
   isWinner: boolean;
@@ -269,29 +297,115 @@ export function PlayerStatsEditor({
 
       case 'baseball':
         const baseballPlayer = player as BaseballPlayer;
+        const pitching = baseballPlayer.pitching;
+        const updatePitching = (updates: Partial<PitchingLine>) =>
+          updatePlayer(globalIndex, { pitching: { ...(pitching ?? EMPTY_PITCHING_LINE), ...updates } });
         return (
-          <div className="flex items-center gap-4 mt-2">
-            <div className="flex items-center gap-2">
-              <span className="text-lg">💣</span>
-              <Input
-                type="number"
-                min="0"
-                value={baseballPlayer.homeRuns}
-                onChange={(e) => updatePlayer(globalIndex, { homeRuns: parseInt(e.target.value) || 0 })}
-                className="h-8 text-sm text-center font-mono w-16"
-              />
-              <span className="text-xs text-muted-foreground">HR</span>
-            </div>
-            <div className="flex items-center gap-2">
-              <Input
-                type="number"
-                min="0"
-                value={baseballPlayer.rbis}
-                onChange={(e) => updatePlayer(globalIndex, { rbis: parseInt(e.target.value) || 0 })}
-                className="h-8 text-sm text-center font-mono w-16"
-              />
-              <span className="text-xs text-muted-foreground">RBI</span>
+          <div className="space-y-3 mt-2">
+            <div className="flex items-center gap-4">
+              <div className="flex items-center gap-2">
+                <span className="text-lg">💣</span>
+                <Input
+                  type="number"
+                  min="0"
+                  value={baseballPlayer.homeRuns}
+                  onChange={(e) => updatePlayer(globalIndex, { homeRuns: parseInt(e.target.value) || 0 })}
+                  className="h-8 text-sm text-center font-mono w-16"
+                />
+                <span className="text-xs text-muted-foreground">HR</span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  value={baseballPlayer.rbis}
+                  onChange={(e) => updatePlayer(globalIndex, { rbis: parseInt(e.target.value) || 0 })}
+                  className="h-8 text-sm text-center font-mono w-16"
+                />
+                <span className="text-xs text-muted-foreground">RBI</span>
+              </div>
+              {!pitching && (
+                <button
+                  type="button"
+                  onClick={() => updatePitching({})}
+                  className="ml-auto text-xs text-primary hover:underline"
+                >
+                  + Pitching line
+                </button>
+              )}
             </div>
+
+            {/* Pitching line */}
+            {pitching && (
+              <div className="p-3 rounded-lg bg-secondary/40 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium">🎯 Pitching</span>
+                  <button
+                    type="button"
+                    onClick={() => updatePlayer(globalIndex, { pitching: undefined })}
+                    className="text-xs text-muted-foreground hover:text-destructive"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="grid grid-cols-4 sm:grid-cols-8 gap-2">
+                  <div className="flex flex-col items-center">
+                    <span className="text-xs text-muted-foreground mb-1">IP</span>
+                    <Input
+                      type="text"
+                      inputMode="decimal"
+                      value={pitching.inningsPitched}
+                      onChange={(e) => updatePitching({ inningsPitched: e.target.value })}
+                      className={`h-8 text-sm text-center font-mono w-14 ${
+                        INNINGS_PITCHED_PATTERN.test(pitching.inningsPitched) ? '' : 'border-destructive'
+                      }`}
+                      title="Innings and outs, e.g. 6.1"
+                    />
+                  </div>
+                  {PITCHING_COUNTS.map(({ key, label }) => (
+                    <div key={key} className="flex flex-col items-center">
+                      <span className="text-xs text-muted-foreground mb-1">{label}</span>
+                      <Input
+                        type="number"
+                        min="0"
+                        value={pitching[key]}
+                        onChange={(e) => updatePitching({ [key]: parseInt(e.target.value) || 0 })}
+                        className="h-8 text-sm text-center font-mono w-14"
+                      />
+                    </div>
+                  ))}
+                  <div className="flex flex-col items-center">
+                    <span className="text-xs text-muted-foreground mb-1">PC</span>
+                    <Input
+                      type="number"
+                      min="0"
+                      value={pitching.pitchCount ?? ''}
+                      onChange={(e) =>
+                        updatePitching({ pitchCount: e.target.value === '' ? null : parseInt(e.target.value) || 0 })
+                      }
+                      className="h-8 text-sm text-center font-mono w-14"
+                    />
+                  </div>
+                  <div className="flex flex-col items-center">
+                    <span className="text-xs text-muted-foreground mb-1">Dec</span>
+                    <select
+                      value={pitching.decision ?? ''}
+                      onChange={(e) =>
+                        updatePitching({ decision: (e.target.value || null) as PitchingDecision | null })
+                      }
+                      className="h-8 rounded-lg border border-input bg-background px-1 text-sm"
+                    >
+                      <option value="">-</option>
+                      {PITCHING_DECISIONS.map((decision) => (
+                        <option key={decision} value={decision}>
+                          {DECISION_LABELS[decision]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+              </div>
+            )}
           </div>
         );
 
@@ -378,7 +492,7 @@ export function PlayerStatsEditor({
     switch (sportType) {
       case 'soccer': return 'Goals, Assists, Cards';
       case 'basketball': return 'Points, Rebounds, Assists';
-      case 'baseball': return 'Home Runs & RBIs';
+      case 'baseball': return 'Home Runs, RBIs, Pitching';
       case 'tennis': return 'Winner';
     }
   };
@@ -446,7 +560,7 @@ export function PlayerStatsEditor({
             <span className="font-medium">Tracking: </span>
             {sportType === 'soccer' && '⚽ Goals • 🅰️ Assists • 🟨 Yellow • 🟥 Red • 🧤 Clean Sheet'}
             {sportType === 'basketball' && '🏀 Points • 📊 Rebounds • 🅰️ Assists'}
-            {sportType === 'baseball' && '💣 Home Runs • RBI = Runs Batted In'}
+            {sportType === 'baseball' && '💣 Home Runs • RBI = Runs Batted In • 🎯 IP H R ER BB K, pitch count and W/L/S'}
             {sportType === 'tennis' && '🏆 Match winner'}
           </div>
         </CardContent>
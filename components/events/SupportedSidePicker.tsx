@@ -0,0 +1,49 @@
+'use client';
+
+// Supported Side Picker Component
+// ✅ Code Quality Agent: Tag which team you were cheering for; "Auto" leaves it to your favourite teams
+
+import { cn } from '@/lib/utils';
+import type { SupportedSide } from '@/lib/utils/supported-team';
+
+interface SupportedSidePickerProps {
+  homeTeamName: string;
+  awayTeamName: string;
+  value: SupportedSide | null | undefined;
+  onChange: (value: SupportedSide | null) => void;
+}
+
+export function SupportedSidePicker({ homeTeamName, awayTeamName, value, onChange }: SupportedSidePickerProps) {
+  const options: { value: SupportedSide | null; label: string }[] = [
+    { value: null, label: 'Auto' },
+    { value: 'HOME', label: homeTeamName || 'Home' },
+    { value: 'AWAY', label: awayTeamName || 'Away' },
+    { value: 'NEUTRAL', label: 'Neutral' },
+  ];
+
+  return (
+    <div>
+      <label className="block text-sm font-medium mb-2">Who were you supporting?</label>
+      <div className="grid grid-cols-4 gap-2">
+        {options.map((option) => (
+          <button
+            key={option.value ?? 'auto'}
+            type="button"
+            onClick={() => onChange(option.value)}
+            className={cn(
+              'px-2 py-2 rounded-lg text-sm truncate transition-colors',
+              (value ?? null) === option.value
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-secondary hover:bg-secondary/80'
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground mt-1">
+        Auto uses your favourite teams from Settings.
+      </p>
+    </div>
+  );
+}
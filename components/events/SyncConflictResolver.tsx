@@ -0,0 +1,161 @@
+'use client';
+
+// Sync Conflict Resolver Component
+// ✅ Code Quality Agent: Lets the user keep local, keep server, or merge field by field
+
+import { useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import {
+  CONFLICT_FIELDS,
+  getConflictingFields,
+  type ConflictField,
+  type ConflictResolution,
+  type EventChanges,
+} from '@/lib/cache/sync';
+import { cn, formatShortDate } from '@/lib/utils';
+import { formatMinute, MATCH_EVENT_LABELS, type MatchEventInput } from '@/lib/utils/match-timeline';
+
+interface SyncConflictResolverProps {
+  local: EventChanges;
+  server: EventChanges;
+  onResolve: (resolution: ConflictResolution) => Promise<void> | void;
+  onCancel?: () => void;
+}
+
+function formatValue(field: ConflictField, value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'date') return formatShortDate(value as string);
+  if (field === 'firstLegEventId') return 'Linked';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (field === 'rating') return '⭐'.repeat(value as number);
+  if (field === 'lineScore') {
+    const periods = value as { homeScore: number | null; awayScore: number | null }[];
+    return periods.length
+      ? periods.map((p) => `${p.homeScore ?? 'x'}-${p.awayScore ?? 'x'}`).join(', ')
+      : '—';
+  }
+  if (field === 'timeline') {
+    const events = value as MatchEventInput[];
+    return events.length
+      ? events
+          .map((e) => `${formatMinute(e.minute, e.extraMinute)} ${MATCH_EVENT_LABELS[e.type].icon} ${e.playerName ?? ''}`.trim())
+          .join(', ')
+      : '—';
+  }
+  if (Array.isArray(value)) return value.length ? value.join(', ') : '—';
+  return String(value);
+}
+
+export function SyncConflictResolver({
+  local,
+  server,
+  onResolve,
+  onCancel,
+}: SyncConflictResolverProps) {
+  const conflicting = getConflictingFields(local, server);
+  const [choices, setChoices] = useState<Partial<Record<ConflictField, 'local' | 'server'>>>({});
+  const [isResolving, setIsResolving] = useState(false);
+
+  const resolve = async (resolution: ConflictResolution) => {
+    setIsResolving(true);
+    try {
+      await onResolve(resolution);
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-yellow-500/30 bg-yellow-500/5 p-4 space-y-4">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="h-5 w-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+        <div>
+          <h3 className="font-semibold">This event changed on the server</h3>
+          <p className="text-sm text-muted-foreground">
+            Someone saved a newer version after your edit was made. Choose which values to keep.
+          </p>
+        </div>
+      </div>
+
+      {conflicting.length > 0 ? (
+        <div className="space-y-2">
+          <div className="grid grid-cols-[auto_1fr_1fr] gap-2 text-xs text-muted-foreground px-1">
+            <span className="w-24">Field</span>
+            <span>Your edit</span>
+            <span>Server</span>
+          </div>
+          {conflicting.map((field) => {
+            const label = CONFLICT_FIELDS.find((f) => f.key === field)?.label || field;
+            const choice = choices[field] ?? 'local';
+            return (
+              <div key={field} className="grid grid-cols-[auto_1fr_1fr] gap-2 items-stretch text-sm">
+                <span className="w-24 self-center font-medium">{label}</span>
+                {(['local', 'server'] as const).map((side) => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => setChoices({ ...choices, [field]: side })}
+                    className={cn(
+                      'rounded-lg border px-3 py-2 text-left break-words transition-colors',
+                      choice === side
+                        ? 'border-primary bg-primary/10'
+                        : 'border-border hover:bg-secondary'
+                    )}
+                  >
+                    {formatValue(field, side === 'local' ? local[field] : server[field])}
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          The fields you edited match the server copy, so keeping your edit is safe.
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <button
+          type="button"
+          disabled={isResolving}
+          onClick={() => resolve('local')}
+          className="px-3 py-2 rounded-lg text-sm bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+        >
+          Keep mine
+        </button>
+        <button
+          type="button"
+          disabled={isResolving}
+          onClick={() => resolve('server')}
+          className="px-3 py-2 rounded-lg text-sm border border-border hover:bg-secondary disabled:opacity-50"
+        >
+          Keep server
+        </button>
+        {conflicting.length > 1 && (
+          <button
+            type="button"
+            disabled={isResolving}
+            onClick={() => resolve(choices)}
+            className="px-3 py-2 rounded-lg text-sm border border-border hover:bg-secondary disabled:opacity-50"
+          >
+            Merge selected
+          </button>
+        )}
+        {onCancel && (
+          <button
+            type="button"
+            disabled={isResolving}
+            onClick={onCancel}
+            className="px-3 py-2 rounded-lg text-sm text-muted-foreground hover:text-foreground disabled:opacity-50"
+          >
+            Decide later
+          </button>
+        )}
+        {isResolving && <Loader2 className="h-4 w-4 animate-spin self-center" />}
+      </div>
+    </div>
+  );
+}
+
+export default SyncConflictResolver;
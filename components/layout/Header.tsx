@@ -7,6 +7,7 @@ import Link from 'next/link';
 import { useSession, signOut } from 'next-auth/react';
 import { Settings, LogOut, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { SyncStatus } from '@/components/shared/SyncStatus';
 import { useState, useRef, useEffect } from 'react';
 
 interface HeaderProps {
@@ -38,52 +39,56 @@ export function Header({ title = 'FootyTracker' }: HeaderProps) {
           <span className="font-bold text-lg gradient-text">{title}</span>
         </Link>
 
-        {session?.user && (
-          <div className="relative" ref={menuRef}>
-            <button
-              onClick={() => setShowMenu(!showMenu)}
-              className="flex items-center gap-2 rounded-full p-1 hover:bg-secondary transition-colors"
-            >
-              {session.user.image ? (
-                <img
-                  src={session.user.image}
-                  alt={session.user.name || 'User'}
-                  className="h-8 w-8 rounded-full border border-border"
-                />
-              ) : (
-                <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center">
-                  <User className="h-4 w-4 text-primary" />
-                </div>
-              )}
-            </button>
+        <div className="flex items-center gap-2">
+          <SyncStatus />
 
-            {showMenu && (
-              <div className="absolute right-0 top-full mt-2 w-48 rounded-lg border border-border bg-card shadow-lg animate-in">
-                <div className="p-2 border-b border-border">
-                  <p className="text-sm font-medium truncate">{session.user.name}</p>
-                  <p className="text-xs text-muted-foreground truncate">{session.user.email}</p>
-                </div>
-                <div className="p-1">
-                  <Link
-                    href="/settings"
-                    className="flex items-center gap-2 w-full px-3 py-2 text-sm rounded-md hover:bg-secondary transition-colors"
-                    onClick={() => setShowMenu(false)}
-                  >
-                    <Settings className="h-4 w-4" />
-                    Settings
-                  </Link>
-                  <button
-                    onClick={() => signOut({ callbackUrl: '/auth/signin' })}
-                    className="flex items-center gap-2 w-full px-3 py-2 text-sm rounded-md hover:bg-secondary transition-colors text-destructive"
-                  >
-                    <LogOut className="h-4 w-4" />
-                    Sign Out
-                  </button>
+          {session?.user && (
+            <div className="relative" ref={menuRef}>
+              <button
+                onClick={() => setShowMenu(!showMenu)}
+                className="flex items-center gap-2 rounded-full p-1 hover:bg-secondary transition-colors"
+              >
+                {session.user.image ? (
+                  <img
+                    src={session.user.image}
+                    alt={session.user.name || 'User'}
+                    className="h-8 w-8 rounded-full border border-border"
+                  />
+                ) : (
+                  <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center">
+                    <User className="h-4 w-4 text-primary" />
+                  </div>
+                )}
+              </button>
+
+              {showMenu && (
+                <div className="absolute right-0 top-full mt-2 w-48 rounded-lg border border-border bg-card shadow-lg animate-in">
+                  <div className="p-2 border-b border-border">
+                    <p className="text-sm font-medium truncate">{session.user.name}</p>
+                    <p className="text-xs text-muted-foreground truncate">{session.user.email}</p>
+                  </div>
+                  <div className="p-1">
+                    <Link
+                      href="/settings"
+                      className="flex items-center gap-2 w-full px-3 py-2 text-sm rounded-md hover:bg-secondary transition-colors"
+                      onClick={() => setShowMenu(false)}
+                    >
+                      <Settings className="h-4 w-4" />
+                      Settings
+                    </Link>
+                    <button
+                      onClick={() => signOut({ callbackUrl: '/auth/signin' })}
+                      className="flex items-center gap-2 w-full px-3 py-2 text-sm rounded-md hover:bg-secondary transition-colors text-destructive"
+                    >
+                      <LogOut className="h-4 w-4" />
+                      Sign Out
+                    </button>
+                  </div>
                 </div>
-              </div>
-            )}
-          </div>
-        )}
+              )}
+            </div>
+          )}
+        </div>
       </div>
     </header>
   );
@@ -9,6 +9,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { useState, type ReactNode } from 'react';
 import { ModalProvider } from './ModalProvider';
 import { AddEventModal } from '@/components/shared/AddEventModal';
+import { SyncReplayer } from '@/components/shared/SyncStatus';
 
 interface ProvidersProps {
   children: ReactNode;
@@ -34,6 +35,7 @@ export function Providers({ children }: ProvidersProps) {
         <ModalProvider>
           {children}
           <AddEventModal />
+          <SyncReplayer />
         </ModalProvider>
       </QueryClientProvider>
     </SessionProvider>
@@ -0,0 +1,109 @@
+'use client';
+
+// CalendarFeed Component - Subscribe to your events from a calendar app
+// ✅ Code Quality Agent: The URL is a secret; regenerating it cuts off old subscribers
+
+import { useEffect, useState } from 'react';
+import { Copy, Check, RefreshCw, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+
+export function CalendarFeed() {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/user/calendar')
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) setUrl(data.data.url);
+      })
+      .catch(() => setError('Failed to load calendar feed'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const updateFeed = async (method: 'POST' | 'DELETE') => {
+    if (url && !confirm(
+      method === 'POST'
+        ? 'Generate a new link? Calendars subscribed to the current link will stop updating.'
+        : 'Turn off the calendar feed? Subscribed calendars will stop updating.'
+    )) {
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/user/calendar', { method });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to update calendar feed');
+      setUrl(data.data.url);
+      setCopied(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update calendar feed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  if (isLoading) {
+    return <div className="h-10 rounded-lg bg-muted animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {url ? (
+        <>
+          <div className="flex gap-2">
+            <Input value={url} readOnly onFocus={(e) => e.target.select()} className="text-xs" />
+            <Button variant="outline" onClick={handleCopy} aria-label="Copy calendar link">
+              {copied ? <Check className="h-4 w-4 text-green-400" /> : <Copy className="h-4 w-4" />}
+            </Button>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              className="flex-1 gap-2"
+              onClick={() => updateFeed('POST')}
+              isLoading={isBusy}
+            >
+              <RefreshCw className="h-4 w-4" />
+              New link
+            </Button>
+            <Button
+              variant="outline"
+              className="flex-1 gap-2"
+              onClick={() => updateFeed('DELETE')}
+              disabled={isBusy}
+            >
+              <XCircle className="h-4 w-4" />
+              Turn off
+            </Button>
+          </div>
+        </>
+      ) : (
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={() => updateFeed('POST')}
+          isLoading={isBusy}
+        >
+          Create calendar link
+        </Button>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+export default CalendarFeed;
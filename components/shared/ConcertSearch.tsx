@@ -18,6 +18,7 @@ export interface SetlistSong {
   isCover: boolean;
   coverArtist?: string;
   isTape: boolean;
+  segue: boolean;
   notes?: string;
 }
 
@@ -8,6 +8,8 @@ import { MapPin, Calendar, Star, ChevronRight } from 'lucide-react';
 import { cn, formatRelativeDate } from '@/lib/utils';
 import { TeamLogo, ArtistPhoto } from './TeamLogo';
 import type { EventWithRelations } from '@/types';
+import { localDisplayDate } from '@/lib/utils/timezone';
+import { scoreLineSuffix } from '@/lib/utils/match-result';
 
 interface EventCardProps {
   event: EventWithRelations;
@@ -74,7 +76,7 @@ export function EventCard({ event, index = 0, logos }: EventCardProps) {
       if (event.soccerMatch) {
         homeTeam = event.soccerMatch.homeTeam;
         awayTeam = event.soccerMatch.awayTeam;
-        score = `${event.soccerMatch.homeScore} - ${event.soccerMatch.awayScore}`;
+        score = `${event.soccerMatch.homeScore} - ${event.soccerMatch.awayScore}${scoreLineSuffix(event.soccerMatch)}`;
       }
       break;
     case 'BASKETBALL':
@@ -106,6 +108,12 @@ export function EventCard({ event, index = 0, logos }: EventCardProps) {
       break;
   }
 
+  // No result yet for an upcoming event
+  const isPlanned = event.status === 'PLANNED';
+  if (isPlanned && event.type !== 'CONCERT') {
+    score = 'vs';
+  }
+
   const isSportMatch = ['SOCCER', 'BASKETBALL', 'BASEBALL'].includes(event.type);
   const isTennis = event.type === 'TENNIS';
   const isConcert = event.type === 'CONCERT';
@@ -117,7 +125,8 @@ export function EventCard({ event, index = 0, logos }: EventCardProps) {
         'block relative overflow-hidden rounded-2xl border p-5 transition-all duration-300',
         borderColor,
         'hover:shadow-lg hover:shadow-primary/5 hover:-translate-y-0.5',
-        'animate-card-in'
+        'animate-card-in',
+        event.status === 'MISSED' && 'opacity-60'
       )}
       style={{ animationDelay: `${index * 100}ms` }}
     >
@@ -237,12 +246,22 @@ export function EventCard({ event, index = 0, logos }: EventCardProps) {
         <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-4 text-sm text-muted-foreground">
           <span className="flex items-center gap-1.5">
             <Calendar className="h-4 w-4" />
-            <span className="font-medium">{formatRelativeDate(event.date)}</span>
+            <span className="font-medium">{formatRelativeDate(localDisplayDate(event))}</span>
           </span>
           <span className="flex items-center gap-1.5 truncate">
             <MapPin className="h-4 w-4 flex-shrink-0" />
             <span className="truncate">{event.venue.name}</span>
           </span>
+          {event.status !== 'ATTENDED' && (
+            <span
+              className={cn(
+                'px-2 py-0.5 rounded-full text-xs font-medium',
+                isPlanned ? 'bg-blue-500/20 text-blue-300' : 'bg-muted text-muted-foreground'
+              )}
+            >
+              {isPlanned ? 'Planned' : 'Missed'}
+            </span>
+          )}
         </div>
 
         {/* Rating */}
@@ -0,0 +1,145 @@
+'use client';
+
+// FavoriteTeams Component - Pick the teams you support in each sport
+// ✅ Code Quality Agent: Favourites decide which side counts for your lucky charm record when an event isn't tagged
+
+import { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { TeamBadge, type SportType } from '@/components/shared/TeamBadge';
+import { cn } from '@/lib/utils';
+
+type TeamSport = 'SOCCER' | 'BASKETBALL' | 'BASEBALL';
+
+interface Favorite {
+  id: string;
+  team: { id: string; name: string; sport: TeamSport; logoUrl: string | null };
+}
+
+const SPORTS: { value: TeamSport; label: string }[] = [
+  { value: 'SOCCER', label: '⚽ Soccer' },
+  { value: 'BASKETBALL', label: '🏀 Basketball' },
+  { value: 'BASEBALL', label: '⚾ Baseball' },
+];
+
+export function FavoriteTeams() {
+  const [favorites, setFavorites] = useState<Favorite[]>([]);
+  const [sport, setSport] = useState<TeamSport>('SOCCER');
+  const [teamName, setTeamName] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/user/favorite-teams')
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.success) setFavorites(data.data);
+      })
+      .catch(() => setError('Failed to load favourite teams'))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!teamName.trim()) return;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/user/favorite-teams', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ teamName, sport }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to add favourite team');
+      setFavorites((prev) => [...prev.filter((f) => f.id !== data.data.id), data.data]);
+      setTeamName('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add favourite team');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/user/favorite-teams?id=${id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to remove favourite team');
+      setFavorites((prev) => prev.filter((f) => f.id !== id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to remove favourite team');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (isLoading) {
+    return <div className="h-10 rounded-lg bg-muted animate-pulse" />;
+  }
+
+  return (
+    <div className="space-y-3">
+      {favorites.length > 0 && (
+        <ul className="space-y-2">
+          {favorites.map((favorite) => (
+            <li key={favorite.id} className="flex items-center gap-2">
+              <TeamBadge
+                teamName={favorite.team.name}
+                sport={favorite.team.sport.toLowerCase() as SportType}
+                logoUrl={favorite.team.logoUrl}
+                size="sm"
+              />
+              <span className="flex-1 font-medium">{favorite.team.name}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleRemove(favorite.id)}
+                disabled={isBusy}
+                aria-label={`Remove ${favorite.team.name}`}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        {SPORTS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            onClick={() => setSport(option.value)}
+            className={cn(
+              'px-3 py-1 rounded-full text-sm transition-colors',
+              sport === option.value
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-muted text-muted-foreground hover:bg-muted/80'
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleAdd} className="flex gap-2">
+        <Input
+          value={teamName}
+          onChange={(e) => setTeamName(e.target.value)}
+          placeholder="Team name"
+        />
+        <Button type="submit" variant="outline" isLoading={isBusy} aria-label="Add favourite team">
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+    </div>
+  );
+}
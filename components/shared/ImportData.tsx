@@ -0,0 +1,126 @@
+'use client';
+
+// ImportData Component - Restore a JSON backup or CSV export
+// ✅ Code Quality Agent: Dry-run preview first, then an all-or-nothing import
+
+import { useRef, useState } from 'react';
+import { Upload, Loader2, AlertCircle, CheckCircle } from 'lucide-react';
+import { Button } from '@/components/ui/Button';
+import type { ImportResult } from '@/lib/import';
+
+async function postImport(file: File, dryRun: boolean) {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('dryRun', String(dryRun));
+
+  const response = await fetch('/api/import', { method: 'POST', body: formData });
+  const data = await response.json();
+  return { ok: response.ok, error: data.error as string | undefined, result: (data.data ?? data.details) as ImportResult | undefined };
+}
+
+export function ImportData() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [done, setDone] = useState<number | null>(null);
+
+  const handleSelect = async (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    setPreview(null);
+    setDone(null);
+    setError(null);
+    setIsBusy(true);
+
+    try {
+      const { ok, error: message, result } = await postImport(selected, true);
+      if (!ok || !result) throw new Error(message || 'Failed to read file');
+      setPreview(result);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read file');
+    } finally {
+      setIsBusy(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setIsBusy(true);
+    setError(null);
+
+    try {
+      const { ok, error: message, result } = await postImport(file, false);
+      if (result) setPreview(result);
+      if (!ok) throw new Error(message || 'Import failed');
+      setDone(result?.created ?? 0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const problems = preview?.rows.filter((row) => row.status === 'invalid') ?? [];
+
+  return (
+    <div className="space-y-3">
+      <Button
+        variant="outline"
+        className="w-full justify-start gap-3"
+        onClick={() => inputRef.current?.click()}
+        disabled={isBusy}
+      >
+        {isBusy ? <Loader2 className="h-5 w-5 animate-spin" /> : <Upload className="h-5 w-5" />}
+        {file ? file.name : 'Choose JSON or CSV file'}
+      </Button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,.csv,application/json,text/csv"
+        onChange={(e) => handleSelect(e.target.files?.[0])}
+        className="hidden"
+      />
+
+      {preview && done === null && (
+        <div className="text-sm space-y-2">
+          <p>
+            {preview.toCreate} new · {preview.duplicates} already tracked · {preview.invalid} invalid
+          </p>
+          {problems.length > 0 && (
+            <ul className="max-h-40 overflow-y-auto space-y-1 text-red-400">
+              {problems.map((row) => (
+                <li key={row.row}>
+                  Row {row.row}: {row.errors?.join('; ')}
+                </li>
+              ))}
+            </ul>
+          )}
+          {problems.length === 0 && preview.toCreate > 0 && (
+            <Button className="w-full" onClick={handleImport} isLoading={isBusy}>
+              Import {preview.toCreate} event{preview.toCreate === 1 ? '' : 's'}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {done !== null && (
+        <p className="flex items-center gap-2 text-sm text-green-400">
+          <CheckCircle className="h-4 w-4" />
+          Imported {done} event{done === 1 ? '' : 's'}
+        </p>
+      )}
+
+      {error && (
+        <p className="flex items-center gap-2 text-sm text-red-400">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default ImportData;
@@ -1,7 +1,7 @@
 'use client';
 
 // MatchSearch Component - Search for sports matches via external APIs
-// 📚 Library Research Agent: Uses Football-Data.org, balldontlie.io, MLB Stats API
+// 📚 Library Research Agent: Uses Football-Data.org, balldontlie.io, MLB Stats API, tennis data provider
 // ✅ Code Quality Agent: Proper loading states, error handling, type safety
 
 import { useState, useEffect } from 'react';
@@ -10,7 +10,11 @@ import { useDebounce } from '@/hooks/useDebounce';
 import { Input } from '@/components/ui/Input';
 import { Button } from '@/components/ui/Button';
 import { Card, CardContent } from '@/components/ui/Card';
-import { TeamBadge, MatchupBadges } from '@/components/shared/TeamBadge';
+import { TeamBadge, MatchupBadges, type SportType as BadgeSportType } from '@/components/shared/TeamBadge';
+import type { PitchingLine } from '@/lib/utils/pitching';
+import type { PeriodScoreInput } from '@/lib/utils/line-score';
+import type { MatchEventInput } from '@/lib/utils/match-timeline';
+import { soccerResultFromApi } from '@/lib/utils/match-result';
 
 // Types for different sport matches
 export interface SoccerMatchResult {
@@ -24,6 +28,9 @@ export interface SoccerMatchResult {
   awayTeamCrest?: string;
   homeScore: number | null;
   awayScore: number | null;
+  extraTime?: boolean;
+  homePenalties?: number | null; // Shootout score, when it went to penalties
+  awayPenalties?: number | null;
   competition: string;
   venue: string | null;
   country?: string; // From area.name or competition area
@@ -56,8 +63,24 @@ export interface BaseballGameResult {
   status: string;
 }
 
-export type SportType = 'soccer' | 'basketball' | 'baseball';
-export type MatchResult = SoccerMatchResult | BasketballGameResult | BaseballGameResult;
+// Already normalized by /api/tennis/search - no detail fetch needed
+export interface TennisMatchResult {
+  id: string;
+  date: string;
+  player1: string;
+  player2: string;
+  winner: 1 | 2 | null;
+  score: string | null;
+  tournament: string;
+  round: string | null;
+  venue: string | null;
+  city: string | null;
+  country: string | null;
+  status: string;
+}
+
+export type SportType = 'soccer' | 'basketball' | 'baseball' | 'tennis';
+export type MatchResult = SoccerMatchResult | BasketballGameResult | BaseballGameResult | TennisMatchResult;
 
 // Player appearance types for each sport
 export interface SoccerPlayerAppearance {
@@ -86,6 +109,7 @@ export interface BaseballPlayerAppearance {
   team: 'home' | 'away';
   homeRuns: number;
   rbis: number;
+  pitching?: PitchingLine;
 }
 
 export type PlayerAppearance = SoccerPlayerAppearance | BasketballPlayerAppearance | BaseballPlayerAppearance;
@@ -94,6 +118,8 @@ interface MatchSearchProps {
   sportType: SportType;
   onMatchSelect: (match: MatchResult) => void;
   onPlayersLoaded?: (players: PlayerAppearance[]) => void;
+  onLineScoreLoaded?: (lineScore: PeriodScoreInput[]) => void;
+  onTimelineLoaded?: (timeline: MatchEventInput[]) => void;
 }
 
 // Competition type filter options for soccer
@@ -102,7 +128,7 @@ type CompetitionFilter = 'club' | 'international' | 'all';
 const INTERNATIONAL_COMPS = ['WC', 'EC', 'CA', 'GC', 'AFCON', 'AC', 'ECQ', 'WCQ_EUR'];
 const CLUB_COMPS = ['PL', 'PD', 'BL1', 'SA', 'FL1', 'CL', 'EL', 'ECL', 'FAC', 'EFL', 'CDR', 'DFB', 'CIF', 'CDF', 'MLS', 'LMX', 'LC', 'CL_CONMEBOL', 'CS', 'CWC', 'USC', 'SPL', 'JPL', 'SL', 'RPL'];
 
-export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: MatchSearchProps) {
+export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded, onLineScoreLoaded, onTimelineLoaded }: MatchSearchProps) {
   const [query, setQuery] = useState('');
   const [selectedYear, setSelectedYear] = useState<string>('');
   const [selectedMonth, setSelectedMonth] = useState<string>('');
@@ -201,6 +227,8 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
           params.append('team', debouncedQuery);
         } else if (sportType === 'baseball') {
           params.append('team', debouncedQuery);
+        } else if (sportType === 'tennis') {
+          params.append('q', debouncedQuery); // Player or tournament
         }
         
         // Calculate date range inline to avoid stale closure
@@ -267,6 +295,8 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
         return '/api/basketball/search';
       case 'baseball':
         return '/api/baseball/search';
+      case 'tennis':
+        return '/api/tennis/search';
     }
   };
 
@@ -294,6 +324,11 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
             }
           }
           
+          // Shootout goals kept out of the score
+          const result = match.score
+            ? soccerResultFromApi(match.score as Parameters<typeof soccerResultFromApi>[0])
+            : null;
+
           return {
             id: match.id as number,
             date: match.utcDate as string,
@@ -303,8 +338,11 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
             awayTeamId: (match.awayTeam as Record<string, unknown>)?.id as number | undefined,
             homeTeamCrest: (match.homeTeam as Record<string, unknown>)?.crest as string | undefined,
             awayTeamCrest: (match.awayTeam as Record<string, unknown>)?.crest as string | undefined,
-            homeScore: ((match.score as Record<string, unknown>)?.fullTime as Record<string, unknown>)?.home as number | null,
-            awayScore: ((match.score as Record<string, unknown>)?.fullTime as Record<string, unknown>)?.away as number | null,
+            homeScore: result?.homeScore ?? null,
+            awayScore: result?.awayScore ?? null,
+            extraTime: result?.extraTime,
+            homePenalties: result?.homePenalties,
+            awayPenalties: result?.awayPenalties,
             competition: (competition?.name as string) || '',
             venue: venue,
             country: country,
@@ -344,6 +382,9 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
           };
         });
       
+      case 'tennis':
+        return data as TennisMatchResult[];
+
       default:
         return [];
     }
@@ -356,6 +397,13 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
     try {
       // Fetch match details with player stats
       const detailEndpoint = getDetailEndpoint(sportType, match.id);
+      if (!detailEndpoint) {
+        onMatchSelect(match);
+        setIsExpanded(false);
+        setResults([]);
+        setQuery('');
+        return;
+      }
       const response = await fetch(detailEndpoint);
       const data = await response.json();
 
@@ -371,6 +419,16 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
         if (onPlayersLoaded && data.data?.players) {
           onPlayersLoaded(data.data.players);
         }
+
+        // Pass the line score when the source has one
+        if (onLineScoreLoaded && data.data?.lineScore) {
+          onLineScoreLoaded(data.data.lineScore);
+        }
+
+        // Pass the match timeline (soccer only) when it has events
+        if (onTimelineLoaded && data.data?.timeline?.length) {
+          onTimelineLoaded(data.data.timeline);
+        }
       }
       
       // Collapse search after selection
@@ -388,7 +446,7 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
   };
 
   // Get detail endpoint based on sport type
-  const getDetailEndpoint = (sport: SportType, matchId: number): string => {
+  const getDetailEndpoint = (sport: SportType, matchId: number | string): string | null => {
     switch (sport) {
       case 'soccer':
         return `/api/football/match/${matchId}`;
@@ -396,6 +454,8 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
         return `/api/basketball/game/${matchId}`;
       case 'baseball':
         return `/api/baseball/game/${matchId}`;
+      case 'tennis':
+        return null; // Search results are already complete
     }
   };
 
@@ -422,6 +482,8 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
         return 'Basketball Game';
       case 'baseball':
         return 'Baseball Game';
+      case 'tennis':
+        return 'Tennis Match';
     }
   };
 
@@ -456,14 +518,16 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
             {/* Team Search */}
             <div>
               <label className="block text-sm font-medium mb-2">
-                Search by Team Name
+                {sportType === 'tennis' ? 'Search by Player or Tournament' : 'Search by Team Name'}
               </label>
               <div className="relative">
                 <Input
                   type="text"
                   value={query}
                   onChange={(e) => setQuery(e.target.value)}
-                  placeholder={`Enter team name (e.g., ${sportType === 'soccer' ? 'Manchester United' : sportType === 'basketball' ? 'Lakers' : 'Yankees'})`}
+                  placeholder={sportType === 'tennis'
+                    ? 'Enter player or tournament (e.g., Alcaraz, Wimbledon)'
+                    : `Enter team name (e.g., ${sportType === 'soccer' ? 'Manchester United' : sportType === 'basketball' ? 'Lakers' : 'Yankees'})`}
                   className="pr-10"
                 />
                 {query && (
@@ -559,7 +623,8 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
                   onChange={(e) => setSelectedMonth(e.target.value)}
                   className="w-full h-10 rounded-lg border border-input bg-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
                 >
-                  <option value="">All Months</option>
+                  {/* Tennis fixtures are fetched by date, so searches stay within a month */}
+                  {sportType !== 'tennis' && <option value="">All Months</option>}
                   {monthOptions.map((m) => (
                     <option key={m.value} value={m.value}>
                       {m.label}
@@ -591,6 +656,35 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
                   Found {results.length} match{results.length !== 1 ? 'es' : ''}
                 </p>
                 {results.map((match) => {
+                  if ('player1' in match) {
+                    return (
+                      <button
+                        key={match.id}
+                        type="button"
+                        onClick={() => handleSelectMatch(match)}
+                        disabled={isLoadingDetails}
+                        className="w-full p-3 rounded-lg bg-secondary/50 hover:bg-secondary/80 transition-colors text-left disabled:opacity-50"
+                      >
+                        <div className="flex justify-between items-center gap-2">
+                          <span className={`font-medium truncate flex-1 ${match.winner === 1 ? 'text-green-400' : ''}`}>
+                            {match.player1}
+                          </span>
+                          <span className="flex-shrink-0 text-sm font-mono font-bold px-2">
+                            {match.score || <span className="text-xs text-muted-foreground font-normal">vs</span>}
+                          </span>
+                          <span className={`font-medium truncate flex-1 text-right ${match.winner === 2 ? 'text-green-400' : ''}`}>
+                            {match.player2}
+                          </span>
+                        </div>
+                        <div className="text-xs text-muted-foreground mt-1 text-center">
+                          {formatDate(match.date)}
+                          <span className="ml-2">• {match.tournament}</span>
+                          {match.round && <span className="ml-2">• {match.round}</span>}
+                        </div>
+                      </button>
+                    );
+                  }
+
                   // Extract crest URLs for soccer matches
                   const homeTeamCrest = 'homeTeamCrest' in match ? match.homeTeamCrest : undefined;
                   const awayTeamCrest = 'awayTeamCrest' in match ? match.awayTeamCrest : undefined;
@@ -610,7 +704,7 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
                         <div className="flex items-center gap-2 flex-1 min-w-0">
                           <TeamBadge
                             teamName={match.homeTeam}
-                            sport={sportType}
+                            sport={sportType as BadgeSportType}
                             externalId={homeTeamId}
                             logoUrl={homeTeamCrest}
                             size="sm"
@@ -634,7 +728,7 @@ export function MatchSearch({ sportType, onMatchSelect, onPlayersLoaded }: Match
                           <span className="font-medium truncate">{match.awayTeam}</span>
                           <TeamBadge
                             teamName={match.awayTeam}
-                            sport={sportType}
+                            sport={sportType as BadgeSportType}
                             externalId={awayTeamId}
                             logoUrl={awayTeamCrest}
                             size="sm"
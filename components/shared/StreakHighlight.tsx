@@ -3,15 +3,34 @@
 // Streak Highlight Component
 // ✅ Code Quality Agent: Premium animated streak display
 
-import { Flame, Sparkles } from 'lucide-react';
-import { cn } from '@/lib/utils';
+import { AlertTriangle, Flame, Sparkles } from 'lucide-react';
+import { cn, formatShortDate } from '@/lib/utils';
+import type { Streak, StreakPeriod } from '@/lib/db/streaks';
 
 interface StreakHighlightProps {
-  count: number;
+  count: number; // Events this month
   userName?: string;
+  streaks?: Streak[]; // Overall week/month/season streaks
+  atRisk?: Streak[];
 }
 
-export function StreakHighlight({ count, userName }: StreakHighlightProps) {
+const PERIOD_UNITS: Record<StreakPeriod, [string, string]> = {
+  week: ['week', 'weeks'],
+  month: ['month', 'months'],
+  season: ['season', 'seasons'],
+};
+
+function periodsLabel(count: number, period: StreakPeriod): string {
+  return `${count} ${PERIOD_UNITS[period][count === 1 ? 0 : 1]}`;
+}
+
+// "Your 4-month streak", "Your 3-week Soccer streak"
+function riskLabel(streak: Streak): string {
+  const scope = streak.scope === 'all' ? '' : ` ${streak.label}`;
+  return `Your ${streak.current}-${PERIOD_UNITS[streak.period][0]}${scope} streak`;
+}
+
+export function StreakHighlight({ count, userName, streaks = [], atRisk = [] }: StreakHighlightProps) {
   const hasStreak = count > 0;
   const streakLevel = count >= 10 ? 'legendary' : count >= 5 ? 'hot' : count >= 1 ? 'warming' : 'cold';
 
@@ -99,6 +118,37 @@ export function StreakHighlight({ count, userName }: StreakHighlightProps) {
             )}
           </div>
         )}
+
+        {/* Consecutive weeks / months / seasons */}
+        {streaks.some((streak) => streak.longest > 1) && (
+          <div className="grid grid-cols-3 gap-2 mt-6">
+            {streaks.map((streak) => (
+              <div key={streak.period} className="rounded-lg bg-background/40 px-2 py-2">
+                <div className="text-lg font-bold font-mono tabular-nums">
+                  {periodsLabel(streak.current, streak.period)}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  best {periodsLabel(streak.longest, streak.period)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Streaks about to lapse */}
+        {atRisk.length > 0 && (
+          <ul className="mt-4 space-y-1 text-sm text-amber-400">
+            {atRisk.slice(0, 3).map((streak) => (
+              <li
+                key={`${streak.period}:${streak.scope}:${streak.key}`}
+                className="flex items-center justify-center gap-1"
+              >
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                {riskLabel(streak)} needs an event before {streak.closesAt && formatShortDate(streak.closesAt)}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </section>
   );
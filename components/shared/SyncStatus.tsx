@@ -0,0 +1,154 @@
+'use client';
+
+// Offline Sync Status
+// ✅ Code Quality Agent: Surfaces queued offline events and their sync errors
+
+import { useState } from 'react';
+import { CloudOff, RefreshCw, AlertTriangle, Trash2 } from 'lucide-react';
+import { useOfflineSync } from '@/hooks/useOfflineSync';
+import { SyncConflictResolver } from '@/components/events/SyncConflictResolver';
+import type { SyncQueueItem } from '@/lib/cache';
+import {
+  discardSyncItem,
+  resolveSyncConflict,
+  serverEventToChanges,
+  type ConflictResolution,
+  type EventChanges,
+  type ServerEvent,
+} from '@/lib/cache/sync';
+import { cn } from '@/lib/utils';
+
+// Headless replayer - mounted once so queued events post when connectivity returns
+export function SyncReplayer() {
+  useOfflineSync(true);
+  return null;
+}
+
+export function SyncStatus() {
+  const { isOnline, isSyncing, pendingCount, failedItems, sync } = useOfflineSync();
+  const [showDetails, setShowDetails] = useState(false);
+  const [resolving, setResolving] = useState<SyncQueueItem | null>(null);
+
+  if (isOnline && pendingCount === 0 && failedItems.length === 0) return null;
+
+  const hasErrors = failedItems.length > 0;
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    if (!resolving) return;
+    await resolveSyncConflict(resolving, resolution);
+    setResolving(null);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowDetails(!showDetails)}
+        className={cn(
+          'flex items-center gap-1.5 rounded-full px-2.5 py-1 text-xs font-medium transition-colors',
+          hasErrors
+            ? 'bg-red-500/10 text-red-400 hover:bg-red-500/20'
+            : 'bg-yellow-500/10 text-yellow-400 hover:bg-yellow-500/20'
+        )}
+      >
+        {hasErrors ? (
+          <AlertTriangle className="h-3.5 w-3.5" />
+        ) : isOnline ? (
+          <RefreshCw className={cn('h-3.5 w-3.5', isSyncing && 'animate-spin')} />
+        ) : (
+          <CloudOff className="h-3.5 w-3.5" />
+        )}
+        {!isOnline && pendingCount === 0 && !hasErrors
+          ? 'Offline'
+          : `${pendingCount + failedItems.length} unsynced`}
+      </button>
+
+      {showDetails && (
+        <div className="absolute right-0 top-full mt-2 w-72 rounded-lg border border-border bg-card shadow-lg animate-in z-50">
+          <div className="p-3 border-b border-border">
+            <p className="text-sm font-medium">
+              {isOnline ? 'Waiting to sync' : "You're offline"}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {pendingCount} pending{hasErrors && `, ${failedItems.length} failed`}. Events
+              logged offline are posted automatically when you reconnect.
+            </p>
+          </div>
+
+          {hasErrors && (
+            <ul className="max-h-60 overflow-y-auto divide-y divide-border">
+              {failedItems.map((item) => {
+                const { sport, payload, changes } = item.data as {
+                  sport?: string;
+                  payload?: { venueName?: string; date?: string };
+                  changes?: EventChanges;
+                };
+                const label =
+                  item.entityType === 'ticket'
+                    ? 'Ticket scan'
+                    : item.operation === 'create'
+                      ? `${sport} · ${payload?.venueName || 'Unknown venue'}`
+                      : `${item.operation === 'update' ? 'Edit' : 'Delete'} · ${
+                          (changes?.venueName as string) || 'event'
+                        }`;
+                return (
+                  <li key={item.id} className="p-3 text-xs space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium capitalize truncate">{label}</span>
+                      <button
+                        onClick={() => discardSyncItem(item)}
+                        className="text-muted-foreground hover:text-destructive"
+                        aria-label="Discard queued event"
+                      >
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    </div>
+                    <p className="text-red-400 break-words">{item.lastError}</p>
+                    {item.conflict && (
+                      <button
+                        onClick={() => setResolving(item)}
+                        className="text-primary hover:underline"
+                      >
+                        Resolve conflict
+                      </button>
+                    )}
+                    <p className="text-muted-foreground">
+                      {item.attempts} attempt{item.attempts === 1 ? '' : 's'}
+                    </p>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {isOnline && (
+            <div className="p-2 border-t border-border">
+              <button
+                onClick={() => sync()}
+                disabled={isSyncing}
+                className="flex items-center justify-center gap-2 w-full px-3 py-2 text-sm rounded-md hover:bg-secondary transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={cn('h-4 w-4', isSyncing && 'animate-spin')} />
+                Retry now
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {resolving?.conflict && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+          <div className="w-full max-w-lg rounded-xl bg-card shadow-xl">
+            <SyncConflictResolver
+              local={(resolving.data as { changes: EventChanges }).changes}
+              server={serverEventToChanges(resolving.conflict as unknown as ServerEvent)}
+              onResolve={handleResolve}
+              onCancel={() => setResolving(null)}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SyncStatus;
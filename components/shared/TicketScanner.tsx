@@ -0,0 +1,144 @@
+'use client';
+
+// TicketScanner Component - Prefill a new event from a ticket photo or PDF
+// 📚 Library Research Agent: tesseract.js + pdfjs-dist, loaded on demand
+// ✅ Code Quality Agent: OCR runs in the browser; the user reviews every prefilled field
+
+import { useRef, useState } from 'react';
+import { Ticket, Loader2, X, Check } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/Card';
+import type { TicketFields } from '@/lib/ocr';
+
+interface TicketScannerProps {
+  file: File | null;
+  onScan: (fields: TicketFields, file: File) => void;
+  onClear: () => void;
+}
+
+const FIELD_LABELS: Record<keyof TicketFields, string> = {
+  date: 'Date',
+  venueName: 'Venue',
+  venueCity: 'City',
+  homeTeam: 'Home',
+  awayTeam: 'Away',
+  artistName: 'Artist',
+  tourName: 'Tour',
+  seat: 'Seat',
+};
+
+export function TicketScanner({ file, onScan, onClear }: TicketScannerProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const [found, setFound] = useState<TicketFields | null>(null);
+
+  const handleFile = async (selected: File | undefined) => {
+    if (!selected) return;
+    setIsScanning(true);
+    setProgress(0);
+    setError(null);
+
+    try {
+      // Loaded on demand - the OCR engine is large and most users never scan
+      const { scanTicket } = await import('@/lib/ocr');
+      const { fields } = await scanTicket(selected, setProgress);
+      setFound(fields);
+      onScan(fields, selected);
+
+      if (Object.values(fields).every((value) => !value)) {
+        setError("Couldn't read any details from this ticket. It will still be attached to the event.");
+      }
+    } catch (err) {
+      console.error('Ticket scan error:', err);
+      setError('Failed to read the ticket. Try a sharper, well-lit photo.');
+    } finally {
+      setIsScanning(false);
+      if (inputRef.current) inputRef.current.value = '';
+    }
+  };
+
+  const handleClear = () => {
+    setFound(null);
+    setError(null);
+    onClear();
+  };
+
+  const extracted = found
+    ? (Object.keys(FIELD_LABELS) as (keyof TicketFields)[]).filter((key) => found[key])
+    : [];
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Ticket className="h-5 w-5 text-primary" />
+            <span className="font-semibold">Scan Ticket</span>
+          </div>
+          {file ? (
+            <button
+              type="button"
+              onClick={handleClear}
+              className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-foreground"
+            >
+              <X className="h-4 w-4" />
+              Remove
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => inputRef.current?.click()}
+              disabled={isScanning}
+              className="inline-flex items-center gap-2 px-3 py-1.5 rounded-lg bg-secondary hover:bg-secondary/80 text-sm transition-colors disabled:opacity-50"
+            >
+              {isScanning ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  {progress > 0 ? `${Math.round(progress * 100)}%` : 'Reading...'}
+                </>
+              ) : (
+                'Choose photo or PDF'
+              )}
+            </button>
+          )}
+          <input
+            ref={inputRef}
+            type="file"
+            accept="image/*,application/pdf"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="hidden"
+          />
+        </div>
+
+        {!file && !isScanning && (
+          <p className="text-sm text-muted-foreground">
+            Details are read on this device and filled in below. The ticket is attached to
+            the event when you save.
+          </p>
+        )}
+
+        {file && (
+          <div className="text-sm space-y-2">
+            <p className="text-muted-foreground truncate">📎 {file.name}</p>
+            {extracted.length > 0 && (
+              <ul className="grid grid-cols-2 gap-x-4 gap-y-1">
+                {extracted.map((key) => (
+                  <li key={key} className="flex items-center gap-1.5 min-w-0">
+                    <Check className="h-3.5 w-3.5 text-green-400 flex-shrink-0" />
+                    <span className="text-muted-foreground">{FIELD_LABELS[key]}:</span>
+                    <span className="truncate">{found?.[key]}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-yellow-400">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default TicketScanner;
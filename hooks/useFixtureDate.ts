@@ -0,0 +1,71 @@
+// useFixtureDate Hook
+// ✅ Code Quality Agent: Keeps an event form's date on the venue's day for a fixture picked from search
+
+import { useState, useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { useDebounce } from '@/hooks/useDebounce';
+import { isDateOnlyInput, type FixtureDate } from '@/lib/utils/timezone';
+
+interface VenueFields {
+  name?: string;
+  city?: string;
+  country?: string;
+}
+
+/**
+ * Tracks the kickoff of a fixture picked from search. The form's date starts on
+ * the browser's day and moves to the venue's local day once the venue's zone
+ * is known - looked up again whenever the venue fields change, until the date
+ * is edited by hand.
+ *
+ * @param date - The form's current "yyyy-MM-dd"
+ * @param venue - The form's venue fields
+ * @param setDate - Writes the form's date
+ */
+export function useFixtureDate(date: string, venue: VenueFields, setDate: (day: string) => void) {
+  const [fixture, setFixture] = useState<FixtureDate | null>(null);
+  const setDateRef = useRef(setDate);
+  const venueKey = useDebounce(
+    JSON.stringify([venue.name?.trim() ?? '', venue.city?.trim() ?? '', venue.country?.trim() ?? '']),
+    500
+  );
+
+  // Only while the form still shows the fixture's day, and it has a kickoff time
+  const instant = fixture?.day === date && !isDateOnlyInput(fixture.instant) ? fixture.instant : null;
+  const day = fixture?.day;
+
+  useEffect(() => {
+    setDateRef.current = setDate;
+  });
+
+  useEffect(() => {
+    const [venueName, venueCity, venueCountry] = JSON.parse(venueKey) as string[];
+    if (!instant || !venueName) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({ date: instant, venueName, venueCity, venueCountry });
+    fetch(`/api/events/local-date?${params}`)
+      .then((response) => (response.ok ? response.json() : null))
+      .then((result) => {
+        const localDate: string | null | undefined = result?.data?.localDate;
+        if (cancelled || !localDate || localDate === day) return;
+        setFixture({ instant, day: localDate });
+        setDateRef.current(localDate);
+      })
+      .catch(() => {}); // Keep the browser's day
+
+    return () => {
+      cancelled = true;
+    };
+  }, [instant, day, venueKey]);
+
+  const selectFixture = (kickoff: string) => {
+    const browserDay = isDateOnlyInput(kickoff) ? kickoff : format(new Date(kickoff), 'yyyy-MM-dd');
+    setFixture({ instant: kickoff, day: browserDay });
+    setDate(browserDay);
+  };
+
+  return { fixture, selectFixture };
+}
+
+export default useFixtureDate;
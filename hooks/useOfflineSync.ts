@@ -0,0 +1,56 @@
+// useOfflineSync Hook
+// 📚 Library Research Agent: dexie-react-hooks (useLiveQuery) for reactive IndexedDB reads
+// ✅ Code Quality Agent: Tracks connectivity and the offline sync queue
+
+import { useState, useEffect, useCallback } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { getPendingSyncCount } from '@/lib/cache';
+import { getFailedSyncItems, replaySyncQueue } from '@/lib/cache/sync';
+
+/**
+ * Reports connectivity plus pending/failed sync queue items.
+ *
+ * @param autoReplay - Replay the queue on mount and whenever the browser comes back online.
+ * Only mount one auto-replaying instance (the app does this in Providers).
+ */
+export function useOfflineSync(autoReplay: boolean = false) {
+  const [isOnline, setIsOnline] = useState(true);
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  const pendingCount = useLiveQuery(() => getPendingSyncCount(), [], 0);
+  const failedItems = useLiveQuery(() => getFailedSyncItems(), [], []);
+
+  const sync = useCallback(async () => {
+    setIsSyncing(true);
+    try {
+      return await replaySyncQueue();
+    } finally {
+      setIsSyncing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    setIsOnline(navigator.onLine);
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      if (autoReplay) sync().catch(() => {});
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // Pick up anything queued during a previous session
+    if (autoReplay && navigator.onLine) sync().catch(() => {});
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [autoReplay, sync]);
+
+  return { isOnline, isSyncing, pendingCount, failedItems, sync };
+}
+
+export default useOfflineSync;
@@ -184,6 +184,14 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     tier: 'GOLD',
     criteria: { type: 'grand_slam', threshold: 1, eventType: 'BASEBALL' as EventType },
   },
+  {
+    id: 'no-hitter-witness',
+    name: 'No-Hitter',
+    description: 'Witness a no-hitter',
+    icon: '🎯',
+    tier: 'PLATINUM',
+    criteria: { type: 'no_hitter', threshold: 1, eventType: 'BASEBALL' as EventType },
+  },
   {
     id: 'baseball-regular',
     name: 'Baseball Regular',
@@ -257,6 +265,34 @@ export const ACHIEVEMENTS: AchievementDefinition[] = [
     criteria: { type: 'complete_setlists', threshold: 10, eventType: 'CONCERT' as EventType },
   },
 
+  // ============================================
+  // Supported Team Achievements
+  // ============================================
+  {
+    id: 'lucky-charm',
+    name: 'Lucky Charm',
+    description: 'See the team you support win 10 times',
+    icon: '🍀',
+    tier: 'SILVER',
+    criteria: { type: 'supported_wins', threshold: 10 },
+  },
+  {
+    id: 'unbeaten-run',
+    name: 'Unbeaten Run',
+    description: 'Watch your team go 5 matches without losing',
+    icon: '🛡️',
+    tier: 'SILVER',
+    criteria: { type: 'unbeaten_run', threshold: 5 },
+  },
+  {
+    id: 'thick-and-thin',
+    name: 'Through Thick and Thin',
+    description: 'Support your team at 25 matches',
+    icon: '🧣',
+    tier: 'GOLD',
+    criteria: { type: 'supported_games', threshold: 25 },
+  },
+
   // ============================================
   // Special Achievements
   // ============================================
@@ -0,0 +1,568 @@
+// Achievement Evaluation Engine
+// ✅ Code Quality Agent: Replays a user's events in order to derive progress and unlocks
+// 🎓 Learning Agent: Every criteria type in definitions.ts maps to a "stepper" below.
+// A stepper consumes events oldest-first and returns the running value after each one,
+// so the event that first pushes the value over the threshold becomes the trigger event.
+
+import type { BasketballAppearance, Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { ACHIEVEMENTS } from '@/lib/achievements/definitions';
+import type { AchievementCriteria, AchievementDefinition } from '@/types';
+import { createStreakTracker } from '@/lib/db/streaks';
+import { resolveSupportedSide, supportedResult, type MatchResult } from '@/lib/utils/supported-team';
+import { eventLocalDate, localDayKey } from '@/lib/utils/timezone';
+import { isNoHitter } from '@/lib/utils/pitching';
+
+// Relations needed to evaluate every criteria type
+const achievementEventInclude = {
+  venue: true,
+  soccerMatch: { include: { appearances: true } },
+  basketballGame: { include: { appearances: true } },
+  baseballGame: { include: { appearances: true, pitching: true } },
+  tennisMatch: true,
+  concert: { include: { setlist: true } },
+} satisfies Prisma.EventInclude;
+
+export type AchievementEvent = Prisma.EventGetPayload<{ include: typeof achievementEventInclude }>;
+
+export interface AchievementProgress {
+  achievementId: string;
+  current: number;
+  target: number;
+  unlocked: boolean;
+  triggerEventId: string | null;
+}
+
+interface EvaluationContext {
+  // Event IDs that were the first ever logged (by any user) at their venue
+  firstAtVenueEventIds: Set<string>;
+  // Teams the user supports, for events without an explicit supported side
+  favoriteTeamIds: Set<string>;
+}
+
+type Stepper = (event: AchievementEvent) => number;
+
+const GRAND_SLAM_TOURNAMENTS: { key: string; pattern: RegExp }[] = [
+  { key: 'australian-open', pattern: /australian open/i },
+  { key: 'roland-garros', pattern: /roland[\s-]?garros|french open/i },
+  { key: 'wimbledon', pattern: /wimbledon/i },
+  { key: 'us-open', pattern: /\bu\.?s\.? open\b/i },
+];
+
+const FESTIVAL_PATTERN = /\bfest(ival)?\b/i;
+
+// Typical event lengths in hours, used to decide if an event runs past midnight
+const EVENT_DURATION_HOURS: Record<AchievementEvent['type'], number> = {
+  SOCCER: 2,
+  BASKETBALL: 2.5,
+  BASEBALL: 3,
+  TENNIS: 2.5,
+  CONCERT: 3,
+};
+
+function isTripleDouble(app: BasketballAppearance): boolean {
+  const categories = [app.points, app.rebounds, app.assists, app.steals, app.blocks];
+  return categories.filter((value) => value >= 10).length >= 3;
+}
+
+// A home run that drives in at least 3 other runners. The box score only keeps
+// per-game totals, so a single-homer game with 4+ RBIs is treated as a grand slam.
+function isLikelyGrandSlam(homeRuns: number, rbis: number): boolean {
+  return homeRuns === 1 && rbis >= 4;
+}
+
+// Judged on the venue's clock - a 19:00 kickoff in Tokyo is not a late night in UTC
+function endsAfterMidnight(event: AchievementEvent): boolean {
+  let kickoff = event.kickoffTime;
+  if (!kickoff) {
+    // Date-only entries carry no kickoff time; unresolved instants fall back to UTC
+    if (event.localDate) return false;
+    kickoff = event.date.toISOString().slice(11, 16);
+  }
+  const [hours, minutes] = kickoff.split(':').map((part) => parseInt(part, 10));
+  return hours * 60 + minutes + EVENT_DURATION_HOURS[event.type] * 60 >= 24 * 60;
+}
+
+// Result for the side the user supported, or null if they didn't back either team
+function supportedOutcome(event: AchievementEvent, context: EvaluationContext): MatchResult | null {
+  const match = event.soccerMatch || event.basketballGame || event.baseballGame;
+  if (!match) return null;
+  const side = resolveSupportedSide(
+    event.supportedSide,
+    match.homeTeamRefId,
+    match.awayTeamRefId,
+    context.favoriteTeamIds
+  );
+  return side && supportedResult(side, match);
+}
+
+// Build a stepper for a criteria definition. Unknown types never progress.
+function createStepper(criteria: AchievementCriteria, context: EvaluationContext): Stepper {
+  const ofType = (event: AchievementEvent) =>
+    !criteria.eventType || event.type === criteria.eventType;
+
+  switch (criteria.type) {
+    case 'total_events': {
+      let count = 0;
+      return () => ++count;
+    }
+
+    case 'events_by_type': {
+      let count = 0;
+      return (event) => (ofType(event) ? ++count : count);
+    }
+
+    case 'unique_venues': {
+      const venues = new Set<string>();
+      return (event) => venues.add(event.venueId).size;
+    }
+
+    case 'unique_countries': {
+      const countries = new Set<string>();
+      return (event) => {
+        const country = event.venue.country;
+        if (country && country !== 'Unknown') countries.add(country.toLowerCase());
+        return countries.size;
+      };
+    }
+
+    case 'unique_cities': {
+      const cities = new Set<string>();
+      return (event) => {
+        const city = event.venue.city;
+        if (city && city !== 'Unknown') {
+          cities.add(`${city.toLowerCase()}::${event.venue.country.toLowerCase()}`);
+        }
+        return cities.size;
+      };
+    }
+
+    case 'same_venue_events': {
+      const counts = new Map<string, number>();
+      let best = 0;
+      return (event) => {
+        const count = (counts.get(event.venueId) || 0) + 1;
+        counts.set(event.venueId, count);
+        best = Math.max(best, count);
+        return best;
+      };
+    }
+
+    case 'goals_witnessed': {
+      let goals = 0;
+      return (event) => {
+        if (event.soccerMatch) goals += event.soccerMatch.homeScore + event.soccerMatch.awayScore;
+        return goals;
+      };
+    }
+
+    case 'clean_sheets': {
+      // One clean sheet per side that kept the opposition scoreless
+      let cleanSheets = 0;
+      return (event) => {
+        if (event.soccerMatch) {
+          if (event.soccerMatch.homeScore === 0) cleanSheets++;
+          if (event.soccerMatch.awayScore === 0) cleanSheets++;
+        }
+        return cleanSheets;
+      };
+    }
+
+    case 'red_cards': {
+      let redCards = 0;
+      return (event) => {
+        if (event.soccerMatch) {
+          redCards += event.soccerMatch.appearances.filter((app) => app.redCard).length;
+        }
+        return redCards;
+      };
+    }
+
+    case 'points_witnessed': {
+      let points = 0;
+      return (event) => {
+        if (event.basketballGame) {
+          points += event.basketballGame.homeScore + event.basketballGame.awayScore;
+        }
+        return points;
+      };
+    }
+
+    case 'triple_double': {
+      let tripleDoubles = 0;
+      return (event) => {
+        if (event.basketballGame) {
+          tripleDoubles += event.basketballGame.appearances.filter(isTripleDouble).length;
+        }
+        return tripleDoubles;
+      };
+    }
+
+    case 'home_runs': {
+      let homeRuns = 0;
+      return (event) => {
+        for (const app of event.baseballGame?.appearances || []) {
+          homeRuns += app.homeRuns;
+        }
+        return homeRuns;
+      };
+    }
+
+    case 'grand_slam': {
+      let grandSlams = 0;
+      return (event) => {
+        if (!event.baseballGame) return grandSlams;
+        const fromBoxScore = event.baseballGame.appearances.filter((app) =>
+          isLikelyGrandSlam(app.homeRuns, app.rbis)
+        ).length;
+        const fromNotes = /grand slam/i.test(event.notes || '') ? 1 : 0;
+        grandSlams += Math.max(fromBoxScore, fromNotes);
+        return grandSlams;
+      };
+    }
+
+    case 'no_hitter': {
+      let noHitters = 0;
+      return (event) => {
+        if (!event.baseballGame) return noHitters;
+        const fromBoxScore = isNoHitter(event.baseballGame.pitching);
+        const fromNotes = /no[\s-]?hitter|perfect game/i.test(event.notes || '');
+        if (fromBoxScore || fromNotes) noHitters++;
+        return noHitters;
+      };
+    }
+
+    case 'grand_slam_tournaments': {
+      const tournaments = new Set<string>();
+      return (event) => {
+        const name = event.tennisMatch?.tournament;
+        if (name) {
+          const slam = GRAND_SLAM_TOURNAMENTS.find((t) => t.pattern.test(name));
+          if (slam) tournaments.add(slam.key);
+        }
+        return tournaments.size;
+      };
+    }
+
+    case 'same_artist': {
+      const counts = new Map<string, number>();
+      let best = 0;
+      return (event) => {
+        if (!event.concert) return best;
+        const count = (counts.get(event.concert.artistId) || 0) + 1;
+        counts.set(event.concert.artistId, count);
+        best = Math.max(best, count);
+        return best;
+      };
+    }
+
+    case 'festivals_in_year': {
+      const counts = new Map<number, number>();
+      let best = 0;
+      return (event) => {
+        if (!event.concert) return best;
+        const isFestival =
+          FESTIVAL_PATTERN.test(event.concert.tourName || '') ||
+          FESTIVAL_PATTERN.test(event.venue.name);
+        if (!isFestival) return best;
+        const year = eventLocalDate(event).getUTCFullYear();
+        const count = (counts.get(year) || 0) + 1;
+        counts.set(year, count);
+        best = Math.max(best, count);
+        return best;
+      };
+    }
+
+    case 'complete_setlists': {
+      let setlists = 0;
+      return (event) => {
+        if (event.concert && event.concert.setlist.length > 0) setlists++;
+        return setlists;
+      };
+    }
+
+    case 'events_same_day': {
+      const counts = new Map<string, number>();
+      let best = 0;
+      return (event) => {
+        const key = localDayKey(event);
+        const count = (counts.get(key) || 0) + 1;
+        counts.set(key, count);
+        best = Math.max(best, count);
+        return best;
+      };
+    }
+
+    case 'monthly_streak': {
+      // Same counting as the streaks shown in stats - longest run of consecutive months
+      const tracker = createStreakTracker('month');
+      return (event) => tracker.add(eventLocalDate(event)).longest;
+    }
+
+    case 'late_night': {
+      let lateNights = 0;
+      return (event) => (endsAfterMidnight(event) ? ++lateNights : lateNights);
+    }
+
+    case 'first_at_venue': {
+      let firsts = 0;
+      return (event) => (context.firstAtVenueEventIds.has(event.id) ? ++firsts : firsts);
+    }
+
+    case 'all_event_types': {
+      const types = new Set<string>();
+      return (event) => types.add(event.type).size;
+    }
+
+    case 'unique_companions': {
+      const companions = new Set<string>();
+      return (event) => {
+        for (const companion of event.companions) {
+          const name = companion.trim().toLowerCase();
+          if (name) companions.add(name);
+        }
+        return companions.size;
+      };
+    }
+
+    case 'solo_events': {
+      let solo = 0;
+      return (event) => (event.companions.length === 0 ? ++solo : solo);
+    }
+
+    case 'supported_games': {
+      let games = 0;
+      return (event) => (supportedOutcome(event, context) ? ++games : games);
+    }
+
+    case 'supported_wins': {
+      let wins = 0;
+      return (event) => (supportedOutcome(event, context) === 'W' ? ++wins : wins);
+    }
+
+    case 'unbeaten_run': {
+      // Longest run of supported matches without a defeat; neutral events don't break it
+      let run = 0;
+      let best = 0;
+      return (event) => {
+        const result = supportedOutcome(event, context);
+        if (result) run = result === 'L' ? 0 : run + 1;
+        best = Math.max(best, run);
+        return best;
+      };
+    }
+
+    default:
+      return () => 0;
+  }
+}
+
+/**
+ * Derive progress for every achievement from a user's events.
+ * Events must be sorted oldest-first (by date, then creation time).
+ */
+export function computeAchievementProgress(
+  events: AchievementEvent[],
+  context: EvaluationContext,
+  definitions: AchievementDefinition[] = ACHIEVEMENTS
+): AchievementProgress[] {
+  return definitions.map((def) => {
+    const target = def.criteria.threshold || 1;
+    const step = createStepper(def.criteria, context);
+    let current = 0;
+    let triggerEventId: string | null = null;
+
+    for (const event of events) {
+      current = step(event);
+      if (!triggerEventId && current >= target) {
+        triggerEventId = event.id;
+      }
+    }
+
+    return {
+      achievementId: def.id,
+      current,
+      target,
+      unlocked: triggerEventId !== null,
+      triggerEventId,
+    };
+  });
+}
+
+/**
+ * Load a user's events (oldest-first) plus the context the steppers need.
+ */
+export async function loadAchievementInputs(
+  userId: string
+): Promise<{ events: AchievementEvent[]; context: EvaluationContext }> {
+  // Planned and missed events don't count towards achievements
+  const events = await prisma.event.findMany({
+    where: { userId, status: 'ATTENDED' },
+    include: achievementEventInclude,
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+  });
+
+  const venueIds = Array.from(new Set(events.map((e) => e.venueId)));
+  const favorites = await prisma.favoriteTeam.findMany({ where: { userId }, select: { teamId: true } });
+  const firstEvents = venueIds.length
+    ? await prisma.event.findMany({
+        where: { venueId: { in: venueIds }, status: 'ATTENDED' },
+        select: { id: true, userId: true },
+        orderBy: { createdAt: 'asc' },
+        distinct: ['venueId'],
+      })
+    : [];
+
+  return {
+    events,
+    context: {
+      firstAtVenueEventIds: new Set(
+        firstEvents.filter((e) => e.userId === userId).map((e) => e.id)
+      ),
+      favoriteTeamIds: new Set(favorites.map((f) => f.teamId)),
+    },
+  };
+}
+
+/**
+ * Make sure every definition has a matching Achievement row (keyed by name).
+ * Returns a map of definition id -> Achievement row id.
+ */
+export async function ensureAchievementRecords(): Promise<Map<string, string>> {
+  const existing = await prisma.achievement.findMany({ select: { id: true, name: true } });
+  const existingNames = new Set(existing.map((a) => a.name));
+  const missing = ACHIEVEMENTS.filter((def) => !existingNames.has(def.name));
+
+  if (missing.length > 0) {
+    await prisma.achievement.createMany({
+      data: missing.map((def) => ({
+        name: def.name,
+        description: def.description,
+        icon: def.icon,
+        tier: def.tier,
+        criteria: def.criteria as Prisma.InputJsonValue,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  const records = missing.length > 0
+    ? await prisma.achievement.findMany({ select: { id: true, name: true } })
+    : existing;
+  const idByName = new Map(records.map((a) => [a.name, a.id]));
+
+  const result = new Map<string, string>();
+  for (const def of ACHIEVEMENTS) {
+    const recordId = idByName.get(def.name);
+    if (recordId) result.set(def.id, recordId);
+  }
+  return result;
+}
+
+/**
+ * Evaluate all achievements for a user and unlock any newly earned ones.
+ * Returns the definitions that were unlocked by this run.
+ */
+export async function evaluateAchievements(userId: string): Promise<AchievementDefinition[]> {
+  const [{ events, context }, recordIds, unlockedRows] = await Promise.all([
+    loadAchievementInputs(userId),
+    ensureAchievementRecords(),
+    prisma.userAchievement.findMany({ where: { userId }, select: { achievementId: true } }),
+  ]);
+
+  const alreadyUnlocked = new Set(unlockedRows.map((ua) => ua.achievementId));
+  const progress = computeAchievementProgress(events, context);
+  const newlyUnlocked: AchievementDefinition[] = [];
+
+  for (const entry of progress) {
+    const recordId = recordIds.get(entry.achievementId);
+    if (!entry.unlocked || !recordId || alreadyUnlocked.has(recordId)) continue;
+
+    await prisma.userAchievement.upsert({
+      where: { userId_achievementId: { userId, achievementId: recordId } },
+      create: { userId, achievementId: recordId, triggerEventId: entry.triggerEventId },
+      update: {},
+    });
+
+    const def = ACHIEVEMENTS.find((a) => a.id === entry.achievementId);
+    if (def) newlyUnlocked.push(def);
+  }
+
+  return newlyUnlocked;
+}
+
+export interface RecomputeResult {
+  unlocked: string[];
+  revoked: string[];
+  repointed: string[];
+}
+
+/**
+ * Re-derive a user's unlocked set from their current events.
+ * Unlocks newly earned achievements, revokes ones whose criteria no longer hold,
+ * and re-points triggerEventId to the event that now first satisfies the threshold.
+ */
+export async function recomputeAchievements(userId: string): Promise<RecomputeResult> {
+  const [{ events, context }, recordIds, existingRows] = await Promise.all([
+    loadAchievementInputs(userId),
+    ensureAchievementRecords(),
+    prisma.userAchievement.findMany({
+      where: { userId },
+      select: { id: true, achievementId: true, triggerEventId: true },
+    }),
+  ]);
+
+  const rowByRecordId = new Map(existingRows.map((row) => [row.achievementId, row]));
+  const progress = computeAchievementProgress(events, context);
+  const result: RecomputeResult = { unlocked: [], revoked: [], repointed: [] };
+
+  await prisma.$transaction(async (tx) => {
+    for (const entry of progress) {
+      const recordId = recordIds.get(entry.achievementId);
+      if (!recordId) continue;
+      const row = rowByRecordId.get(recordId);
+
+      if (entry.unlocked && !row) {
+        await tx.userAchievement.create({
+          data: { userId, achievementId: recordId, triggerEventId: entry.triggerEventId },
+        });
+        result.unlocked.push(entry.achievementId);
+      } else if (!entry.unlocked && row) {
+        await tx.userAchievement.delete({ where: { id: row.id } });
+        result.revoked.push(entry.achievementId);
+      } else if (entry.unlocked && row && row.triggerEventId !== entry.triggerEventId) {
+        await tx.userAchievement.update({
+          where: { id: row.id },
+          data: { triggerEventId: entry.triggerEventId },
+        });
+        result.repointed.push(entry.achievementId);
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Recompute after an edit or delete without failing the request.
+ */
+export async function recomputeAchievementsSafely(userId: string): Promise<RecomputeResult> {
+  try {
+    return await recomputeAchievements(userId);
+  } catch (error) {
+    console.error(`[Achievements] Recompute failed for user ${userId}:`, error);
+    return { unlocked: [], revoked: [], repointed: [] };
+  }
+}
+
+/**
+ * Run evaluation after an event write without failing the request.
+ */
+export async function evaluateAchievementsSafely(userId: string): Promise<AchievementDefinition[]> {
+  try {
+    return await evaluateAchievements(userId);
+  } catch (error) {
+    console.error(`[Achievements] Evaluation failed for user ${userId}:`, error);
+    return [];
+  }
+}
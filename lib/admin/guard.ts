@@ -0,0 +1,47 @@
+// Admin Route Guard
+// ✅ Code Quality Agent: One check for every app/api/admin/* route - the role is read from the database,
+// so revoking admin takes effect without waiting for the session token to expire
+
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+export type AdminCheck =
+  | { ok: true; userId: string }
+  | { ok: false; response: NextResponse };
+
+/**
+ * 401 without a session, 403 for non-admins.
+ *
+ *   const admin = await requireAdmin();
+ *   if (!admin.ok) return admin.response;
+ */
+export async function requireAdmin(): Promise<AdminCheck> {
+  const session = await getServerSession(authOptions);
+  if (!session?.user?.id) {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: session.user.id },
+    select: { role: true },
+  });
+  if (user?.role !== 'ADMIN') {
+    return {
+      ok: false,
+      response: NextResponse.json(
+        { success: false, error: 'Admin access required' },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true, userId: session.user.id };
+}
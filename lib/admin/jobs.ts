@@ -0,0 +1,225 @@
+// Maintenance Jobs
+// 🔍 API Monitor Agent: Registry of the global data jobs behind /admin, the admin API and `npm run job`
+// ✅ Code Quality Agent: Every run is recorded in JobRun so the dashboard can show the last result
+
+import type { JobRun, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { recomputeAchievements } from '@/lib/achievements/evaluator';
+import { migrateTeamReferences } from '@/lib/db/team-migration';
+import { normalizeTeamNames } from '@/lib/db/team-normalization';
+import { backfillLegacyLocalDates, backfillVenueTimezones, setVenueCoordinates } from '@/lib/db/venue-timezones';
+import { linkSetlistSongs } from '@/lib/db/songs';
+import { geocodeVenue } from '@/lib/utils/geocode';
+
+export interface JobOptions {
+  userId?: string; // Limit per-user jobs to one user
+}
+
+export interface MaintenanceJob {
+  id: string;
+  name: string;
+  description: string;
+  runOnce?: boolean; // Refused after its first successful run
+  run(options: JobOptions): Promise<Prisma.InputJsonObject>;
+}
+
+// Thrown when a run-once job has already succeeded
+export class JobAlreadyRunError extends Error {}
+
+export interface JobSummary {
+  id: string;
+  name: string;
+  description: string;
+  lastRun: JobRun | null;
+}
+
+async function geocodeMissingVenues() {
+  const venues = await prisma.venue.findMany({
+    where: {
+      OR: [
+        { latitude: null },
+        { longitude: null },
+      ],
+    },
+    select: { id: true, name: true, city: true, country: true },
+  });
+
+  let geocoded = 0;
+  let failed = 0;
+  const updates: string[] = [];
+  const errors: string[] = [];
+
+  for (const venue of venues) {
+    // Rate limit: wait 200ms between requests to respect Mapbox rate limits
+    if (geocoded > 0 || failed > 0) {
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+
+    try {
+      const result = await geocodeVenue(venue.name, venue.city, venue.country);
+
+      if (result) {
+        await setVenueCoordinates(venue.id, result.latitude, result.longitude);
+        geocoded++;
+        updates.push(`${venue.name}, ${venue.city}: ${result.latitude}, ${result.longitude}`);
+      } else {
+        failed++;
+        errors.push(`${venue.name}, ${venue.city} - No results`);
+        console.warn(`[Geocode Backfill] ✗ ${venue.name}, ${venue.city} - No results`);
+      }
+    } catch (error) {
+      failed++;
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      errors.push(`${venue.name}, ${venue.city} - ${msg}`);
+      console.error(`[Geocode Backfill] ✗ ${venue.name}, ${venue.city}:`, error);
+    }
+  }
+
+  return {
+    total: venues.length,
+    geocoded,
+    failed,
+    updates: updates.slice(0, 20),
+    errors: errors.slice(0, 20), // Limit error list
+  };
+}
+
+async function recomputeAllAchievements(options: JobOptions) {
+  const users = await prisma.user.findMany({
+    where: options.userId ? { id: options.userId } : undefined,
+    select: { id: true },
+  });
+
+  let unlocked = 0;
+  let revoked = 0;
+  let repointed = 0;
+  let failed = 0;
+  const errors: string[] = [];
+
+  for (const user of users) {
+    try {
+      const result = await recomputeAchievements(user.id);
+      unlocked += result.unlocked.length;
+      revoked += result.revoked.length;
+      repointed += result.repointed.length;
+    } catch (error) {
+      failed++;
+      const msg = error instanceof Error ? error.message : 'Unknown error';
+      errors.push(`${user.id} - ${msg}`);
+      console.error(`[Achievement Recompute] ✗ ${user.id}:`, error);
+    }
+  }
+
+  return {
+    users: users.length,
+    unlocked,
+    revoked,
+    repointed,
+    failed,
+    errors: errors.slice(0, 20), // Limit error list
+  };
+}
+
+export const MAINTENANCE_JOBS: readonly MaintenanceJob[] = [
+  {
+    id: 'migrate-teams',
+    name: 'Link team references',
+    description: 'Links soccer, basketball and baseball matches to Team rows and seeds team aliases.',
+    run: migrateTeamReferences,
+  },
+  {
+    id: 'normalize-teams',
+    name: 'Normalize team names',
+    description: 'Rewrites stored team names to their canonical form and folds duplicate teams.',
+    run: normalizeTeamNames,
+  },
+  {
+    id: 'geocode-venues',
+    name: 'Geocode venues',
+    description: 'Looks up coordinates for venues missing a latitude or longitude.',
+    run: geocodeMissingVenues,
+  },
+  {
+    id: 'legacy-local-dates',
+    name: 'Set legacy local dates',
+    description: 'Marks events saved before local dates were stored as date-only entries. Runs once, right after upgrading and before venue time zones.',
+    runOnce: true,
+    run: backfillLegacyLocalDates,
+  },
+  {
+    id: 'venue-timezones',
+    name: 'Resolve venue time zones',
+    description: 'Sets time zones for venues with coordinates and re-anchors their events to local kickoff times.',
+    run: backfillVenueTimezones,
+  },
+  {
+    id: 'link-songs',
+    name: 'Link setlist songs',
+    description: 'Links setlist entries saved before the song catalogue to one song per artist.',
+    run: linkSetlistSongs,
+  },
+  {
+    id: 'recompute-achievements',
+    name: 'Recompute achievements',
+    description: "Re-derives every user's unlocked achievements from their current events.",
+    run: recomputeAllAchievements,
+  },
+];
+
+export function getMaintenanceJob(id: string): MaintenanceJob | undefined {
+  return MAINTENANCE_JOBS.find((job) => job.id === id);
+}
+
+/**
+ * Run a job and record it. A failed run is recorded before the error is rethrown.
+ */
+export async function runMaintenanceJob(
+  job: MaintenanceJob,
+  options: JobOptions = {},
+  triggeredBy: string | null = null
+): Promise<JobRun> {
+  if (job.runOnce) {
+    const done = await prisma.jobRun.findFirst({
+      where: { job: job.id, status: 'SUCCEEDED' },
+      select: { finishedAt: true },
+    });
+    if (done) {
+      throw new JobAlreadyRunError(`${job.name} already ran on ${done.finishedAt?.toISOString() ?? 'an earlier run'}`);
+    }
+  }
+
+  const run = await prisma.jobRun.create({ data: { job: job.id, triggeredBy } });
+
+  try {
+    const result = await job.run(options);
+    return await prisma.jobRun.update({
+      where: { id: run.id },
+      data: { status: 'SUCCEEDED', result, finishedAt: new Date() },
+    });
+  } catch (error) {
+    await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : String(error),
+        finishedAt: new Date(),
+      },
+    });
+    throw error;
+  }
+}
+
+export async function listMaintenanceJobs(): Promise<JobSummary[]> {
+  const lastRuns = await Promise.all(
+    MAINTENANCE_JOBS.map((job) =>
+      prisma.jobRun.findFirst({ where: { job: job.id }, orderBy: { startedAt: 'desc' } })
+    )
+  );
+
+  return MAINTENANCE_JOBS.map((job, i) => ({
+    id: job.id,
+    name: job.name,
+    description: job.description,
+    lastRun: lastRuns[i],
+  }));
+}
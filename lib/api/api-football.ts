@@ -41,8 +41,12 @@ export interface ApiFootballMatch {
   };
   score: {
     winner: string | null;
+    duration?: 'REGULAR' | 'EXTRA_TIME' | 'PENALTY_SHOOTOUT';
     fullTime: { home: number | null; away: number | null };
     halfTime: { home: number | null; away: number | null };
+    regularTime?: { home: number | null; away: number | null };
+    extraTime?: { home: number | null; away: number | null };
+    penalties?: { home: number | null; away: number | null };
   };
   venue: string | null;
 }
@@ -55,6 +59,9 @@ export interface ApiFootballMatchDetails extends ApiFootballMatch {
   goals?: Goal[];
   bookings?: Booking[];
   substitutions?: Substitution[];
+  // API-Football only
+  missedPenalties?: MissedPenalty[];
+  varDecisions?: VarDecision[];
   statistics?: TeamStatistics[];
 }
 
@@ -65,8 +72,11 @@ interface LineupPlayer {
   shirtNumber: number;
 }
 
+// `team` is the side the goal counts for, own goals included
 interface Goal {
   minute: number;
+  injuryTime?: number | null;
+  type?: 'REGULAR' | 'OWN' | 'PENALTY';
   team: { id: number; name: string };
   scorer: { id: number; name: string };
   assist?: { id: number; name: string };
@@ -74,6 +84,7 @@ interface Goal {
 
 interface Booking {
   minute: number;
+  injuryTime?: number | null;
   team: { id: number; name: string };
   player: { id: number; name: string };
   card: 'YELLOW_CARD' | 'RED_CARD' | 'YELLOW_RED_CARD';
@@ -81,11 +92,27 @@ interface Booking {
 
 interface Substitution {
   minute: number;
+  injuryTime?: number | null;
   team: { id: number; name: string };
   playerOut: { id: number; name: string };
   playerIn: { id: number; name: string };
 }
 
+interface MissedPenalty {
+  minute: number;
+  injuryTime?: number | null;
+  team: { id: number; name: string };
+  player: { id: number; name: string };
+}
+
+interface VarDecision {
+  minute: number;
+  injuryTime?: number | null;
+  team: { id: number; name: string };
+  player?: { id: number; name: string };
+  detail: string; // e.g. "Goal cancelled", "Penalty confirmed"
+}
+
 interface TeamStatistics {
   team: { id: number; name: string };
   statistics: Array<{ type: string; value: string | number | null }>;
@@ -113,7 +140,9 @@ interface ApiFootballFixture {
   goals: { home: number | null; away: number | null };
   score: {
     halftime: { home: number | null; away: number | null };
-    fulltime: { home: number | null; away: number | null };
+    fulltime: { home: number | null; away: number | null }; // After 90 minutes
+    extratime: { home: number | null; away: number | null }; // Goals in extra time only
+    penalty: { home: number | null; away: number | null };
   };
 }
 
@@ -254,6 +283,12 @@ function convertFixture(fixture: ApiFootballFixture): ApiFootballMatch | null {
         ? 'DRAW' 
         : null;
 
+  const duration = fixture.score?.penalty?.home != null
+    ? 'PENALTY_SHOOTOUT'
+    : fixture.score?.extratime?.home != null
+      ? 'EXTRA_TIME'
+      : 'REGULAR';
+
   const homeName = fixture.teams.home.name || 'Unknown';
   const awayName = fixture.teams.away.name || 'Unknown';
 
@@ -283,14 +318,32 @@ function convertFixture(fixture: ApiFootballFixture): ApiFootballMatch | null {
     },
     score: {
       winner,
+      duration,
+      // `goals` includes extra time; `fulltime` stops at 90 minutes
       fullTime: {
-        home: fixture.score?.fulltime?.home ?? null,
-        away: fixture.score?.fulltime?.away ?? null,
+        home: fixture.goals?.home ?? fixture.score?.fulltime?.home ?? null,
+        away: fixture.goals?.away ?? fixture.score?.fulltime?.away ?? null,
       },
       halfTime: {
         home: fixture.score?.halftime?.home ?? null,
         away: fixture.score?.halftime?.away ?? null,
       },
+      ...(duration !== 'REGULAR' && {
+        regularTime: {
+          home: fixture.score?.fulltime?.home ?? null,
+          away: fixture.score?.fulltime?.away ?? null,
+        },
+        extraTime: {
+          home: fixture.score?.extratime?.home ?? null,
+          away: fixture.score?.extratime?.away ?? null,
+        },
+      }),
+      ...(duration === 'PENALTY_SHOOTOUT' && {
+        penalties: {
+          home: fixture.score?.penalty?.home ?? null,
+          away: fixture.score?.penalty?.away ?? null,
+        },
+      }),
     },
     venue: fixture.fixture?.venue?.name || null,
   };
@@ -476,18 +529,39 @@ export async function getExtendedMatchDetails(fixtureId: number): Promise<ApiFoo
     throw new Error(`Fixture ${fixtureId} has invalid data`);
   }
   
-  // Convert events to goals, bookings, substitutions
+  // Convert events to goals, bookings, substitutions, missed penalties and VAR calls
   const goals: Goal[] = [];
   const bookings: Booking[] = [];
   const substitutions: Substitution[] = [];
+  const missedPenalties: MissedPenalty[] = [];
+  const varDecisions: VarDecision[] = [];
+
+  const otherTeam = (teamId: number) =>
+    teamId === fixture.teams.home.id
+      ? { id: fixture.teams.away.id, name: fixture.teams.away.name }
+      : { id: fixture.teams.home.id, name: fixture.teams.home.name };
 
   for (const event of eventsData.response || []) {
+    const injuryTime = event.time.extra ?? null;
     // Skip events where player data is null/missing (API sometimes returns null player IDs)
     if (event.type === 'Goal') {
       if (!event.player.id || !event.player.name) continue;
+      if (event.detail === 'Missed Penalty') {
+        missedPenalties.push({
+          minute: event.time.elapsed,
+          injuryTime,
+          team: { id: event.team.id, name: event.team.name },
+          player: { id: event.player.id, name: event.player.name },
+        });
+        continue;
+      }
+      const ownGoal = event.detail === 'Own Goal';
       goals.push({
         minute: event.time.elapsed,
-        team: { id: event.team.id, name: event.team.name },
+        injuryTime,
+        type: ownGoal ? 'OWN' : event.detail === 'Penalty' ? 'PENALTY' : 'REGULAR',
+        // Own goals are listed under the scorer's team; credit them to the other side
+        team: ownGoal ? otherTeam(event.team.id) : { id: event.team.id, name: event.team.name },
         scorer: { id: event.player.id, name: event.player.name },
         assist: event.assist?.id && event.assist?.name
           ? { id: event.assist.id, name: event.assist.name }
@@ -497,6 +571,7 @@ export async function getExtendedMatchDetails(fixtureId: number): Promise<ApiFoo
       if (!event.player.id || !event.player.name) continue; // Skip cards with null players
       bookings.push({
         minute: event.time.elapsed,
+        injuryTime,
         team: { id: event.team.id, name: event.team.name },
         player: { id: event.player.id, name: event.player.name },
         card: event.detail === 'Yellow Card' ? 'YELLOW_CARD' : 
@@ -506,12 +581,23 @@ export async function getExtendedMatchDetails(fixtureId: number): Promise<ApiFoo
       if (!event.player.id || !event.player.name) continue;
       substitutions.push({
         minute: event.time.elapsed,
+        injuryTime,
         team: { id: event.team.id, name: event.team.name },
         playerOut: { id: event.player.id, name: event.player.name },
         playerIn: event.assist?.id && event.assist?.name
           ? { id: event.assist.id, name: event.assist.name }
           : { id: 0, name: '' },
       });
+    } else if (event.type === 'Var') {
+      varDecisions.push({
+        minute: event.time.elapsed,
+        injuryTime,
+        team: { id: event.team.id, name: event.team.name },
+        player: event.player?.id && event.player?.name
+          ? { id: event.player.id, name: event.player.name }
+          : undefined,
+        detail: event.detail,
+      });
     }
   }
 
@@ -540,6 +626,8 @@ export async function getExtendedMatchDetails(fixtureId: number): Promise<ApiFoo
     goals,
     bookings,
     substitutions,
+    missedPenalties,
+    varDecisions,
     statistics: statsData.response,
   };
 }
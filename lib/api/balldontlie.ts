@@ -7,6 +7,7 @@
 const API_BASE = 'https://api.balldontlie.io/v1';
 
 import { filterBySearchRelevance, getBestMatchScore } from '@/lib/utils/search';
+import type { PeriodScoreInput } from '@/lib/utils/line-score';
 
 // Types for API responses
 export interface NBAGame {
@@ -21,6 +22,21 @@ export interface NBAGame {
   visitor_team: NBATeam;
   home_team_score: number;
   visitor_team_score: number;
+  // Points by quarter - null for overtimes that weren't played
+  home_q1?: number | null;
+  home_q2?: number | null;
+  home_q3?: number | null;
+  home_q4?: number | null;
+  home_ot1?: number | null;
+  home_ot2?: number | null;
+  home_ot3?: number | null;
+  visitor_q1?: number | null;
+  visitor_q2?: number | null;
+  visitor_q3?: number | null;
+  visitor_q4?: number | null;
+  visitor_ot1?: number | null;
+  visitor_ot2?: number | null;
+  visitor_ot3?: number | null;
 }
 
 export interface NBATeam {
@@ -253,3 +269,23 @@ export function processGameStats(stats: NBAStats[], homeTeamId: number): {
   
   return { homeStats, awayStats };
 }
+
+// Points by quarter and overtime, or null when the game has no quarter scores
+export function processGameLineScore(game: NBAGame): PeriodScoreInput[] | null {
+  const quarters = (['q1', 'q2', 'q3', 'q4'] as const).map((q) => ({
+    type: 'REGULAR' as const,
+    homeScore: game[`home_${q}`] ?? null,
+    awayScore: game[`visitor_${q}`] ?? null,
+  }));
+  if (quarters.some((q) => q.homeScore === null || q.awayScore === null)) return null;
+
+  const overtimes = (['ot1', 'ot2', 'ot3'] as const)
+    .map((ot) => ({
+      type: 'OVERTIME' as const,
+      homeScore: game[`home_${ot}`] ?? null,
+      awayScore: game[`visitor_${ot}`] ?? null,
+    }))
+    .filter((ot) => ot.homeScore !== null && ot.awayScore !== null);
+
+  return [...quarters, ...overtimes];
+}
@@ -7,6 +7,9 @@
 const API_BASE = 'https://api.football-data.org/v4';
 
 import { filterBySearchRelevance, getBestMatchScore } from '@/lib/utils/search';
+import type { PeriodScoreInput } from '@/lib/utils/line-score';
+import { sortTimeline, type MatchEventInput } from '@/lib/utils/match-timeline';
+import { soccerResultFromApi } from '@/lib/utils/match-result';
 
 // Types for API responses
 export interface FootballMatch {
@@ -43,8 +46,13 @@ export interface FootballMatch {
   };
   score: {
     winner: string | null;
+    duration?: 'REGULAR' | 'EXTRA_TIME' | 'PENALTY_SHOOTOUT';
     fullTime: { home: number | null; away: number | null };
     halfTime: { home: number | null; away: number | null };
+    // Only sent for matches that went beyond 90 minutes
+    regularTime?: { home: number | null; away: number | null };
+    extraTime?: { home: number | null; away: number | null };
+    penalties?: { home: number | null; away: number | null };
   };
   venue: string | null;
 }
@@ -57,6 +65,9 @@ export interface FootballMatchDetails extends FootballMatch {
   goals?: Goal[];
   bookings?: Booking[];
   substitutions?: Substitution[];
+  // API-Football only
+  missedPenalties?: MissedPenalty[];
+  varDecisions?: VarDecision[];
 }
 
 interface LineupPlayer {
@@ -66,8 +77,11 @@ interface LineupPlayer {
   shirtNumber: number;
 }
 
+// `team` is the side the goal counts for, own goals included
 interface Goal {
   minute: number;
+  injuryTime?: number | null;
+  type?: 'REGULAR' | 'OWN' | 'PENALTY';
   team: { id: number; name: string };
   scorer: { id: number; name: string };
   assist?: { id: number; name: string };
@@ -75,6 +89,7 @@ interface Goal {
 
 interface Booking {
   minute: number;
+  injuryTime?: number | null;
   team: { id: number; name: string };
   player: { id: number; name: string };
   card: 'YELLOW_CARD' | 'RED_CARD' | 'YELLOW_RED_CARD';
@@ -82,11 +97,27 @@ interface Booking {
 
 interface Substitution {
   minute: number;
+  injuryTime?: number | null;
   team: { id: number; name: string };
   playerOut: { id: number; name: string };
   playerIn: { id: number; name: string };
 }
 
+interface MissedPenalty {
+  minute: number;
+  injuryTime?: number | null;
+  team: { id: number; name: string };
+  player: { id: number; name: string };
+}
+
+interface VarDecision {
+  minute: number;
+  injuryTime?: number | null;
+  team: { id: number; name: string };
+  player?: { id: number; name: string };
+  detail: string; // e.g. "Goal cancelled", "Penalty confirmed"
+}
+
 // Helper to fetch from API with error handling
 async function fetchFromApi<T>(endpoint: string): Promise<T> {
   const apiKey = process.env.FOOTBALL_DATA_API_KEY;
@@ -215,6 +246,99 @@ export async function getTeamMatches(
   return data.matches;
 }
 
+// Goals by half, plus extra time and the shootout when played. Null until
+// the half-time and 90-minute scores are both known.
+export function processMatchLineScore(match: Pick<FootballMatch, 'score'>): PeriodScoreInput[] | null {
+  const { halfTime, regularTime, extraTime, penalties } = match.score;
+  const fullTime = regularTime ?? match.score.fullTime;
+  if (
+    halfTime.home === null || halfTime.away === null ||
+    fullTime.home === null || fullTime.away === null
+  ) {
+    return null;
+  }
+
+  const periods: PeriodScoreInput[] = [
+    { type: 'REGULAR', homeScore: halfTime.home, awayScore: halfTime.away },
+    { type: 'REGULAR', homeScore: fullTime.home - halfTime.home, awayScore: fullTime.away - halfTime.away },
+  ];
+  if (extraTime && extraTime.home !== null && extraTime.away !== null) {
+    periods.push({ type: 'OVERTIME', homeScore: extraTime.home, awayScore: extraTime.away });
+  }
+  if (penalties && penalties.home !== null && penalties.away !== null) {
+    periods.push({ type: 'SHOOTOUT', homeScore: penalties.home, awayScore: penalties.away });
+  }
+  return periods;
+}
+
+// Goals, cards, substitutions, missed penalties and VAR calls in match order
+export function processMatchTimeline(match: FootballMatchDetails): MatchEventInput[] {
+  const side = (teamId: number): 'home' | 'away' => (teamId === match.homeTeam.id ? 'home' : 'away');
+  const events: MatchEventInput[] = [];
+
+  for (const goal of match.goals || []) {
+    events.push({
+      type: goal.type === 'OWN' ? 'OWN_GOAL' : goal.type === 'PENALTY' ? 'PENALTY_GOAL' : 'GOAL',
+      minute: goal.minute,
+      extraMinute: goal.injuryTime ?? null,
+      team: side(goal.team.id),
+      playerName: goal.scorer?.name || null,
+      relatedPlayerName: goal.type === 'OWN' ? null : goal.assist?.name || null,
+      detail: null,
+    });
+  }
+
+  for (const booking of match.bookings || []) {
+    events.push({
+      type: booking.card === 'YELLOW_CARD' ? 'YELLOW_CARD' : booking.card === 'RED_CARD' ? 'RED_CARD' : 'SECOND_YELLOW',
+      minute: booking.minute,
+      extraMinute: booking.injuryTime ?? null,
+      team: side(booking.team.id),
+      playerName: booking.player?.name || null,
+      relatedPlayerName: null,
+      detail: null,
+    });
+  }
+
+  for (const sub of match.substitutions || []) {
+    events.push({
+      type: 'SUBSTITUTION',
+      minute: sub.minute,
+      extraMinute: sub.injuryTime ?? null,
+      team: side(sub.team.id),
+      playerName: sub.playerOut?.name || null,
+      relatedPlayerName: sub.playerIn?.name || null,
+      detail: null,
+    });
+  }
+
+  for (const miss of match.missedPenalties || []) {
+    events.push({
+      type: 'MISSED_PENALTY',
+      minute: miss.minute,
+      extraMinute: miss.injuryTime ?? null,
+      team: side(miss.team.id),
+      playerName: miss.player.name,
+      relatedPlayerName: null,
+      detail: null,
+    });
+  }
+
+  for (const decision of match.varDecisions || []) {
+    events.push({
+      type: 'VAR',
+      minute: decision.minute,
+      extraMinute: decision.injuryTime ?? null,
+      team: side(decision.team.id),
+      playerName: decision.player?.name || null,
+      relatedPlayerName: null,
+      detail: decision.detail || null,
+    });
+  }
+
+  return sortTimeline(events);
+}
+
 // Process match details into player appearances
 export function processMatchToAppearances(match: FootballMatchDetails): {
   homeAppearances: PlayerAppearance[];
@@ -260,6 +384,13 @@ export function processMatchToAppearances(match: FootballMatchDetails): {
     // Skip entries with null/missing player data
     if (!goal.scorer?.id || !goal.scorer?.name) continue;
     const isHome = goal.team.id === match.homeTeam.id;
+
+    // An own goal counts for the other side - the scorer still played, but gets no goal
+    if (goal.type === 'OWN') {
+      findOrCreateAppearance(isHome ? awayAppearances : homeAppearances, goal.scorer.id, goal.scorer.name);
+      continue;
+    }
+
     const appearances = isHome ? homeAppearances : awayAppearances;
     
     // Add/update scorer
@@ -302,12 +433,13 @@ export function processMatchToAppearances(match: FootballMatchDetails): {
     }
   }
 
-  // Mark clean sheets for goalkeepers
-  if (match.score.fullTime.away === 0) {
+  // Mark clean sheets for goalkeepers - shootout goals don't count against them
+  const result = soccerResultFromApi(match.score);
+  if (result?.awayScore === 0) {
     const gk = homeAppearances.find((a) => a.position === 'Goalkeeper');
     if (gk) gk.cleanSheet = true;
   }
-  if (match.score.fullTime.home === 0) {
+  if (result?.homeScore === 0) {
     const gk = awayAppearances.find((a) => a.position === 'Goalkeeper');
     if (gk) gk.cleanSheet = true;
   }
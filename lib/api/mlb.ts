@@ -7,6 +7,13 @@
 const API_BASE = 'https://statsapi.mlb.com/api/v1';
 
 import { filterBySearchRelevance, getBestMatchScore } from '@/lib/utils/search';
+import {
+  decisionFromNote,
+  formatInningsPitched,
+  parseInningsPitched,
+  type PitchingLine,
+} from '@/lib/utils/pitching';
+import type { PeriodScoreInput } from '@/lib/utils/line-score';
 
 // Types for API responses
 export interface MLBGame {
@@ -78,6 +85,8 @@ interface MLBTeamBoxScore {
     pitching: MLBPitchingStats;
   };
   players: Record<string, MLBPlayerBoxScore>;
+  batters: number[];
+  pitchers: number[]; // In order of appearance, starter first
 }
 
 interface MLBBattingStats {
@@ -110,6 +119,7 @@ interface MLBPlayerBoxScore {
       strikeOuts: number;
       baseOnBalls: number;
       atBats: number;
+      plateAppearances?: number;
     };
     pitching?: {
       inningsPitched: string;
@@ -119,10 +129,21 @@ interface MLBPlayerBoxScore {
       strikeOuts: number;
       baseOnBalls: number;
       homeRuns: number;
+      numberOfPitches?: number;
+      note?: string; // Decision, e.g. "(W, 5-2)"
     };
   };
 }
 
+export interface MLBLineScore {
+  currentInning?: number;
+  innings: {
+    num: number;
+    home: { runs?: number; hits?: number; errors?: number };
+    away: { runs?: number; hits?: number; errors?: number };
+  }[];
+}
+
 // Helper to fetch from API with error handling
 async function fetchFromApi<T>(endpoint: string): Promise<T> {
   const response = await fetch(`${API_BASE}${endpoint}`, {
@@ -191,6 +212,14 @@ export async function getGameBoxScore(gamePk: number): Promise<MLBBoxScore> {
   return data;
 }
 
+// Get runs by inning
+export async function getGameLineScore(gamePk: number): Promise<MLBLineScore> {
+  const data = await fetchFromApi<MLBLineScore>(
+    `/game/${gamePk}/linescore`
+  );
+  return data;
+}
+
 // Get game details
 export async function getGameDetails(gamePk: number): Promise<MLBGame> {
   const data = await fetchFromApi<{ dates: { games: MLBGame[] }[] }>(
@@ -235,54 +264,91 @@ export interface BaseballAppearance {
   walks: number;
 }
 
+export interface BaseballPitchingAppearance extends PitchingLine {
+  playerId: number;
+  playerName: string;
+  teamName: string;
+  isHome: boolean;
+  order: number;
+  outsRecorded: number;
+}
+
+// Everyone who came to the plate or scored - walks and pinch runners included
+function processBatters(team: MLBTeamBoxScore): BaseballAppearance[] {
+  const stats: BaseballAppearance[] = [];
+  for (const [, playerData] of Object.entries(team.players)) {
+    const batting = playerData.stats.batting;
+    if (!batting) continue;
+    if (!((batting.plateAppearances ?? 0) > 0 || batting.atBats > 0 || batting.runs > 0)) continue;
+
+    stats.push({
+      playerId: playerData.person.id,
+      playerName: playerData.person.fullName,
+      teamName: team.team.name,
+      position: playerData.position.name,
+      hits: batting.hits,
+      homeRuns: batting.homeRuns,
+      rbis: batting.rbi,
+      runs: batting.runs,
+      atBats: batting.atBats,
+      strikeOuts: batting.strikeOuts,
+      walks: batting.baseOnBalls,
+    });
+  }
+
+  // Sort by hits descending
+  return stats.sort((a, b) => b.hits - a.hits || b.homeRuns - a.homeRuns);
+}
+
+// Pitching lines in the order the pitchers came in
+function processPitchers(team: MLBTeamBoxScore, isHome: boolean): BaseballPitchingAppearance[] {
+  const lines: BaseballPitchingAppearance[] = [];
+  for (const id of team.pitchers || []) {
+    const playerData = team.players[`ID${id}`];
+    const pitching = playerData?.stats.pitching;
+    if (!pitching) continue;
+
+    const outsRecorded = parseInningsPitched(pitching.inningsPitched) ?? 0;
+    lines.push({
+      playerId: playerData.person.id,
+      playerName: playerData.person.fullName,
+      teamName: team.team.name,
+      isHome,
+      order: lines.length,
+      inningsPitched: formatInningsPitched(outsRecorded),
+      outsRecorded,
+      hits: pitching.hits,
+      runs: pitching.runs,
+      earnedRuns: pitching.earnedRuns,
+      walks: pitching.baseOnBalls,
+      strikeOuts: pitching.strikeOuts,
+      pitchCount: pitching.numberOfPitches ?? null,
+      decision: decisionFromNote(pitching.note),
+    });
+  }
+  return lines;
+}
+
 export function processBoxScore(boxScore: MLBBoxScore): {
   homeStats: BaseballAppearance[];
   awayStats: BaseballAppearance[];
+  homePitching: BaseballPitchingAppearance[];
+  awayPitching: BaseballPitchingAppearance[];
 } {
-  const homeStats: BaseballAppearance[] = [];
-  const awayStats: BaseballAppearance[] = [];
-  
-  // Process home team
-  for (const [, playerData] of Object.entries(boxScore.teams.home.players)) {
-    if (playerData.stats.batting && playerData.stats.batting.atBats > 0) {
-      homeStats.push({
-        playerId: playerData.person.id,
-        playerName: playerData.person.fullName,
-        teamName: boxScore.teams.home.team.name,
-        position: playerData.position.name,
-        hits: playerData.stats.batting.hits,
-        homeRuns: playerData.stats.batting.homeRuns,
-        rbis: playerData.stats.batting.rbi,
-        runs: playerData.stats.batting.runs,
-        atBats: playerData.stats.batting.atBats,
-        strikeOuts: playerData.stats.batting.strikeOuts,
-        walks: playerData.stats.batting.baseOnBalls,
-      });
-    }
-  }
-  
-  // Process away team
-  for (const [, playerData] of Object.entries(boxScore.teams.away.players)) {
-    if (playerData.stats.batting && playerData.stats.batting.atBats > 0) {
-      awayStats.push({
-        playerId: playerData.person.id,
-        playerName: playerData.person.fullName,
-        teamName: boxScore.teams.away.team.name,
-        position: playerData.position.name,
-        hits: playerData.stats.batting.hits,
-        homeRuns: playerData.stats.batting.homeRuns,
-        rbis: playerData.stats.batting.rbi,
-        runs: playerData.stats.batting.runs,
-        atBats: playerData.stats.batting.atBats,
-        strikeOuts: playerData.stats.batting.strikeOuts,
-        walks: playerData.stats.batting.baseOnBalls,
-      });
-    }
-  }
-  
-  // Sort by hits descending
-  homeStats.sort((a, b) => b.hits - a.hits || b.homeRuns - a.homeRuns);
-  awayStats.sort((a, b) => b.hits - a.hits || b.homeRuns - a.homeRuns);
-  
-  return { homeStats, awayStats };
+  return {
+    homeStats: processBatters(boxScore.teams.home),
+    awayStats: processBatters(boxScore.teams.away),
+    homePitching: processPitchers(boxScore.teams.home, true),
+    awayPitching: processPitchers(boxScore.teams.away, false),
+  };
+}
+
+// Runs by inning; extra innings count as overtime. An inning a side didn't
+// bat in (the bottom of the 9th with the home side ahead) stays null.
+export function processLineScore(lineScore: MLBLineScore): PeriodScoreInput[] {
+  return (lineScore.innings || []).map((inning) => ({
+    type: inning.num > 9 ? 'OVERTIME' : 'REGULAR',
+    homeScore: inning.home?.runs ?? null,
+    awayScore: inning.away?.runs ?? null,
+  }));
 }
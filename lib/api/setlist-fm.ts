@@ -3,6 +3,8 @@
 // API Docs: https://api.setlist.fm/docs/1.0/index.html
 // ✅ Code Quality Agent: Proper error handling, type safety
 
+import { isSegueNote } from '@/lib/utils/song-names';
+
 const API_BASE = 'https://api.setlist.fm/rest/1.0';
 
 // Types for API responses
@@ -179,6 +181,7 @@ export interface ProcessedSong {
   isCover: boolean;
   coverArtist?: string;
   isTape: boolean;
+  segue: boolean; // Ran straight into the next song
   notes?: string;
 }
 
@@ -199,6 +202,7 @@ export function processSetlist(setlist: Setlist): ProcessedSetlist {
         isCover: !!song.cover,
         coverArtist: song.cover?.name,
         isTape: !!song.tape,
+        segue: isSegueNote(song.info),
         notes: song.info,
       });
     }
@@ -5,7 +5,9 @@
 // - MLB logos: https://www.mlbstatic.com/team-logos/{teamId}.svg
 // ✅ Code Quality Agent: Caching, fallbacks, type safety
 
+import type { Prisma } from '@prisma/client';
 import { prisma } from '@/lib/prisma';
+import { getTeamAliasMap, resolveTeamName } from '@/lib/db/teams';
 import { normalizeTeamName } from '@/lib/utils/team-names';
 
 // Logo URL patterns for different sports
@@ -173,7 +175,8 @@ export function getTeamLogoUrl(
 }
 
 /**
- * Find or create a team in the database
+ * Find or create a team in the database, resolving aliases first.
+ * Pass `client` to run inside a transaction.
  */
 export async function findOrCreateTeam(
   name: string,
@@ -184,18 +187,30 @@ export async function findOrCreateTeam(
     league?: string;
     country?: string;
     externalId?: string;
-    logoUrl?: string;
-  }
+    logoUrl?: string | null;
+  },
+  client: Prisma.TransactionClient = prisma
 ) {
-  const normalizedName = normalizeTeamName(name);
-  let team = await prisma.team.findFirst({
+  const normalizedName = await resolveTeamName(name, sport, client);
+  let team = await client.team.findFirst({
     where: {
       name: normalizedName,
       sport,
     },
   });
 
-  if (!team) {
+  if (team) {
+    // Fill in a logo the team doesn't have yet
+    if (options?.logoUrl && !team.logoUrl) {
+      team = await client.team.update({
+        where: { id: team.id },
+        data: {
+          logoUrl: options.logoUrl,
+          externalId: team.externalId || options.externalId,
+        },
+      });
+    }
+  } else {
     // Try to get logo URL based on sport
     let logoUrl = options?.logoUrl;
     if (!logoUrl && options?.externalId) {
@@ -204,7 +219,7 @@ export async function findOrCreateTeam(
       logoUrl = getTeamLogoUrl(normalizedName, sport.toLowerCase() as 'soccer' | 'basketball' | 'baseball') || undefined;
     }
 
-    team = await prisma.team.create({
+    team = await client.team.create({
       data: {
         name: normalizedName,
         sport,
@@ -230,7 +245,7 @@ export async function getTeamWithLogo(
   externalId?: string
 ): Promise<{ id: string; name: string; logoUrl: string | null }> {
   const sportLower = sport.toLowerCase() as 'soccer' | 'basketball' | 'baseball';
-  const normalizedName = normalizeTeamName(teamName);
+  const normalizedName = await resolveTeamName(teamName, sport);
   
   // Try to find existing team
   let team = await prisma.team.findFirst({
@@ -267,7 +282,8 @@ export async function getTeamLogos(
   const sportLower = sport.toLowerCase() as 'soccer' | 'basketball' | 'baseball';
   
   // Normalize all input names
-  const normalizedNames = teamNames.map(n => normalizeTeamName(n));
+  const aliases = await getTeamAliasMap(sport);
+  const normalizedNames = teamNames.map(n => normalizeTeamName(n, aliases));
 
   // First check database for existing teams
   const existingTeams = await prisma.team.findMany({
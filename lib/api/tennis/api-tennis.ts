@@ -0,0 +1,143 @@
+// API-Tennis Provider
+// 📚 Library Research Agent: api-tennis.com REST API - ATP, WTA, Challenger and ITF fixtures and results
+// API Docs: https://api-tennis.com/documentation
+// ✅ Code Quality Agent: Fixtures are fetched a month at a time (cached), at most three months per search
+
+import { TennisRangeError } from './filter';
+import type { TennisDataProvider, TennisDateRange, TennisMatchResult } from './index';
+
+const API_BASE = 'https://api.api-tennis.com/tennis/';
+const MAX_WINDOW_DAYS = 31;
+const MAX_RANGE_DAYS = 3 * MAX_WINDOW_DAYS;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// API-Tennis raw response types
+interface ApiTennisSet {
+  score_first: string; // Games, with tiebreak points after a dot when there was one ("6.5")
+  score_second: string;
+  score_set: string;
+}
+
+interface ApiTennisFixture {
+  event_key: number;
+  event_date: string; // YYYY-MM-DD in the requested zone
+  event_time: string; // HH:mm, blank when not scheduled yet
+  event_first_player: string;
+  event_second_player: string;
+  event_winner: 'First Player' | 'Second Player' | null;
+  event_status: string; // "Finished", "Retired", "Walk Over", "Set 2", ...
+  event_type_type: string; // "Atp Singles", "Wta Doubles", ...
+  tournament_name: string;
+  tournament_round: string | null; // "Roland Garros - Final"
+  scores?: ApiTennisSet[];
+}
+
+interface ApiTennisResponse {
+  success: number;
+  result?: ApiTennisFixture[];
+  error?: string;
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+// The search range split into windows the API will serve in one call.
+// Without dates, the last four weeks and the next two.
+function dateWindows(range: TennisDateRange): Array<{ start: string; stop: string }> {
+  const today = new Date(dayKey(new Date()));
+  const from = range.dateFrom ? new Date(range.dateFrom) : new Date(today.getTime() - 28 * DAY_MS);
+  const to = range.dateTo ? new Date(range.dateTo) : new Date(today.getTime() + 14 * DAY_MS);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+    throw new TennisRangeError('Dates must be YYYY-MM-DD');
+  }
+  if ((to.getTime() - from.getTime()) / DAY_MS + 1 > MAX_RANGE_DAYS) {
+    throw new TennisRangeError('Tennis searches cover at most three months - pick a month');
+  }
+
+  const windows: Array<{ start: string; stop: string }> = [];
+  for (let start = from; start <= to; start = new Date(start.getTime() + MAX_WINDOW_DAYS * DAY_MS)) {
+    const stop = new Date(Math.min(start.getTime() + (MAX_WINDOW_DAYS - 1) * DAY_MS, to.getTime()));
+    windows.push({ start: dayKey(start), stop: dayKey(stop) });
+  }
+  return windows;
+}
+
+async function fetchFixtures(apiKey: string, start: string, stop: string): Promise<ApiTennisFixture[]> {
+  const params = new URLSearchParams({
+    method: 'get_fixtures',
+    APIkey: apiKey,
+    date_start: start,
+    date_stop: stop,
+    timezone: 'Etc/UTC',
+  });
+
+  const response = await fetch(`${API_BASE}?${params}`, {
+    next: { revalidate: 300 }, // Results come in as matches finish
+  });
+
+  if (!response.ok) {
+    if (response.status === 429) {
+      throw new Error('Rate limit exceeded. Please try again later.');
+    }
+    throw new Error(`API-Tennis error: ${response.status}`);
+  }
+
+  const data: ApiTennisResponse = await response.json();
+  if (data.success !== 1) {
+    // An empty window comes back as a failure with no results
+    if (!data.error) return [];
+    throw new Error(`API-Tennis error: ${data.error}`);
+  }
+  return data.result ?? [];
+}
+
+// Sets in parseTennisScore notation, from player 1's side - "7-6(5)" for a tiebreak
+function formatScore(fixture: ApiTennisFixture): string | null {
+  if (/walk\s*over/i.test(fixture.event_status)) return 'W/O';
+  if (!fixture.event_winner || !fixture.scores?.length) return null;
+
+  const sets = [...fixture.scores]
+    .sort((a, b) => parseInt(a.score_set, 10) - parseInt(b.score_set, 10))
+    .map((set) => {
+      const [games1, tiebreak1] = set.score_first.split('.');
+      const [games2, tiebreak2] = set.score_second.split('.');
+      const loserTiebreak = parseInt(games1, 10) > parseInt(games2, 10) ? tiebreak2 : tiebreak1;
+      return `${games1}-${games2}${loserTiebreak ? `(${loserTiebreak})` : ''}`;
+    });
+
+  return `${sets.join(', ')}${/retired/i.test(fixture.event_status) ? ' RET' : ''}`;
+}
+
+function toMatchResult(fixture: ApiTennisFixture): TennisMatchResult {
+  const round = fixture.tournament_round?.split(' - ').pop()?.trim() || null;
+  return {
+    id: `api-tennis-${fixture.event_key}`,
+    // Date-only when the order of play isn't out yet
+    date: fixture.event_time ? `${fixture.event_date}T${fixture.event_time}:00Z` : fixture.event_date,
+    tournament: fixture.tournament_name,
+    round,
+    player1: fixture.event_first_player,
+    player2: fixture.event_second_player,
+    score: formatScore(fixture),
+    winner: fixture.event_winner === 'First Player' ? 1 : fixture.event_winner === 'Second Player' ? 2 : null,
+    venue: null, // Not in the feed - the form asks for it
+    city: null,
+    country: null,
+    status: fixture.event_winner || /walk\s*over/i.test(fixture.event_status) ? 'finished' : 'scheduled',
+  };
+}
+
+export function createApiTennisProvider(apiKey: string): TennisDataProvider {
+  return {
+    name: 'api-tennis',
+
+    async listMatches(range) {
+      const windows = dateWindows(range);
+      const fixtures = (
+        await Promise.all(windows.map(({ start, stop }) => fetchFixtures(apiKey, start, stop)))
+      ).flat();
+      return fixtures.map(toMatchResult);
+    },
+  };
+}
@@ -0,0 +1,42 @@
+// Tennis Match Filtering
+// ✅ Code Quality Agent: The search rules every tennis provider applies to the matches it has
+
+import { filterBySearchRelevance, getBestMatchScore } from '@/lib/utils/search';
+import type { TennisMatchResult, TennisSearchQuery } from './index';
+
+// Thrown when a search covers more dates than the provider will fetch at once
+export class TennisRangeError extends Error {}
+
+function inDateRange(match: TennisMatchResult, query: TennisSearchQuery): boolean {
+  const day = match.date.slice(0, 10);
+  if (query.dateFrom && day < query.dateFrom) return false;
+  if (query.dateTo && day > query.dateTo) return false;
+  return true;
+}
+
+/**
+ * Matches in the query's date range that fit its player or tournament.
+ */
+export function filterTennisMatches(matches: TennisMatchResult[], query: TennisSearchQuery): TennisMatchResult[] {
+  let results = matches.filter((match) => inDateRange(match, query));
+
+  if (query.player) {
+    results = filterBySearchRelevance(results, query.player, (m) => [m.player1, m.player2]);
+  }
+  if (query.tournament) {
+    results = filterBySearchRelevance(results, query.tournament, (m) => [m.tournament]);
+  }
+
+  // Player searches put the closest name first; a tournament reads as its draw, in order
+  return results.sort((a, b) => {
+    if (query.player) {
+      const relevance =
+        getBestMatchScore(query.player, b.player1, b.player2) -
+        getBestMatchScore(query.player, a.player1, a.player2);
+      if (relevance !== 0) return relevance;
+    }
+    return query.tournament
+      ? a.date.localeCompare(b.date)
+      : b.date.localeCompare(a.date);
+  });
+}
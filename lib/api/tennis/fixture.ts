@@ -0,0 +1,26 @@
+// Fixture Tennis Provider
+// ✅ Code Quality Agent: Serves matches from a JSON file - the bundled Grand Slam sample, or TENNIS_FIXTURE_FILE
+// For tests and local development only - select it with TENNIS_PROVIDER=fixture
+
+import { readFile } from 'fs/promises';
+import bundledMatches from './fixtures.json';
+import type { TennisDataProvider, TennisMatchResult } from './index';
+
+export function createFixtureProvider(filePath?: string): TennisDataProvider {
+  let matches: TennisMatchResult[] | null = filePath ? null : (bundledMatches as TennisMatchResult[]);
+
+  const load = async (): Promise<TennisMatchResult[]> => {
+    if (!matches) {
+      matches = JSON.parse(await readFile(filePath!, 'utf8')) as TennisMatchResult[];
+    }
+    return matches;
+  };
+
+  return {
+    name: 'fixture',
+
+    async listMatches() {
+      return load(); // The whole file - the search filter narrows it to the range
+    },
+  };
+}
@@ -0,0 +1,62 @@
+// Tennis Match Data
+// 🔍 API Monitor Agent: Pluggable provider behind /api/tennis/search, like lib/storage
+// ✅ Code Quality Agent: Providers return one normalized shape so MatchSearch can prefill the form
+
+import { createApiTennisProvider } from './api-tennis';
+import { createFixtureProvider } from './fixture';
+
+export interface TennisMatchResult {
+  id: string;
+  date: string; // ISO start time, or YYYY-MM-DD before the order of play is out
+  tournament: string;
+  round: string | null;
+  player1: string;
+  player2: string;
+  score: string | null; // Same notation as parseTennisScore, null until played
+  winner: 1 | 2 | null;
+  venue: string | null;
+  city: string | null;
+  country: string | null;
+  status: 'scheduled' | 'finished';
+}
+
+export interface TennisDateRange {
+  dateFrom?: string; // YYYY-MM-DD, inclusive
+  dateTo?: string;
+}
+
+export interface TennisSearchQuery extends TennisDateRange {
+  player?: string;
+  tournament?: string;
+}
+
+// Providers only fetch by date - player and tournament matching is done in
+// memory (see filterTennisMatches), so one search is one fetch
+export interface TennisDataProvider {
+  name: string;
+  listMatches(range: TennisDateRange): Promise<TennisMatchResult[]>;
+}
+
+let provider: TennisDataProvider | null = null;
+
+/**
+ * Data provider selected by TENNIS_PROVIDER - "api-tennis" by default, or
+ * "fixture" to serve a local JSON file in tests and development.
+ */
+export function getTennisProvider(): TennisDataProvider {
+  if (provider) return provider;
+
+  const name = process.env.TENNIS_PROVIDER || 'api-tennis';
+  if (name === 'api-tennis') {
+    const apiKey = process.env.API_TENNIS_KEY;
+    if (!apiKey) {
+      throw new Error('API_TENNIS_KEY not configured');
+    }
+    provider = createApiTennisProvider(apiKey);
+  } else if (name === 'fixture') {
+    provider = createFixtureProvider(process.env.TENNIS_FIXTURE_FILE || undefined);
+  } else {
+    throw new Error(`Unknown TENNIS_PROVIDER: ${name}`);
+  }
+  return provider;
+}
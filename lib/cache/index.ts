@@ -43,12 +43,16 @@ export interface CachedVenue {
 export interface SyncQueueItem {
   id?: number; // Auto-increment
   operation: 'create' | 'update' | 'delete';
-  entityType: 'event' | 'venue';
+  entityType: 'event' | 'venue' | 'ticket'; // A ticket's entityId is its event's server id
   entityId: string;
   data: Record<string, unknown>;
   createdAt: string;
   attempts: number;
   lastError?: string;
+  // Server updatedAt the offline edit was based on (updates only)
+  baseVersion?: string;
+  // Server copy returned with a 409 when baseVersion was stale
+  conflict?: Record<string, unknown>;
 }
 
 // Dexie database class
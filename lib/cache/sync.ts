@@ -0,0 +1,583 @@
+// Offline Event Sync
+// ✅ Code Quality Agent: Queues event writes while offline and replays them on reconnect
+// 🎓 Learning Agent: Each queued create keeps the exact payload the sport route expects,
+// so replaying is just POSTing it to /api/events/{sport} once the network is back.
+// A scanned ticket rides along with its create and is uploaded once the event exists.
+
+import {
+  db,
+  addToSyncQueue,
+  cacheEvent,
+  getCachedEvent,
+  deleteCachedEvent,
+  syncWithServer,
+  updateSyncQueueItem,
+  type CachedEvent,
+  type SyncQueueItem,
+} from '@/lib/cache';
+import { generateId } from '@/lib/utils';
+import { attachTicketScan, uploadEventMedia } from '@/lib/media/client';
+import type { EventType } from '@/types';
+import type { PeriodType } from '@/lib/utils/line-score';
+import { toMatchEventInputs, type StoredMatchEvent } from '@/lib/utils/match-timeline';
+
+export type EventSport = 'soccer' | 'basketball' | 'baseball' | 'tennis' | 'concert';
+
+// Ticket scan kept in IndexedDB until its event reaches the server
+export interface QueuedTicket {
+  file: File;
+  seat?: string;
+}
+
+export type SubmitEventResult =
+  | { queued: true; localId: string }
+  | { queued: false; response: Response };
+
+// Payload shape shared by all creation routes (sport-specific fields ride along)
+type EventPayload = Record<string, unknown> & {
+  date?: string;
+  venueName?: string;
+  venueCity?: string;
+  venueCountry?: string;
+  notes?: string;
+  rating?: number;
+  companions?: string[];
+};
+
+// Fields editable through PUT /api/events/[id], compared field by field on conflict
+export const CONFLICT_FIELDS = [
+  { key: 'date', label: 'Date' },
+  { key: 'kickoffTime', label: 'Kickoff time' },
+  { key: 'venueName', label: 'Venue' },
+  { key: 'venueCity', label: 'City' },
+  { key: 'notes', label: 'Notes' },
+  { key: 'rating', label: 'Rating' },
+  { key: 'companions', label: 'Companions' },
+  { key: 'homeScore', label: 'Home score' },
+  { key: 'awayScore', label: 'Away score' },
+  { key: 'supportedSide', label: 'Supported side' },
+  { key: 'lineScore', label: 'Line score' },
+  { key: 'timeline', label: 'Match timeline' },
+  { key: 'extraTime', label: 'Extra time' },
+  { key: 'homePenalties', label: 'Home penalties' },
+  { key: 'awayPenalties', label: 'Away penalties' },
+  { key: 'firstLegEventId', label: 'First leg' },
+  { key: 'score', label: 'Score' },
+  { key: 'tourName', label: 'Tour' },
+] as const;
+
+export type ConflictField = (typeof CONFLICT_FIELDS)[number]['key'];
+export type EventChanges = Partial<Record<ConflictField, unknown>>;
+export type ConflictResolution =
+  | 'local'
+  | 'server'
+  | Partial<Record<ConflictField, 'local' | 'server'>>;
+
+export type SubmitEventUpdateResult =
+  | { queued: true }
+  | { queued: false; response: Response };
+
+// Event JSON as returned by /api/events/[id]
+export interface ServerEvent {
+  id: string;
+  type: EventType;
+  date: string;
+  localDate: string | null;
+  kickoffTime: string | null;
+  venueId: string;
+  userId: string;
+  notes: string | null;
+  rating: number | null;
+  companions: string[];
+  supportedSide: 'HOME' | 'AWAY' | 'NEUTRAL' | null;
+  createdAt: string;
+  updatedAt: string;
+  venue: { name: string; city: string; country: string };
+  soccerMatch?: {
+    homeScore: number;
+    awayScore: number;
+    timeline?: StoredMatchEvent[];
+    extraTime?: boolean;
+    homePenalties?: number | null;
+    awayPenalties?: number | null;
+    firstLeg?: { eventId: string } | null;
+  } | null;
+  basketballGame?: { homeScore: number; awayScore: number } | null;
+  baseballGame?: { homeScore: number; awayScore: number } | null;
+  periodScores?: { type: PeriodType; homeScore: number | null; awayScore: number | null }[];
+  tennisMatch?: { score: string } | null;
+  concert?: { tourName: string | null } | null;
+}
+
+function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+}
+
+/**
+ * Store an event locally and queue it for the server.
+ */
+export async function queueEventCreate(
+  sport: EventSport,
+  payload: EventPayload,
+  userId = '',
+  ticket?: QueuedTicket | null
+): Promise<string> {
+  const localId = generateId('local');
+  const now = new Date().toISOString();
+
+  await cacheEvent({
+    id: localId,
+    type: sport.toUpperCase() as EventType,
+    date: payload.date || now,
+    venueId: '',
+    venueName: payload.venueName || '',
+    venueCity: payload.venueCity || '',
+    venueCountry: payload.venueCountry || '',
+    userId,
+    notes: payload.notes,
+    rating: payload.rating,
+    companions: payload.companions || [],
+    sportData: payload,
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  });
+
+  await addToSyncQueue({
+    operation: 'create',
+    entityType: 'event',
+    entityId: localId,
+    data: { sport, payload, ...(ticket && { ticket }) },
+    createdAt: now,
+    attempts: 0,
+  });
+
+  return localId;
+}
+
+// Retry a ticket upload on the next replay - its event is already on the server
+async function queueTicketUpload(eventId: string, ticket: QueuedTicket): Promise<void> {
+  await addToSyncQueue({
+    operation: 'create',
+    entityType: 'ticket',
+    entityId: eventId,
+    data: { ticket },
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  });
+}
+
+/**
+ * POST an event, falling back to the offline queue when there is no connection.
+ * A network failure mid-request is treated the same as being offline. A queued
+ * event keeps its ticket scan and attaches it when replayed; online, the caller
+ * attaches it once the response is in.
+ */
+export async function submitEvent(
+  sport: EventSport,
+  payload: EventPayload,
+  userId?: string,
+  ticket?: QueuedTicket | null
+): Promise<SubmitEventResult> {
+  if (isOffline()) {
+    return { queued: true, localId: await queueEventCreate(sport, payload, userId, ticket) };
+  }
+
+  try {
+    const response = await fetch(`/api/events/${sport}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    });
+    return { queued: false, response };
+  } catch (error) {
+    // fetch only rejects on network errors, never on HTTP status codes
+    if (error instanceof TypeError) {
+      return { queued: true, localId: await queueEventCreate(sport, payload, userId, ticket) };
+    }
+    throw error;
+  }
+}
+
+// Build an error message from an API error body
+async function readError(response: Response): Promise<string> {
+  try {
+    const body = await response.json();
+    if (body.details && Array.isArray(body.details)) {
+      const fieldErrors = body.details
+        .map((d: { path?: string[]; message?: string }) =>
+          `${d.path?.join('.') || 'unknown'}: ${d.message || 'invalid'}`
+        )
+        .join(', ');
+      return `${body.error || 'Validation failed'}: ${fieldErrors}`;
+    }
+    return body.error || `Request failed (${response.status})`;
+  } catch {
+    return `Request failed (${response.status})`;
+  }
+}
+
+/**
+ * Project a server event onto the editable fields.
+ */
+export function serverEventToChanges(event: ServerEvent): EventChanges {
+  const match = event.soccerMatch || event.basketballGame || event.baseballGame;
+  return {
+    date: event.localDate?.split('T')[0] ?? event.date, // The day at the venue, as the edit form sends it
+    kickoffTime: event.kickoffTime,
+    venueName: event.venue.name,
+    venueCity: event.venue.city,
+    notes: event.notes,
+    rating: event.rating,
+    companions: event.companions,
+    ...(match && {
+      homeScore: match.homeScore,
+      awayScore: match.awayScore,
+      supportedSide: event.supportedSide,
+      lineScore: (event.periodScores ?? []).map(({ type, homeScore, awayScore }) => ({
+        type,
+        homeScore,
+        awayScore,
+      })),
+    }),
+    ...(event.soccerMatch && {
+      timeline: toMatchEventInputs(event.soccerMatch.timeline ?? []),
+      extraTime: event.soccerMatch.extraTime ?? false,
+      homePenalties: event.soccerMatch.homePenalties ?? null,
+      awayPenalties: event.soccerMatch.awayPenalties ?? null,
+      firstLegEventId: event.soccerMatch.firstLeg?.eventId ?? null,
+    }),
+    ...(event.tennisMatch && { score: event.tennisMatch.score }),
+    ...(event.concert && { tourName: event.concert.tourName }),
+  };
+}
+
+/**
+ * Convert a server event into its offline cache representation.
+ */
+export function toCachedEvent(event: ServerEvent): CachedEvent {
+  const { date, venueName, venueCity, notes, rating, companions, ...sportData } =
+    serverEventToChanges(event);
+  return {
+    id: event.id,
+    type: event.type,
+    date: date as string,
+    venueId: event.venueId,
+    venueName: venueName as string,
+    venueCity: venueCity as string,
+    venueCountry: event.venue.country,
+    userId: event.userId,
+    notes: (notes as string | null) ?? undefined,
+    rating: (rating as number | null) ?? undefined,
+    companions: companions as string[],
+    sportData,
+    createdAt: event.createdAt,
+    updatedAt: event.updatedAt,
+    syncStatus: 'synced',
+    lastSyncedAt: new Date().toISOString(),
+  };
+}
+
+function sameValue(field: ConflictField, a: unknown, b: unknown): boolean {
+  if (field === 'date' && a && b) {
+    return new Date(a as string).getTime() === new Date(b as string).getTime();
+  }
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * Fields the local edit touched that now differ from the server copy.
+ */
+export function getConflictingFields(local: EventChanges, server: EventChanges): ConflictField[] {
+  return CONFLICT_FIELDS.map((f) => f.key).filter(
+    (key) => key in local && !sameValue(key, local[key], server[key])
+  );
+}
+
+// Fields sent together - the route finds the venue by name and city
+const LINKED_FIELDS: ConflictField[][] = [['venueName', 'venueCity']];
+
+/**
+ * The part of an edit that differs from the copy it started from. Saving only
+ * this leaves fields changed elsewhere in the meantime alone.
+ */
+export function getEditedChanges(changes: EventChanges, base: EventChanges): EventChanges {
+  const edited: EventChanges = {};
+  for (const key of Object.keys(changes) as ConflictField[]) {
+    if (!sameValue(key, changes[key], base[key])) edited[key] = changes[key];
+  }
+  for (const fields of LINKED_FIELDS) {
+    if (fields.some((key) => key in edited)) {
+      for (const key of fields) {
+        if (key in changes) edited[key] = changes[key];
+      }
+    }
+  }
+  return edited;
+}
+
+/**
+ * Build the changes to send after the user picks a resolution.
+ * Fields the local edit never touched keep their server value (PUT is partial).
+ */
+export function mergeConflict(
+  local: EventChanges,
+  server: EventChanges,
+  resolution: ConflictResolution
+): EventChanges {
+  if (resolution === 'local') return local;
+  if (resolution === 'server') return {};
+
+  const merged: EventChanges = {};
+  for (const key of Object.keys(local) as ConflictField[]) {
+    merged[key] = (resolution[key] ?? 'local') === 'local' ? local[key] : server[key];
+  }
+  return merged;
+}
+
+/**
+ * Apply an edit to the local copy and queue it against the version it was based on.
+ */
+export async function queueEventUpdate(
+  eventId: string,
+  type: EventType,
+  changes: EventChanges,
+  baseVersion: string,
+  userId = ''
+): Promise<void> {
+  const now = new Date().toISOString();
+  const existing = await getCachedEvent(eventId);
+  const { date, venueName, venueCity, notes, rating, companions, ...sportChanges } = changes;
+
+  const base: CachedEvent = existing ?? {
+    id: eventId,
+    type,
+    date: now,
+    venueId: '',
+    venueName: '',
+    venueCity: '',
+    venueCountry: '',
+    userId,
+    companions: [],
+    createdAt: now,
+    updatedAt: now,
+    syncStatus: 'pending',
+  };
+
+  await cacheEvent({
+    ...base,
+    ...(date !== undefined && { date: date as string }),
+    ...(venueName !== undefined && { venueName: venueName as string }),
+    ...(venueCity !== undefined && { venueCity: venueCity as string }),
+    ...(notes !== undefined && { notes: (notes as string | null) ?? undefined }),
+    ...(rating !== undefined && { rating: (rating as number | null) ?? undefined }),
+    ...(companions !== undefined && { companions: companions as string[] }),
+    sportData: { ...base.sportData, ...sportChanges },
+    updatedAt: now,
+    syncStatus: 'pending',
+  });
+
+  await addToSyncQueue({
+    operation: 'update',
+    entityType: 'event',
+    entityId: eventId,
+    data: { changes },
+    baseVersion,
+    createdAt: now,
+    attempts: 0,
+  });
+}
+
+/**
+ * PUT an edit with its base version, queueing it when there is no connection.
+ */
+export async function submitEventUpdate(
+  eventId: string,
+  type: EventType,
+  changes: EventChanges,
+  baseVersion: string,
+  userId?: string
+): Promise<SubmitEventUpdateResult> {
+  if (isOffline()) {
+    await queueEventUpdate(eventId, type, changes, baseVersion, userId);
+    return { queued: true };
+  }
+
+  try {
+    const response = await fetch(`/api/events/${eventId}`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...changes, expectedUpdatedAt: baseVersion }),
+    });
+    return { queued: false, response };
+  } catch (error) {
+    if (error instanceof TypeError) {
+      await queueEventUpdate(eventId, type, changes, baseVersion, userId);
+      return { queued: true };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Queue a delete for when the connection returns.
+ */
+export async function queueEventDelete(eventId: string): Promise<void> {
+  await deleteCachedEvent(eventId);
+  await addToSyncQueue({
+    operation: 'delete',
+    entityType: 'event',
+    entityId: eventId,
+    data: {},
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  });
+}
+
+async function replayUpdate(item: SyncQueueItem): Promise<boolean> {
+  const { changes } = item.data as { changes: EventChanges };
+  const response = await fetch(`/api/events/${item.entityId}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...changes, expectedUpdatedAt: item.baseVersion }),
+  });
+
+  if (response.status === 409) {
+    // Park the server copy on the item until the user resolves it
+    const body = await response.json();
+    if (item.id) await updateSyncQueueItem(item.id, { conflict: body.data });
+    await db.events.update(item.entityId, { syncStatus: 'error' });
+    throw new Error('Conflict: the event was changed on the server');
+  }
+
+  if (!response.ok) {
+    const message = await readError(response);
+    await db.events.update(item.entityId, { syncStatus: 'error' });
+    throw new Error(message);
+  }
+
+  const body = await response.json();
+  await cacheEvent(toCachedEvent(body.data));
+  return true;
+}
+
+async function replayDelete(item: SyncQueueItem): Promise<boolean> {
+  const response = await fetch(`/api/events/${item.entityId}`, { method: 'DELETE' });
+  // Already gone on the server counts as done
+  if (!response.ok && response.status !== 404) {
+    throw new Error(await readError(response));
+  }
+  return true;
+}
+
+async function replayTicket(item: SyncQueueItem): Promise<boolean> {
+  const { ticket } = item.data as { ticket: QueuedTicket };
+  await uploadEventMedia(item.entityId, ticket.file, 'TICKET', ticket.seat ? `Seat: ${ticket.seat}` : undefined);
+  return true;
+}
+
+// Replay a single queued item against the matching API route
+async function replayItem(item: SyncQueueItem): Promise<boolean> {
+  if (item.entityType === 'ticket') return replayTicket(item);
+  if (item.entityType !== 'event') {
+    throw new Error(`Unsupported sync entity: ${item.entityType}`);
+  }
+  // Conflicts wait for the user to pick a resolution
+  if (item.conflict) {
+    throw new Error('Conflict: the event was changed on the server');
+  }
+  if (item.operation === 'update') return replayUpdate(item);
+  if (item.operation === 'delete') return replayDelete(item);
+
+  const { sport, payload, ticket } = item.data as {
+    sport: EventSport;
+    payload: EventPayload;
+    ticket?: QueuedTicket;
+  };
+  const response = await fetch(`/api/events/${sport}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload),
+  });
+
+  if (!response.ok) {
+    const message = await readError(response);
+    await db.events.update(item.entityId, { syncStatus: 'error' });
+    throw new Error(message);
+  }
+
+  // The event is saved either way - a failed ticket upload gets its own queue item
+  if (ticket) {
+    const { data: created } = await response.json();
+    if (!(await attachTicketScan(created.id, ticket.file, ticket.seat))) {
+      await queueTicketUpload(created.id, ticket);
+    }
+  }
+
+  // The server copy is now the source of truth
+  await deleteCachedEvent(item.entityId);
+  return true;
+}
+
+let activeReplay: Promise<{ success: number; failed: number }> | null = null;
+
+/**
+ * Post all queued items to the server. Concurrent calls share one run.
+ */
+export function replaySyncQueue(): Promise<{ success: number; failed: number }> {
+  if (isOffline()) return Promise.resolve({ success: 0, failed: 0 });
+
+  if (!activeReplay) {
+    activeReplay = syncWithServer(replayItem).finally(() => {
+      activeReplay = null;
+    });
+  }
+  return activeReplay;
+}
+
+/**
+ * Queue items that have failed at least once, with their last error.
+ */
+export async function getFailedSyncItems(): Promise<SyncQueueItem[]> {
+  return db.syncQueue.filter((item) => item.attempts > 0 && !!item.lastError).toArray();
+}
+
+/**
+ * Resolve a conflicted queue item: keep the server copy, keep the local edit,
+ * or merge field by field. Local and merged edits are re-queued against the
+ * server's current version and replayed.
+ */
+export async function resolveSyncConflict(
+  item: SyncQueueItem,
+  resolution: ConflictResolution
+): Promise<void> {
+  if (!item.id || !item.conflict) return;
+  const serverEvent = item.conflict as unknown as ServerEvent;
+
+  if (resolution === 'server') {
+    await db.syncQueue.delete(item.id);
+    await cacheEvent(toCachedEvent(serverEvent));
+    return;
+  }
+
+  const { changes } = item.data as { changes: EventChanges };
+  const merged = mergeConflict(changes, serverEventToChanges(serverEvent), resolution);
+
+  await db.syncQueue.update(item.id, {
+    data: { changes: merged },
+    baseVersion: serverEvent.updatedAt,
+    conflict: undefined,
+    lastError: undefined,
+    attempts: 0,
+  });
+  await db.events.update(item.entityId, { syncStatus: 'pending' });
+  await replaySyncQueue();
+}
+
+/**
+ * Drop a queued item and its local event copy.
+ */
+export async function discardSyncItem(item: SyncQueueItem): Promise<void> {
+  if (item.id) await db.syncQueue.delete(item.id);
+  if (item.entityType !== 'ticket') await deleteCachedEvent(item.entityId);
+}
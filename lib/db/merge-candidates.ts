@@ -0,0 +1,210 @@
+// Duplicate Candidate Finder
+// ✅ Code Quality Agent: Pairs records whose names score as a match under getSearchScore, for review in /admin/merge
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { getSearchScore, normalizeForSearch } from '@/lib/utils/search';
+
+export const MERGE_ENTITIES = ['team', 'player', 'artist', 'venue'] as const;
+
+export type MergeEntity = (typeof MERGE_ENTITIES)[number];
+
+export interface MergeRecordSummary {
+  id: string;
+  name: string;
+  detail: string; // Sport for teams/players, genre for artists, "City, Country" for venues
+  usage: number; // Matches, appearances, concerts or events that point at the record
+}
+
+export interface MergeCandidate {
+  score: number;
+  a: MergeRecordSummary;
+  b: MergeRecordSummary;
+}
+
+export interface CandidateOptions {
+  sport?: string;
+  minScore?: number;
+  limit?: number;
+}
+
+interface ComparableRecord extends MergeRecordSummary {
+  group: string; // Records only pair up within a group (sport), or '' when any pair is allowed
+  city?: string;
+}
+
+/**
+ * Records of one entity type with their reference counts. `ids` narrows to specific records.
+ */
+export async function loadMergeRecords(
+  entity: MergeEntity,
+  options: { ids?: string[]; sport?: string } = {},
+  client: Prisma.TransactionClient = prisma
+): Promise<ComparableRecord[]> {
+  const idFilter = options.ids ? { id: { in: options.ids } } : {};
+
+  switch (entity) {
+    case 'team': {
+      const teams = await client.team.findMany({
+        where: { ...idFilter, ...(options.sport ? { sport: options.sport } : {}) },
+        select: {
+          id: true,
+          name: true,
+          sport: true,
+          _count: {
+            select: {
+              soccerHomeMatches: true,
+              soccerAwayMatches: true,
+              basketballHomeGames: true,
+              basketballAwayGames: true,
+              baseballHomeGames: true,
+              baseballAwayGames: true,
+            },
+          },
+        },
+      });
+      return teams.map((t) => ({
+        id: t.id,
+        name: t.name,
+        detail: t.sport,
+        group: t.sport,
+        usage: Object.values(t._count).reduce((sum, n) => sum + n, 0),
+      }));
+    }
+
+    case 'player': {
+      const players = await client.player.findMany({
+        where: { ...idFilter, ...(options.sport ? { sport: options.sport } : {}) },
+        select: {
+          id: true,
+          name: true,
+          sport: true,
+          team: true,
+          _count: {
+            select: {
+              soccerAppearances: true,
+              basketballAppearances: true,
+              baseballAppearances: true,
+              pitchingAppearances: true,
+              tennisAppearances: true,
+            },
+          },
+        },
+      });
+      return players.map((p) => ({
+        id: p.id,
+        name: p.name,
+        detail: p.team ? `${p.sport} · ${p.team}` : p.sport,
+        group: p.sport,
+        usage: Object.values(p._count).reduce((sum, n) => sum + n, 0),
+      }));
+    }
+
+    case 'artist': {
+      const artists = await client.artist.findMany({
+        where: idFilter,
+        select: { id: true, name: true, genre: true, _count: { select: { concerts: true } } },
+      });
+      return artists.map((a) => ({
+        id: a.id,
+        name: a.name,
+        detail: a.genre ?? '',
+        group: '',
+        usage: a._count.concerts,
+      }));
+    }
+
+    case 'venue': {
+      const venues = await client.venue.findMany({
+        where: idFilter,
+        select: {
+          id: true,
+          name: true,
+          city: true,
+          country: true,
+          _count: { select: { events: true } },
+        },
+      });
+      return venues.map((v) => ({
+        id: v.id,
+        name: v.name,
+        detail: `${v.city}, ${v.country}`,
+        group: '',
+        city: v.city,
+        usage: v._count.events,
+      }));
+    }
+  }
+}
+
+/**
+ * Symmetric name similarity - getSearchScore treats its first argument as a query,
+ * so "Salah" vs "Mohamed Salah" only scores well one way round.
+ */
+export function nameSimilarity(a: string, b: string): number {
+  return Math.max(getSearchScore(a, b).score, getSearchScore(b, a).score);
+}
+
+function searchTokens(name: string): string[] {
+  return normalizeForSearch(name)
+    .split(/[\s,]+/)
+    .filter((word) => word.length >= 3);
+}
+
+/**
+ * Likely duplicates of one entity type, best match first.
+ *
+ * Only pairs sharing a word (3+ letters) are scored, which keeps this well under
+ * n² for real tables. Teams and players must share a sport; venues must also be
+ * in a matching city ("Manchester" vs "Manchester, England").
+ */
+export async function findMergeCandidates(
+  entity: MergeEntity,
+  options: CandidateOptions = {}
+): Promise<MergeCandidate[]> {
+  const { sport, minScore = 70, limit = 100 } = options;
+  const records = await loadMergeRecords(entity, { sport });
+
+  // Inverted index: word → records containing it
+  const byToken = new Map<string, number[]>();
+  records.forEach((record, index) => {
+    for (const token of new Set(searchTokens(record.name))) {
+      const bucket = byToken.get(token) ?? [];
+      bucket.push(index);
+      byToken.set(token, bucket);
+    }
+  });
+
+  const seen = new Set<string>();
+  const candidates: MergeCandidate[] = [];
+
+  for (const bucket of byToken.values()) {
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const key = `${bucket[i]}:${bucket[j]}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const a = records[bucket[i]];
+        const b = records[bucket[j]];
+        if (a.group !== b.group) continue;
+        if (a.city !== undefined && b.city !== undefined && nameSimilarity(a.city, b.city) < 70) {
+          continue;
+        }
+
+        const score = nameSimilarity(a.name, b.name);
+        if (score >= minScore) {
+          candidates.push({ score: Math.round(score), a: summarize(a), b: summarize(b) });
+        }
+      }
+    }
+  }
+
+  return candidates
+    .sort((x, y) => y.score - x.score || x.a.name.localeCompare(y.a.name))
+    .slice(0, limit);
+}
+
+function summarize({ id, name, detail, usage }: ComparableRecord): MergeRecordSummary {
+  return { id, name, detail, usage };
+}
@@ -0,0 +1,421 @@
+// Record Merge Service
+// 🔍 API Monitor Agent: Folds a duplicate team/player/artist/venue into the record being kept, with an audit log
+// ✅ Code Quality Agent: Preview runs the real merge in a rolled-back transaction, so the counts always match
+
+import type { EventType, MergeEntityType, MergeLog, Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { loadMergeRecords, type MergeEntity, type MergeRecordSummary } from './merge-candidates';
+import { setVenueCoordinates, setVenueTimezone } from './venue-timezones';
+import { mergeArtistSongs } from './songs';
+
+export class MergeError extends Error {}
+
+export interface AffectedEvent {
+  id: string;
+  type: EventType;
+  date: Date;
+  userId: string;
+}
+
+export interface MergePreview {
+  entity: MergeEntity;
+  source: MergeRecordSummary; // Deleted by the merge
+  target: MergeRecordSummary; // Kept
+  affected: Record<string, number>; // Rows changed per relation
+  events: AffectedEvent[];
+  warnings: string[];
+}
+
+export interface MergeResult {
+  log: MergeLog;
+  userIds: string[]; // Owners of affected events - their achievements need recomputing
+}
+
+const ENTITY_TYPES: Record<MergeEntity, MergeEntityType> = {
+  team: 'TEAM',
+  player: 'PLAYER',
+  artist: 'ARTIST',
+  venue: 'VENUE',
+};
+
+const PREVIEW_EVENT_LIMIT = 50;
+
+interface MergeOutcome {
+  affected: Record<string, number>;
+  eventIds: string[];
+  warnings: string[];
+}
+
+type Tx = Prisma.TransactionClient;
+
+// Thrown to roll back a preview transaction
+class PreviewRollback extends Error {
+  constructor(readonly preview: MergePreview) {
+    super('Preview rollback');
+  }
+}
+
+// Copy fields the kept record is missing from the duplicate
+function fillMissing<T extends Record<string, unknown>, K extends keyof T>(
+  target: T,
+  source: T,
+  keys: K[]
+): Partial<Pick<T, K>> {
+  const data: Partial<Pick<T, K>> = {};
+  for (const key of keys) {
+    if (target[key] == null && source[key] != null) {
+      data[key] = source[key];
+    }
+  }
+  return data;
+}
+
+async function mergeTeams(tx: Tx, sourceId: string, targetId: string): Promise<MergeOutcome> {
+  const [source, target] = await Promise.all([
+    tx.team.findUniqueOrThrow({ where: { id: sourceId } }),
+    tx.team.findUniqueOrThrow({ where: { id: targetId } }),
+  ]);
+  if (source.sport !== target.sport) {
+    throw new MergeError(`Cannot merge a ${source.sport} team into a ${target.sport} team`);
+  }
+
+  // Linked by ref, or still only by name (never migrated)
+  const home = { OR: [{ homeTeamRefId: source.id }, { homeTeamRefId: null, homeTeam: source.name }] };
+  const away = { OR: [{ awayTeamRefId: source.id }, { awayTeamRefId: null, awayTeam: source.name }] };
+  const toHome = { homeTeamRefId: target.id, homeTeam: target.name };
+  const toAway = { awayTeamRefId: target.id, awayTeam: target.name };
+
+  let eventIds: string[] = [];
+  const affected: Record<string, number> = {};
+
+  if (source.sport === 'SOCCER') {
+    const matches = await tx.soccerMatch.findMany({ where: { OR: [home, away] }, select: { eventId: true } });
+    eventIds = matches.map((m) => m.eventId);
+    await tx.soccerMatch.updateMany({ where: home, data: toHome });
+    await tx.soccerMatch.updateMany({ where: away, data: toAway });
+    affected.soccerMatches = matches.length;
+  } else if (source.sport === 'BASKETBALL') {
+    const games = await tx.basketballGame.findMany({ where: { OR: [home, away] }, select: { eventId: true } });
+    eventIds = games.map((g) => g.eventId);
+    await tx.basketballGame.updateMany({ where: home, data: toHome });
+    await tx.basketballGame.updateMany({ where: away, data: toAway });
+    affected.basketballGames = games.length;
+  } else if (source.sport === 'BASEBALL') {
+    const games = await tx.baseballGame.findMany({ where: { OR: [home, away] }, select: { eventId: true } });
+    eventIds = games.map((g) => g.eventId);
+    await tx.baseballGame.updateMany({ where: home, data: toHome });
+    await tx.baseballGame.updateMany({ where: away, data: toAway });
+    affected.baseballGames = games.length;
+  }
+
+  // Aliases move across, and the duplicate's name becomes one so it resolves here from now on
+  await tx.teamAlias.deleteMany({ where: { teamId: source.id, alias: target.name } });
+  const aliases = await tx.teamAlias.updateMany({
+    where: { teamId: source.id },
+    data: { teamId: target.id },
+  });
+  affected.aliases = aliases.count;
+
+  // Fans follow the kept team, unless they already follow both
+  await tx.favoriteTeam.deleteMany({
+    where: { teamId: source.id, user: { favoriteTeams: { some: { teamId: target.id } } } },
+  });
+  const favorites = await tx.favoriteTeam.updateMany({
+    where: { teamId: source.id },
+    data: { teamId: target.id },
+  });
+  affected.favorites = favorites.count;
+
+  await tx.team.update({
+    where: { id: target.id },
+    data: fillMissing(target, source, ['shortName', 'tla', 'league', 'country', 'externalId', 'logoUrl']),
+  });
+  await tx.team.delete({ where: { id: source.id } });
+  await tx.teamAlias.upsert({
+    where: { alias_sport: { alias: source.name, sport: target.sport } },
+    create: { alias: source.name, sport: target.sport, teamId: target.id },
+    update: { teamId: target.id },
+  });
+
+  return { affected, eventIds, warnings: [] };
+}
+
+async function mergePlayers(tx: Tx, sourceId: string, targetId: string): Promise<MergeOutcome> {
+  const [source, target] = await Promise.all([
+    tx.player.findUniqueOrThrow({ where: { id: sourceId } }),
+    tx.player.findUniqueOrThrow({ where: { id: targetId } }),
+  ]);
+  if (source.sport !== target.sport) {
+    throw new MergeError(`Cannot merge a ${source.sport} player into a ${target.sport} player`);
+  }
+
+  const warnings: string[] = [];
+  if (source.team && target.team && source.team !== target.team) {
+    warnings.push(`Listed for different teams: ${source.team} and ${target.team}`);
+  }
+
+  const faced = await tx.tennisMatch.count({
+    where: {
+      OR: [
+        { player1Id: source.id, player2Id: target.id },
+        { player1Id: target.id, player2Id: source.id },
+      ],
+    },
+  });
+  if (faced > 0) {
+    throw new MergeError(`${source.name} and ${target.name} played each other - they are different players`);
+  }
+
+  const affected: Record<string, number> = {};
+  const eventIds: string[] = [];
+  let duplicates = 0;
+
+  // Where both records appear in the same match the kept record's line wins
+  {
+    const kept = await tx.soccerAppearance.findMany({ where: { playerId: target.id }, select: { matchId: true } });
+    const dropped = await tx.soccerAppearance.deleteMany({
+      where: { playerId: source.id, matchId: { in: kept.map((a) => a.matchId) } },
+    });
+    const moved = await tx.soccerAppearance.findMany({
+      where: { playerId: source.id },
+      select: { match: { select: { eventId: true } } },
+    });
+    await tx.soccerAppearance.updateMany({ where: { playerId: source.id }, data: { playerId: target.id } });
+    eventIds.push(...moved.map((a) => a.match.eventId));
+    affected.soccerAppearances = moved.length;
+    duplicates += dropped.count;
+  }
+  {
+    const kept = await tx.basketballAppearance.findMany({ where: { playerId: target.id }, select: { gameId: true } });
+    const dropped = await tx.basketballAppearance.deleteMany({
+      where: { playerId: source.id, gameId: { in: kept.map((a) => a.gameId) } },
+    });
+    const moved = await tx.basketballAppearance.findMany({
+      where: { playerId: source.id },
+      select: { game: { select: { eventId: true } } },
+    });
+    await tx.basketballAppearance.updateMany({ where: { playerId: source.id }, data: { playerId: target.id } });
+    eventIds.push(...moved.map((a) => a.game.eventId));
+    affected.basketballAppearances = moved.length;
+    duplicates += dropped.count;
+  }
+  {
+    const kept = await tx.baseballAppearance.findMany({ where: { playerId: target.id }, select: { gameId: true } });
+    const dropped = await tx.baseballAppearance.deleteMany({
+      where: { playerId: source.id, gameId: { in: kept.map((a) => a.gameId) } },
+    });
+    const moved = await tx.baseballAppearance.findMany({
+      where: { playerId: source.id },
+      select: { game: { select: { eventId: true } } },
+    });
+    await tx.baseballAppearance.updateMany({ where: { playerId: source.id }, data: { playerId: target.id } });
+    eventIds.push(...moved.map((a) => a.game.eventId));
+    affected.baseballAppearances = moved.length;
+    duplicates += dropped.count;
+  }
+  {
+    const kept = await tx.baseballPitchingAppearance.findMany({ where: { playerId: target.id }, select: { gameId: true } });
+    const dropped = await tx.baseballPitchingAppearance.deleteMany({
+      where: { playerId: source.id, gameId: { in: kept.map((a) => a.gameId) } },
+    });
+    const moved = await tx.baseballPitchingAppearance.findMany({
+      where: { playerId: source.id },
+      select: { game: { select: { eventId: true } } },
+    });
+    await tx.baseballPitchingAppearance.updateMany({ where: { playerId: source.id }, data: { playerId: target.id } });
+    eventIds.push(...moved.map((a) => a.game.eventId));
+    affected.pitchingAppearances = moved.length;
+    duplicates += dropped.count;
+  }
+
+  // Tennis: the match row names the players directly, appearances follow it
+  const tennisMatches = await tx.tennisMatch.findMany({
+    where: { OR: [{ player1Id: source.id }, { player2Id: source.id }, { winnerId: source.id }] },
+    select: { eventId: true },
+  });
+  await tx.tennisMatch.updateMany({ where: { player1Id: source.id }, data: { player1Id: target.id } });
+  await tx.tennisMatch.updateMany({ where: { player2Id: source.id }, data: { player2Id: target.id } });
+  await tx.tennisMatch.updateMany({ where: { winnerId: source.id }, data: { winnerId: target.id } });
+  await tx.tennisAppearance.updateMany({ where: { playerId: source.id }, data: { playerId: target.id } });
+  eventIds.push(...tennisMatches.map((m) => m.eventId));
+  affected.tennisMatches = tennisMatches.length;
+
+  // Soccer timelines: goals, cards and substitutions, on either side of the event
+  {
+    const moved = await tx.soccerMatchEvent.findMany({
+      where: { OR: [{ playerId: source.id }, { relatedPlayerId: source.id }] },
+      select: { match: { select: { eventId: true } } },
+    });
+    await tx.soccerMatchEvent.updateMany({ where: { playerId: source.id }, data: { playerId: target.id } });
+    await tx.soccerMatchEvent.updateMany({ where: { relatedPlayerId: source.id }, data: { relatedPlayerId: target.id } });
+    eventIds.push(...moved.map((e) => e.match.eventId));
+    affected.matchTimelineEntries = moved.length;
+  }
+
+  affected.duplicateAppearancesDropped = duplicates;
+
+  await tx.player.update({
+    where: { id: target.id },
+    data: fillMissing(target, source, ['team', 'externalId', 'photoUrl', 'nationality']),
+  });
+  await tx.player.delete({ where: { id: source.id } });
+
+  return { affected, eventIds, warnings };
+}
+
+async function mergeArtists(tx: Tx, sourceId: string, targetId: string): Promise<MergeOutcome> {
+  const [source, target] = await Promise.all([
+    tx.artist.findUniqueOrThrow({ where: { id: sourceId } }),
+    tx.artist.findUniqueOrThrow({ where: { id: targetId } }),
+  ]);
+
+  const warnings: string[] = [];
+  if (source.externalId && target.externalId && source.externalId !== target.externalId) {
+    warnings.push('The artists have different MusicBrainz IDs');
+  }
+
+  const concerts = await tx.concert.findMany({ where: { artistId: source.id }, select: { eventId: true } });
+  await tx.concert.updateMany({ where: { artistId: source.id }, data: { artistId: target.id } });
+  // Songs both artists have fold together; the rest move across
+  const songs = await mergeArtistSongs(tx, source.id, target.id);
+
+  await tx.artist.update({
+    where: { id: target.id },
+    data: fillMissing(target, source, ['genre', 'externalId', 'photoUrl']),
+  });
+  await tx.artist.delete({ where: { id: source.id } });
+
+  return {
+    affected: { concerts: concerts.length, songs },
+    eventIds: concerts.map((c) => c.eventId),
+    warnings,
+  };
+}
+
+async function mergeVenues(tx: Tx, sourceId: string, targetId: string): Promise<MergeOutcome> {
+  const [source, target] = await Promise.all([
+    tx.venue.findUniqueOrThrow({ where: { id: sourceId } }),
+    tx.venue.findUniqueOrThrow({ where: { id: targetId } }),
+  ]);
+
+  const warnings: string[] = [];
+  if (source.country !== target.country) {
+    warnings.push(`Different countries: ${source.country} and ${target.country}`);
+  }
+  if (source.type !== target.type) {
+    warnings.push(`Different venue types: ${source.type} and ${target.type}`);
+  }
+
+  const events = await tx.event.findMany({ where: { venueId: source.id }, select: { id: true } });
+  await tx.event.updateMany({ where: { venueId: source.id }, data: { venueId: target.id } });
+
+  // Coordinates travel as a pair; either way the moved events take the target's time zone
+  if (target.latitude == null && source.latitude != null && source.longitude != null) {
+    await setVenueCoordinates(target.id, source.latitude, source.longitude, tx);
+  } else if (target.timezone) {
+    await setVenueTimezone(target.id, target.timezone, tx);
+  }
+  await tx.venue.delete({ where: { id: source.id } });
+
+  return { affected: { events: events.length }, eventIds: events.map((e) => e.id), warnings };
+}
+
+const MERGERS: Record<MergeEntity, (tx: Tx, sourceId: string, targetId: string) => Promise<MergeOutcome>> = {
+  team: mergeTeams,
+  player: mergePlayers,
+  artist: mergeArtists,
+  venue: mergeVenues,
+};
+
+async function loadPair(tx: Tx, entity: MergeEntity, sourceId: string, targetId: string) {
+  if (sourceId === targetId) {
+    throw new MergeError('Cannot merge a record into itself');
+  }
+  const records = await loadMergeRecords(entity, { ids: [sourceId, targetId] }, tx);
+  const source = records.find((r) => r.id === sourceId);
+  const target = records.find((r) => r.id === targetId);
+  if (!source || !target) {
+    throw new MergeError(`${source ? 'Target' : 'Source'} ${entity} not found`);
+  }
+  return {
+    source: { id: source.id, name: source.name, detail: source.detail, usage: source.usage },
+    target: { id: target.id, name: target.name, detail: target.detail, usage: target.usage },
+  };
+}
+
+async function affectedEvents(tx: Tx, eventIds: string[], take?: number): Promise<AffectedEvent[]> {
+  return tx.event.findMany({
+    where: { id: { in: [...new Set(eventIds)] } },
+    select: { id: true, type: true, date: true, userId: true },
+    orderBy: { date: 'desc' },
+    take,
+  });
+}
+
+/**
+ * What merging `sourceId` into `targetId` would change. Nothing is written.
+ */
+export async function previewMerge(
+  entity: MergeEntity,
+  sourceId: string,
+  targetId: string
+): Promise<MergePreview> {
+  try {
+    await prisma.$transaction(
+      async (tx) => {
+        const pair = await loadPair(tx, entity, sourceId, targetId);
+        const outcome = await MERGERS[entity](tx, sourceId, targetId);
+        const events = await affectedEvents(tx, outcome.eventIds, PREVIEW_EVENT_LIMIT);
+
+        const warnings = [...outcome.warnings];
+        if (pair.source.usage > pair.target.usage) {
+          warnings.push(`"${pair.source.name}" is used more - consider keeping it instead`);
+        }
+        throw new PreviewRollback({ entity, ...pair, affected: outcome.affected, events, warnings });
+      },
+      { timeout: 60000, maxWait: 10000 }
+    );
+  } catch (error) {
+    if (error instanceof PreviewRollback) return error.preview;
+    throw error;
+  }
+  throw new Error('Preview transaction committed');
+}
+
+/**
+ * Merge `sourceId` into `targetId`: re-point every reference, copy across fields the
+ * target is missing, delete the source and write a MergeLog entry - all or nothing.
+ */
+export async function mergeRecords(
+  entity: MergeEntity,
+  sourceId: string,
+  targetId: string,
+  performedBy?: string
+): Promise<MergeResult> {
+  return prisma.$transaction(
+    async (tx) => {
+      const { source, target } = await loadPair(tx, entity, sourceId, targetId);
+      const outcome = await MERGERS[entity](tx, sourceId, targetId);
+      const events = await affectedEvents(tx, outcome.eventIds);
+
+      const log = await tx.mergeLog.create({
+        data: {
+          entityType: ENTITY_TYPES[entity],
+          sourceId: source.id,
+          sourceName: source.name,
+          targetId: target.id,
+          targetName: target.name,
+          affected: outcome.affected,
+          performedBy: performedBy ?? null,
+        },
+      });
+
+      return { log, userIds: [...new Set(events.map((e) => e.userId))] };
+    },
+    { timeout: 60000, maxWait: 10000 }
+  );
+}
+
+export async function listMergeLogs(limit = 50): Promise<MergeLog[]> {
+  return prisma.mergeLog.findMany({ orderBy: { createdAt: 'desc' }, take: limit });
+}
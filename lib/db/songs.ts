@@ -0,0 +1,121 @@
+// Song Catalogue
+// ✅ Code Quality Agent: One Song per artist, built from every setlist stored locally
+// Setlist rows keep the title as listed; the Song carries the canonical one
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { canonicalSongName, songKey } from '@/lib/utils/song-names';
+
+export interface SetlistSongInput {
+  songName: string;
+  order: number;
+  isEncore: boolean;
+  isCover: boolean;
+  coverArtist?: string | null;
+  isTape: boolean;
+  segue: boolean;
+  notes?: string | null;
+}
+
+/**
+ * The artist's Song for a setlist title, created on first sight.
+ */
+export async function findOrCreateSong(
+  tx: Prisma.TransactionClient,
+  artistId: string,
+  songName: string
+) {
+  const key = songKey(songName);
+  return tx.song.upsert({
+    where: { artistId_key: { artistId, key } },
+    update: {},
+    create: { artistId, key, name: canonicalSongName(songName) },
+  });
+}
+
+/**
+ * Replace a concert's setlist. Performed songs are linked to the artist's
+ * catalogue; tapes aren't songs the artist played, so they stay unlinked.
+ */
+export async function saveSetlist(
+  tx: Prisma.TransactionClient,
+  concertId: string,
+  artistId: string,
+  songs: SetlistSongInput[]
+) {
+  await tx.setlistItem.deleteMany({ where: { concertId } });
+  if (songs.length === 0) return;
+
+  const songIds = new Map<string, string>();
+  const data: Prisma.SetlistItemCreateManyInput[] = [];
+  for (const song of songs) {
+    let songId: string | null = null;
+    if (!song.isTape) {
+      const key = songKey(song.songName);
+      songId = songIds.get(key) ?? (await findOrCreateSong(tx, artistId, song.songName)).id;
+      songIds.set(key, songId);
+    }
+    data.push({
+      concertId,
+      songName: song.songName,
+      songId,
+      order: song.order,
+      isEncore: song.isEncore,
+      isCover: song.isCover,
+      coverArtist: song.isCover ? song.coverArtist || null : null,
+      isTape: song.isTape,
+      segue: song.segue,
+      notes: song.notes || null,
+    });
+  }
+  await tx.setlistItem.createMany({ data });
+}
+
+/**
+ * Fold `sourceArtistId`'s songs into `targetArtistId`'s, for artist merges.
+ * Returns how many songs were moved or folded.
+ */
+export async function mergeArtistSongs(
+  tx: Prisma.TransactionClient,
+  sourceArtistId: string,
+  targetArtistId: string
+): Promise<number> {
+  const songs = await tx.song.findMany({ where: { artistId: sourceArtistId } });
+  for (const song of songs) {
+    const existing = await tx.song.findUnique({
+      where: { artistId_key: { artistId: targetArtistId, key: song.key } },
+    });
+    if (existing) {
+      await tx.setlistItem.updateMany({ where: { songId: song.id }, data: { songId: existing.id } });
+      await tx.song.delete({ where: { id: song.id } });
+    } else {
+      await tx.song.update({ where: { id: song.id }, data: { artistId: targetArtistId } });
+    }
+  }
+  return songs.length;
+}
+
+/**
+ * Link setlist rows saved before the song catalogue existed. Tapes are left alone.
+ */
+export async function linkSetlistSongs(): Promise<Prisma.InputJsonObject> {
+  const items = await prisma.setlistItem.findMany({
+    where: { songId: null, isTape: false },
+    select: { id: true, songName: true, concert: { select: { artistId: true } } },
+  });
+
+  const songIds = new Map<string, string>();
+  let linked = 0;
+  for (const item of items) {
+    const cacheKey = `${item.concert.artistId}:${songKey(item.songName)}`;
+    let songId = songIds.get(cacheKey);
+    if (!songId) {
+      songId = (await findOrCreateSong(prisma, item.concert.artistId, item.songName)).id;
+      songIds.set(cacheKey, songId);
+    }
+    await prisma.setlistItem.update({ where: { id: item.id }, data: { songId } });
+    linked++;
+  }
+
+  return { checked: items.length, linked, songs: songIds.size };
+}
@@ -4,6 +4,19 @@
 
 import prisma from '@/lib/prisma';
 import { normalizeTeamName } from '@/lib/utils/team-names';
+import { getTeamAliasMaps, resolveTeamName, type TeamSport } from '@/lib/db/teams';
+import { periodEventWhere, type StatsPeriod } from '@/lib/utils/seasons';
+import { earnedRunAverage, formatInningsPitched } from '@/lib/utils/pitching';
+import { COMEBACK_MARGINS, summarizeLineScore, type LineScoreSport } from '@/lib/utils/line-score';
+import { findHatTricks, findWinningGoal, isGoal, toMatchEventInputs } from '@/lib/utils/match-timeline';
+import { formatScoreLine, resultForSide } from '@/lib/utils/match-result';
+import { canonicalSongName, songKey } from '@/lib/utils/song-names';
+import {
+  resolveSupportedSide,
+  supportedResult,
+  type MatchResult,
+  type SupportedSide,
+} from '@/lib/utils/supported-team';
 
 // Types for stats results
 export interface PlayerLeaderboardEntry {
@@ -16,10 +29,19 @@ export interface PlayerLeaderboardEntry {
   totalRebounds?: number;
   totalHits?: number;
   totalHomeRuns?: number;
+  totalRbis?: number;
+  // Pitching
+  totalStrikeOuts?: number;
+  inningsPitched?: string;
+  earnedRunAverage?: number | null;
+  wins?: number;
+  losses?: number;
+  saves?: number;
   appearances: number;
 }
 
 export interface TeamStatsEntry {
+  teamId?: string; // Absent for matches not yet linked to a Team
   teamName: string;
   sport?: string;
   logoUrl?: string | null;
@@ -34,6 +56,89 @@ export interface TeamStatsEntry {
   pointsAgainst?: number;
 }
 
+export interface TeamRecord {
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  scored: number;
+  conceded: number;
+}
+
+export interface TeamMeeting {
+  eventId: string;
+  date: Date;
+  competition: string | null;
+  venueName: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+  extraTime: boolean;
+  homePenalties: number | null; // Soccer shootouts
+  awayPenalties: number | null;
+}
+
+export interface TeamProfile {
+  teamId?: string;
+  teamName: string;
+  sport: string;
+  logoUrl: string | null;
+  externalId: number | null;
+  overall: TeamRecord;
+  home: TeamRecord;
+  away: TeamRecord;
+  byCompetition: (TeamRecord & { competition: string })[];
+  opponents: (TeamRecord & { opponentName: string })[];
+  matches: TeamMeeting[]; // Newest first
+}
+
+export interface HeadToHeadWin {
+  eventId: string;
+  date: Date;
+  score: string; // Winner's score first, e.g. "4-0"
+  margin: number;
+}
+
+export interface HeadToHead {
+  sport: string;
+  teamA: string;
+  teamB: string;
+  meetings: number;
+  teamAWins: number;
+  teamBWins: number;
+  draws: number;
+  teamAScore: number; // Aggregate across all meetings
+  teamBScore: number;
+  biggestWinA: HeadToHeadWin | null;
+  biggestWinB: HeadToHeadWin | null;
+  timeline: TeamMeeting[]; // Oldest first
+}
+
+export interface SupportedMatch {
+  eventId: string;
+  date: Date;
+  sport: string;
+  teamName: string; // The side the user supported
+  opponentName: string;
+  score: string; // Supported side first, e.g. "2-1" or "1-1 (4-3 pens)"
+  result: MatchResult;
+}
+
+export interface LuckRecord {
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  winRate: number; // Percentage of supported matches won
+  byTeam: { teamName: string; sport: string; played: number; wins: number; draws: number; losses: number }[];
+  currentUnbeaten: number;
+  currentWinless: number;
+  longestUnbeaten: number;
+  longestWinless: number;
+  recent: SupportedMatch[]; // Newest first
+}
+
 export interface VenueStatsEntry {
   venueId: string;
   venueName: string;
@@ -46,12 +151,80 @@ export interface VenueStatsEntry {
   draws: number;
 }
 
+export interface SongTally {
+  songName: string;
+  timesHeard: number;
+}
+
+// Song-level stats per artist. Variants like "Creep (Live)" count as one song, and
+// tapes don't count. "Played" figures come from every setlist stored locally for
+// the artist, whoever logged it.
+export interface ArtistSongStats {
+  uniqueSongs: number;
+  mostHeard: SongTally[];
+  rarest: (SongTally & { timesPlayed: number })[]; // Heard songs the artist plays least
+  covers: (SongTally & { coverArtist: string | null })[];
+  neverHeard: { songName: string; timesPlayed: number }[]; // Most played first, whatever the period
+  setlistsStored: number;
+}
+
 export interface ArtistStatsEntry {
   artistId: string;
   artistName: string;
   timesSeen: number;
   totalSongsHeard: number;
   topSongs: { songName: string; timesPlayed: number }[];
+  songStats: ArtistSongStats;
+}
+
+export interface TennisStatsSummary {
+  matchesSeen: number;
+  setsSeen: number;
+  tiebreaksWitnessed: number;
+  matchTiebreaks: number;
+  fiveSetters: number;
+  decidingSets: number; // Matches that went the distance (3 of 3 or 5 of 5)
+  bagels: number; // 6-0 sets
+  retirements: number;
+  walkovers: number;
+}
+
+export interface LineScoreStatsSummary {
+  gamesWithLineScore: number;
+  comebacks: number;
+  walkOffs: number;
+  overtimeGames: number; // Extra innings, overtime or extra time
+  biggestComeback: {
+    eventId: string;
+    date: Date;
+    sport: string;
+    winner: string;
+    loser: string;
+    deficit: number;
+  } | null;
+}
+
+export interface SoccerTimelineStatsSummary {
+  matchesWithTimeline: number;
+  goalsLogged: number;
+  redCards: number; // Straight reds and second yellows
+  hatTricks: {
+    eventId: string;
+    date: Date;
+    playerName: string;
+    goals: number;
+    team: string;
+    opponent: string;
+  }[];
+  latestWinner: {
+    eventId: string;
+    date: Date;
+    playerName: string | null;
+    minute: number;
+    extraMinute: number | null;
+    team: string;
+    opponent: string;
+  } | null;
 }
 
 // Get player leaderboard for soccer
@@ -59,28 +232,18 @@ export async function getSoccerLeaderboard(
   userId: string,
   statType: 'goals' | 'assists' | 'appearances' = 'goals',
   limit: number = 20,
-  year?: number
+  period: StatsPeriod = {}
 ): Promise<PlayerLeaderboardEntry[]> {
   const whereClause: Record<string, unknown> = {
     match: {
       event: {
         userId,
+        status: 'ATTENDED',
+        ...periodEventWhere(period),
       },
     },
   };
 
-  if (year) {
-    whereClause.match = {
-      event: {
-        userId,
-        date: {
-          gte: new Date(`${year}-01-01`),
-          lt: new Date(`${year + 1}-01-01`),
-        },
-      },
-    };
-  }
-
   const players = await prisma.soccerAppearance.groupBy({
     by: ['playerId'],
     where: whereClause,
@@ -126,28 +289,18 @@ export async function getBasketballLeaderboard(
   userId: string,
   statType: 'points' | 'rebounds' | 'assists' | 'appearances' = 'points',
   limit: number = 20,
-  year?: number
+  period: StatsPeriod = {}
 ): Promise<PlayerLeaderboardEntry[]> {
   const whereClause: Record<string, unknown> = {
     game: {
       event: {
         userId,
+        status: 'ATTENDED',
+        ...periodEventWhere(period),
       },
     },
   };
 
-  if (year) {
-    whereClause.game = {
-      event: {
-        userId,
-        date: {
-          gte: new Date(`${year}-01-01`),
-          lt: new Date(`${year + 1}-01-01`),
-        },
-      },
-    };
-  }
-
   const players = await prisma.basketballAppearance.groupBy({
     by: ['playerId'],
     where: whereClause,
@@ -190,33 +343,31 @@ export async function getBasketballLeaderboard(
   });
 }
 
-// Get player leaderboard for baseball
+export const BASEBALL_PITCHING_STATS = ['pitcherStrikeOuts', 'inningsPitched', 'wins', 'saves'] as const;
+export type BaseballPitchingStat = (typeof BASEBALL_PITCHING_STATS)[number];
+export type BaseballStat = 'homeRuns' | 'hits' | 'rbis' | 'appearances' | BaseballPitchingStat;
+
+// Get player leaderboard for baseball - batting stats, or pitching stats for pitchers
 export async function getBaseballLeaderboard(
   userId: string,
-  statType: 'homeRuns' | 'hits' | 'rbis' | 'appearances' = 'homeRuns',
+  statType: BaseballStat = 'homeRuns',
   limit: number = 20,
-  year?: number
+  period: StatsPeriod = {}
 ): Promise<PlayerLeaderboardEntry[]> {
+  if ((BASEBALL_PITCHING_STATS as readonly string[]).includes(statType)) {
+    return getPitchingLeaderboard(userId, statType as BaseballPitchingStat, limit, period);
+  }
+
   const whereClause: Record<string, unknown> = {
     game: {
       event: {
         userId,
+        status: 'ATTENDED',
+        ...periodEventWhere(period),
       },
     },
   };
 
-  if (year) {
-    whereClause.game = {
-      event: {
-        userId,
-        date: {
-          gte: new Date(`${year}-01-01`),
-          lt: new Date(`${year + 1}-01-01`),
-        },
-      },
-    };
-  }
-
   const players = await prisma.baseballAppearance.groupBy({
     by: ['playerId'],
     where: whereClause,
@@ -253,19 +404,113 @@ export async function getBaseballLeaderboard(
       teamName: details?.team || 'Unknown',
       totalHits: p._sum.hits || 0,
       totalHomeRuns: p._sum.homeRuns || 0,
+      totalRbis: p._sum.rbis || 0,
       appearances: p._count.playerId,
     };
   });
 }
 
+interface PitcherTotals {
+  playerName: string;
+  teamName: string;
+  outs: number;
+  earnedRuns: number;
+  strikeOuts: number;
+  wins: number;
+  losses: number;
+  saves: number;
+  appearances: number;
+}
+
+// Pitcher leaderboard. Decisions are counted, not summed, so lines are totalled here
+async function getPitchingLeaderboard(
+  userId: string,
+  statType: BaseballPitchingStat,
+  limit: number,
+  period: StatsPeriod
+): Promise<PlayerLeaderboardEntry[]> {
+  const lines = await prisma.baseballPitchingAppearance.findMany({
+    where: {
+      game: {
+        event: {
+          userId,
+          status: 'ATTENDED',
+          ...periodEventWhere(period),
+        },
+      },
+    },
+    select: {
+      playerId: true,
+      outsRecorded: true,
+      earnedRuns: true,
+      strikeOuts: true,
+      decision: true,
+      player: { select: { name: true, team: true } },
+    },
+  });
+
+  const totals = new Map<string, PitcherTotals>();
+  for (const line of lines) {
+    const total = totals.get(line.playerId) ?? {
+      playerName: line.player.name,
+      teamName: line.player.team || 'Unknown',
+      outs: 0,
+      earnedRuns: 0,
+      strikeOuts: 0,
+      wins: 0,
+      losses: 0,
+      saves: 0,
+      appearances: 0,
+    };
+    total.outs += line.outsRecorded;
+    total.earnedRuns += line.earnedRuns;
+    total.strikeOuts += line.strikeOuts;
+    if (line.decision === 'WIN') total.wins++;
+    if (line.decision === 'LOSS') total.losses++;
+    if (line.decision === 'SAVE') total.saves++;
+    total.appearances++;
+    totals.set(line.playerId, total);
+  }
+
+  const sortValue = (total: PitcherTotals) => {
+    switch (statType) {
+      case 'pitcherStrikeOuts':
+        return total.strikeOuts;
+      case 'inningsPitched':
+        return total.outs;
+      case 'wins':
+        return total.wins;
+      case 'saves':
+        return total.saves;
+    }
+  };
+
+  return [...totals.entries()]
+    .sort(([, a], [, b]) => sortValue(b) - sortValue(a) || b.appearances - a.appearances)
+    .slice(0, limit)
+    .map(([playerId, total]) => ({
+      playerId,
+      playerName: total.playerName,
+      teamName: total.teamName,
+      totalStrikeOuts: total.strikeOuts,
+      inningsPitched: formatInningsPitched(total.outs),
+      earnedRunAverage: earnedRunAverage(total.earnedRuns, total.outs),
+      wins: total.wins,
+      losses: total.losses,
+      saves: total.saves,
+      appearances: total.appearances,
+    }));
+}
+
 // Get player profile with all appearances
-export async function getPlayerProfile(userId: string, playerId: string) {
+export async function getPlayerProfile(userId: string, playerId: string, period: StatsPeriod = {}) {
+  const eventWhere = { userId, status: 'ATTENDED' as const, ...periodEventWhere(period) };
   const player = await prisma.player.findUnique({
     where: { id: playerId },
     include: {
       soccerAppearances: {
         where: {
-          match: { event: { userId } },
+          match: { event: eventWhere },
         },
         include: {
           match: {
@@ -281,7 +526,7 @@ export async function getPlayerProfile(userId: string, playerId: string) {
       },
       basketballAppearances: {
         where: {
-          game: { event: { userId } },
+          game: { event: eventWhere },
         },
         include: {
           game: {
@@ -297,7 +542,23 @@ export async function getPlayerProfile(userId: string, playerId: string) {
       },
       baseballAppearances: {
         where: {
-          game: { event: { userId } },
+          game: { event: eventWhere },
+        },
+        include: {
+          game: {
+            include: {
+              event: {
+                include: {
+                  venue: true,
+                },
+              },
+            },
+          },
+        },
+      },
+      pitchingAppearances: {
+        where: {
+          game: { event: eventWhere },
         },
         include: {
           game: {
@@ -326,6 +587,14 @@ export async function getPlayerProfile(userId: string, playerId: string) {
     homeRuns: 0,
     rbis: 0,
     appearances: 0,
+    // Pitching
+    inningsPitched: '0.0',
+    strikeOuts: 0,
+    earnedRunAverage: null as number | null,
+    wins: 0,
+    losses: 0,
+    saves: 0,
+    pitchingAppearances: 0,
   };
 
   // Process soccer appearances
@@ -350,6 +619,53 @@ export async function getPlayerProfile(userId: string, playerId: string) {
     totalStats.appearances++;
   }
 
+  // Process pitching lines - a game the player also batted in counts once
+  const battedGameIds = new Set(player.baseballAppearances.map((app) => app.gameId));
+  let outsRecorded = 0;
+  let earnedRuns = 0;
+  for (const line of player.pitchingAppearances) {
+    outsRecorded += line.outsRecorded;
+    earnedRuns += line.earnedRuns;
+    totalStats.strikeOuts += line.strikeOuts;
+    if (line.decision === 'WIN') totalStats.wins++;
+    if (line.decision === 'LOSS') totalStats.losses++;
+    if (line.decision === 'SAVE') totalStats.saves++;
+    totalStats.pitchingAppearances++;
+    if (!battedGameIds.has(line.gameId)) totalStats.appearances++;
+  }
+  totalStats.inningsPitched = formatInningsPitched(outsRecorded);
+  totalStats.earnedRunAverage = earnedRunAverage(earnedRuns, outsRecorded);
+
+  const pitchingByGame = new Map(
+    player.pitchingAppearances.map((line) => [
+      line.gameId,
+      {
+        inningsPitched: formatInningsPitched(line.outsRecorded),
+        hits: line.hits,
+        runs: line.runs,
+        earnedRuns: line.earnedRuns,
+        walks: line.walks,
+        strikeOuts: line.strikeOuts,
+        pitchCount: line.pitchCount,
+        decision: line.decision,
+      },
+    ])
+  );
+  const baseballEvent = (game: (typeof player.baseballAppearances)[number]['game']) => ({
+    id: game.event.id,
+    date: game.event.date.toISOString(),
+    type: 'BASEBALL',
+    venue: game.event.venue,
+    soccerMatch: null,
+    basketballGame: null,
+    baseballGame: {
+      homeTeam: game.homeTeam,
+      awayTeam: game.awayTeam,
+      homeScore: game.homeScore,
+      awayScore: game.awayScore,
+    },
+  });
+
   // Combine all appearances with normalized event data
   const appearances = [
     ...player.soccerAppearances.map((app) => ({
@@ -360,6 +676,7 @@ export async function getPlayerProfile(userId: string, playerId: string) {
       rebounds: null,
       hits: null,
       homeRuns: null,
+      pitching: null,
       event: {
         id: app.match.event.id,
         date: app.match.event.date.toISOString(),
@@ -383,6 +700,7 @@ export async function getPlayerProfile(userId: string, playerId: string) {
       rebounds: app.rebounds,
       hits: null,
       homeRuns: null,
+      pitching: null,
       event: {
         id: app.game.event.id,
         date: app.game.event.date.toISOString(),
@@ -406,21 +724,23 @@ export async function getPlayerProfile(userId: string, playerId: string) {
       rebounds: null,
       hits: app.hits,
       homeRuns: app.homeRuns,
-      event: {
-        id: app.game.event.id,
-        date: app.game.event.date.toISOString(),
-        type: 'BASEBALL',
-        venue: app.game.event.venue,
-        soccerMatch: null,
-        basketballGame: null,
-        baseballGame: {
-          homeTeam: app.game.homeTeam,
-          awayTeam: app.game.awayTeam,
-          homeScore: app.game.homeScore,
-          awayScore: app.game.awayScore,
-        },
-      },
+      pitching: pitchingByGame.get(app.gameId) ?? null,
+      event: baseballEvent(app.game),
     })),
+    // Games the player only pitched in
+    ...player.pitchingAppearances
+      .filter((line) => !battedGameIds.has(line.gameId))
+      .map((line) => ({
+        id: line.id,
+        goals: null,
+        assists: null,
+        points: null,
+        rebounds: null,
+        hits: null,
+        homeRuns: null,
+        pitching: pitchingByGame.get(line.gameId) ?? null,
+        event: baseballEvent(line.game),
+      })),
   ].sort((a, b) => new Date(b.event.date).getTime() - new Date(a.event.date).getTime());
 
   return {
@@ -440,73 +760,44 @@ export async function getPlayerProfile(userId: string, playerId: string) {
 // Get team stats (win/loss record)
 export async function getTeamStats(
   userId: string,
-  year?: number
+  period: StatsPeriod = {}
 ): Promise<TeamStatsEntry[]> {
   const whereClause: Record<string, unknown> = {
     userId,
+    status: 'ATTENDED',
     type: { in: ['SOCCER', 'BASKETBALL', 'BASEBALL'] },
+    ...periodEventWhere(period),
   };
 
-  if (year) {
-    whereClause.date = {
-      gte: new Date(`${year}-01-01`),
-      lt: new Date(`${year + 1}-01-01`),
-    };
-  }
-
-  // Get all events with match data
+  // Get all events with match data and the teams they're linked to
+  const teamRef = { select: { id: true, name: true, sport: true, logoUrl: true, externalId: true } };
+  const gameInclude = { include: { homeTeamRef: teamRef, awayTeamRef: teamRef } };
   const events = await prisma.event.findMany({
     where: whereClause,
     include: {
-      soccerMatch: true,
-      basketballGame: true,
-      baseballGame: true,
+      soccerMatch: gameInclude,
+      basketballGame: gameInclude,
+      baseballGame: gameInclude,
     },
   });
+  const aliases = await getTeamAliasMaps();
 
-  // Aggregate by team (normalize names to consolidate across APIs)
-  const teamStatsMap = new Map<string, TeamStatsEntry>();
-
-  for (const event of events) {
-    const match = event.soccerMatch || event.basketballGame || event.baseballGame;
-    if (!match) continue;
-
-    // Normalize team names so "Manchester United FC" and "Manchester United" merge
-    const homeTeam = normalizeTeamName(match.homeTeam);
-    const awayTeam = normalizeTeamName(match.awayTeam);
-    const homeScore = match.homeScore || 0;
-    const awayScore = match.awayScore || 0;
+  type TeamInfo = { id: string; name: string; sport: string; logoUrl: string | null; externalId: string | null };
 
-    // Process home team
-    if (!teamStatsMap.has(homeTeam)) {
-      teamStatsMap.set(homeTeam, {
-        teamName: homeTeam,
-        wins: 0,
-        losses: 0,
-        draws: 0,
-        totalGames: 0,
-        goalsFor: 0,
-        goalsAgainst: 0,
-        pointsFor: 0,
-        pointsAgainst: 0,
-      });
-    }
-    const homeStats = teamStatsMap.get(homeTeam)!;
-    homeStats.totalGames++;
-    homeStats.goalsFor += homeScore;
-    homeStats.goalsAgainst += awayScore;
-    if (event.type === 'BASKETBALL') {
-      homeStats.pointsFor = (homeStats.pointsFor || 0) + homeScore;
-      homeStats.pointsAgainst = (homeStats.pointsAgainst || 0) + awayScore;
-    }
-    if (homeScore > awayScore) homeStats.wins++;
-    else if (homeScore < awayScore) homeStats.losses++;
-    else homeStats.draws++;
-
-    // Process away team
-    if (!teamStatsMap.has(awayTeam)) {
-      teamStatsMap.set(awayTeam, {
-        teamName: awayTeam,
+  // Aggregate by team - linked matches group by Team id, so spelling differences can't split a team
+  const teamStatsMap = new Map<string, TeamStatsEntry>();
+  const teamInfoMap = new Map<string, TeamInfo>();
+  const unlinkedNames = new Set<string>();
+
+  const getEntry = (sport: string, name: string, team: TeamInfo | null) => {
+    // Matches from before the Team link fall back to the alias-resolved name
+    const canonical = normalizeTeamName(name, aliases[sport as TeamSport]);
+    const key = team?.id ?? `${sport}::${canonical}`;
+    if (!teamStatsMap.has(key)) {
+      teamStatsMap.set(key, {
+        teamId: team?.id,
+        teamName: team?.name ?? canonical,
+        sport: sport.toLowerCase(),
         wins: 0,
         losses: 0,
         draws: 0,
@@ -516,35 +807,72 @@ export async function getTeamStats(
         pointsFor: 0,
         pointsAgainst: 0,
       });
+      if (team) teamInfoMap.set(key, team);
+      else unlinkedNames.add(canonical);
     }
-    const awayStats = teamStatsMap.get(awayTeam)!;
-    awayStats.totalGames++;
-    awayStats.goalsFor += awayScore;
-    awayStats.goalsAgainst += homeScore;
-    if (event.type === 'BASKETBALL') {
-      awayStats.pointsFor = (awayStats.pointsFor || 0) + awayScore;
-      awayStats.pointsAgainst = (awayStats.pointsAgainst || 0) + homeScore;
+    return teamStatsMap.get(key)!;
+  };
+
+  const record = (
+    stats: TeamStatsEntry,
+    scored: number,
+    conceded: number,
+    result: MatchResult,
+    isBasketball: boolean
+  ) => {
+    stats.totalGames++;
+    stats.goalsFor += scored;
+    stats.goalsAgainst += conceded;
+    if (isBasketball) {
+      stats.pointsFor = (stats.pointsFor || 0) + scored;
+      stats.pointsAgainst = (stats.pointsAgainst || 0) + conceded;
     }
-    if (awayScore > homeScore) awayStats.wins++;
-    else if (awayScore < homeScore) awayStats.losses++;
-    else awayStats.draws++;
+    if (result === 'W') stats.wins++;
+    else if (result === 'L') stats.losses++;
+    else stats.draws++;
+  };
+
+  for (const event of events) {
+    const match = event.soccerMatch || event.basketballGame || event.baseballGame;
+    if (!match) continue;
+
+    const homeScore = match.homeScore || 0;
+    const awayScore = match.awayScore || 0;
+    const isBasketball = event.type === 'BASKETBALL';
+
+    // Shootout winners take the win, level scores notwithstanding
+    record(
+      getEntry(event.type, match.homeTeam, match.homeTeamRef),
+      homeScore,
+      awayScore,
+      resultForSide('home', match),
+      isBasketball
+    );
+    record(
+      getEntry(event.type, match.awayTeam, match.awayTeamRef),
+      awayScore,
+      homeScore,
+      resultForSide('away', match),
+      isBasketball
+    );
   }
 
-  // Enrich with team logos from the Team table
-  const teamNames = Array.from(teamStatsMap.keys());
-  const teams = await prisma.team.findMany({
-    where: { name: { in: teamNames } },
-    select: { name: true, sport: true, logoUrl: true, externalId: true },
-  });
-  
-  // Also look up logos using the un-normalized names in case the Team table has old data
-  const teamLookup = new Map(teams.map(t => [t.name, t]));
+  // Unlinked teams look their logos up by name
+  if (unlinkedNames.size > 0) {
+    const teams = await prisma.team.findMany({
+      where: { name: { in: Array.from(unlinkedNames) } },
+      select: { id: true, name: true, sport: true, logoUrl: true, externalId: true },
+    });
+    for (const team of teams) {
+      const key = `${team.sport}::${team.name}`;
+      if (teamStatsMap.has(key)) teamInfoMap.set(key, team);
+    }
+  }
 
-  const result = Array.from(teamStatsMap.values()).map(stat => {
-    const teamInfo = teamLookup.get(stat.teamName);
+  const result = Array.from(teamStatsMap.entries()).map(([key, stat]) => {
+    const teamInfo = teamInfoMap.get(key);
     return {
       ...stat,
-      sport: teamInfo?.sport?.toLowerCase() || undefined,
       logoUrl: teamInfo?.logoUrl || null,
       externalId: teamInfo?.externalId ? parseInt(teamInfo.externalId) : null,
     };
@@ -553,22 +881,339 @@ export async function getTeamStats(
   return result.sort((a, b) => b.totalGames - a.totalGames);
 }
 
+// One attended match with both sides named canonically (linked Team name, or the normalized string)
+interface TeamMatchRow extends TeamMeeting {
+  sport: string;
+  homeTeamId?: string;
+  awayTeamId?: string;
+  supportedSide: SupportedSide | null; // As tagged on the event
+}
+
+async function getTeamMatchRows(userId: string, period: StatsPeriod = {}): Promise<TeamMatchRow[]> {
+  const whereClause: Record<string, unknown> = {
+    userId,
+    status: 'ATTENDED',
+    type: { in: ['SOCCER', 'BASKETBALL', 'BASEBALL'] },
+    ...periodEventWhere(period),
+  };
+
+  const teamRef = { select: { id: true, name: true } };
+  const gameInclude = { include: { homeTeamRef: teamRef, awayTeamRef: teamRef } };
+  const events = await prisma.event.findMany({
+    where: whereClause,
+    include: {
+      venue: { select: { name: true } },
+      soccerMatch: gameInclude,
+      basketballGame: gameInclude,
+      baseballGame: gameInclude,
+    },
+    orderBy: { date: 'asc' },
+  });
+  const aliases = await getTeamAliasMaps();
+
+  const rows: TeamMatchRow[] = [];
+  for (const event of events) {
+    const match = event.soccerMatch || event.basketballGame || event.baseballGame;
+    if (!match) continue;
+    const sportAliases = aliases[event.type as TeamSport];
+
+    rows.push({
+      eventId: event.id,
+      date: event.date,
+      sport: event.type,
+      competition: match.competition,
+      venueName: event.venue.name,
+      homeTeam: match.homeTeamRef?.name ?? normalizeTeamName(match.homeTeam, sportAliases),
+      awayTeam: match.awayTeamRef?.name ?? normalizeTeamName(match.awayTeam, sportAliases),
+      homeTeamId: match.homeTeamRef?.id,
+      awayTeamId: match.awayTeamRef?.id,
+      supportedSide: event.supportedSide,
+      homeScore: match.homeScore || 0,
+      awayScore: match.awayScore || 0,
+      ...shootoutOf(match),
+    });
+  }
+  return rows;
+}
+
+// Extra time and shootout fields - soccer only, empty for the other sports
+function shootoutOf(match: object): Pick<TeamMeeting, 'extraTime' | 'homePenalties' | 'awayPenalties'> {
+  const soccer = match as Partial<Pick<TeamMeeting, 'extraTime' | 'homePenalties' | 'awayPenalties'>>;
+  return {
+    extraTime: soccer.extraTime ?? false,
+    homePenalties: soccer.homePenalties ?? null,
+    awayPenalties: soccer.awayPenalties ?? null,
+  };
+}
+
+function emptyRecord(): TeamRecord {
+  return { played: 0, wins: 0, draws: 0, losses: 0, scored: 0, conceded: 0 };
+}
+
+function addResult(record: TeamRecord, scored: number, conceded: number, result: MatchResult) {
+  record.played++;
+  record.scored += scored;
+  record.conceded += conceded;
+  if (result === 'W') record.wins++;
+  else if (result === 'L') record.losses++;
+  else record.draws++;
+}
+
+// Which side `teamName` was on, or null if it didn't play
+function sideOf(row: TeamMatchRow, teamName: string): 'home' | 'away' | null {
+  if (row.homeTeam === teamName) return 'home';
+  if (row.awayTeam === teamName) return 'away';
+  return null;
+}
+
+// Canonical name and sport for a team typed in a URL, using each sport's aliases.
+// Without a sport, the sport it was seen in most wins
+async function resolveTeamInRows(rows: TeamMatchRow[], name: string, sport?: string) {
+  const sports = sport ? [sport] : ['SOCCER', 'BASKETBALL', 'BASEBALL'];
+  let best: { teamName: string; sport: string; count: number } | null = null;
+
+  for (const candidateSport of sports) {
+    const teamName = await resolveTeamName(name, candidateSport);
+    const count = rows.filter((row) => row.sport === candidateSport && sideOf(row, teamName)).length;
+    if (count > 0 && (!best || count > best.count)) {
+      best = { teamName, sport: candidateSport, count };
+    }
+  }
+  return best && { teamName: best.teamName, sport: best.sport };
+}
+
+/**
+ * A team's record across the matches the user attended - overall, home/away,
+ * per competition and per opponent. Null if the user never saw them play.
+ */
+export async function getTeamProfile(
+  userId: string,
+  name: string,
+  options: { sport?: string } & StatsPeriod = {}
+): Promise<TeamProfile | null> {
+  const allRows = await getTeamMatchRows(userId, options);
+  const resolved = await resolveTeamInRows(allRows, name, options.sport);
+  if (!resolved) return null;
+
+  const { teamName, sport } = resolved;
+  const rows = allRows.filter((row) => row.sport === sport && sideOf(row, teamName));
+
+  const overall = emptyRecord();
+  const home = emptyRecord();
+  const away = emptyRecord();
+  const competitions = new Map<string, TeamRecord>();
+  const opponents = new Map<string, TeamRecord>();
+  let teamId: string | undefined;
+
+  for (const row of rows) {
+    const isHome = sideOf(row, teamName) === 'home';
+    const scored = isHome ? row.homeScore : row.awayScore;
+    const conceded = isHome ? row.awayScore : row.homeScore;
+    const result = resultForSide(isHome ? 'home' : 'away', row);
+    const opponent = isHome ? row.awayTeam : row.homeTeam;
+    teamId ??= isHome ? row.homeTeamId : row.awayTeamId;
+
+    addResult(overall, scored, conceded, result);
+    addResult(isHome ? home : away, scored, conceded, result);
+
+    const competition = row.competition || 'Other';
+    if (!competitions.has(competition)) competitions.set(competition, emptyRecord());
+    addResult(competitions.get(competition)!, scored, conceded, result);
+
+    if (!opponents.has(opponent)) opponents.set(opponent, emptyRecord());
+    addResult(opponents.get(opponent)!, scored, conceded, result);
+  }
+
+  const team = await prisma.team.findFirst({
+    where: teamId ? { id: teamId } : { name: teamName, sport },
+    select: { id: true, logoUrl: true, externalId: true },
+  });
+
+  return {
+    teamId: team?.id,
+    teamName,
+    sport: sport.toLowerCase(),
+    logoUrl: team?.logoUrl ?? null,
+    externalId: team?.externalId ? parseInt(team.externalId) : null,
+    overall,
+    home,
+    away,
+    byCompetition: Array.from(competitions.entries())
+      .map(([competition, record]) => ({ competition, ...record }))
+      .sort((a, b) => b.played - a.played),
+    opponents: Array.from(opponents.entries())
+      .map(([opponentName, record]) => ({ opponentName, ...record }))
+      .sort((a, b) => b.played - a.played || a.opponentName.localeCompare(b.opponentName)),
+    matches: rows.map(toMeeting).reverse(),
+  };
+}
+
+/**
+ * Every attended meeting between two teams, with the W/D/L from team A's side.
+ * Null if the user never saw them play each other.
+ */
+export async function getHeadToHead(
+  userId: string,
+  teamA: string,
+  teamB: string,
+  options: { sport?: string } & StatsPeriod = {}
+): Promise<HeadToHead | null> {
+  const allRows = await getTeamMatchRows(userId, options);
+  const resolvedA = await resolveTeamInRows(allRows, teamA, options.sport);
+  if (!resolvedA) return null;
+
+  const { teamName: a, sport } = resolvedA;
+  const b = await resolveTeamName(teamB, sport);
+  const timeline = allRows.filter(
+    (row) => row.sport === sport && sideOf(row, a) && sideOf(row, b)
+  );
+  if (timeline.length === 0) return null;
+
+  const record = emptyRecord();
+  let biggestWinA: HeadToHeadWin | null = null;
+  let biggestWinB: HeadToHeadWin | null = null;
+
+  // Bigger margin wins; on a tie the higher-scoring game, then the earlier one
+  const isBigger = (win: HeadToHeadWin, best: HeadToHeadWin | null, winnerScore: number) =>
+    !best || win.margin > best.margin ||
+    (win.margin === best.margin && winnerScore > parseInt(best.score));
+
+  for (const row of timeline) {
+    const aIsHome = sideOf(row, a) === 'home';
+    const scoreA = aIsHome ? row.homeScore : row.awayScore;
+    const scoreB = aIsHome ? row.awayScore : row.homeScore;
+    addResult(record, scoreA, scoreB, resultForSide(aIsHome ? 'home' : 'away', row));
+
+    if (scoreA !== scoreB) {
+      const winnerScore = Math.max(scoreA, scoreB);
+      const win: HeadToHeadWin = {
+        eventId: row.eventId,
+        date: row.date,
+        score: `${winnerScore}-${Math.min(scoreA, scoreB)}`,
+        margin: Math.abs(scoreA - scoreB),
+      };
+      if (scoreA > scoreB && isBigger(win, biggestWinA, winnerScore)) biggestWinA = win;
+      if (scoreB > scoreA && isBigger(win, biggestWinB, winnerScore)) biggestWinB = win;
+    }
+  }
+
+  return {
+    sport: sport.toLowerCase(),
+    teamA: a,
+    teamB: b,
+    meetings: record.played,
+    teamAWins: record.wins,
+    teamBWins: record.losses,
+    draws: record.draws,
+    teamAScore: record.scored,
+    teamBScore: record.conceded,
+    biggestWinA,
+    biggestWinB,
+    timeline: timeline.map(toMeeting),
+  };
+}
+
+function toMeeting(row: TeamMatchRow): TeamMeeting {
+  return {
+    eventId: row.eventId,
+    date: row.date,
+    competition: row.competition,
+    venueName: row.venueName,
+    homeTeam: row.homeTeam,
+    awayTeam: row.awayTeam,
+    homeScore: row.homeScore,
+    awayScore: row.awayScore,
+    extraTime: row.extraTime,
+    homePenalties: row.homePenalties,
+    awayPenalties: row.awayPenalties,
+  };
+}
+
+/**
+ * The user's "lucky charm" record - how the side they supported did in the
+ * matches they attended, with unbeaten and winless runs (oldest to newest).
+ */
+export async function getLuckRecord(userId: string, period: StatsPeriod = {}): Promise<LuckRecord> {
+  const [rows, favorites] = await Promise.all([
+    getTeamMatchRows(userId, period),
+    prisma.favoriteTeam.findMany({ where: { userId }, select: { teamId: true } }),
+  ]);
+  const favoriteTeamIds = new Set(favorites.map((f) => f.teamId));
+
+  const matches: SupportedMatch[] = [];
+  for (const row of rows) {
+    const side = resolveSupportedSide(row.supportedSide, row.homeTeamId, row.awayTeamId, favoriteTeamIds);
+    if (!side) continue;
+
+    const home = side === 'HOME';
+    matches.push({
+      eventId: row.eventId,
+      date: row.date,
+      sport: row.sport,
+      teamName: home ? row.homeTeam : row.awayTeam,
+      opponentName: home ? row.awayTeam : row.homeTeam,
+      score: formatScoreLine(row, home ? 'home' : 'away'),
+      result: supportedResult(side, row),
+    });
+  }
+
+  const byTeam = new Map<string, LuckRecord['byTeam'][number]>();
+  let unbeaten = 0;
+  let winless = 0;
+  let longestUnbeaten = 0;
+  let longestWinless = 0;
+
+  for (const match of matches) {
+    const key = `${match.sport}:${match.teamName}`;
+    const team = byTeam.get(key) ?? {
+      teamName: match.teamName,
+      sport: match.sport,
+      played: 0,
+      wins: 0,
+      draws: 0,
+      losses: 0,
+    };
+    team.played++;
+    if (match.result === 'W') team.wins++;
+    else if (match.result === 'D') team.draws++;
+    else team.losses++;
+    byTeam.set(key, team);
+
+    unbeaten = match.result === 'L' ? 0 : unbeaten + 1;
+    winless = match.result === 'W' ? 0 : winless + 1;
+    longestUnbeaten = Math.max(longestUnbeaten, unbeaten);
+    longestWinless = Math.max(longestWinless, winless);
+  }
+
+  const wins = matches.filter((m) => m.result === 'W').length;
+  const draws = matches.filter((m) => m.result === 'D').length;
+
+  return {
+    played: matches.length,
+    wins,
+    draws,
+    losses: matches.length - wins - draws,
+    winRate: matches.length > 0 ? Math.round((wins / matches.length) * 100) : 0,
+    byTeam: [...byTeam.values()].sort((a, b) => b.played - a.played),
+    currentUnbeaten: unbeaten,
+    currentWinless: winless,
+    longestUnbeaten,
+    longestWinless,
+    recent: matches.slice(-10).reverse(),
+  };
+}
+
 // Get venue stats
 export async function getVenueStats(
   userId: string,
-  year?: number
+  period: StatsPeriod = {}
 ): Promise<VenueStatsEntry[]> {
   const whereClause: Record<string, unknown> = {
     userId,
+    status: 'ATTENDED',
+    ...periodEventWhere(period),
   };
 
-  if (year) {
-    whereClause.date = {
-      gte: new Date(`${year}-01-01`),
-      lt: new Date(`${year + 1}-01-01`),
-    };
-  }
-
   const events = await prisma.event.findMany({
     where: whereClause,
     include: {
@@ -614,11 +1259,10 @@ export async function getVenueStats(
     // Track win/loss for sports events
     const match = event.soccerMatch || event.basketballGame || event.baseballGame;
     if (match) {
-      const homeScore = match.homeScore || 0;
-      const awayScore = match.awayScore || 0;
       // Assuming user is a "home" fan when at the venue
-      if (homeScore > awayScore) stats.wins++;
-      else if (homeScore < awayScore) stats.losses++;
+      const result = resultForSide('home', match);
+      if (result === 'W') stats.wins++;
+      else if (result === 'L') stats.losses++;
       else stats.draws++;
     }
   }
@@ -628,41 +1272,39 @@ export async function getVenueStats(
   );
 }
 
-// Get artist stats for concerts
+// Get artist stats for concerts, with song-level stats - optionally for one artist
 export async function getArtistStats(
   userId: string,
-  year?: number
+  period: StatsPeriod = {},
+  onlyArtistId?: string
 ): Promise<ArtistStatsEntry[]> {
   const whereClause: Record<string, unknown> = {
     userId,
+    status: 'ATTENDED',
     type: 'CONCERT',
+    ...(onlyArtistId && { concert: { artistId: onlyArtistId } }),
+    ...periodEventWhere(period),
   };
 
-  if (year) {
-    whereClause.date = {
-      gte: new Date(`${year}-01-01`),
-      lt: new Date(`${year + 1}-01-01`),
-    };
-  }
-
   const events = await prisma.event.findMany({
     where: whereClause,
     include: {
       concert: {
         include: {
           artist: true,
-          setlist: true,
+          setlist: { include: { song: true } },
         },
       },
     },
   });
 
-  // Aggregate by artist
+  // Aggregate by artist, songs keyed by their canonical title
   const artistStatsMap = new Map<string, {
     artistId: string;
     artistName: string;
     timesSeen: number;
-    songs: Map<string, number>;
+    songs: Map<string, SongTally>;
+    covers: Map<string, SongTally & { coverArtist: string | null }>;
   }>();
 
   for (const event of events) {
@@ -675,46 +1317,328 @@ export async function getArtistStats(
         artistName: event.concert.artist.name,
         timesSeen: 0,
         songs: new Map(),
+        covers: new Map(),
       });
     }
 
     const stats = artistStatsMap.get(artistId)!;
     stats.timesSeen++;
 
-    // Track songs
-    for (const song of event.concert.setlist || []) {
-      const current = stats.songs.get(song.songName) || 0;
-      stats.songs.set(song.songName, current + 1);
+    // Track songs - rows saved before the song catalogue fall back to their own title
+    for (const item of event.concert.setlist || []) {
+      if (item.isTape) continue;
+      const key = item.song?.key ?? songKey(item.songName);
+      const song = stats.songs.get(key) ?? { songName: item.song?.name ?? canonicalSongName(item.songName), timesHeard: 0 };
+      song.timesHeard++;
+      stats.songs.set(key, song);
+
+      if (item.isCover) {
+        const cover = stats.covers.get(key) ?? { songName: song.songName, coverArtist: item.coverArtist, timesHeard: 0 };
+        cover.timesHeard++;
+        stats.covers.set(key, cover);
+      }
     }
   }
 
+  const artistIds = [...artistStatsMap.keys()];
+  const [catalogue, setlistCounts, heardEver] = await Promise.all([
+    // Every song stored for these artists, with how often it has been played
+    prisma.song.findMany({
+      where: { artistId: { in: artistIds } },
+      select: { artistId: true, key: true, name: true, _count: { select: { setlistItems: true } } },
+    }),
+    prisma.concert.groupBy({
+      by: ['artistId'],
+      where: { artistId: { in: artistIds }, setlist: { some: {} } },
+      _count: { _all: true },
+    }),
+    // The gap list ignores the period - a song heard last year has been heard
+    prisma.setlistItem.findMany({
+      where: {
+        isTape: false,
+        concert: { artistId: { in: artistIds }, event: { userId, status: 'ATTENDED' } },
+      },
+      select: { songName: true, song: { select: { key: true } }, concert: { select: { artistId: true } } },
+    }),
+  ]);
+
+  const heardKeys = new Set(
+    heardEver.map((item) => `${item.concert.artistId}:${item.song?.key ?? songKey(item.songName)}`)
+  );
+  const timesPlayed = new Map(catalogue.map((song) => [`${song.artistId}:${song.key}`, song._count.setlistItems]));
+
   return Array.from(artistStatsMap.values()).map((stats) => {
-    const topSongs = Array.from(stats.songs.entries())
-      .map(([songName, timesPlayed]) => ({ songName, timesPlayed }))
-      .sort((a, b) => b.timesPlayed - a.timesPlayed)
+    const heard = Array.from(stats.songs.entries());
+    const mostHeard = heard
+      .map(([, song]) => song)
+      .sort((a, b) => b.timesHeard - a.timesHeard || a.songName.localeCompare(b.songName))
       .slice(0, 10);
 
+    const rarest = heard
+      .map(([key, song]) => ({ ...song, timesPlayed: timesPlayed.get(`${stats.artistId}:${key}`) ?? song.timesHeard }))
+      .sort((a, b) => a.timesPlayed - b.timesPlayed || a.songName.localeCompare(b.songName))
+      .slice(0, 10);
+
+    const neverHeard = catalogue
+      .filter((song) => song.artistId === stats.artistId && !heardKeys.has(`${song.artistId}:${song.key}`))
+      .map((song) => ({ songName: song.name, timesPlayed: song._count.setlistItems }))
+      .sort((a, b) => b.timesPlayed - a.timesPlayed || a.songName.localeCompare(b.songName))
+      .slice(0, 25);
+
     return {
       artistId: stats.artistId,
       artistName: stats.artistName,
       timesSeen: stats.timesSeen,
-      totalSongsHeard: Array.from(stats.songs.values()).reduce((a, b) => a + b, 0),
-      topSongs,
+      totalSongsHeard: heard.reduce((sum, [, song]) => sum + song.timesHeard, 0),
+      topSongs: mostHeard.map((song) => ({ songName: song.songName, timesPlayed: song.timesHeard })),
+      songStats: {
+        uniqueSongs: heard.length,
+        mostHeard,
+        rarest,
+        covers: Array.from(stats.covers.values()).sort((a, b) => b.timesHeard - a.timesHeard),
+        neverHeard,
+        setlistsStored: setlistCounts.find((c) => c.artistId === stats.artistId)?._count._all ?? 0,
+      },
     };
   }).sort((a, b) => b.timesSeen - a.timesSeen);
 }
 
-// Get overview stats for dashboard
-export async function getOverviewStats(userId: string, year?: number) {
-  const whereClause: Record<string, unknown> = { userId };
+// Get set-level tennis stats, from the sets parsed out of each score
+export async function getTennisStats(
+  userId: string,
+  period: StatsPeriod = {}
+): Promise<TennisStatsSummary> {
+  const whereClause: Record<string, unknown> = {
+    userId,
+    status: 'ATTENDED',
+    type: 'TENNIS',
+    ...periodEventWhere(period),
+  };
 
-  if (year) {
-    whereClause.date = {
-      gte: new Date(`${year}-01-01`),
-      lt: new Date(`${year + 1}-01-01`),
-    };
+  const matches = await prisma.tennisMatch.findMany({
+    where: { event: whereClause },
+    select: {
+      outcome: true,
+      sets: {
+        select: {
+          player1Games: true,
+          player2Games: true,
+          tiebreakPlayer1: true,
+          isMatchTiebreak: true,
+        },
+      },
+    },
+  });
+
+  const summary: TennisStatsSummary = {
+    matchesSeen: matches.length,
+    setsSeen: 0,
+    tiebreaksWitnessed: 0,
+    matchTiebreaks: 0,
+    fiveSetters: 0,
+    decidingSets: 0,
+    bagels: 0,
+    retirements: 0,
+    walkovers: 0,
+  };
+
+  for (const match of matches) {
+    if (match.outcome === 'RETIRED') summary.retirements++;
+    if (match.outcome === 'WALKOVER') summary.walkovers++;
+
+    summary.setsSeen += match.sets.length;
+    if (match.sets.length === 5) summary.fiveSetters++;
+
+    // A completed match won by a single set (2-1 or 3-2) went the distance
+    const player1Sets = match.sets.filter((set) => set.player1Games > set.player2Games).length;
+    const player2Sets = match.sets.length - player1Sets;
+    if (match.outcome === 'COMPLETED' && Math.abs(player1Sets - player2Sets) === 1) {
+      summary.decidingSets++;
+    }
+
+    for (const set of match.sets) {
+      if (set.isMatchTiebreak) {
+        summary.matchTiebreaks++;
+        continue;
+      }
+      if (set.tiebreakPlayer1 !== null) summary.tiebreaksWitnessed++;
+      if (Math.min(set.player1Games, set.player2Games) === 0 &&
+          Math.max(set.player1Games, set.player2Games) === 6) {
+        summary.bagels++;
+      }
+    }
   }
 
+  return summary;
+}
+
+// Get comeback, walk-off and overtime counts from games with a line score
+export async function getLineScoreStats(
+  userId: string,
+  period: StatsPeriod = {}
+): Promise<LineScoreStatsSummary> {
+  const whereClause: Record<string, unknown> = {
+    userId,
+    status: 'ATTENDED',
+    type: { in: ['SOCCER', 'BASKETBALL', 'BASEBALL'] },
+    periodScores: { some: {} },
+    ...periodEventWhere(period),
+  };
+
+  const teams = { select: { homeTeam: true, awayTeam: true } };
+  const events = await prisma.event.findMany({
+    where: whereClause,
+    select: {
+      id: true,
+      date: true,
+      type: true,
+      periodScores: {
+        select: { type: true, homeScore: true, awayScore: true },
+        orderBy: { period: 'asc' },
+      },
+      soccerMatch: teams,
+      basketballGame: teams,
+      baseballGame: teams,
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  const summary: LineScoreStatsSummary = {
+    gamesWithLineScore: events.length,
+    comebacks: 0,
+    walkOffs: 0,
+    overtimeGames: 0,
+    biggestComeback: null,
+  };
+
+  for (const event of events) {
+    const match = event.soccerMatch || event.basketballGame || event.baseballGame;
+    if (!match) continue;
+
+    const line = summarizeLineScore(event.type as LineScoreSport, event.periodScores);
+    if (line.walkOff) summary.walkOffs++;
+    if (line.overtime) summary.overtimeGames++;
+    if (!line.comeback || !line.winner) continue;
+
+    summary.comebacks++;
+    // Deficits aren't comparable across sports, so the biggest is relative to the sport's margin
+    const sport = event.type as LineScoreSport;
+    const best = summary.biggestComeback;
+    if (
+      !best ||
+      line.comebackFrom / COMEBACK_MARGINS[sport] > best.deficit / COMEBACK_MARGINS[best.sport as LineScoreSport]
+    ) {
+      summary.biggestComeback = {
+        eventId: event.id,
+        date: event.date,
+        sport: event.type,
+        winner: line.winner === 'home' ? match.homeTeam : match.awayTeam,
+        loser: line.winner === 'home' ? match.awayTeam : match.homeTeam,
+        deficit: line.comebackFrom,
+      };
+    }
+  }
+
+  return summary;
+}
+
+// Get hat-tricks, the latest winning goal and card counts from soccer match timelines
+export async function getSoccerTimelineStats(
+  userId: string,
+  period: StatsPeriod = {}
+): Promise<SoccerTimelineStatsSummary> {
+  const whereClause: Record<string, unknown> = {
+    userId,
+    status: 'ATTENDED',
+    type: 'SOCCER',
+    soccerMatch: { timeline: { some: {} } },
+    ...periodEventWhere(period),
+  };
+
+  const events = await prisma.event.findMany({
+    where: whereClause,
+    select: {
+      id: true,
+      date: true,
+      soccerMatch: {
+        select: {
+          homeTeam: true,
+          awayTeam: true,
+          homeScore: true,
+          awayScore: true,
+          timeline: {
+            include: { player: { select: { name: true } }, relatedPlayer: { select: { name: true } } },
+            orderBy: [{ minute: 'asc' }, { extraMinute: 'asc' }, { order: 'asc' }],
+          },
+        },
+      },
+    },
+    orderBy: { date: 'asc' },
+  });
+
+  const summary: SoccerTimelineStatsSummary = {
+    matchesWithTimeline: events.length,
+    goalsLogged: 0,
+    redCards: 0,
+    hatTricks: [],
+    latestWinner: null,
+  };
+
+  for (const event of events) {
+    const match = event.soccerMatch;
+    if (!match) continue;
+    const timeline = toMatchEventInputs(match.timeline);
+    const sideNames = (team: 'home' | 'away') =>
+      team === 'home'
+        ? { team: match.homeTeam, opponent: match.awayTeam }
+        : { team: match.awayTeam, opponent: match.homeTeam };
+
+    summary.goalsLogged += timeline.filter((e) => isGoal(e.type)).length;
+    summary.redCards += timeline.filter((e) => e.type === 'RED_CARD' || e.type === 'SECOND_YELLOW').length;
+
+    for (const hatTrick of findHatTricks(timeline)) {
+      const scored = timeline.find((e) => e.playerName === hatTrick.playerName && isGoal(e.type));
+      summary.hatTricks.push({
+        eventId: event.id,
+        date: event.date,
+        ...hatTrick,
+        ...sideNames(scored?.team ?? 'home'),
+      });
+    }
+
+    const winner = findWinningGoal(timeline, match.homeScore, match.awayScore);
+    const best = summary.latestWinner;
+    if (
+      winner &&
+      (!best ||
+        winner.minute > best.minute ||
+        (winner.minute === best.minute && (winner.extraMinute ?? 0) > (best.extraMinute ?? 0)))
+    ) {
+      summary.latestWinner = {
+        eventId: event.id,
+        date: event.date,
+        playerName: winner.playerName,
+        minute: winner.minute,
+        extraMinute: winner.extraMinute,
+        ...sideNames(winner.team),
+      };
+    }
+  }
+
+  // Most recent first
+  summary.hatTricks.reverse();
+
+  return summary;
+}
+
+// Get overview stats for dashboard
+export async function getOverviewStats(userId: string, period: StatsPeriod = {}) {
+  const whereClause: Record<string, unknown> = {
+    userId,
+    status: 'ATTENDED',
+    ...periodEventWhere(period),
+  };
+
   // Get counts by type
   const eventsByType = await prisma.event.groupBy({
     by: ['type'],
@@ -0,0 +1,317 @@
+// Attendance Streaks
+// ✅ Code Quality Agent: Consecutive weeks, months or seasons with at least one attended event
+// 🎓 Learning Agent: A streak stays alive through the period after its last event - going
+// in March keeps a monthly streak alive until April ends. It is "at risk" once that
+// period is nearly over with nothing attended or planned in it yet.
+
+import prisma from '@/lib/prisma';
+import { normalizeTeamName } from '@/lib/utils/team-names';
+import { getTeamAliasMaps, type TeamSport } from '@/lib/db/teams';
+import { getSeasonRule } from '@/lib/utils/seasons';
+import { eventLocalDate } from '@/lib/utils/timezone';
+
+export const STREAK_PERIODS = ['week', 'month', 'season'] as const;
+export const STREAK_SCOPES = ['all', 'sport', 'venue', 'team'] as const;
+
+export type StreakPeriod = (typeof STREAK_PERIODS)[number];
+export type StreakScope = (typeof STREAK_SCOPES)[number];
+
+export interface Streak {
+  period: StreakPeriod;
+  scope: StreakScope;
+  key: string | null; // Sport, venue id or team id/name; null for the overall streak
+  label: string;
+  current: number; // Consecutive periods, 0 once the streak has lapsed
+  longest: number;
+  currentStart: Date | null; // First and last event of the current streak
+  currentEnd: Date | null;
+  longestStart: Date | null;
+  longestEnd: Date | null;
+  atRisk: boolean;
+  closesAt: Date | null; // When the current streak lapses without another event
+}
+
+export interface StreakReport {
+  streaks: Streak[];
+  atRisk: Streak[];
+}
+
+export interface StreakOptions {
+  periods?: readonly StreakPeriod[];
+  scopes?: readonly StreakScope[];
+  limit?: number; // Per period and scope (venue and team scopes can be long)
+  now?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How close to the end of the period a pending streak starts to warn
+const RISK_WINDOW_DAYS: Record<StreakPeriod, number> = {
+  week: 2,
+  month: 7,
+  season: 30,
+};
+
+// Month (0-based) a sport's season starts in - see lib/utils/seasons
+export function seasonStartMonth(sport?: string | null): number {
+  return sport ? getSeasonRule(sport).startMonth - 1 : 0;
+}
+
+// Period number a date falls in. Weeks start on Monday; read in UTC, so attended
+// events are passed as their venue-local day at midnight UTC.
+function periodIndex(date: Date, period: StreakPeriod, startMonth: number): number {
+  switch (period) {
+    case 'week':
+      // 1970-01-05 was a Monday
+      return Math.floor((Math.floor(date.getTime() / DAY_MS) - 4) / 7);
+    case 'month':
+      return date.getUTCFullYear() * 12 + date.getUTCMonth();
+    case 'season':
+      return date.getUTCFullYear() - (date.getUTCMonth() < startMonth ? 1 : 0);
+  }
+}
+
+function periodStart(index: number, period: StreakPeriod, startMonth: number): Date {
+  switch (period) {
+    case 'week':
+      return new Date((index * 7 + 4) * DAY_MS);
+    case 'month':
+      return new Date(Date.UTC(Math.floor(index / 12), index % 12, 1));
+    case 'season':
+      return new Date(Date.UTC(index, startMonth, 1));
+  }
+}
+
+export interface StreakState {
+  current: number;
+  longest: number;
+  lastIndex: number | null;
+  currentStart: Date | null;
+  currentEnd: Date | null;
+  longestStart: Date | null;
+  longestEnd: Date | null;
+}
+
+/**
+ * Incremental streak counter. Feed it event dates oldest-first; each call returns
+ * the state so far, so the achievement evaluator can find the triggering event.
+ */
+export function createStreakTracker(period: StreakPeriod, startMonth = 0) {
+  const state: StreakState = {
+    current: 0,
+    longest: 0,
+    lastIndex: null,
+    currentStart: null,
+    currentEnd: null,
+    longestStart: null,
+    longestEnd: null,
+  };
+
+  return {
+    period,
+    startMonth,
+    add(date: Date): StreakState {
+      const index = periodIndex(date, period, startMonth);
+      // Events ordered by instant can fall a venue-local day back, into an earlier
+      // period than the last one - that never moves the streak backwards
+      if (state.lastIndex !== null && index < state.lastIndex) return state;
+      if (state.lastIndex === null || index - state.lastIndex > 1) {
+        state.current = 1;
+        state.currentStart = date;
+      } else if (index - state.lastIndex === 1) {
+        state.current++;
+      }
+      state.lastIndex = index;
+      state.currentEnd = date;
+
+      if (state.current >= state.longest) {
+        state.longest = state.current;
+        state.longestStart = state.currentStart;
+        state.longestEnd = date;
+      }
+      return state;
+    },
+  };
+}
+
+/**
+ * Turn a tracker's final state into a streak as of `now`. `plannedDates` are
+ * upcoming events in the same scope - one in the open period means it isn't at risk.
+ */
+function finishStreak(
+  tracker: ReturnType<typeof createStreakTracker>,
+  state: StreakState,
+  plannedDates: Date[],
+  now: Date
+): Omit<Streak, 'scope' | 'key' | 'label'> {
+  const { period, startMonth } = tracker;
+  const nowIndex = periodIndex(now, period, startMonth);
+  const alive = state.lastIndex !== null && nowIndex - state.lastIndex <= 1;
+  const closesAt = alive
+    ? periodStart((state.lastIndex as number) + 2, period, startMonth)
+    : null;
+
+  // Only pending streaks (nothing yet this period) can lapse
+  let atRisk = false;
+  if (alive && state.lastIndex !== nowIndex && closesAt) {
+    const saved = plannedDates.some((date) => date >= now && date < closesAt);
+    atRisk = !saved && closesAt.getTime() - now.getTime() <= RISK_WINDOW_DAYS[period] * DAY_MS;
+  }
+
+  return {
+    period,
+    current: alive ? state.current : 0,
+    longest: state.longest,
+    currentStart: alive ? state.currentStart : null,
+    currentEnd: alive ? state.currentEnd : null,
+    longestStart: state.longestStart,
+    longestEnd: state.longestEnd,
+    atRisk,
+    closesAt,
+  };
+}
+
+interface StreakEvent {
+  date: Date;
+  planned: boolean;
+  sport: string;
+  venueId: string;
+  venueName: string;
+  teams: { key: string; name: string }[];
+}
+
+// Scope keys an event counts towards, with display labels
+function scopeEntries(event: StreakEvent, scope: StreakScope): { key: string | null; label: string }[] {
+  switch (scope) {
+    case 'all':
+      return [{ key: null, label: 'All events' }];
+    case 'sport':
+      return [{ key: event.sport, label: event.sport.charAt(0) + event.sport.slice(1).toLowerCase() }];
+    case 'venue':
+      return [{ key: event.venueId, label: event.venueName }];
+    case 'team':
+      return event.teams.map((team) => ({ key: team.key, label: team.name }));
+  }
+}
+
+async function loadStreakEvents(userId: string, now: Date): Promise<StreakEvent[]> {
+  const teamRef = { select: { id: true, name: true } };
+  const gameSelect = {
+    select: { homeTeam: true, awayTeam: true, homeTeamRef: teamRef, awayTeamRef: teamRef },
+  };
+  const events = await prisma.event.findMany({
+    where: {
+      userId,
+      OR: [{ status: 'ATTENDED' }, { status: 'PLANNED', date: { gte: now } }],
+    },
+    select: {
+      date: true,
+      localDate: true,
+      status: true,
+      type: true,
+      venueId: true,
+      venue: { select: { name: true } },
+      soccerMatch: gameSelect,
+      basketballGame: gameSelect,
+      baseballGame: gameSelect,
+    },
+    orderBy: [{ date: 'asc' }, { createdAt: 'asc' }],
+  });
+  const aliases = await getTeamAliasMaps();
+
+  return events.map((event) => {
+    const match = event.soccerMatch || event.basketballGame || event.baseballGame;
+    const sportAliases = aliases[event.type as TeamSport];
+    const teams = match
+      ? [
+          { ref: match.homeTeamRef, name: match.homeTeam },
+          { ref: match.awayTeamRef, name: match.awayTeam },
+        ].map(({ ref, name }) => {
+          if (ref) return { key: ref.id, name: ref.name };
+          const canonical = normalizeTeamName(name, sportAliases);
+          return { key: `${event.type}:${canonical}`, name: canonical };
+        })
+      : [];
+
+    const planned = event.status === 'PLANNED';
+    return {
+      // Attended events count towards the period they fell in at the venue
+      date: planned ? event.date : eventLocalDate(event),
+      planned,
+      sport: event.type,
+      venueId: event.venueId,
+      venueName: event.venue.name,
+      teams,
+    };
+  });
+}
+
+/**
+ * Current and longest streaks for each period and scope, best current streak first.
+ * `atRisk` collects the ones about to lapse across every scope.
+ */
+export async function getStreaks(userId: string, options: StreakOptions = {}): Promise<StreakReport> {
+  const {
+    periods = STREAK_PERIODS,
+    scopes = ['all'],
+    limit = 10,
+    now = new Date(),
+  } = options;
+
+  const events = await loadStreakEvents(userId, now);
+  const streaks: Streak[] = [];
+
+  for (const scope of scopes) {
+    // Group event dates by scope key, keeping each group's sport for season boundaries
+    const groups = new Map<
+      string,
+      { key: string | null; label: string; sport: string | null; attended: Date[]; planned: Date[] }
+    >();
+    for (const event of events) {
+      for (const entry of scopeEntries(event, scope)) {
+        const id = entry.key ?? '';
+        const group = groups.get(id) ?? {
+          ...entry,
+          sport: event.sport,
+          attended: [],
+          planned: [],
+        };
+        // Mixed-sport groups (overall, venues) use calendar-year seasons
+        if (group.sport !== event.sport) group.sport = null;
+        (event.planned ? group.planned : group.attended).push(event.date);
+        groups.set(id, group);
+      }
+    }
+
+    // Loaded in instant order - the tracker wants venue-local days oldest-first
+    for (const group of groups.values()) {
+      group.attended.sort((a, b) => a.getTime() - b.getTime());
+    }
+
+    for (const period of periods) {
+      const scoped: Streak[] = [];
+      for (const group of groups.values()) {
+        if (group.attended.length === 0) continue;
+
+        const tracker = createStreakTracker(period, seasonStartMonth(group.sport));
+        let state: StreakState | null = null;
+        for (const date of group.attended) state = tracker.add(date);
+
+        scoped.push({
+          ...finishStreak(tracker, state as StreakState, group.planned, now),
+          scope,
+          key: group.key,
+          label: group.label,
+        });
+      }
+
+      scoped.sort((a, b) => b.current - a.current || b.longest - a.longest);
+      streaks.push(...scoped.slice(0, limit));
+    }
+  }
+
+  return {
+    streaks,
+    atRisk: streaks.filter((streak) => streak.atRisk),
+  };
+}
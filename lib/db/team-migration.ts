@@ -0,0 +1,190 @@
+// Team Reference Migration
+// 🔍 API Monitor Agent: Links existing matches to Team rows and seeds TeamAlias - safe to re-run
+// ✅ Code Quality Agent: Resolves names the same way new events do (findOrCreateTeam)
+
+import prisma from '@/lib/prisma';
+import { findOrCreateTeam } from '@/lib/api/team-logos';
+import { setTeamAlias, type TeamSport } from '@/lib/db/teams';
+import { normalizeTeamName } from '@/lib/utils/team-names';
+
+// The aliases that used to be hard-coded in lib/utils/team-names.ts (all soccer).
+// Key is the alternate name, value is the canonical name
+const LEGACY_SOCCER_ALIASES: Record<string, string> = {
+  // English
+  'Manchester United FC': 'Manchester United',
+  'Manchester City FC': 'Manchester City',
+  'Arsenal FC': 'Arsenal',
+  'Chelsea FC': 'Chelsea',
+  'Liverpool FC': 'Liverpool',
+  'Tottenham Hotspur FC': 'Tottenham Hotspur',
+  'Newcastle United FC': 'Newcastle United',
+  'Aston Villa FC': 'Aston Villa',
+  'West Ham United FC': 'West Ham United',
+  'Brighton & Hove Albion FC': 'Brighton & Hove Albion',
+  'Crystal Palace FC': 'Crystal Palace',
+  'Everton FC': 'Everton',
+  'Fulham FC': 'Fulham',
+  'Brentford FC': 'Brentford',
+  'Wolverhampton Wanderers FC': 'Wolverhampton Wanderers',
+  'Wolves': 'Wolverhampton Wanderers',
+  'AFC Bournemouth': 'Bournemouth',
+  'Bournemouth FC': 'Bournemouth',
+  'Nottingham Forest FC': 'Nottingham Forest',
+  'Ipswich Town FC': 'Ipswich Town',
+  'Leicester City FC': 'Leicester City',
+  'Southampton FC': 'Southampton',
+  'Leeds United FC': 'Leeds United',
+  'Spurs': 'Tottenham Hotspur',
+
+  // Spanish
+  'FC Barcelona': 'Barcelona',
+  'Real Madrid CF': 'Real Madrid',
+  'Club Atlético de Madrid': 'Atletico Madrid',
+  'Atlético de Madrid': 'Atletico Madrid',
+  'Atlético Madrid': 'Atletico Madrid',
+  'Real Sociedad de Fútbol': 'Real Sociedad',
+  'Athletic Club': 'Athletic Bilbao',
+  'Villarreal CF': 'Villarreal',
+  'Real Betis Balompié': 'Real Betis',
+  'Sevilla FC': 'Sevilla',
+  'Valencia CF': 'Valencia',
+
+  // German
+  'FC Bayern München': 'Bayern Munich',
+  'Bayern München': 'Bayern Munich',
+  'Borussia Dortmund': 'Borussia Dortmund',
+  'RB Leipzig': 'RB Leipzig',
+  'Bayer 04 Leverkusen': 'Bayer Leverkusen',
+  'VfB Stuttgart': 'Stuttgart',
+  'Eintracht Frankfurt': 'Eintracht Frankfurt',
+  'VfL Wolfsburg': 'Wolfsburg',
+  'SC Freiburg': 'Freiburg',
+  'TSG 1899 Hoffenheim': 'Hoffenheim',
+  '1. FC Union Berlin': 'Union Berlin',
+  'Borussia Mönchengladbach': 'Borussia Monchengladbach',
+
+  // Italian
+  'FC Internazionale Milano': 'Inter Milan',
+  'Inter': 'Inter Milan',
+  'AC Milan': 'AC Milan',
+  'Juventus FC': 'Juventus',
+  'SSC Napoli': 'Napoli',
+  'AS Roma': 'AS Roma',
+  'SS Lazio': 'Lazio',
+  'ACF Fiorentina': 'Fiorentina',
+  'Atalanta BC': 'Atalanta',
+  'Bologna FC 1909': 'Bologna',
+
+  // French
+  'Paris Saint-Germain FC': 'Paris Saint-Germain',
+  'Paris Saint Germain': 'Paris Saint-Germain',
+  'PSG': 'Paris Saint-Germain',
+  'Olympique de Marseille': 'Marseille',
+  'Olympique Lyonnais': 'Lyon',
+  'AS Monaco FC': 'Monaco',
+  'LOSC Lille': 'Lille',
+  'RC Lens': 'Lens',
+  'OGC Nice': 'Nice',
+  'Stade Rennais FC 1901': 'Rennes',
+  'RC Strasbourg Alsace': 'Strasbourg',
+
+  // MLS
+  'LA Galaxy': 'LA Galaxy',
+  'Los Angeles Galaxy': 'LA Galaxy',
+  'Inter Miami CF': 'Inter Miami',
+  'Inter Miami': 'Inter Miami',
+  'New York City FC': 'New York City',
+  'Atlanta United FC': 'Atlanta United',
+  'Portland Timbers FC': 'Portland Timbers',
+  'Seattle Sounders FC': 'Seattle Sounders',
+  'Austin FC': 'Austin',
+  'CF Montréal': 'CF Montreal',
+  'Charlotte FC': 'Charlotte',
+  'Nashville SC': 'Nashville',
+  'St. Louis City SC': 'St. Louis City',
+};
+
+export type TeamMigrationResult = {
+  aliasesSeeded: number;
+  soccerMatches: number;
+  basketballGames: number;
+  baseballGames: number;
+  teamsCreated: number;
+};
+
+interface GameRow {
+  id: string;
+  homeTeam: string;
+  awayTeam: string;
+}
+
+/**
+ * Seed TeamAlias from the legacy map and point every unlinked match at its teams.
+ */
+export async function migrateTeamReferences(): Promise<TeamMigrationResult> {
+  const teamsBefore = await prisma.team.count();
+  const result: TeamMigrationResult = {
+    aliasesSeeded: 0,
+    soccerMatches: 0,
+    basketballGames: 0,
+    baseballGames: 0,
+    teamsCreated: 0,
+  };
+
+  // Aliases first so the matches below resolve through them
+  for (const [alias, canonical] of Object.entries(LEGACY_SOCCER_ALIASES)) {
+    // Suffix stripping already covers "Arsenal FC" → "Arsenal"
+    if (normalizeTeamName(alias) === canonical) continue;
+    const team = await findOrCreateTeam(canonical, 'SOCCER');
+    await setTeamAlias(alias, team.id);
+    result.aliasesSeeded++;
+  }
+
+  // Resolve both sides of a game and store the canonical names alongside the refs
+  const linkGame = async (
+    sport: TeamSport,
+    game: GameRow,
+    update: (data: {
+      homeTeam: string;
+      awayTeam: string;
+      homeTeamRefId: string;
+      awayTeamRefId: string;
+    }) => Promise<unknown>
+  ) => {
+    const home = await findOrCreateTeam(game.homeTeam, sport);
+    const away = await findOrCreateTeam(game.awayTeam, sport);
+    await update({
+      homeTeam: home.name,
+      awayTeam: away.name,
+      homeTeamRefId: home.id,
+      awayTeamRefId: away.id,
+    });
+  };
+
+  const unlinked = { OR: [{ homeTeamRefId: null }, { awayTeamRefId: null }] };
+  const select = { id: true, homeTeam: true, awayTeam: true };
+
+  for (const match of await prisma.soccerMatch.findMany({ where: unlinked, select })) {
+    await linkGame('SOCCER', match, (data) =>
+      prisma.soccerMatch.update({ where: { id: match.id }, data })
+    );
+    result.soccerMatches++;
+  }
+
+  for (const game of await prisma.basketballGame.findMany({ where: unlinked, select })) {
+    await linkGame('BASKETBALL', game, (data) =>
+      prisma.basketballGame.update({ where: { id: game.id }, data })
+    );
+    result.basketballGames++;
+  }
+
+  for (const game of await prisma.baseballGame.findMany({ where: unlinked, select })) {
+    await linkGame('BASEBALL', game, (data) =>
+      prisma.baseballGame.update({ where: { id: game.id }, data })
+    );
+    result.baseballGames++;
+  }
+
+  result.teamsCreated = (await prisma.team.count()) - teamsBefore;
+  return result;
+}
@@ -0,0 +1,208 @@
+// Team Name Normalization
+// ✅ Code Quality Agent: Rewrites stored team names to their canonical form and folds duplicate Team rows
+// Consolidates duplicates caused by different API naming conventions
+
+import prisma from '@/lib/prisma';
+import { normalizeTeamName } from '@/lib/utils/team-names';
+import { getTeamAliasMap } from '@/lib/db/teams';
+
+type NormalizationCounts = {
+  checked: number;
+  updated: number;
+  changes: string[];
+};
+
+export type TeamNormalizationResult = {
+  soccerMatches: NormalizationCounts;
+  basketballGames: NormalizationCounts;
+  baseballGames: NormalizationCounts;
+  teams: NormalizationCounts & { merged: number };
+};
+
+export async function normalizeTeamNames(): Promise<TeamNormalizationResult> {
+  const results: TeamNormalizationResult = {
+    soccerMatches: { checked: 0, updated: 0, changes: [] },
+    basketballGames: { checked: 0, updated: 0, changes: [] },
+    baseballGames: { checked: 0, updated: 0, changes: [] },
+    teams: { checked: 0, updated: 0, merged: 0, changes: [] },
+  };
+
+  // Aliases come from the TeamAlias table, per sport
+  const aliases = {
+    SOCCER: await getTeamAliasMap('SOCCER'),
+    BASKETBALL: await getTeamAliasMap('BASKETBALL'),
+    BASEBALL: await getTeamAliasMap('BASEBALL'),
+  };
+
+  // 1. Normalize SoccerMatch team names
+  const soccerMatches = await prisma.soccerMatch.findMany({
+    select: { id: true, homeTeam: true, awayTeam: true },
+  });
+  results.soccerMatches.checked = soccerMatches.length;
+  
+  for (const match of soccerMatches) {
+    const normalizedHome = normalizeTeamName(match.homeTeam, aliases.SOCCER);
+    const normalizedAway = normalizeTeamName(match.awayTeam, aliases.SOCCER);
+    
+    if (normalizedHome !== match.homeTeam || normalizedAway !== match.awayTeam) {
+      await prisma.soccerMatch.update({
+        where: { id: match.id },
+        data: {
+          homeTeam: normalizedHome,
+          awayTeam: normalizedAway,
+        },
+      });
+      results.soccerMatches.updated++;
+      if (normalizedHome !== match.homeTeam) {
+        results.soccerMatches.changes.push(`"${match.homeTeam}" → "${normalizedHome}"`);
+      }
+      if (normalizedAway !== match.awayTeam) {
+        results.soccerMatches.changes.push(`"${match.awayTeam}" → "${normalizedAway}"`);
+      }
+    }
+  }
+
+  // 2. Normalize BasketballGame team names
+  const basketballGames = await prisma.basketballGame.findMany({
+    select: { id: true, homeTeam: true, awayTeam: true },
+  });
+  results.basketballGames.checked = basketballGames.length;
+  
+  for (const game of basketballGames) {
+    const normalizedHome = normalizeTeamName(game.homeTeam, aliases.BASKETBALL);
+    const normalizedAway = normalizeTeamName(game.awayTeam, aliases.BASKETBALL);
+    
+    if (normalizedHome !== game.homeTeam || normalizedAway !== game.awayTeam) {
+      await prisma.basketballGame.update({
+        where: { id: game.id },
+        data: {
+          homeTeam: normalizedHome,
+          awayTeam: normalizedAway,
+        },
+      });
+      results.basketballGames.updated++;
+      if (normalizedHome !== game.homeTeam) {
+        results.basketballGames.changes.push(`"${game.homeTeam}" → "${normalizedHome}"`);
+      }
+      if (normalizedAway !== game.awayTeam) {
+        results.basketballGames.changes.push(`"${game.awayTeam}" → "${normalizedAway}"`);
+      }
+    }
+  }
+
+  // 3. Normalize BaseballGame team names
+  const baseballGames = await prisma.baseballGame.findMany({
+    select: { id: true, homeTeam: true, awayTeam: true },
+  });
+  results.baseballGames.checked = baseballGames.length;
+  
+  for (const game of baseballGames) {
+    const normalizedHome = normalizeTeamName(game.homeTeam, aliases.BASEBALL);
+    const normalizedAway = normalizeTeamName(game.awayTeam, aliases.BASEBALL);
+    
+    if (normalizedHome !== game.homeTeam || normalizedAway !== game.awayTeam) {
+      await prisma.baseballGame.update({
+        where: { id: game.id },
+        data: {
+          homeTeam: normalizedHome,
+          awayTeam: normalizedAway,
+        },
+      });
+      results.baseballGames.updated++;
+      if (normalizedHome !== game.homeTeam) {
+        results.baseballGames.changes.push(`"${game.homeTeam}" → "${normalizedHome}"`);
+      }
+      if (normalizedAway !== game.awayTeam) {
+        results.baseballGames.changes.push(`"${game.awayTeam}" → "${normalizedAway}"`);
+      }
+    }
+  }
+
+  // 4. Normalize Team table - merge duplicates
+  const allTeams = await prisma.team.findMany({
+    select: { id: true, name: true, sport: true, logoUrl: true, externalId: true },
+  });
+  results.teams.checked = allTeams.length;
+
+  // Group teams by normalized name + sport
+  const teamGroups = new Map<string, typeof allTeams>();
+  for (const team of allTeams) {
+    const normalizedName = normalizeTeamName(team.name, aliases[team.sport as keyof typeof aliases]);
+    const key = `${normalizedName}::${team.sport}`;
+    if (!teamGroups.has(key)) {
+      teamGroups.set(key, []);
+    }
+    teamGroups.get(key)!.push(team);
+  }
+
+  // Merge duplicates - keep the one with the most data (logoUrl, externalId)
+  for (const [key, group] of teamGroups) {
+    const normalizedName = key.split('::')[0];
+    
+    if (group.length > 1) {
+      // Sort: prefer ones with logo > with externalId > alphabetically by original name
+      group.sort((a, b) => {
+        if (a.logoUrl && !b.logoUrl) return -1;
+        if (!a.logoUrl && b.logoUrl) return 1;
+        if (a.externalId && !b.externalId) return -1;
+        if (!a.externalId && b.externalId) return 1;
+        return a.name.localeCompare(b.name);
+      });
+      
+      const keeper = group[0];
+      const duplicates = group.slice(1);
+      
+      // Update keeper with normalized name and best available data
+      const bestLogo = group.find(t => t.logoUrl)?.logoUrl || null;
+      const bestExternalId = group.find(t => t.externalId)?.externalId || null;
+      
+      await prisma.team.update({
+        where: { id: keeper.id },
+        data: {
+          name: normalizedName,
+          logoUrl: bestLogo,
+          externalId: bestExternalId,
+        },
+      });
+      
+      // Delete duplicates
+      for (const dup of duplicates) {
+        try {
+          await prisma.team.delete({
+            where: { id: dup.id },
+          });
+          results.teams.merged++;
+          results.teams.changes.push(`Merged "${dup.name}" into "${normalizedName}"`);
+        } catch {
+          // If delete fails due to constraints, just update the name
+          try {
+            await prisma.team.update({
+              where: { id: dup.id },
+              data: { name: normalizedName },
+            });
+          } catch {
+            // Unique constraint - already has this normalized name, skip
+            results.teams.changes.push(`Could not merge "${dup.name}" (unique constraint)`);
+          }
+        }
+      }
+      
+      results.teams.updated++;
+    } else if (group[0].name !== normalizedName) {
+      // Single team but name needs normalizing
+      try {
+        await prisma.team.update({
+          where: { id: group[0].id },
+          data: { name: normalizedName },
+        });
+        results.teams.updated++;
+        results.teams.changes.push(`"${group[0].name}" → "${normalizedName}"`);
+      } catch {
+        // Unique constraint - already exists with this name
+        results.teams.changes.push(`Could not rename "${group[0].name}" → "${normalizedName}" (already exists)`);
+      }
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,99 @@
+// Team Query Functions
+// ✅ Code Quality Agent: Runtime-editable team aliases and canonical name resolution
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { normalizeTeamName, type TeamAliasMap } from '@/lib/utils/team-names';
+
+export type TeamSport = 'SOCCER' | 'BASKETBALL' | 'BASEBALL';
+
+export interface TeamAliasEntry {
+  id: string;
+  alias: string;
+  sport: string;
+  teamId: string;
+  teamName: string;
+}
+
+/**
+ * All aliases for a sport, as alias → canonical team name.
+ */
+export async function getTeamAliasMap(
+  sport: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<TeamAliasMap> {
+  const aliases = await client.teamAlias.findMany({
+    where: { sport },
+    select: { alias: true, team: { select: { name: true } } },
+  });
+  return new Map(aliases.map((a) => [a.alias, a.team.name]));
+}
+
+/**
+ * Alias maps for every team sport, for reads that span sports.
+ */
+export async function getTeamAliasMaps(): Promise<Record<TeamSport, TeamAliasMap>> {
+  const [soccer, basketball, baseball] = await Promise.all([
+    getTeamAliasMap('SOCCER'),
+    getTeamAliasMap('BASKETBALL'),
+    getTeamAliasMap('BASEBALL'),
+  ]);
+  return { SOCCER: soccer, BASKETBALL: basketball, BASEBALL: baseball };
+}
+
+/**
+ * Canonical name for a team as typed or returned by an API.
+ */
+export async function resolveTeamName(
+  name: string,
+  sport: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<string> {
+  return normalizeTeamName(name, await getTeamAliasMap(sport, client));
+}
+
+export async function listTeamAliases(sport?: string): Promise<TeamAliasEntry[]> {
+  const aliases = await prisma.teamAlias.findMany({
+    where: sport ? { sport } : undefined,
+    include: { team: { select: { name: true } } },
+    orderBy: [{ sport: 'asc' }, { alias: 'asc' }],
+  });
+
+  return aliases.map((a) => ({
+    id: a.id,
+    alias: a.alias,
+    sport: a.sport,
+    teamId: a.teamId,
+    teamName: a.team.name,
+  }));
+}
+
+/**
+ * Point `alias` at a team. Re-pointing an existing alias moves it to the new team.
+ */
+export async function setTeamAlias(
+  alias: string,
+  teamId: string,
+  client: Prisma.TransactionClient = prisma
+) {
+  const team = await client.team.findUniqueOrThrow({ where: { id: teamId } });
+  const trimmed = alias.trim();
+
+  if (trimmed === team.name) {
+    throw new Error(`"${trimmed}" is already the team's name`);
+  }
+
+  return client.teamAlias.upsert({
+    where: { alias_sport: { alias: trimmed, sport: team.sport } },
+    create: { alias: trimmed, sport: team.sport, teamId: team.id },
+    update: { teamId: team.id },
+  });
+}
+
+/**
+ * Remove an alias. Returns false if it didn't exist.
+ */
+export async function deleteTeamAlias(id: string): Promise<boolean> {
+  const { count } = await prisma.teamAlias.deleteMany({ where: { id } });
+  return count > 0;
+}
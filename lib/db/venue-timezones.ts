@@ -0,0 +1,120 @@
+// Venue Time Zones
+// ✅ Code Quality Agent: Keeps Venue.timezone in step with its coordinates and re-anchors its events
+// 🎓 Learning Agent: Coordinates usually arrive after the event is saved (geocoding runs in the
+// background), so events entered with a kickoff time are fixed up here once the zone is known.
+
+import tzlookup from '@photostructure/tz-lookup';
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { reanchorEventTiming } from '@/lib/utils/timezone';
+
+/**
+ * IANA time zone for a coordinate, from the bundled offline lookup table.
+ */
+export function lookupTimezone(latitude: number, longitude: number): string | null {
+  try {
+    return tzlookup(latitude, longitude);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Set a venue's time zone and re-resolve its events' local dates and instants.
+ * Returns how many events changed.
+ */
+export async function setVenueTimezone(
+  venueId: string,
+  timezone: string,
+  client: Prisma.TransactionClient = prisma
+): Promise<number> {
+  await client.venue.update({ where: { id: venueId }, data: { timezone } });
+
+  const events = await client.event.findMany({
+    where: { venueId },
+    select: { id: true, date: true, localDate: true, kickoffTime: true },
+  });
+
+  let updated = 0;
+  for (const event of events) {
+    const timing = reanchorEventTiming(event, timezone);
+    if (
+      timing.date.getTime() === event.date.getTime() &&
+      timing.localDate?.getTime() === event.localDate?.getTime() &&
+      timing.kickoffTime === event.kickoffTime
+    ) {
+      continue;
+    }
+    await client.event.update({ where: { id: event.id }, data: timing });
+    updated++;
+  }
+  return updated;
+}
+
+/**
+ * Store a venue's coordinates along with the time zone they fall in.
+ */
+export async function setVenueCoordinates(
+  venueId: string,
+  latitude: number,
+  longitude: number,
+  client: Prisma.TransactionClient = prisma
+): Promise<string | null> {
+  const timezone = lookupTimezone(latitude, longitude);
+  await client.venue.update({ where: { id: venueId }, data: { latitude, longitude } });
+  if (timezone) await setVenueTimezone(venueId, timezone, client);
+  return timezone;
+}
+
+/**
+ * Fill in time zones for venues that have coordinates but no zone.
+ */
+export async function backfillVenueTimezones() {
+  const venues = await prisma.venue.findMany({
+    where: { timezone: null, latitude: { not: null }, longitude: { not: null } },
+    select: { id: true, name: true, latitude: true, longitude: true },
+  });
+
+  let resolved = 0;
+  let eventsUpdated = 0;
+  const errors: string[] = [];
+
+  for (const venue of venues) {
+    const timezone = lookupTimezone(venue.latitude as number, venue.longitude as number);
+    if (!timezone) {
+      errors.push(`${venue.name} - No time zone for ${venue.latitude}, ${venue.longitude}`);
+      continue;
+    }
+    eventsUpdated += await setVenueTimezone(venue.id, timezone);
+    resolved++;
+  }
+
+  return {
+    venues: venues.length,
+    resolved,
+    eventsUpdated,
+    errors: errors.slice(0, 20), // Limit error list
+  };
+}
+
+/**
+ * Give events saved before local dates were stored their local date. Back then
+ * every event was entered as a bare date and stored at midnight UTC, so those
+ * rows are date-only entries for that day. Its job is run-once (see
+ * lib/admin/jobs), since afterwards a midnight-UTC instant is just an instant.
+ */
+export async function backfillLegacyLocalDates() {
+  const legacy = await prisma.event.findMany({
+    where: { localDate: null, kickoffTime: null },
+    select: { id: true, date: true },
+  });
+
+  let updated = 0;
+  for (const event of legacy) {
+    if (event.date.getTime() % (24 * 60 * 60 * 1000) !== 0) continue;
+    await prisma.event.update({ where: { id: event.id }, data: { localDate: event.date } });
+    updated++;
+  }
+
+  return { events: legacy.length, updated };
+}
@@ -0,0 +1,300 @@
+// Final Result Autofill
+// 🔍 API Monitor Agent: Pulls the final score and box score once a planned event has happened
+// ✅ Code Quality Agent: Same sources as the match/game detail routes used by the new-event forms
+
+import type { Prisma } from '@prisma/client';
+import {
+  getMatchDetails,
+  processMatchLineScore,
+  processMatchTimeline,
+  processMatchToAppearances,
+  type FootballMatchDetails,
+} from '@/lib/api/football-data';
+import {
+  getExtendedMatchDetails,
+  isApiFootballConfigured,
+  type ApiFootballMatchDetails,
+} from '@/lib/api/api-football';
+import {
+  getGameDetails as getNbaGameDetails,
+  getGameStats,
+  processGameLineScore,
+  processGameStats,
+  type BasketballAppearance,
+} from '@/lib/api/balldontlie';
+import {
+  getGameDetails as getMlbGameDetails,
+  getGameBoxScore,
+  getGameLineScore,
+  processBoxScore,
+  processLineScore,
+  type BaseballAppearance,
+  type BaseballPitchingAppearance,
+} from '@/lib/api/mlb';
+import type { PeriodScoreInput } from '@/lib/utils/line-score';
+import type { MatchEventInput } from '@/lib/utils/match-timeline';
+import { soccerResultFromApi } from '@/lib/utils/match-result';
+import { saveLineScore } from './line-score';
+import { saveMatchTimeline } from './match-timeline';
+
+type SportEvent = Prisma.EventGetPayload<{
+  include: { soccerMatch: true; basketballGame: true; baseballGame: true };
+}>;
+
+interface SoccerResultAppearance {
+  playerId: number;
+  playerName: string;
+  teamName: string;
+  goals: number;
+  assists: number;
+  yellowCard: boolean;
+  redCard: boolean;
+  cleanSheet: boolean;
+}
+
+// lineScore is null when the source has no per-period breakdown
+export type FinalResult = { lineScore: PeriodScoreInput[] | null } & (
+  | {
+      sport: 'SOCCER';
+      homeScore: number;
+      awayScore: number;
+      extraTime: boolean;
+      homePenalties: number | null;
+      awayPenalties: number | null;
+      appearances: SoccerResultAppearance[];
+      timeline: MatchEventInput[];
+    }
+  | { sport: 'BASKETBALL'; homeScore: number; awayScore: number; appearances: BasketballAppearance[] }
+  | {
+      sport: 'BASEBALL';
+      homeScore: number;
+      awayScore: number;
+      appearances: BaseballAppearance[];
+      pitching: BaseballPitchingAppearance[];
+    }
+);
+
+// API-Football first (it has goal scorers on the free tier), like /api/football/match/[id]
+async function fetchSoccerMatch(matchId: number): Promise<FootballMatchDetails | ApiFootballMatchDetails> {
+  if (isApiFootballConfigured()) {
+    try {
+      return await getExtendedMatchDetails(matchId);
+    } catch (error) {
+      console.warn('API-Football failed, trying Football-Data.org:', error);
+    }
+  }
+  return getMatchDetails(matchId);
+}
+
+async function fetchSoccerResult(match: NonNullable<SportEvent['soccerMatch']>): Promise<FinalResult | null> {
+  const details = await fetchSoccerMatch(parseInt(match.externalMatchId!, 10));
+  const score = soccerResultFromApi(details.score);
+  if (!score) return null; // Not finished yet
+
+  // Only players who did something worth recording, as in the new-event form
+  const { homeAppearances, awayAppearances } = processMatchToAppearances(details);
+  const appearances = [
+    ...homeAppearances.map((app) => ({ ...app, teamName: match.homeTeam })),
+    ...awayAppearances.map((app) => ({ ...app, teamName: match.awayTeam })),
+  ].filter(
+    (app) =>
+      app.playerName?.trim() &&
+      (app.goals > 0 || app.assists > 0 || app.yellowCard || app.redCard || app.cleanSheet)
+  );
+
+  return {
+    sport: 'SOCCER',
+    ...score,
+    appearances,
+    timeline: processMatchTimeline(details),
+    lineScore: processMatchLineScore(details),
+  };
+}
+
+async function fetchBasketballResult(game: NonNullable<SportEvent['basketballGame']>): Promise<FinalResult | null> {
+  const gameId = parseInt(game.externalGameId!, 10);
+  const [details, stats] = await Promise.all([getNbaGameDetails(gameId), getGameStats(gameId)]);
+  if (!details.status.toLowerCase().includes('final')) return null;
+
+  const { homeStats, awayStats } = processGameStats(stats, details.home_team.id);
+  return {
+    sport: 'BASKETBALL',
+    homeScore: details.home_team_score,
+    awayScore: details.visitor_team_score,
+    appearances: [...homeStats, ...awayStats],
+    lineScore: processGameLineScore(details),
+  };
+}
+
+async function fetchBaseballResult(game: NonNullable<SportEvent['baseballGame']>): Promise<FinalResult | null> {
+  const gamePk = parseInt(game.externalGameId!, 10);
+  const [details, boxScore, lineScore] = await Promise.all([
+    getMlbGameDetails(gamePk),
+    getGameBoxScore(gamePk),
+    getGameLineScore(gamePk).catch(() => null),
+  ]);
+  const homeScore = details.teams.home.score;
+  const awayScore = details.teams.away.score;
+  if (details.status.abstractGameState !== 'Final' || homeScore === undefined || awayScore === undefined) {
+    return null;
+  }
+
+  const { homeStats, awayStats, homePitching, awayPitching } = processBoxScore(boxScore);
+  return {
+    sport: 'BASEBALL',
+    homeScore,
+    awayScore,
+    appearances: [...homeStats, ...awayStats],
+    pitching: [...homePitching, ...awayPitching],
+    lineScore: lineScore ? processLineScore(lineScore) : null,
+  };
+}
+
+/**
+ * Whether the event was picked from a search and so has a result to fetch.
+ */
+export function canAutofill(event: SportEvent): boolean {
+  return Boolean(
+    event.soccerMatch?.externalMatchId ||
+      event.basketballGame?.externalGameId ||
+      event.baseballGame?.externalGameId
+  );
+}
+
+/**
+ * Fetch the final score and box score. Returns null when the source has
+ * no final result yet. Call outside the write transaction - this hits the network.
+ */
+export async function fetchFinalResult(event: SportEvent): Promise<FinalResult | null> {
+  if (event.soccerMatch?.externalMatchId) return fetchSoccerResult(event.soccerMatch);
+  if (event.basketballGame?.externalGameId) return fetchBasketballResult(event.basketballGame);
+  if (event.baseballGame?.externalGameId) return fetchBaseballResult(event.baseballGame);
+  return null;
+}
+
+async function findOrCreatePlayer(
+  tx: Prisma.TransactionClient,
+  name: string,
+  sport: FinalResult['sport'],
+  team: string,
+  externalId: number
+) {
+  const existing = await tx.player.findFirst({ where: { name, sport } });
+  if (existing) return existing;
+
+  return tx.player.create({
+    data: { name, sport, team, externalId: externalId.toString() },
+  });
+}
+
+/**
+ * Replace the event's score, player appearances and pitching lines with a fetched result.
+ * A line score or timeline entered by hand is kept when the source doesn't have one.
+ */
+export async function applyFinalResult(
+  tx: Prisma.TransactionClient,
+  event: SportEvent,
+  result: FinalResult
+): Promise<void> {
+  const scores = { homeScore: result.homeScore, awayScore: result.awayScore };
+
+  if (result.sport === 'SOCCER' && event.soccerMatch) {
+    const matchId = event.soccerMatch.id;
+    await tx.soccerMatch.update({
+      where: { id: matchId },
+      data: {
+        ...scores,
+        extraTime: result.extraTime,
+        homePenalties: result.homePenalties,
+        awayPenalties: result.awayPenalties,
+      },
+    });
+    await tx.soccerAppearance.deleteMany({ where: { matchId } });
+    for (const app of result.appearances) {
+      const player = await findOrCreatePlayer(tx, app.playerName, 'SOCCER', app.teamName, app.playerId);
+      await tx.soccerAppearance.create({
+        data: {
+          matchId,
+          playerId: player.id,
+          goals: app.goals,
+          assists: app.assists,
+          yellowCard: app.yellowCard,
+          redCard: app.redCard,
+          cleanSheet: app.cleanSheet,
+        },
+      });
+    }
+    if (result.timeline.length > 0) {
+      await saveMatchTimeline(tx, matchId, result.timeline);
+    }
+  }
+
+  if (result.sport === 'BASKETBALL' && event.basketballGame) {
+    const gameId = event.basketballGame.id;
+    await tx.basketballGame.update({ where: { id: gameId }, data: scores });
+    await tx.basketballAppearance.deleteMany({ where: { gameId } });
+    for (const app of result.appearances) {
+      const player = await findOrCreatePlayer(tx, app.playerName, 'BASKETBALL', app.teamName, app.playerId);
+      await tx.basketballAppearance.create({
+        data: {
+          gameId,
+          playerId: player.id,
+          points: app.points,
+          rebounds: app.rebounds,
+          assists: app.assists,
+          steals: app.steals,
+          blocks: app.blocks,
+          turnovers: app.turnovers,
+          minutes: app.minutes,
+        },
+      });
+    }
+  }
+
+  if (result.sport === 'BASEBALL' && event.baseballGame) {
+    const gameId = event.baseballGame.id;
+    await tx.baseballGame.update({ where: { id: gameId }, data: scores });
+    await tx.baseballAppearance.deleteMany({ where: { gameId } });
+    for (const app of result.appearances) {
+      const player = await findOrCreatePlayer(tx, app.playerName, 'BASEBALL', app.teamName, app.playerId);
+      await tx.baseballAppearance.create({
+        data: {
+          gameId,
+          playerId: player.id,
+          position: app.position,
+          homeRuns: app.homeRuns,
+          hits: app.hits,
+          rbis: app.rbis,
+          runs: app.runs,
+          atBats: app.atBats,
+          strikeOuts: app.strikeOuts,
+          walks: app.walks,
+        },
+      });
+    }
+    await tx.baseballPitchingAppearance.deleteMany({ where: { gameId } });
+    for (const line of result.pitching) {
+      const player = await findOrCreatePlayer(tx, line.playerName, 'BASEBALL', line.teamName, line.playerId);
+      await tx.baseballPitchingAppearance.create({
+        data: {
+          gameId,
+          playerId: player.id,
+          isHome: line.isHome,
+          order: line.order,
+          outsRecorded: line.outsRecorded,
+          hits: line.hits,
+          runs: line.runs,
+          earnedRuns: line.earnedRuns,
+          walks: line.walks,
+          strikeOuts: line.strikeOuts,
+          pitchCount: line.pitchCount,
+          decision: line.decision,
+        },
+      });
+    }
+  }
+
+  if (result.lineScore) {
+    await saveLineScore(tx, event.id, result.lineScore);
+  }
+}
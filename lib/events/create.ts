@@ -0,0 +1,678 @@
+// Event Creation
+// 🔍 API Monitor Agent: Runs inside a caller-owned transaction so routes and bulk import share it
+// ✅ Code Quality Agent: One function per sport, mirroring the creation routes
+
+import type { Prisma } from '@prisma/client';
+import { findOrCreateTeam } from '@/lib/api/team-logos';
+import { resolveEventStatus } from './schemas';
+import { saveTennisScore } from './tennis';
+import { saveLineScore } from './line-score';
+import { saveMatchTimeline } from './match-timeline';
+import { saveSetlist } from '@/lib/db/songs';
+import { cupTieFromLineScore, saveCupTie } from './cup-tie';
+import { resolveEventTiming } from '@/lib/utils/timezone';
+import { parseInningsPitched } from '@/lib/utils/pitching';
+import type {
+  SoccerEventInput,
+  BasketballEventInput,
+  BaseballEventInput,
+  TennisEventInput,
+  ConcertEventInput,
+} from './schemas';
+
+/**
+ * Create a soccer match with its venue, teams and player appearances.
+ */
+export async function createSoccerEvent(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  validated: SoccerEventInput
+) {
+  // Find or create venue
+  let venue = await tx.venue.findFirst({
+    where: {
+      name: validated.venueName,
+      ...(validated.venueCity && { city: validated.venueCity }),
+      ...(validated.venueCountry && { country: validated.venueCountry }),
+    },
+  });
+
+  if (!venue) {
+    venue = await tx.venue.create({
+      data: {
+        name: validated.venueName,
+        city: validated.venueCity || 'Unknown',
+        country: validated.venueCountry || 'Unknown',
+        type: 'STADIUM',
+      },
+    });
+  }
+
+  // Resolve aliases (e.g. "Manchester United FC" vs "Manchester United") to canonical teams
+  const homeTeam = await findOrCreateTeam(validated.homeTeam, 'SOCCER', {
+    externalId: validated.homeTeamId,
+    logoUrl: validated.homeTeamCrest,
+    league: validated.competition,
+  }, tx);
+  const awayTeam = await findOrCreateTeam(validated.awayTeam, 'SOCCER', {
+    externalId: validated.awayTeamId,
+    logoUrl: validated.awayTeamCrest,
+    league: validated.competition,
+  }, tx);
+
+  // Kickoff times are venue-local
+  const timing = resolveEventTiming(validated.date, validated.kickoffTime, venue.timezone);
+
+  // Forms that only filled in a line score still get the shootout and extra-time flag
+  const fromLineScore = cupTieFromLineScore(validated.lineScore);
+
+  // Create event
+  const newEvent = await tx.event.create({
+    data: {
+      type: 'SOCCER',
+      ...timing,
+      venueId: venue.id,
+      userId: userId,
+      notes: validated.notes,
+      rating: validated.rating,
+      companions: validated.companions,
+      status: resolveEventStatus(validated.status, timing.date),
+      supportedSide: validated.supportedSide,
+      soccerMatch: {
+        create: {
+          homeTeam: homeTeam.name,
+          awayTeam: awayTeam.name,
+          homeTeamRefId: homeTeam.id,
+          awayTeamRefId: awayTeam.id,
+          homeScore: validated.homeScore,
+          awayScore: validated.awayScore,
+          extraTime: validated.extraTime ?? fromLineScore.extraTime,
+          homePenalties: validated.homePenalties ?? fromLineScore.homePenalties,
+          awayPenalties: validated.awayPenalties ?? fromLineScore.awayPenalties,
+          competition: validated.competition,
+          externalMatchId: validated.externalMatchId,
+        },
+      },
+    },
+    include: {
+      venue: true,
+      soccerMatch: true,
+    },
+  });
+
+  if (validated.firstLegEventId && newEvent.soccerMatch) {
+    await saveCupTie(tx, userId, newEvent.soccerMatch, validated.firstLegEventId);
+  }
+
+  // Create player appearances
+  if (validated.appearances.length > 0 && newEvent.soccerMatch) {
+    for (const app of validated.appearances) {
+      // Find or create player
+      let player = await tx.player.findFirst({
+        where: {
+          name: app.playerName,
+          sport: 'SOCCER',
+        },
+      });
+
+      if (!player) {
+        player = await tx.player.create({
+          data: {
+            name: app.playerName,
+            sport: 'SOCCER',
+            team: app.team,
+            externalId: app.externalId,
+          },
+        });
+      }
+
+      // Create appearance
+      await tx.soccerAppearance.create({
+        data: {
+          matchId: newEvent.soccerMatch.id,
+          playerId: player.id,
+          goals: app.goals,
+          assists: app.assists,
+          cleanSheet: app.cleanSheet,
+          yellowCard: app.yellowCard,
+          redCard: app.redCard,
+          minutesPlayed: app.minutesPlayed,
+        },
+      });
+    }
+  }
+
+  if (validated.lineScore?.length) {
+    await saveLineScore(tx, newEvent.id, validated.lineScore);
+  }
+
+  if (validated.timeline?.length && newEvent.soccerMatch) {
+    await saveMatchTimeline(tx, newEvent.soccerMatch.id, validated.timeline);
+  }
+
+  // Fetch complete event with all relations
+  return tx.event.findUnique({
+    where: { id: newEvent.id },
+    include: {
+      venue: true,
+      periodScores: { orderBy: { period: 'asc' } },
+      soccerMatch: {
+        include: {
+          appearances: {
+            include: { player: true },
+          },
+          timeline: {
+            include: { player: true, relatedPlayer: true },
+            orderBy: [{ minute: 'asc' }, { extraMinute: 'asc' }, { order: 'asc' }],
+          },
+          firstLeg: true,
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Create a basketball game with its venue and player box score.
+ */
+export async function createBasketballEvent(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  validated: BasketballEventInput
+) {
+  // Resolve aliases to canonical teams so stats group by team, not spelling
+  const homeTeam = await findOrCreateTeam(validated.homeTeam, 'BASKETBALL', { league: validated.competition }, tx);
+  const awayTeam = await findOrCreateTeam(validated.awayTeam, 'BASKETBALL', { league: validated.competition }, tx);
+
+  // Find or create venue
+  let venue = await tx.venue.findFirst({
+    where: {
+      name: validated.venueName,
+      city: validated.venueCity,
+      country: validated.venueCountry,
+    },
+  });
+
+  if (!venue) {
+    venue = await tx.venue.create({
+      data: {
+        name: validated.venueName,
+        city: validated.venueCity,
+        country: validated.venueCountry,
+        type: 'ARENA',
+      },
+    });
+  }
+
+  // Kickoff times are venue-local
+  const timing = resolveEventTiming(validated.date, validated.kickoffTime, venue.timezone);
+
+  // Create event
+  const newEvent = await tx.event.create({
+    data: {
+      type: 'BASKETBALL',
+      ...timing,
+      venueId: venue.id,
+      userId: userId,
+      notes: validated.notes,
+      rating: validated.rating,
+      companions: validated.companions,
+      status: resolveEventStatus(validated.status, timing.date),
+      supportedSide: validated.supportedSide,
+      basketballGame: {
+        create: {
+          homeTeam: homeTeam.name,
+          awayTeam: awayTeam.name,
+          homeTeamRefId: homeTeam.id,
+          awayTeamRefId: awayTeam.id,
+          homeScore: validated.homeScore,
+          awayScore: validated.awayScore,
+          competition: validated.competition,
+          externalGameId: validated.externalGameId,
+        },
+      },
+    },
+    include: {
+      venue: true,
+      basketballGame: true,
+    },
+  });
+
+  // Create player appearances
+  if (validated.appearances.length > 0 && newEvent.basketballGame) {
+    for (const app of validated.appearances) {
+      // Find or create player
+      let player = await tx.player.findFirst({
+        where: {
+          name: app.playerName,
+          sport: 'BASKETBALL',
+        },
+      });
+
+      if (!player) {
+        player = await tx.player.create({
+          data: {
+            name: app.playerName,
+            sport: 'BASKETBALL',
+            team: app.team,
+            externalId: app.externalId,
+          },
+        });
+      }
+
+      // Create appearance
+      await tx.basketballAppearance.create({
+        data: {
+          gameId: newEvent.basketballGame.id,
+          playerId: player.id,
+          points: app.points,
+          rebounds: app.rebounds,
+          assists: app.assists,
+          steals: app.steals,
+          blocks: app.blocks,
+          turnovers: app.turnovers,
+          minutes: app.minutes,
+        },
+      });
+    }
+  }
+
+  if (validated.lineScore?.length) {
+    await saveLineScore(tx, newEvent.id, validated.lineScore);
+  }
+
+  // Fetch complete event with all relations
+  return tx.event.findUnique({
+    where: { id: newEvent.id },
+    include: {
+      venue: true,
+      periodScores: { orderBy: { period: 'asc' } },
+      basketballGame: {
+        include: {
+          appearances: {
+            include: { player: true },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Create a baseball game with its venue and player batting lines.
+ */
+export async function createBaseballEvent(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  validated: BaseballEventInput
+) {
+  // Resolve aliases to canonical teams so stats group by team, not spelling
+  const homeTeam = await findOrCreateTeam(validated.homeTeam, 'BASEBALL', { league: validated.competition }, tx);
+  const awayTeam = await findOrCreateTeam(validated.awayTeam, 'BASEBALL', { league: validated.competition }, tx);
+
+  // Find or create venue
+  let venue = await tx.venue.findFirst({
+    where: {
+      name: validated.venueName,
+      city: validated.venueCity,
+      country: validated.venueCountry,
+    },
+  });
+
+  if (!venue) {
+    venue = await tx.venue.create({
+      data: {
+        name: validated.venueName,
+        city: validated.venueCity,
+        country: validated.venueCountry,
+        type: 'STADIUM',
+      },
+    });
+  }
+
+  // Kickoff times are venue-local
+  const timing = resolveEventTiming(validated.date, validated.kickoffTime, venue.timezone);
+
+  // Create event
+  const newEvent = await tx.event.create({
+    data: {
+      type: 'BASEBALL',
+      ...timing,
+      venueId: venue.id,
+      userId: userId,
+      notes: validated.notes,
+      rating: validated.rating,
+      companions: validated.companions,
+      status: resolveEventStatus(validated.status, timing.date),
+      supportedSide: validated.supportedSide,
+      baseballGame: {
+        create: {
+          homeTeam: homeTeam.name,
+          awayTeam: awayTeam.name,
+          homeTeamRefId: homeTeam.id,
+          awayTeamRefId: awayTeam.id,
+          homeScore: validated.homeScore,
+          awayScore: validated.awayScore,
+          competition: validated.competition,
+          externalGameId: validated.externalGameId,
+        },
+      },
+    },
+    include: {
+      venue: true,
+      baseballGame: true,
+    },
+  });
+
+  // Create player appearances
+  if (validated.appearances.length > 0 && newEvent.baseballGame) {
+    for (const app of validated.appearances) {
+      // Find or create player
+      let player = await tx.player.findFirst({
+        where: {
+          name: app.playerName,
+          sport: 'BASEBALL',
+        },
+      });
+
+      if (!player) {
+        player = await tx.player.create({
+          data: {
+            name: app.playerName,
+            sport: 'BASEBALL',
+            team: app.team,
+            externalId: app.externalId,
+          },
+        });
+      }
+
+      // Create appearance
+      await tx.baseballAppearance.create({
+        data: {
+          gameId: newEvent.baseballGame.id,
+          playerId: player.id,
+          position: app.position,
+          homeRuns: app.homeRuns,
+          hits: app.hits,
+          rbis: app.rbis,
+          runs: app.runs,
+          atBats: app.atBats,
+          strikeOuts: app.strikeOuts,
+          walks: app.walks,
+        },
+      });
+    }
+  }
+
+  // Create pitching appearances, starter first unless an order was given
+  if (validated.pitching.length > 0 && newEvent.baseballGame) {
+    for (const [index, line] of validated.pitching.entries()) {
+      let player = await tx.player.findFirst({
+        where: {
+          name: line.playerName,
+          sport: 'BASEBALL',
+        },
+      });
+
+      if (!player) {
+        player = await tx.player.create({
+          data: {
+            name: line.playerName,
+            sport: 'BASEBALL',
+            team: line.team,
+            externalId: line.externalId,
+          },
+        });
+      }
+
+      await tx.baseballPitchingAppearance.create({
+        data: {
+          gameId: newEvent.baseballGame.id,
+          playerId: player.id,
+          isHome: line.isHome,
+          order: line.order ?? index,
+          outsRecorded: parseInningsPitched(line.inningsPitched) ?? 0,
+          hits: line.hits,
+          runs: line.runs,
+          earnedRuns: line.earnedRuns,
+          walks: line.walks,
+          strikeOuts: line.strikeOuts,
+          pitchCount: line.pitchCount,
+          decision: line.decision,
+        },
+      });
+    }
+  }
+
+  if (validated.lineScore?.length) {
+    await saveLineScore(tx, newEvent.id, validated.lineScore);
+  }
+
+  // Fetch complete event with all relations
+  return tx.event.findUnique({
+    where: { id: newEvent.id },
+    include: {
+      venue: true,
+      periodScores: { orderBy: { period: 'asc' } },
+      baseballGame: {
+        include: {
+          appearances: {
+            include: { player: true },
+          },
+          pitching: {
+            include: { player: true },
+            orderBy: { order: 'asc' },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Create a tennis match with its venue, both players and parsed sets.
+ */
+export async function createTennisEvent(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  validated: TennisEventInput
+) {
+  // Find or create venue
+  let venue = await tx.venue.findFirst({
+    where: {
+      name: validated.venueName,
+      city: validated.venueCity,
+      country: validated.venueCountry,
+    },
+  });
+
+  if (!venue) {
+    venue = await tx.venue.create({
+      data: {
+        name: validated.venueName,
+        city: validated.venueCity,
+        country: validated.venueCountry,
+        type: 'STADIUM',
+      },
+    });
+  }
+
+  // Find or create players
+  let player1 = await tx.player.findFirst({
+    where: { name: validated.player1Name, sport: 'TENNIS' },
+  });
+  if (!player1) {
+    player1 = await tx.player.create({
+      data: { name: validated.player1Name, sport: 'TENNIS' },
+    });
+  }
+
+  let player2 = await tx.player.findFirst({
+    where: { name: validated.player2Name, sport: 'TENNIS' },
+  });
+  if (!player2) {
+    player2 = await tx.player.create({
+      data: { name: validated.player2Name, sport: 'TENNIS' },
+    });
+  }
+
+  // The score decides the winner; the picked winner covers retirements and walkovers
+  let winnerId: string | undefined;
+  if (validated.winnerName) {
+    if (validated.winnerName === validated.player1Name) {
+      winnerId = player1.id;
+    } else if (validated.winnerName === validated.player2Name) {
+      winnerId = player2.id;
+    }
+  }
+
+  // Kickoff times are venue-local
+  const timing = resolveEventTiming(validated.date, validated.kickoffTime, venue.timezone);
+
+  // Create event
+  const newEvent = await tx.event.create({
+    data: {
+      type: 'TENNIS',
+      ...timing,
+      venueId: venue.id,
+      userId: userId,
+      notes: validated.notes,
+      rating: validated.rating,
+      companions: validated.companions,
+      status: resolveEventStatus(validated.status, timing.date),
+      tennisMatch: {
+        create: {
+          player1Id: player1.id,
+          player2Id: player2.id,
+          winnerId,
+          score: validated.score,
+          tournament: validated.tournament,
+          round: validated.round,
+        },
+      },
+    },
+    include: {
+      venue: true,
+      tennisMatch: true,
+    },
+  });
+
+  // Store sets, winner and sets won parsed from the score (e.g., "6-4, 3-6, 7-6(5)")
+  if (newEvent.tennisMatch) {
+    await saveTennisScore(tx, newEvent.tennisMatch, validated.score, winnerId);
+  }
+
+  // Fetch complete event with all relations
+  return tx.event.findUnique({
+    where: { id: newEvent.id },
+    include: {
+      venue: true,
+      tennisMatch: {
+        include: {
+          player1: true,
+          player2: true,
+          winner: true,
+          appearances: {
+            include: { player: true },
+          },
+          sets: {
+            orderBy: { setNumber: 'asc' },
+          },
+        },
+      },
+    },
+  });
+}
+
+/**
+ * Create a concert with its venue, artist and setlist.
+ */
+export async function createConcertEvent(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  validated: ConcertEventInput
+) {
+  // Find or create venue
+  let venue = await tx.venue.findFirst({
+    where: {
+      name: validated.venueName,
+      city: validated.venueCity,
+      country: validated.venueCountry,
+    },
+  });
+
+  if (!venue) {
+    venue = await tx.venue.create({
+      data: {
+        name: validated.venueName,
+        city: validated.venueCity,
+        country: validated.venueCountry,
+        type: 'THEATER',
+      },
+    });
+  }
+
+  // Find or create artist
+  let artist = await tx.artist.findFirst({
+    where: { name: validated.artistName },
+  });
+
+  if (!artist) {
+    artist = await tx.artist.create({
+      data: {
+        name: validated.artistName,
+        externalId: validated.artistMbid,
+      },
+    });
+  }
+
+  // Kickoff times are venue-local
+  const timing = resolveEventTiming(validated.date, validated.kickoffTime, venue.timezone);
+
+  // Create event
+  const newEvent = await tx.event.create({
+    data: {
+      type: 'CONCERT',
+      ...timing,
+      venueId: venue.id,
+      userId: userId,
+      notes: validated.notes,
+      rating: validated.rating,
+      companions: validated.companions,
+      status: resolveEventStatus(validated.status, timing.date),
+      concert: {
+        create: {
+          artistId: artist.id,
+          tourName: validated.tourName,
+          openingActs: validated.openingActs,
+          externalSetlistId: validated.externalSetlistId,
+        },
+      },
+    },
+    include: {
+      venue: true,
+      concert: true,
+    },
+  });
+
+  // Create setlist items, linked to the artist's songs
+  if (validated.setlist.length > 0 && newEvent.concert) {
+    await saveSetlist(tx, newEvent.concert.id, artist.id, validated.setlist);
+  }
+
+  // Fetch complete event with all relations
+  return tx.event.findUnique({
+    where: { id: newEvent.id },
+    include: {
+      venue: true,
+      concert: {
+        include: {
+          artist: true,
+          setlist: {
+            orderBy: { order: 'asc' },
+          },
+        },
+      },
+    },
+  });
+}
@@ -0,0 +1,153 @@
+// Cup Ties
+// ✅ Code Quality Agent: Links the legs of a two-legged tie and checks shootouts add up
+//
+// Only the second leg stores the link. A linked second leg can only go to penalties
+// on a level score or a level aggregate.
+
+import type { Prisma } from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { resolveTeamName } from '@/lib/db/teams';
+import { aggregateScore, hasShootout, isSamePairing, type ScoreLine } from '@/lib/utils/match-result';
+import type { PeriodScoreInput } from '@/lib/utils/line-score';
+
+// Thrown for a first leg or shootout that doesn't fit the match; routes answer 400
+export class CupTieError extends Error {}
+
+interface SecondLeg extends ScoreLine {
+  id: string;
+  eventId: string;
+  homeTeam: string;
+  awayTeam: string;
+  homeTeamRefId: string | null;
+  awayTeamRefId: string | null;
+}
+
+export interface FirstLegCandidate {
+  eventId: string;
+  date: Date;
+  homeTeam: string;
+  awayTeam: string;
+  homeScore: number;
+  awayScore: number;
+  competition: string | null;
+}
+
+// Same two teams, by linked Team where both matches have one
+function samePairing(
+  a: Pick<SecondLeg, 'homeTeam' | 'awayTeam' | 'homeTeamRefId' | 'awayTeamRefId'>,
+  b: Pick<SecondLeg, 'homeTeam' | 'awayTeam' | 'homeTeamRefId' | 'awayTeamRefId'>
+): boolean {
+  if (a.homeTeamRefId && a.awayTeamRefId && b.homeTeamRefId && b.awayTeamRefId) {
+    const teams = new Set([a.homeTeamRefId, a.awayTeamRefId]);
+    return teams.has(b.homeTeamRefId) && teams.has(b.awayTeamRefId);
+  }
+  return isSamePairing(a, b);
+}
+
+/**
+ * Shootout and extra-time flag from a line score, for forms that only filled that in.
+ */
+export function cupTieFromLineScore(lineScore: PeriodScoreInput[] | undefined): {
+  extraTime: boolean;
+  homePenalties: number | null;
+  awayPenalties: number | null;
+} {
+  const shootout = lineScore?.find((p) => p.type === 'SHOOTOUT');
+  return {
+    extraTime: !!lineScore?.some((p) => p.type === 'OVERTIME'),
+    homePenalties: shootout?.homeScore ?? null,
+    awayPenalties: shootout?.awayScore ?? null,
+  };
+}
+
+/**
+ * Point `match` at the first leg logged as `firstLegEventId`, or unlink it with
+ * null, then check its shootout against the score or aggregate.
+ */
+export async function saveCupTie(
+  tx: Prisma.TransactionClient,
+  userId: string,
+  match: SecondLeg,
+  firstLegEventId: string | null
+) {
+  let firstLeg: (SecondLeg & { secondLeg: { id: string } | null }) | null = null;
+
+  if (firstLegEventId) {
+    firstLeg = await tx.soccerMatch.findFirst({
+      where: { eventId: firstLegEventId, event: { userId } },
+      include: { secondLeg: { select: { id: true } } },
+    });
+    if (!firstLeg || firstLeg.id === match.id) {
+      throw new CupTieError('First leg not found');
+    }
+    if (firstLeg.secondLeg && firstLeg.secondLeg.id !== match.id) {
+      throw new CupTieError('That match is already the first leg of another tie');
+    }
+    if (!samePairing(firstLeg, match)) {
+      throw new CupTieError('The first leg must be between the same two teams');
+    }
+  }
+
+  // A shootout after a leg that wasn't level can only have settled the tie
+  if (firstLeg && hasShootout(match) && match.homeScore !== match.awayScore) {
+    const aggregate = aggregateScore(firstLeg, match);
+    if (aggregate.home !== aggregate.away) {
+      throw new CupTieError('A penalty shootout needs a level score, or a level aggregate over two legs');
+    }
+  }
+
+  await tx.soccerMatch.update({
+    where: { id: match.id },
+    data: { firstLegId: firstLeg?.id ?? null },
+  });
+}
+
+/**
+ * The user's matches between the same two teams that could be the first leg of
+ * a tie played on `before` - newest first. Matches already paired with another
+ * second leg are left out; `excludeEventId` is the second leg being edited.
+ */
+export async function findFirstLegCandidates(
+  userId: string,
+  homeTeam: string,
+  awayTeam: string,
+  options: { before?: Date; excludeEventId?: string } = {}
+): Promise<FirstLegCandidate[]> {
+  const teams = [await resolveTeamName(homeTeam, 'SOCCER'), await resolveTeamName(awayTeam, 'SOCCER')];
+  const named = teams.map((name) => ({ equals: name, mode: 'insensitive' as const }));
+
+  const matches = await prisma.soccerMatch.findMany({
+    where: {
+      event: {
+        userId,
+        ...(options.before && { date: { lt: options.before } }),
+        ...(options.excludeEventId && { id: { not: options.excludeEventId } }),
+      },
+      OR: [
+        { homeTeam: named[0], awayTeam: named[1] },
+        { homeTeam: named[1], awayTeam: named[0] },
+      ],
+      AND: [
+        {
+          OR: [
+            { secondLeg: null },
+            ...(options.excludeEventId ? [{ secondLeg: { eventId: options.excludeEventId } }] : []),
+          ],
+        },
+      ],
+    },
+    include: { event: { select: { date: true } } },
+    orderBy: { event: { date: 'desc' } },
+    take: 10,
+  });
+
+  return matches.map((m) => ({
+    eventId: m.eventId,
+    date: m.event.date,
+    homeTeam: m.homeTeam,
+    awayTeam: m.awayTeam,
+    homeScore: m.homeScore,
+    awayScore: m.awayScore,
+    competition: m.competition,
+  }));
+}
@@ -0,0 +1,28 @@
+// Line Score Persistence
+// ✅ Code Quality Agent: Replaces an event's period scores on create, edit and auto-fill
+
+import type { Prisma } from '@prisma/client';
+import type { PeriodScoreInput } from '@/lib/utils/line-score';
+
+/**
+ * Store `periods` as the event's line score, numbered from 1 in the order given.
+ * An empty list clears it.
+ */
+export async function saveLineScore(
+  tx: Prisma.TransactionClient,
+  eventId: string,
+  periods: PeriodScoreInput[]
+) {
+  await tx.periodScore.deleteMany({ where: { eventId } });
+  if (periods.length > 0) {
+    await tx.periodScore.createMany({
+      data: periods.map((period, index) => ({
+        eventId,
+        period: index + 1,
+        type: period.type,
+        homeScore: period.homeScore,
+        awayScore: period.awayScore,
+      })),
+    });
+  }
+}
@@ -0,0 +1,48 @@
+// Soccer Timeline Persistence
+// ✅ Code Quality Agent: Replaces a match's goals, cards and substitutions on create, edit and auto-fill
+
+import type { Prisma } from '@prisma/client';
+import { sortTimeline, type MatchEventInput } from '@/lib/utils/match-timeline';
+
+/**
+ * Store `events` as the match timeline in match order. Players are matched to
+ * existing soccer players by name and created when new. An empty list clears it.
+ */
+export async function saveMatchTimeline(
+  tx: Prisma.TransactionClient,
+  matchId: string,
+  events: MatchEventInput[]
+) {
+  await tx.soccerMatchEvent.deleteMany({ where: { matchId } });
+  if (events.length === 0) return;
+
+  const playerIds = new Map<string, string>();
+  const resolvePlayer = async (name: string | null) => {
+    if (!name) return null;
+    const cached = playerIds.get(name);
+    if (cached) return cached;
+
+    const player =
+      (await tx.player.findFirst({ where: { name, sport: 'SOCCER' } })) ??
+      (await tx.player.create({ data: { name, sport: 'SOCCER' } }));
+    playerIds.set(name, player.id);
+    return player.id;
+  };
+
+  const data: Prisma.SoccerMatchEventCreateManyInput[] = [];
+  for (const [index, event] of sortTimeline(events).entries()) {
+    data.push({
+      matchId,
+      type: event.type,
+      minute: event.minute,
+      extraMinute: event.extraMinute,
+      isHome: event.team === 'home',
+      order: index,
+      playerId: await resolvePlayer(event.playerName),
+      relatedPlayerId: await resolvePlayer(event.relatedPlayerName),
+      detail: event.detail,
+    });
+  }
+  await tx.soccerMatchEvent.createMany({ data });
+}
+
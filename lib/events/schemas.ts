@@ -0,0 +1,270 @@
+// Event Creation Schemas
+// ✅ Code Quality Agent: Shared zod schemas for the sport creation routes and bulk import
+
+import { z } from 'zod';
+import { parseTennisScore } from '@/lib/utils/tennis-score';
+import { KICKOFF_TIME_PATTERN } from '@/lib/utils/timezone';
+import { parseInningsPitched, PITCHING_DECISIONS } from '@/lib/utils/pitching';
+import { PERIOD_TYPES } from '@/lib/utils/line-score';
+import { MATCH_EVENT_TYPES } from '@/lib/utils/match-timeline';
+import { shootoutIssues } from '@/lib/utils/match-result';
+
+// Omitted status is derived from the date - see resolveEventStatus
+export const eventStatusSchema = z.enum(['PLANNED', 'ATTENDED', 'MISSED']);
+
+// A bare "yyyy-MM-dd" for a date-only entry, or an ISO instant - kept as typed so
+// resolveEventTiming can tell the two apart
+export const eventDateSchema = z.string().refine((s) => !Number.isNaN(new Date(s).getTime()), 'Invalid date');
+
+// Venue-local "HH:mm" - with it, `date` is read as the local day (see resolveEventTiming)
+export const kickoffTimeSchema = z.string().regex(KICKOFF_TIME_PATTERN, 'Use HH:mm');
+
+// Omitted side falls back to the user's favourite teams - see resolveSupportedSide
+export const supportedSideSchema = z.enum(['HOME', 'AWAY', 'NEUTRAL']);
+
+// Periods in playing order - innings, quarters or halves, then overtime and any shootout.
+// Totals aren't checked against the final score; the form warns instead.
+export const lineScoreSchema = z.array(z.object({
+  type: z.enum(PERIOD_TYPES).default('REGULAR'),
+  homeScore: z.number().int().min(0).nullable(),
+  awayScore: z.number().int().min(0).nullable(),
+})).max(30);
+
+// Soccer timeline - `team` is the side a goal counts for, so own goals go to the opponents
+export const matchTimelineSchema = z.array(z.object({
+  type: z.enum(MATCH_EVENT_TYPES),
+  minute: z.number().int().min(0).max(150),
+  extraMinute: z.number().int().min(1).max(30).nullable().optional().transform(v => v ?? null),
+  team: z.enum(['home', 'away']),
+  playerName: z.string().trim().nullable().optional().transform(v => v || null),
+  relatedPlayerName: z.string().trim().nullable().optional().transform(v => v || null),
+  detail: z.string().trim().max(100).nullable().optional().transform(v => v || null),
+})).max(200);
+
+// Soccer - POST /api/events/soccer
+export const soccerEventSchema = z.object({
+  date: eventDateSchema,
+  kickoffTime: kickoffTimeSchema.optional(),
+  venueName: z.string().min(1, 'Venue name is required'),
+  venueCity: z.string().optional().default(''),
+  venueCountry: z.string().optional().default(''),
+  homeTeam: z.string().min(1, 'Home team is required'),
+  awayTeam: z.string().min(1, 'Away team is required'),
+  homeScore: z.coerce.number().min(0).default(0),
+  awayScore: z.coerce.number().min(0).default(0),
+  competition: z.string().optional(),
+  externalMatchId: z.union([z.string(), z.number()]).transform(v => v?.toString()).optional(),
+  // Team logo data from API search
+  homeTeamId: z.union([z.string(), z.number()]).transform(v => v?.toString()).optional(),
+  awayTeamId: z.union([z.string(), z.number()]).transform(v => v?.toString()).optional(),
+  homeTeamCrest: z.string().optional().nullable().transform(v => {
+    if (!v || v === '') return null;
+    try { new URL(v); return v; } catch { return null; }
+  }),
+  awayTeamCrest: z.string().optional().nullable().transform(v => {
+    if (!v || v === '') return null;
+    try { new URL(v); return v; } catch { return null; }
+  }),
+  notes: z.string().optional(),
+  rating: z.number().min(1).max(5).optional(),
+  companions: z.array(z.string()).default([]),
+  status: eventStatusSchema.optional(),
+  supportedSide: supportedSideSchema.optional(),
+  lineScore: lineScoreSchema.optional(),
+  timeline: matchTimelineSchema.optional(),
+  extraTime: z.boolean().optional(),
+  homePenalties: z.number().int().min(0).nullable().optional(),
+  awayPenalties: z.number().int().min(0).nullable().optional(),
+  firstLegEventId: z.string().optional(), // Makes this the second leg of a cup tie
+  appearances: z.array(z.object({
+    playerName: z.string().min(1),
+    externalId: z.union([z.string(), z.number()]).transform(v => v?.toString()).optional(),
+    team: z.string().optional(),
+    goals: z.number().min(0).default(0),
+    assists: z.number().min(0).default(0),
+    cleanSheet: z.boolean().default(false),
+    yellowCard: z.boolean().default(false),
+    redCard: z.boolean().default(false),
+    minutesPlayed: z.number().min(0).max(150).optional(),
+  })).default([]),
+}).superRefine((data, ctx) => {
+  for (const issue of shootoutIssues(data.homePenalties, data.awayPenalties)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue, path: ['homePenalties'] });
+  }
+});
+
+// Basketball - POST /api/events/basketball
+export const basketballEventSchema = z.object({
+  date: eventDateSchema,
+  kickoffTime: kickoffTimeSchema.optional(),
+  venueName: z.string().min(1, 'Venue name is required'),
+  venueCity: z.string().min(1, 'City is required'),
+  venueCountry: z.string().min(1, 'Country is required'),
+  homeTeam: z.string().min(1, 'Home team is required'),
+  awayTeam: z.string().min(1, 'Away team is required'),
+  homeScore: z.number().min(0).default(0),
+  awayScore: z.number().min(0).default(0),
+  competition: z.string().optional(),
+  externalGameId: z.union([z.string(), z.number()]).transform(v => v?.toString()).optional(),
+  notes: z.string().optional(),
+  rating: z.number().min(1).max(5).optional(),
+  companions: z.array(z.string()).default([]),
+  status: eventStatusSchema.optional(),
+  supportedSide: supportedSideSchema.optional(),
+  lineScore: lineScoreSchema.optional(),
+  appearances: z.array(z.object({
+    playerName: z.string().min(1),
+    externalId: z.union([z.string(), z.number()]).transform(v => v?.toString()).optional(),
+    team: z.string().optional(),
+    points: z.number().min(0).default(0),
+    rebounds: z.number().min(0).default(0),
+    assists: z.number().min(0).default(0),
+    steals: z.number().min(0).default(0),
+    blocks: z.number().min(0).default(0),
+    turnovers: z.number().min(0).default(0),
+    minutes: z.string().optional(),
+  })).default([]),
+});
+
+// Baseball - POST /api/events/baseball
+export const baseballEventSchema = z.object({
+  date: eventDateSchema,
+  kickoffTime: kickoffTimeSchema.optional(),
+  venueName: z.string().min(1, 'Venue name is required'),
+  venueCity: z.string().min(1, 'City is required'),
+  venueCountry: z.string().min(1, 'Country is required'),
+  homeTeam: z.string().min(1, 'Home team is required'),
+  awayTeam: z.string().min(1, 'Away team is required'),
+  homeScore: z.number().min(0).default(0),
+  awayScore: z.number().min(0).default(0),
+  competition: z.string().optional(),
+  externalGameId: z.union([z.string(), z.number()]).transform(v => v?.toString()).optional(),
+  notes: z.string().optional(),
+  rating: z.number().min(1).max(5).optional(),
+  companions: z.array(z.string()).default([]),
+  status: eventStatusSchema.optional(),
+  supportedSide: supportedSideSchema.optional(),
+  lineScore: lineScoreSchema.optional(),
+  appearances: z.array(z.object({
+    playerName: z.string().min(1),
+    externalId: z.union([z.string(), z.number()]).transform(v => v?.toString()).optional(),
+    team: z.string().optional(),
+    position: z.string().optional(),
+    homeRuns: z.number().min(0).default(0),
+    hits: z.number().min(0).default(0),
+    rbis: z.number().min(0).default(0),
+    runs: z.number().min(0).default(0),
+    atBats: z.number().min(0).default(0),
+    strikeOuts: z.number().min(0).default(0),
+    walks: z.number().min(0).default(0),
+  })).default([]),
+  // Innings as written in box scores - "6.1" is six innings and one out
+  pitching: z.array(z.object({
+    playerName: z.string().min(1),
+    externalId: z.union([z.string(), z.number()]).transform(v => v?.toString()).optional(),
+    team: z.string().optional(),
+    isHome: z.boolean().optional(),
+    order: z.number().int().min(0).optional(),
+    inningsPitched: z.union([z.string(), z.number()])
+      .transform((v) => String(v))
+      .refine((v) => parseInningsPitched(v) !== null, 'Use innings like 6.1'),
+    hits: z.number().min(0).default(0),
+    runs: z.number().min(0).default(0),
+    earnedRuns: z.number().min(0).default(0),
+    walks: z.number().min(0).default(0),
+    strikeOuts: z.number().min(0).default(0),
+    pitchCount: z.number().int().min(0).nullable().optional(),
+    decision: z.enum(PITCHING_DECISIONS).nullable().optional(),
+  })).default([]),
+});
+
+// Tennis - POST /api/events/tennis
+export const tennisEventSchema = z.object({
+  date: eventDateSchema,
+  kickoffTime: kickoffTimeSchema.optional(),
+  venueName: z.string().min(1, 'Venue name is required'),
+  venueCity: z.string().min(1, 'City is required'),
+  venueCountry: z.string().min(1, 'Country is required'),
+  player1Name: z.string().min(1, 'Player 1 is required'),
+  player2Name: z.string().min(1, 'Player 2 is required'),
+  winnerName: z.string().optional(),
+  score: z.string().default(''), // Blank while the match is still upcoming
+  tournament: z.string().optional(),
+  round: z.string().optional(),
+  notes: z.string().optional(),
+  rating: z.number().min(1).max(5).optional(),
+  companions: z.array(z.string()).default([]),
+  status: eventStatusSchema.optional(),
+}).superRefine((data, ctx) => {
+  if (!data.score.trim()) {
+    if (resolveEventStatus(data.status, new Date(data.date)) !== 'PLANNED') {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Score is required', path: ['score'] });
+    }
+    return;
+  }
+
+  const parsed = parseTennisScore(data.score);
+  for (const message of parsed.errors) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: ['score'] });
+  }
+
+  // A completed score names the winner; a given winner has to agree with it
+  if (parsed.winner && data.winnerName) {
+    const scoreWinner = parsed.winner === 1 ? data.player1Name : data.player2Name;
+    if (data.winnerName !== scoreWinner) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `The score says ${scoreWinner} won`,
+        path: ['winnerName'],
+      });
+    }
+  }
+});
+
+// Concert - POST /api/events/concert
+export const concertEventSchema = z.object({
+  date: eventDateSchema,
+  kickoffTime: kickoffTimeSchema.optional(),
+  venueName: z.string().min(1, 'Venue name is required'),
+  venueCity: z.string().min(1, 'City is required'),
+  venueCountry: z.string().min(1, 'Country is required'),
+  artistName: z.string().min(1, 'Artist name is required'),
+  artistMbid: z.string().optional(),
+  tourName: z.string().optional(),
+  openingActs: z.array(z.string()).default([]),
+  externalSetlistId: z.string().optional(),
+  notes: z.string().optional(),
+  rating: z.number().min(1).max(5).optional(),
+  companions: z.array(z.string()).default([]),
+  status: eventStatusSchema.optional(),
+  // Venue coordinates from Setlist.fm
+  venueLatitude: z.number().optional(),
+  venueLongitude: z.number().optional(),
+  setlist: z.array(z.object({
+    songName: z.string().min(1),
+    order: z.number().min(1),
+    isEncore: z.boolean().default(false),
+    isCover: z.boolean().default(false),
+    coverArtist: z.string().optional(),
+    isTape: z.boolean().default(false),
+    segue: z.boolean().default(false), // Ran straight into the next song
+    notes: z.string().optional(),
+  })).default([]),
+});
+
+export type EventStatusInput = z.infer<typeof eventStatusSchema>;
+export type LineScoreInput = z.infer<typeof lineScoreSchema>;
+export type MatchTimelineInput = z.infer<typeof matchTimelineSchema>;
+
+/**
+ * Events dated in the future are planned unless the caller says otherwise.
+ */
+export function resolveEventStatus(status: EventStatusInput | undefined, date: Date): EventStatusInput {
+  return status ?? (date.getTime() > Date.now() ? 'PLANNED' : 'ATTENDED');
+}
+
+export type SoccerEventInput = z.infer<typeof soccerEventSchema>;
+export type BasketballEventInput = z.infer<typeof basketballEventSchema>;
+export type BaseballEventInput = z.infer<typeof baseballEventSchema>;
+export type TennisEventInput = z.infer<typeof tennisEventSchema>;
+export type ConcertEventInput = z.infer<typeof concertEventSchema>;
@@ -0,0 +1,73 @@
+// Tennis Score Persistence
+// ✅ Code Quality Agent: Keeps score, winner, sets and appearances in step on create and edit
+
+import type { Prisma } from '@prisma/client';
+import { formatTennisScore, parseTennisScore } from '@/lib/utils/tennis-score';
+
+interface TennisMatchRef {
+  id: string;
+  player1Id: string;
+  player2Id: string;
+}
+
+/**
+ * Parse `score` and store it with the per-set rows, the winner and each player's sets won.
+ * The score decides the winner when it can; retirements and walkovers fall back to
+ * `fallbackWinnerId` (the user's pick, or the winner already stored).
+ * Callers validate the score first - an unparseable one is stored as typed, without sets.
+ */
+export async function saveTennisScore(
+  tx: Prisma.TransactionClient,
+  match: TennisMatchRef,
+  score: string,
+  fallbackWinnerId?: string | null
+) {
+  const parsed = parseTennisScore(score);
+  const valid = parsed.errors.length === 0;
+
+  const winnerId = parsed.winner
+    ? parsed.winner === 1 ? match.player1Id : match.player2Id
+    : fallbackWinnerId ?? null;
+
+  await tx.tennisMatch.update({
+    where: { id: match.id },
+    data: {
+      score: valid ? formatTennisScore(parsed) : score,
+      outcome: parsed.outcome,
+      winnerId,
+    },
+  });
+
+  await tx.tennisSet.deleteMany({ where: { matchId: match.id } });
+  if (valid && parsed.sets.length > 0) {
+    await tx.tennisSet.createMany({
+      data: parsed.sets.map((set) => ({
+        matchId: match.id,
+        setNumber: set.setNumber,
+        player1Games: set.player1Games,
+        player2Games: set.player2Games,
+        tiebreakPlayer1: set.tiebreakPlayer1,
+        tiebreakPlayer2: set.tiebreakPlayer2,
+        isMatchTiebreak: set.isMatchTiebreak,
+      })),
+    });
+  }
+
+  await tx.tennisAppearance.deleteMany({ where: { matchId: match.id } });
+  await tx.tennisAppearance.createMany({
+    data: [
+      {
+        matchId: match.id,
+        playerId: match.player1Id,
+        won: winnerId === match.player1Id,
+        setsWon: parsed.setsWon[0],
+      },
+      {
+        matchId: match.id,
+        playerId: match.player2Id,
+        won: winnerId === match.player2Id,
+        setsWon: parsed.setsWon[1],
+      },
+    ],
+  });
+}
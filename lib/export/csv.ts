@@ -2,6 +2,8 @@
 // ✅ Code Quality Agent: Proper CSV formatting with escaping
 
 import type { EventWithRelations } from '@/types';
+import { localDayKey } from '@/lib/utils/timezone';
+import { DECISION_LABELS, formatInningsPitched } from '@/lib/utils/pitching';
 
 // Escape CSV field value
 function escapeField(value: unknown): string {
@@ -35,6 +37,7 @@ const EVENT_HEADERS = [
   'Competition',
   'Artist',
   'Tour Name',
+  'Status',
 ];
 
 export function generateEventsCsv(events: EventWithRelations[]): string {
@@ -84,7 +87,7 @@ export function generateEventsCsv(events: EventWithRelations[]): string {
     const row = [
       event.id,
       event.type,
-      event.date.toISOString().split('T')[0],
+      localDayKey(event),
       event.venue.name,
       event.venue.city,
       event.venue.country,
@@ -98,6 +101,7 @@ export function generateEventsCsv(events: EventWithRelations[]): string {
       competition,
       artist,
       tourName,
+      event.status,
     ].map(escapeField).join(',');
     
     rows.push(row);
@@ -108,6 +112,7 @@ export function generateEventsCsv(events: EventWithRelations[]): string {
 
 // Soccer appearances CSV
 const SOCCER_HEADERS = [
+  'Event ID',
   'Event Date',
   'Venue',
   'Match',
@@ -130,7 +135,8 @@ export function generateSoccerAppearancesCsv(events: EventWithRelations[]): stri
     
     for (const app of event.soccerMatch.appearances) {
       const row = [
-        event.date.toISOString().split('T')[0],
+        event.id,
+        localDayKey(event),
         event.venue.name,
         match,
         app.player.name,
@@ -150,6 +156,7 @@ export function generateSoccerAppearancesCsv(events: EventWithRelations[]): stri
 
 // Concert setlists CSV
 const SETLIST_HEADERS = [
+  'Event ID',
   'Event Date',
   'Venue',
   'Artist',
@@ -167,7 +174,8 @@ export function generateSetlistsCsv(events: EventWithRelations[]): string {
     
     for (const song of event.concert.setlist) {
       const row = [
-        event.date.toISOString().split('T')[0],
+        event.id,
+        localDayKey(event),
         event.venue.name,
         event.concert.artist.name,
         song.songName,
@@ -182,6 +190,282 @@ export function generateSetlistsCsv(events: EventWithRelations[]): string {
   return rows.join('\n');
 }
 
+// Basketball appearances CSV
+const BASKETBALL_HEADERS = [
+  'Event ID',
+  'Event Date',
+  'Venue',
+  'Game',
+  'Player',
+  'Points',
+  'Rebounds',
+  'Assists',
+  'Steals',
+  'Blocks',
+  'Turnovers',
+  'Minutes',
+];
+
+export function generateBasketballAppearancesCsv(events: EventWithRelations[]): string {
+  const rows: string[] = [];
+  rows.push(BASKETBALL_HEADERS.map(escapeField).join(','));
+
+  for (const event of events) {
+    if (!event.basketballGame) continue;
+
+    const game = `${event.basketballGame.homeTeam} vs ${event.basketballGame.awayTeam}`;
+
+    for (const app of event.basketballGame.appearances) {
+      const row = [
+        event.id,
+        localDayKey(event),
+        event.venue.name,
+        game,
+        app.player.name,
+        app.points,
+        app.rebounds,
+        app.assists,
+        app.steals,
+        app.blocks,
+        app.turnovers,
+        app.minutes ?? '',
+      ].map(escapeField).join(',');
+
+      rows.push(row);
+    }
+  }
+
+  return rows.join('\n');
+}
+
+// Baseball appearances CSV
+const BASEBALL_HEADERS = [
+  'Event ID',
+  'Event Date',
+  'Venue',
+  'Game',
+  'Player',
+  'Position',
+  'At Bats',
+  'Hits',
+  'Runs',
+  'Home Runs',
+  'RBIs',
+  'Walks',
+  'Strikeouts',
+];
+
+export function generateBaseballAppearancesCsv(events: EventWithRelations[]): string {
+  const rows: string[] = [];
+  rows.push(BASEBALL_HEADERS.map(escapeField).join(','));
+
+  for (const event of events) {
+    if (!event.baseballGame) continue;
+
+    const game = `${event.baseballGame.homeTeam} vs ${event.baseballGame.awayTeam}`;
+
+    for (const app of event.baseballGame.appearances) {
+      const row = [
+        event.id,
+        localDayKey(event),
+        event.venue.name,
+        game,
+        app.player.name,
+        app.position ?? '',
+        app.atBats,
+        app.hits,
+        app.runs,
+        app.homeRuns,
+        app.rbis,
+        app.walks,
+        app.strikeOuts,
+      ].map(escapeField).join(',');
+
+      rows.push(row);
+    }
+  }
+
+  return rows.join('\n');
+}
+
+// Baseball pitching CSV - innings as written in box scores
+const PITCHING_HEADERS = [
+  'Event ID',
+  'Event Date',
+  'Venue',
+  'Game',
+  'Player',
+  'Innings Pitched',
+  'Hits',
+  'Runs',
+  'Earned Runs',
+  'Walks',
+  'Strikeouts',
+  'Pitch Count',
+  'Decision',
+];
+
+export function generateBaseballPitchingCsv(events: EventWithRelations[]): string {
+  const rows: string[] = [];
+  rows.push(PITCHING_HEADERS.map(escapeField).join(','));
+
+  for (const event of events) {
+    if (!event.baseballGame) continue;
+
+    const game = `${event.baseballGame.homeTeam} vs ${event.baseballGame.awayTeam}`;
+
+    for (const line of event.baseballGame.pitching) {
+      const row = [
+        event.id,
+        localDayKey(event),
+        event.venue.name,
+        game,
+        line.player.name,
+        formatInningsPitched(line.outsRecorded),
+        line.hits,
+        line.runs,
+        line.earnedRuns,
+        line.walks,
+        line.strikeOuts,
+        line.pitchCount ?? '',
+        line.decision ? DECISION_LABELS[line.decision] : '',
+      ].map(escapeField).join(',');
+
+      rows.push(row);
+    }
+  }
+
+  return rows.join('\n');
+}
+
+// Tennis matches CSV - one row per match, sets won from the appearances
+const TENNIS_HEADERS = [
+  'Event ID',
+  'Event Date',
+  'Venue',
+  'Tournament',
+  'Round',
+  'Player 1',
+  'Player 2',
+  'Score',
+  'Winner',
+  'Player 1 Sets',
+  'Player 2 Sets',
+];
+
+export function generateTennisMatchesCsv(events: EventWithRelations[]): string {
+  const rows: string[] = [];
+  rows.push(TENNIS_HEADERS.map(escapeField).join(','));
+
+  for (const event of events) {
+    if (!event.tennisMatch) continue;
+
+    const match = event.tennisMatch;
+    const setsFor = (playerId: string) =>
+      match.appearances.find((app) => app.playerId === playerId)?.setsWon ?? '';
+
+    const row = [
+      event.id,
+      localDayKey(event),
+      event.venue.name,
+      match.tournament ?? '',
+      match.round ?? '',
+      match.player1.name,
+      match.player2.name,
+      match.score,
+      match.winner?.name ?? '',
+      setsFor(match.player1Id),
+      setsFor(match.player2Id),
+    ].map(escapeField).join(',');
+
+    rows.push(row);
+  }
+
+  return rows.join('\n');
+}
+
+// Venues CSV - every venue the user has been to, with visit counts
+const VENUE_HEADERS = [
+  'Venue ID',
+  'Name',
+  'City',
+  'Country',
+  'Type',
+  'Latitude',
+  'Longitude',
+  'Visits',
+  'First Visit',
+  'Last Visit',
+];
+
+export function generateVenuesCsv(events: EventWithRelations[]): string {
+  const rows: string[] = [];
+  rows.push(VENUE_HEADERS.map(escapeField).join(','));
+
+  const visits = new Map<string, { venue: EventWithRelations['venue']; dates: Date[] }>();
+  for (const event of events) {
+    const entry = visits.get(event.venueId) ?? { venue: event.venue, dates: [] };
+    entry.dates.push(event.date);
+    visits.set(event.venueId, entry);
+  }
+
+  for (const { venue, dates } of visits.values()) {
+    const times = dates.map((date) => date.getTime());
+    const row = [
+      venue.id,
+      venue.name,
+      venue.city,
+      venue.country,
+      venue.type,
+      venue.latitude ?? '',
+      venue.longitude ?? '',
+      dates.length,
+      new Date(Math.min(...times)).toISOString().split('T')[0],
+      new Date(Math.max(...times)).toISOString().split('T')[0],
+    ].map(escapeField).join(',');
+
+    rows.push(row);
+  }
+
+  return rows.join('\n');
+}
+
+// Achievements CSV
+const ACHIEVEMENT_HEADERS = [
+  'Name',
+  'Description',
+  'Tier',
+  'Unlocked At',
+  'Trigger Event ID',
+];
+
+export interface ExportableAchievement {
+  name: string;
+  description: string;
+  tier: string;
+  unlockedAt: Date;
+  triggerEventId?: string | null;
+}
+
+export function generateAchievementsCsv(achievements: ExportableAchievement[]): string {
+  const rows: string[] = [];
+  rows.push(ACHIEVEMENT_HEADERS.map(escapeField).join(','));
+
+  for (const achievement of achievements) {
+    const row = [
+      achievement.name,
+      achievement.description,
+      achievement.tier,
+      achievement.unlockedAt.toISOString(),
+      achievement.triggerEventId ?? '',
+    ].map(escapeField).join(',');
+
+    rows.push(row);
+  }
+
+  return rows.join('\n');
+}
+
 export function downloadCsv(content: string, filename: string): void {
   const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
   const url = URL.createObjectURL(blob);
@@ -0,0 +1,172 @@
+// iCalendar Export Utility
+// ✅ Code Quality Agent: RFC 5545 feed - escaped text, folded lines, CRLF endings
+
+import type { EventType } from '@/lib/utils';
+import { getEventEmoji } from '@/lib/utils';
+import { eventLocalDate } from '@/lib/utils/timezone';
+
+// Minimal event shape - the calendar route only selects what the feed needs
+export interface CalendarEvent {
+  id: string;
+  type: EventType;
+  date: Date;
+  localDate: Date | null;
+  kickoffTime: string | null;
+  updatedAt: Date;
+  notes: string | null;
+  companions: string[];
+  status: 'PLANNED' | 'ATTENDED' | 'MISSED';
+  venue: {
+    name: string;
+    city: string;
+    country: string;
+    latitude: number | null;
+    longitude: number | null;
+  };
+  soccerMatch?: { homeTeam: string; awayTeam: string; homeScore: number; awayScore: number; competition: string | null } | null;
+  basketballGame?: { homeTeam: string; awayTeam: string; homeScore: number; awayScore: number; competition: string | null } | null;
+  baseballGame?: { homeTeam: string; awayTeam: string; homeScore: number; awayScore: number; competition: string | null } | null;
+  tennisMatch?: { score: string; tournament: string | null; round: string | null; player1: { name: string }; player2: { name: string } } | null;
+  concert?: { tourName: string | null; artist: { name: string } } | null;
+}
+
+// Typical length of each kind of event, for the calendar block
+const DURATION_MINUTES: Record<EventType, number> = {
+  SOCCER: 120,
+  BASKETBALL: 150,
+  BASEBALL: 180,
+  TENNIS: 150,
+  CONCERT: 180,
+};
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    const limit = parts.length === 0 ? 75 : 74; // Continuations start with a space
+    if (currentBytes + size > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().split('T')[0].replace(/-/g, '');
+}
+
+function describeEvent(event: CalendarEvent): { summary: string; details: string[] } {
+  const emoji = getEventEmoji(event.type);
+  const game = event.soccerMatch ?? event.basketballGame ?? event.baseballGame;
+
+  const isPlanned = event.status === 'PLANNED';
+
+  if (game) {
+    return {
+      summary: `${emoji} ${game.homeTeam} vs ${game.awayTeam}`,
+      details: [
+        ...(isPlanned ? [] : [`Score: ${game.homeTeam} ${game.homeScore} - ${game.awayScore} ${game.awayTeam}`]),
+        ...(game.competition ? [`Competition: ${game.competition}`] : []),
+      ],
+    };
+  }
+
+  if (event.tennisMatch) {
+    const match = event.tennisMatch;
+    return {
+      summary: `${emoji} ${match.player1.name} vs ${match.player2.name}`,
+      details: [
+        ...(match.score && !isPlanned ? [`Score: ${match.score}`] : []),
+        ...(match.tournament ? [`Tournament: ${match.tournament}${match.round ? ` (${match.round})` : ''}`] : []),
+      ],
+    };
+  }
+
+  if (event.concert) {
+    return {
+      summary: `${emoji} ${event.concert.artist.name}`,
+      details: event.concert.tourName ? [`Tour: ${event.concert.tourName}`] : [],
+    };
+  }
+
+  return { summary: `${emoji} Event at ${event.venue.name}`, details: [] };
+}
+
+function formatEvent(event: CalendarEvent): string[] {
+  const { summary, details } = describeEvent(event);
+  const description = [
+    ...details,
+    ...(event.companions.length > 0 ? [`With: ${event.companions.join(', ')}`] : []),
+    ...(event.notes ? ['', event.notes] : []),
+  ].join('\n');
+
+  // Events logged without a kickoff time are all-day on the venue's date
+  const isAllDay = !event.kickoffTime && event.localDate !== null;
+  const start = isAllDay ? eventLocalDate(event) : event.date;
+  const end = isAllDay
+    ? new Date(start.getTime() + 24 * 60 * 60 * 1000)
+    : new Date(start.getTime() + DURATION_MINUTES[event.type] * 60 * 1000);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.id}@footytracker`,
+    `DTSTAMP:${formatDateTime(event.updatedAt)}`,
+    isAllDay ? `DTSTART;VALUE=DATE:${formatDate(start)}` : `DTSTART:${formatDateTime(start)}`,
+    isAllDay ? `DTEND;VALUE=DATE:${formatDate(end)}` : `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(summary)}`,
+    `STATUS:${event.status === 'PLANNED' ? 'TENTATIVE' : 'CONFIRMED'}`,
+    `LOCATION:${escapeText([event.venue.name, event.venue.city, event.venue.country].filter(Boolean).join(', '))}`,
+  ];
+
+  if (event.venue.latitude !== null && event.venue.longitude !== null) {
+    lines.push(`GEO:${event.venue.latitude};${event.venue.longitude}`);
+  }
+  if (description) {
+    lines.push(`DESCRIPTION:${escapeText(description)}`);
+  }
+  lines.push(`CATEGORIES:${event.type}`, 'END:VEVENT');
+
+  return lines;
+}
+
+/**
+ * Build an iCalendar document for a user's events.
+ */
+export function generateIcs(events: CalendarEvent[], calendarName: string): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//FootyTracker//Event Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    'X-PUBLISHED-TTL:PT1H',
+    ...events.flatMap(formatEvent),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
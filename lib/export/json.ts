@@ -2,6 +2,8 @@
 // ✅ Code Quality Agent: Comprehensive data export with proper formatting
 
 import type { EventWithRelations } from '@/types';
+import { formatInningsPitched } from '@/lib/utils/pitching';
+import { toMatchEventInputs } from '@/lib/utils/match-timeline';
 
 export interface ExportData {
   exportedAt: string;
@@ -25,20 +27,32 @@ export interface ExportedEvent {
   id: string;
   type: string;
   date: string;
+  localDate?: string; // YYYY-MM-DD at the venue
+  kickoffTime?: string; // HH:mm at the venue
   venue: {
     name: string;
     city: string;
     country: string;
     latitude?: number;
     longitude?: number;
+    timezone?: string;
   };
   rating?: number;
   companions: string[];
   notes?: string;
+  status: string; // PLANNED, ATTENDED or MISSED
+  supportedSide?: string; // HOME, AWAY or NEUTRAL - team sports only
   // Sport-specific data
   sportData?: Record<string, unknown>;
   // Simplified setlist for concerts
-  setlist?: { song: string; isEncore: boolean }[];
+  setlist?: {
+    song: string;
+    isEncore: boolean;
+    isCover?: boolean;
+    coverArtist?: string;
+    isTape?: boolean;
+    segue?: boolean;
+  }[];
 }
 
 export interface ExportedAchievement {
@@ -52,16 +66,21 @@ export function formatEventForExport(event: EventWithRelations): ExportedEvent {
     id: event.id,
     type: event.type,
     date: event.date.toISOString(),
+    localDate: event.localDate?.toISOString().split('T')[0],
+    kickoffTime: event.kickoffTime ?? undefined,
     venue: {
       name: event.venue.name,
       city: event.venue.city,
       country: event.venue.country,
       latitude: event.venue.latitude ?? undefined,
       longitude: event.venue.longitude ?? undefined,
+      timezone: event.venue.timezone ?? undefined,
     },
     rating: event.rating ?? undefined,
     companions: event.companions,
     notes: event.notes ?? undefined,
+    status: event.status,
+    supportedSide: event.supportedSide ?? undefined,
   };
 
   // Add sport-specific data
@@ -71,6 +90,10 @@ export function formatEventForExport(event: EventWithRelations): ExportedEvent {
       awayTeam: event.soccerMatch.awayTeam,
       homeScore: event.soccerMatch.homeScore,
       awayScore: event.soccerMatch.awayScore,
+      extraTime: event.soccerMatch.extraTime,
+      homePenalties: event.soccerMatch.homePenalties,
+      awayPenalties: event.soccerMatch.awayPenalties,
+      firstLegEventId: event.soccerMatch.firstLeg?.eventId ?? null, // `id` of the first leg in this export
       competition: event.soccerMatch.competition,
       appearances: event.soccerMatch.appearances.map((a) => ({
         player: a.player.name,
@@ -81,6 +104,9 @@ export function formatEventForExport(event: EventWithRelations): ExportedEvent {
         cleanSheet: a.cleanSheet,
       })),
     };
+    if (event.soccerMatch.timeline?.length) {
+      exportedEvent.sportData.timeline = toMatchEventInputs(event.soccerMatch.timeline);
+    }
   }
 
   if (event.basketballGame) {
@@ -112,9 +138,31 @@ export function formatEventForExport(event: EventWithRelations): ExportedEvent {
         hits: a.hits,
         rbis: a.rbis,
       })),
+      pitching: event.baseballGame.pitching.map((p) => ({
+        player: p.player.name,
+        isHome: p.isHome,
+        order: p.order,
+        inningsPitched: formatInningsPitched(p.outsRecorded),
+        hits: p.hits,
+        runs: p.runs,
+        earnedRuns: p.earnedRuns,
+        walks: p.walks,
+        strikeOuts: p.strikeOuts,
+        pitchCount: p.pitchCount,
+        decision: p.decision,
+      })),
     };
   }
 
+  // Innings, quarters or halves for team sports
+  if (exportedEvent.sportData && event.periodScores?.length) {
+    exportedEvent.sportData.lineScore = event.periodScores.map((p) => ({
+      type: p.type,
+      homeScore: p.homeScore,
+      awayScore: p.awayScore,
+    }));
+  }
+
   if (event.tennisMatch) {
     exportedEvent.sportData = {
       player1: event.tennisMatch.player1.name,
@@ -135,6 +183,10 @@ export function formatEventForExport(event: EventWithRelations): ExportedEvent {
     exportedEvent.setlist = event.concert.setlist.map((s) => ({
       song: s.songName,
       isEncore: s.isEncore,
+      isCover: s.isCover || undefined,
+      coverArtist: s.coverArtist ?? undefined,
+      isTape: s.isTape || undefined,
+      segue: s.segue || undefined,
     }));
   }
 
@@ -0,0 +1,86 @@
+// ZIP Export Utility
+// 📚 Library Research Agent: fflate - small, dependency-free, sync zip in Node
+// ✅ Code Quality Agent: One CSV per entity plus a manifest describing them
+
+import { strToU8, zipSync } from 'fflate';
+import type { EventWithRelations } from '@/types';
+import {
+  generateEventsCsv,
+  generateVenuesCsv,
+  generateSoccerAppearancesCsv,
+  generateBasketballAppearancesCsv,
+  generateBaseballAppearancesCsv,
+  generateBaseballPitchingCsv,
+  generateTennisMatchesCsv,
+  generateSetlistsCsv,
+  generateAchievementsCsv,
+  type ExportableAchievement,
+} from './csv';
+
+export interface ExportManifest {
+  exportedAt: string;
+  version: string;
+  user: {
+    id: string;
+    name?: string;
+    email?: string;
+  };
+  files: {
+    name: string;
+    description: string;
+    rows: number; // Data rows, excluding the header
+  }[];
+}
+
+function countRows(csv: string): number {
+  // Quoted fields can contain newlines, so count records rather than lines
+  let rows = 0;
+  let inQuotes = false;
+  for (const char of csv) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === '\n' && !inQuotes) rows++;
+  }
+  return rows; // Header is the record without a trailing newline
+}
+
+export function generateExportZip(
+  events: EventWithRelations[],
+  user: { id: string; name?: string | null; email?: string | null },
+  achievements: ExportableAchievement[]
+): Uint8Array {
+  const sheets: { name: string; description: string; csv: string }[] = [
+    { name: 'events.csv', description: 'One row per event (same layout as format=csv, importable)', csv: generateEventsCsv(events) },
+    { name: 'venues.csv', description: 'Venues visited, with visit counts', csv: generateVenuesCsv(events) },
+    { name: 'soccer_appearances.csv', description: 'Soccer player appearances', csv: generateSoccerAppearancesCsv(events) },
+    { name: 'basketball_appearances.csv', description: 'Basketball player box scores', csv: generateBasketballAppearancesCsv(events) },
+    { name: 'baseball_appearances.csv', description: 'Baseball player batting lines', csv: generateBaseballAppearancesCsv(events) },
+    { name: 'baseball_pitching.csv', description: 'Baseball pitching lines', csv: generateBaseballPitchingCsv(events) },
+    { name: 'tennis_matches.csv', description: 'Tennis matches with winner and sets won', csv: generateTennisMatchesCsv(events) },
+    { name: 'setlists.csv', description: 'Concert setlist songs', csv: generateSetlistsCsv(events) },
+    { name: 'achievements.csv', description: 'Unlocked achievements', csv: generateAchievementsCsv(achievements) },
+  ];
+
+  const manifest: ExportManifest = {
+    exportedAt: new Date().toISOString(),
+    version: '1.0',
+    user: {
+      id: user.id,
+      name: user.name ?? undefined,
+      email: user.email ?? undefined,
+    },
+    files: sheets.map(({ name, description, csv }) => ({
+      name,
+      description,
+      rows: countRows(csv),
+    })),
+  };
+
+  const files: Record<string, Uint8Array> = {
+    'manifest.json': strToU8(JSON.stringify(manifest, null, 2)),
+  };
+  for (const { name, csv } of sheets) {
+    files[name] = strToU8(csv);
+  }
+
+  return zipSync(files, { level: 6 });
+}
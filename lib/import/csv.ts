@@ -0,0 +1,135 @@
+// CSV Import Parser
+// ✅ Code Quality Agent: Reads the events CSV written by generateEventsCsv back into import rows
+
+import type { EventType } from '@/types';
+import type { ImportRow } from './index';
+
+const EVENT_TYPES: EventType[] = ['SOCCER', 'BASKETBALL', 'BASEBALL', 'TENNIS', 'CONCERT'];
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain commas, doubled quotes and newlines.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip a UTF-8 BOM left by spreadsheet apps
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+function optional(value: string | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function optionalNumber(value: string | undefined): number | string | undefined {
+  const trimmed = optional(value);
+  if (trimmed === undefined) return undefined;
+  const parsed = Number(trimmed);
+  // Leave unparseable values as strings so validation reports them
+  return Number.isNaN(parsed) ? trimmed : parsed;
+}
+
+/**
+ * Map events CSV rows (see EVENT_HEADERS in lib/export/csv.ts) to import rows.
+ */
+export function csvToImportRows(text: string): ImportRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) return [];
+
+  const columns = new Map(header.map((name, i) => [name.trim().toLowerCase(), i]));
+  const get = (record: string[], name: string) => {
+    const index = columns.get(name);
+    return index === undefined ? undefined : record[index];
+  };
+
+  return records.map((record, i) => {
+    const rawType = optional(get(record, 'type'))?.toUpperCase();
+    const type = EVENT_TYPES.find((t) => t === rawType) ?? null;
+
+    const input: Record<string, unknown> = {
+      date: optional(get(record, 'date')),
+      venueName: optional(get(record, 'venue name')),
+      venueCity: optional(get(record, 'venue city')),
+      venueCountry: optional(get(record, 'venue country')),
+      rating: optionalNumber(get(record, 'rating')),
+      companions: (get(record, 'companions') || '')
+        .split(';')
+        .map((c) => c.trim())
+        .filter(Boolean),
+      notes: optional(get(record, 'notes')),
+      status: optional(get(record, 'status'))?.toUpperCase(),
+    };
+
+    const homeTeam = optional(get(record, 'home team'));
+    const awayTeam = optional(get(record, 'away team'));
+    const competition = optional(get(record, 'competition'));
+
+    if (type === 'TENNIS') {
+      // The export puts players in the team columns and the score in Home Score
+      Object.assign(input, {
+        player1Name: homeTeam,
+        player2Name: awayTeam,
+        score: optional(get(record, 'home score')),
+        tournament: competition,
+      });
+    } else if (type === 'CONCERT') {
+      Object.assign(input, {
+        artistName: optional(get(record, 'artist')),
+        tourName: optional(get(record, 'tour name')),
+      });
+    } else {
+      Object.assign(input, {
+        homeTeam,
+        awayTeam,
+        homeScore: optionalNumber(get(record, 'home score')),
+        awayScore: optionalNumber(get(record, 'away score')),
+        competition,
+      });
+    }
+
+    return {
+      row: i + 2, // 1-based, after the header line
+      type,
+      input,
+    };
+  });
+}
@@ -0,0 +1,289 @@
+// Bulk Event Import
+// 🔍 API Monitor Agent: Same zod schemas as the creation routes, all-or-nothing commit
+// ✅ Code Quality Agent: Round-trips the files written by /api/export
+
+import type { ZodTypeAny } from 'zod';
+import { prisma } from '@/lib/prisma';
+import {
+  soccerEventSchema,
+  basketballEventSchema,
+  baseballEventSchema,
+  tennisEventSchema,
+  concertEventSchema,
+} from '@/lib/events/schemas';
+import {
+  createSoccerEvent,
+  createBasketballEvent,
+  createBaseballEvent,
+  createTennisEvent,
+  createConcertEvent,
+} from '@/lib/events/create';
+import { CupTieError, saveCupTie } from '@/lib/events/cup-tie';
+import { normalizeTeamName, type TeamAliasMap } from '@/lib/utils/team-names';
+import { localDayKey } from '@/lib/utils/timezone';
+import { getTeamAliasMaps } from '@/lib/db/teams';
+import { setVenueCoordinates } from '@/lib/db/venue-timezones';
+import type { EventType } from '@/types';
+
+export { csvToImportRows, parseCsv } from './csv';
+export { jsonToImportRows } from './json';
+
+export const MAX_IMPORT_ROWS = 2000;
+
+export interface ImportRow {
+  row: number; // Position in the source file, for error messages
+  type: EventType | null;
+  input: Record<string, unknown>;
+  coordinates?: { latitude: number; longitude: number };
+  exportId?: string; // The event's id in the export file it came from
+  firstLegExportId?: string; // Soccer second legs: the exportId of the first leg
+}
+
+export type ImportRowStatus = 'new' | 'duplicate' | 'invalid' | 'created';
+
+export interface ImportRowResult {
+  row: number;
+  type: EventType | null;
+  status: ImportRowStatus;
+  summary: string;
+  errors?: string[];
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  total: number;
+  toCreate: number;
+  duplicates: number;
+  invalid: number;
+  created: number;
+  rows: ImportRowResult[];
+}
+
+const SCHEMAS: Record<EventType, ZodTypeAny> = {
+  SOCCER: soccerEventSchema,
+  BASKETBALL: basketballEventSchema,
+  BASEBALL: baseballEventSchema,
+  TENNIS: tennisEventSchema,
+  CONCERT: concertEventSchema,
+};
+
+interface ValidatedRow {
+  source: ImportRow;
+  type: EventType;
+  data: Record<string, unknown> & { date: string; venueName: string };
+  key: string;
+}
+
+function normalize(value: unknown): string {
+  return String(value ?? '').trim().toLowerCase();
+}
+
+/**
+ * Duplicate key: same venue-local day, venue and participants (teams, players or artist).
+ */
+function duplicateKey(
+  type: EventType,
+  day: string,
+  venueName: string,
+  participants: (string | null | undefined)[]
+): string {
+  return [type, day, normalize(venueName), ...participants.map(normalize)].join('|');
+}
+
+function participantsFor(
+  type: EventType,
+  data: Record<string, unknown>,
+  aliases: Partial<Record<EventType, TeamAliasMap>>
+): string[] {
+  switch (type) {
+    case 'TENNIS':
+      // Player order doesn't make it a different match
+      return [String(data.player1Name), String(data.player2Name)].sort();
+    case 'CONCERT':
+      return [String(data.artistName)];
+    default:
+      return [
+        normalizeTeamName(String(data.homeTeam), aliases[type]),
+        normalizeTeamName(String(data.awayTeam), aliases[type]),
+      ];
+  }
+}
+
+function summarize(type: EventType | null, input: Record<string, unknown>): string {
+  const date = typeof input.date === 'string' ? input.date.split('T')[0] : '?';
+  const venue = input.venueName ? ` @ ${input.venueName}` : '';
+  const what =
+    type === 'TENNIS'
+      ? `${input.player1Name ?? '?'} vs ${input.player2Name ?? '?'}`
+      : type === 'CONCERT'
+        ? String(input.artistName ?? '?')
+        : `${input.homeTeam ?? '?'} vs ${input.awayTeam ?? '?'}`;
+  return `${date} · ${what}${venue}`;
+}
+
+// Keys for every event the user already has
+async function loadExistingKeys(userId: string): Promise<Set<string>> {
+  const events = await prisma.event.findMany({
+    where: { userId },
+    select: {
+      type: true,
+      date: true,
+      localDate: true,
+      venue: { select: { name: true } },
+      soccerMatch: { select: { homeTeam: true, awayTeam: true } },
+      basketballGame: { select: { homeTeam: true, awayTeam: true } },
+      baseballGame: { select: { homeTeam: true, awayTeam: true } },
+      tennisMatch: { select: { player1: { select: { name: true } }, player2: { select: { name: true } } } },
+      concert: { select: { artist: { select: { name: true } } } },
+    },
+  });
+
+  return new Set(
+    events.map((event) => {
+      const game = event.soccerMatch ?? event.basketballGame ?? event.baseballGame;
+      const participants = game
+        ? [game.homeTeam, game.awayTeam]
+        : event.tennisMatch
+          ? [event.tennisMatch.player1.name, event.tennisMatch.player2.name].sort()
+          : [event.concert?.artist.name];
+      return duplicateKey(event.type, localDayKey(event), event.venue.name, participants);
+    })
+  );
+}
+
+/**
+ * Validate every row and classify it as new, duplicate or invalid.
+ */
+async function classifyRows(
+  userId: string,
+  rows: ImportRow[]
+): Promise<{ results: ImportRowResult[]; toCreate: ValidatedRow[] }> {
+  const seen = await loadExistingKeys(userId);
+  // Existing events store canonical names, so rows have to resolve aliases to match them
+  const aliases = await getTeamAliasMaps();
+  const results: ImportRowResult[] = [];
+  const toCreate: ValidatedRow[] = [];
+
+  for (const source of rows) {
+    const summary = summarize(source.type, source.input);
+
+    if (!source.type) {
+      results.push({ row: source.row, type: null, status: 'invalid', summary, errors: ['Unknown event type'] });
+      continue;
+    }
+
+    const parsed = SCHEMAS[source.type].safeParse(source.input);
+    if (!parsed.success) {
+      results.push({
+        row: source.row,
+        type: source.type,
+        status: 'invalid',
+        summary,
+        errors: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'row'}: ${issue.message}`),
+      });
+      continue;
+    }
+
+    const data = parsed.data as ValidatedRow['data'];
+    // Skip anything already in the account or earlier in the same file
+    const key = duplicateKey(source.type, localDayKey({ date: data.date }), data.venueName, participantsFor(source.type, data, aliases));
+    if (seen.has(key)) {
+      results.push({ row: source.row, type: source.type, status: 'duplicate', summary });
+      continue;
+    }
+
+    seen.add(key);
+    toCreate.push({ source, type: source.type, data, key });
+    results.push({ row: source.row, type: source.type, status: 'new', summary });
+  }
+
+  return { results, toCreate };
+}
+
+function tally(dryRun: boolean, results: ImportRowResult[], created: number): ImportResult {
+  return {
+    dryRun,
+    total: results.length,
+    toCreate: results.filter((r) => r.status === 'new' || r.status === 'created').length,
+    duplicates: results.filter((r) => r.status === 'duplicate').length,
+    invalid: results.filter((r) => r.status === 'invalid').length,
+    created,
+    rows: results,
+  };
+}
+
+/**
+ * Preview an import: per-row validation errors and duplicates, nothing written.
+ */
+export async function previewImport(userId: string, rows: ImportRow[]): Promise<ImportResult> {
+  const { results } = await classifyRows(userId, rows);
+  return tally(true, results, 0);
+}
+
+/**
+ * Import all new rows in one transaction. Nothing is written if any row is invalid.
+ */
+export async function commitImport(userId: string, rows: ImportRow[]): Promise<ImportResult> {
+  const { results, toCreate } = await classifyRows(userId, rows);
+  if (results.some((r) => r.status === 'invalid') || toCreate.length === 0) {
+    return tally(false, results, 0);
+  }
+
+  // Export ids to the events created for them, for relinking cup ties
+  const createdIds = new Map<string, string>();
+
+  await prisma.$transaction(async (tx) => {
+    for (const { type, data, source } of toCreate) {
+      let event;
+      switch (type) {
+        case 'SOCCER':
+          event = await createSoccerEvent(tx, userId, data as Parameters<typeof createSoccerEvent>[2]);
+          break;
+        case 'BASKETBALL':
+          event = await createBasketballEvent(tx, userId, data as Parameters<typeof createBasketballEvent>[2]);
+          break;
+        case 'BASEBALL':
+          event = await createBaseballEvent(tx, userId, data as Parameters<typeof createBaseballEvent>[2]);
+          break;
+        case 'TENNIS':
+          event = await createTennisEvent(tx, userId, data as Parameters<typeof createTennisEvent>[2]);
+          break;
+        case 'CONCERT':
+          event = await createConcertEvent(tx, userId, data as Parameters<typeof createConcertEvent>[2]);
+          break;
+      }
+
+      // Carry exported coordinates over so the map doesn't need re-geocoding
+      if (source.coordinates && event?.venue && event.venue.latitude === null) {
+        const { latitude, longitude } = source.coordinates;
+        await setVenueCoordinates(event.venue.id, latitude, longitude, tx);
+      }
+
+      if (source.exportId && event) createdIds.set(source.exportId, event.id);
+    }
+
+    // Relink cup ties once both legs exist - the file can list them in any order
+    for (const { source } of toCreate) {
+      const firstLegEventId = source.firstLegExportId && createdIds.get(source.firstLegExportId);
+      const eventId = source.exportId && createdIds.get(source.exportId);
+      if (!firstLegEventId || !eventId) continue;
+
+      const match = await tx.soccerMatch.findUnique({ where: { eventId } });
+      if (!match) continue;
+      try {
+        await saveCupTie(tx, userId, match, firstLegEventId);
+      } catch (error) {
+        // A tie that no longer adds up is imported as two separate matches
+        if (!(error instanceof CupTieError)) throw error;
+      }
+    }
+  }, {
+    timeout: 5 * 60 * 1000, // Large backups create thousands of rows
+    maxWait: 10000,
+  });
+
+  const created = results.map((r) =>
+    r.status === 'new' ? { ...r, status: 'created' as const } : r
+  );
+  return tally(false, created, toCreate.length);
+}
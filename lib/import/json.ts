@@ -0,0 +1,116 @@
+// JSON Import Parser
+// ✅ Code Quality Agent: Reads the ExportData written by generateExportJson back into import rows
+
+import type { EventType } from '@/types';
+import type { ExportedEvent } from '@/lib/export/json';
+import type { ImportRow } from './index';
+
+const EVENT_TYPES: EventType[] = ['SOCCER', 'BASKETBALL', 'BASEBALL', 'TENNIS', 'CONCERT'];
+
+// Exports write null for empty optional fields; the creation schemas expect them absent
+function withoutNulls(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== null && v !== undefined)
+  );
+}
+
+function toImportRow(raw: unknown, index: number): ImportRow {
+  const event = (raw && typeof raw === 'object' ? raw : {}) as ExportedEvent;
+  const type = EVENT_TYPES.find((t) => t === event.type) ?? null;
+  const sport = withoutNulls(event.sportData ?? {});
+  // Appearances and pitching lines are exported with the player's name as `player`
+  const playerLines = (lines: unknown) =>
+    Array.isArray(lines)
+      ? (lines as Record<string, unknown>[]).map(({ player, ...stats }) =>
+          withoutNulls({ playerName: player, ...stats })
+        )
+      : undefined;
+  const appearances = playerLines(sport.appearances);
+
+  const input: Record<string, unknown> = withoutNulls({
+    // The bare local day is read with the kickoff time, or as a date-only entry without one
+    date: event.localDate ?? event.date,
+    kickoffTime: event.kickoffTime,
+    venueName: event.venue?.name,
+    venueCity: event.venue?.city,
+    venueCountry: event.venue?.country,
+    rating: event.rating,
+    companions: event.companions ?? [],
+    notes: event.notes,
+    status: event.status,
+    supportedSide: event.supportedSide,
+  });
+
+  if (type === 'TENNIS') {
+    Object.assign(input, withoutNulls({
+      player1Name: sport.player1,
+      player2Name: sport.player2,
+      winnerName: sport.winner,
+      score: sport.score,
+      tournament: sport.tournament,
+      round: sport.round,
+    }));
+  } else if (type === 'CONCERT') {
+    Object.assign(input, withoutNulls({
+      artistName: sport.artist,
+      tourName: sport.tourName,
+      openingActs: sport.openingActs,
+      venueLatitude: event.venue?.latitude,
+      venueLongitude: event.venue?.longitude,
+      setlist: event.setlist?.map((song, i) => withoutNulls({
+        songName: song.song,
+        order: i + 1,
+        isEncore: song.isEncore,
+        isCover: song.isCover,
+        coverArtist: song.coverArtist,
+        isTape: song.isTape,
+        segue: song.segue,
+      })),
+    }));
+  } else {
+    Object.assign(input, withoutNulls({
+      homeTeam: sport.homeTeam,
+      awayTeam: sport.awayTeam,
+      homeScore: sport.homeScore,
+      awayScore: sport.awayScore,
+      competition: sport.competition,
+      appearances,
+      pitching: type === 'BASEBALL' ? playerLines(sport.pitching) : undefined,
+      lineScore: Array.isArray(sport.lineScore) ? sport.lineScore : undefined,
+      timeline: type === 'SOCCER' && Array.isArray(sport.timeline) ? sport.timeline : undefined,
+      extraTime: sport.extraTime,
+      homePenalties: sport.homePenalties,
+      awayPenalties: sport.awayPenalties,
+    }));
+  }
+
+  const { latitude, longitude } = event.venue ?? {};
+  return {
+    row: index + 1,
+    type,
+    input,
+    exportId: typeof event.id === 'string' ? event.id : undefined,
+    firstLegExportId: typeof sport.firstLegEventId === 'string' ? sport.firstLegEventId : undefined,
+    coordinates:
+      typeof latitude === 'number' && typeof longitude === 'number'
+        ? { latitude, longitude }
+        : undefined,
+  };
+}
+
+/**
+ * Accept a full export file ({ events: [...] }) or a bare array of exported events.
+ */
+export function jsonToImportRows(data: unknown): ImportRow[] {
+  const events = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { events?: unknown }).events)
+      ? (data as { events: unknown[] }).events
+      : null;
+
+  if (!events) {
+    throw new Error('Expected an export file with an "events" array');
+  }
+
+  return events.map(toImportRow);
+}
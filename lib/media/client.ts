@@ -0,0 +1,48 @@
+// Media Upload Client
+// ✅ Code Quality Agent: Browser-side helper for POST /api/events/[id]/media
+
+import type { Media, MediaType } from '@prisma/client';
+
+/**
+ * Upload a file to an event. Throws with the API's error message on failure.
+ */
+export async function uploadEventMedia(
+  eventId: string,
+  file: File,
+  type: MediaType,
+  caption?: string
+): Promise<Media> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('type', type);
+  if (caption) formData.append('caption', caption);
+
+  const response = await fetch(`/api/events/${eventId}/media`, {
+    method: 'POST',
+    body: formData,
+  });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error || `Failed to upload ${file.name}`);
+  }
+  return data.data;
+}
+
+/**
+ * Attach a scanned ticket to an event that was just created. Never throws -
+ * the event is already saved, so a failed upload is reported, not fatal.
+ */
+export async function attachTicketScan(
+  eventId: string,
+  file: File,
+  seat?: string
+): Promise<boolean> {
+  try {
+    await uploadEventMedia(eventId, file, 'TICKET', seat ? `Seat: ${seat}` : undefined);
+    return true;
+  } catch (error) {
+    console.error('Ticket upload failed:', error);
+    return false;
+  }
+}
@@ -0,0 +1,138 @@
+// Media Uploads
+// 📚 Library Research Agent: sharp for server-side thumbnails
+// ✅ Code Quality Agent: Validates, stores and cleans up event media blobs
+
+import sharp from 'sharp';
+import type { Media, MediaType } from '@prisma/client';
+import { getMediaUrl, getStorage } from '@/lib/storage';
+import { generateId } from '@/lib/utils';
+
+export const MAX_UPLOAD_BYTES = (Number(process.env.MEDIA_MAX_UPLOAD_MB) || 25) * 1024 * 1024;
+
+const THUMBNAIL_SIZE = 400;
+
+// Accepted MIME types per media type
+const ALLOWED_TYPES: Record<MediaType, RegExp> = {
+  PHOTO: /^image\/(jpeg|png|webp|gif|heic|heif|avif)$/,
+  VIDEO: /^video\/(mp4|quicktime|webm)$/,
+  TICKET: /^(image\/(jpeg|png|webp|heic|heif)|application\/pdf)$/,
+};
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/heic': 'heic',
+  'image/heif': 'heif',
+  'image/avif': 'avif',
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm',
+  'application/pdf': 'pdf',
+};
+
+export class MediaValidationError extends Error {}
+
+// Pick a media type from the MIME type when the client doesn't say
+export function inferMediaType(mimeType: string): MediaType {
+  return mimeType.startsWith('video/') ? 'VIDEO' : 'PHOTO';
+}
+
+export function validateUpload(type: MediaType, mimeType: string, size: number): void {
+  if (!ALLOWED_TYPES[type].test(mimeType)) {
+    throw new MediaValidationError(`Unsupported file type for ${type.toLowerCase()}: ${mimeType}`);
+  }
+  if (size === 0) {
+    throw new MediaValidationError('File is empty');
+  }
+  if (size > MAX_UPLOAD_BYTES) {
+    throw new MediaValidationError(
+      `File is too large (max ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB)`
+    );
+  }
+}
+
+// Square WebP preview; null for files sharp can't decode (videos, PDFs)
+export async function createThumbnail(data: Buffer, mimeType: string): Promise<Buffer | null> {
+  if (!mimeType.startsWith('image/')) return null;
+
+  try {
+    return await sharp(data)
+      .rotate() // Respect EXIF orientation from phone cameras
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'cover' })
+      .webp({ quality: 75 })
+      .toBuffer();
+  } catch (error) {
+    console.error('Thumbnail generation failed:', error);
+    return null;
+  }
+}
+
+export interface StoredMedia {
+  url: string;
+  thumbnailUrl: string | null;
+  storageKey: string;
+  thumbnailKey: string | null;
+  mimeType: string;
+  size: number;
+}
+
+/**
+ * Write an upload and its thumbnail to storage under the owner's prefix.
+ */
+export async function storeMediaFile(
+  userId: string,
+  eventId: string,
+  data: Buffer,
+  mimeType: string
+): Promise<StoredMedia> {
+  const storage = getStorage();
+  const baseKey = `${userId}/${eventId}/${generateId('media')}`;
+  const storageKey = `${baseKey}.${EXTENSIONS[mimeType] || 'bin'}`;
+
+  await storage.put(storageKey, data, mimeType);
+
+  let thumbnailKey: string | null = null;
+  const thumbnail = await createThumbnail(data, mimeType);
+  if (thumbnail) {
+    thumbnailKey = `${baseKey}-thumb.webp`;
+    try {
+      await storage.put(thumbnailKey, thumbnail, 'image/webp');
+    } catch (error) {
+      // The original is stored; a missing preview shouldn't fail the upload
+      console.error('Thumbnail upload failed:', error);
+      thumbnailKey = null;
+    }
+  }
+
+  return {
+    url: getMediaUrl(storageKey),
+    thumbnailUrl: thumbnailKey ? getMediaUrl(thumbnailKey) : null,
+    storageKey,
+    thumbnailKey,
+    mimeType,
+    size: data.length,
+  };
+}
+
+/**
+ * Remove stored blobs for media rows. Failures are logged, not thrown,
+ * so a storage hiccup never blocks deleting the database rows.
+ */
+export async function deleteMediaBlobs(
+  media: Pick<Media, 'id' | 'storageKey' | 'thumbnailKey'>[]
+): Promise<void> {
+  const keys = media.flatMap((item) =>
+    [item.storageKey, item.thumbnailKey].filter((key): key is string => Boolean(key))
+  );
+  if (keys.length === 0) return;
+
+  const storage = getStorage();
+  const results = await Promise.allSettled(keys.map((key) => storage.delete(key)));
+  results.forEach((result, i) => {
+    if (result.status === 'rejected') {
+      console.error(`Failed to delete media blob ${keys[i]}:`, result.reason);
+    }
+  });
+}
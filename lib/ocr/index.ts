@@ -0,0 +1,87 @@
+// Ticket OCR
+// 📚 Library Research Agent: tesseract.js (WASM OCR), pdfjs-dist (PDF text layer + rendering)
+// ✅ Code Quality Agent: Recognition runs on the device - ticket images are never sent to an OCR service
+
+import { parseTicketText, type TicketFields } from './ticket-parser';
+
+export { parseTicketText, type TicketFields } from './ticket-parser';
+
+// Text layers shorter than this are treated as a scanned PDF and OCR'd instead
+const MIN_PDF_TEXT_LENGTH = 20;
+
+// Tesseract fetches its worker, WASM core and language model once (then caches them
+// in IndexedDB). Point this at a local copy to avoid the jsDelivr download entirely.
+const OCR_ASSETS_PATH = process.env.NEXT_PUBLIC_OCR_ASSETS_PATH;
+
+type ProgressCallback = (progress: number) => void;
+
+async function recognizeImage(
+  image: File | HTMLCanvasElement,
+  onProgress?: ProgressCallback
+): Promise<string> {
+  const { createWorker } = await import('tesseract.js');
+  const worker = await createWorker('eng', undefined, {
+    ...(OCR_ASSETS_PATH && {
+      workerPath: `${OCR_ASSETS_PATH}/worker.min.js`,
+      corePath: OCR_ASSETS_PATH,
+      langPath: OCR_ASSETS_PATH,
+    }),
+    logger: (message) => {
+      if (message.status === 'recognizing text') onProgress?.(message.progress);
+    },
+  });
+
+  try {
+    const { data } = await worker.recognize(image);
+    return data.text;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+async function recognizePdf(file: File, onProgress?: ProgressCallback): Promise<string> {
+  const pdfjs = await import('pdfjs-dist');
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+    'pdfjs-dist/build/pdf.worker.min.mjs',
+    import.meta.url
+  ).toString();
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const page = await pdf.getPage(1);
+
+  // E-tickets usually carry a text layer - no OCR needed
+  const content = await page.getTextContent();
+  const text = content.items
+    .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+    .join('');
+  if (text.trim().length >= MIN_PDF_TEXT_LENGTH) return text;
+
+  // Scanned PDF: render the first page and OCR it
+  const viewport = page.getViewport({ scale: 2 });
+  const canvas = document.createElement('canvas');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported in this browser');
+
+  await page.render({ canvasContext: context, viewport }).promise;
+  return recognizeImage(canvas, onProgress);
+}
+
+/**
+ * Read a ticket photo or PDF and extract event fields from it.
+ */
+export async function scanTicket(
+  file: File,
+  onProgress?: ProgressCallback
+): Promise<{ fields: TicketFields; text: string }> {
+  const text =
+    file.type === 'application/pdf'
+      ? await recognizePdf(file, onProgress)
+      : await recognizeImage(file, onProgress);
+
+  // US-style month/day unless the browser locale says otherwise
+  const dayFirst = typeof navigator !== 'undefined' && navigator.language !== 'en-US';
+
+  return { fields: parseTicketText(text, { dayFirst }), text };
+}
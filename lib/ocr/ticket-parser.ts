@@ -0,0 +1,187 @@
+// Ticket Text Parser
+// ✅ Code Quality Agent: Pulls event fields out of raw OCR text from a ticket stub
+
+export interface TicketFields {
+  date?: string; // yyyy-MM-dd
+  venueName?: string;
+  venueCity?: string;
+  homeTeam?: string;
+  awayTeam?: string;
+  artistName?: string;
+  tourName?: string;
+  seat?: string;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, sept: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const MONTH_PATTERN =
+  '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+
+const VENUE_KEYWORDS =
+  /\b(stadium|stadion|estadio|arena|park|field|cent(?:er|re)|gardens?|theat(?:er|re)|hall|dome|ground|bowl|coliseum|amphitheat(?:er|re)|pavilion|forum|ballpark|court|academy|club|room|lounge)\b/i;
+
+// Ticket vendor and boilerplate lines that are never the event name
+const NOISE =
+  /\b(ticketmaster|axs|eventbrite|seetickets|stubhub|livenation|live nation|admit one|admission|general admission|barcode|order|price|fee|total|non-?refundable|terms|conditions|www\.|https?:|\.com|gates? open|doors)\b/i;
+
+function toIsoDate(year: number, month: number, day: number): string | undefined {
+  if (year < 100) year += 2000;
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) return undefined;
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Find the first date on the ticket. Numeric dates like 03/04/2026 are
+ * ambiguous; `dayFirst` decides unless one part is obviously a day (> 12).
+ */
+export function parseTicketDate(text: string, dayFirst = true): string | undefined {
+  // 2026-03-14
+  const iso = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (iso) return toIsoDate(+iso[1], +iso[2], +iso[3]);
+
+  // 14 March 2026, Sat 14 Mar 2026
+  const dayMonth = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN},?\\s+(\\d{4})\\b`, 'i'));
+  if (dayMonth) {
+    return toIsoDate(+dayMonth[3], MONTHS[dayMonth[2].slice(0, 3).toLowerCase()], +dayMonth[1]);
+  }
+
+  // March 14, 2026
+  const monthDay = text.match(new RegExp(`\\b${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i'));
+  if (monthDay) {
+    return toIsoDate(+monthDay[3], MONTHS[monthDay[1].slice(0, 3).toLowerCase()], +monthDay[2]);
+  }
+
+  // 14/03/2026, 03.14.26
+  const numeric = text.match(/\b(\d{1,2})[/.](\d{1,2})[/.](\d{2}|\d{4})\b/);
+  if (numeric) {
+    const [a, b, year] = [+numeric[1], +numeric[2], +numeric[3]];
+    const useDayFirst = a > 12 ? true : b > 12 ? false : dayFirst;
+    return useDayFirst ? toIsoDate(year, b, a) : toIsoDate(year, a, b);
+  }
+
+  return undefined;
+}
+
+// Section / Row / Seat, in whatever order and labelling the ticket uses
+export function parseSeat(text: string): string | undefined {
+  const parts: string[] = [];
+  const patterns: [string, RegExp][] = [
+    ['Section', /\b(?:section|sec|block|stand)\.?:?\s*([A-Z0-9]{1,5})\b/i],
+    ['Row', /\brow:?\s*([A-Z0-9]{1,4})\b/i],
+    ['Seat', /\bseats?:?\s*([0-9]{1,4}[A-Z]?)\b/i],
+  ];
+
+  for (const [label, pattern] of patterns) {
+    const match = text.match(pattern);
+    if (match) parts.push(`${label} ${match[1].toUpperCase()}`);
+  }
+
+  return parts.length > 0 ? parts.join(', ') : undefined;
+}
+
+function clean(value: string): string {
+  return value
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s\-–:|•*]+|[\s\-–:|•*]+$/g, '')
+    .trim();
+}
+
+// Drop kickoff times and dates that share a line with the team names
+function stripTrailingDetails(value: string): string {
+  return clean(
+    value
+      .replace(/\b\d{1,2}[:.]\d{2}\s*(am|pm)?\b.*$/i, '')
+      .replace(/\b\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}\b.*$/, '')
+      .replace(new RegExp(`\\b\\d{1,2}\\s+${MONTH_PATTERN}.*$`, 'i'), '')
+  );
+}
+
+function labelled(lines: string[], label: RegExp): string | undefined {
+  for (const line of lines) {
+    const match = line.match(new RegExp(`^(?:${label.source})\\s*[:\\-]\\s*(.+)$`, 'i'));
+    if (match) return clean(match[1]);
+  }
+  return undefined;
+}
+
+/**
+ * Extract what we can from a ticket's OCR text. Every field is a best guess
+ * for prefilling a form - the user reviews them before saving.
+ */
+export function parseTicketText(text: string, options: { dayFirst?: boolean } = {}): TicketFields {
+  const lines = text
+    .split(/\r?\n/)
+    .map(clean)
+    .filter((line) => line.length > 1);
+
+  const fields: TicketFields = {
+    date: parseTicketDate(text, options.dayFirst),
+    seat: parseSeat(text),
+  };
+
+  // Teams: "Home vs Away" (also "v", "versus"), or US-style "Away at Home" / "Away @ Home"
+  const eventLine = labelled(lines, /event|match|game/);
+  for (const line of eventLine ? [eventLine, ...lines] : lines) {
+    const versus = line.match(/^(.+?)\s+(?:vs\.?|v\.?|versus)\s+(.+)$/i);
+    if (versus) {
+      fields.homeTeam = stripTrailingDetails(versus[1]);
+      fields.awayTeam = stripTrailingDetails(versus[2]);
+      break;
+    }
+    const at = line.match(/^(.+?)\s+(?:at|@)\s+(.+)$/i);
+    if (at && !VENUE_KEYWORDS.test(at[1]) && !NOISE.test(line)) {
+      fields.awayTeam = stripTrailingDetails(at[1]);
+      fields.homeTeam = stripTrailingDetails(at[2]);
+      break;
+    }
+  }
+
+  // Venue: an explicit label, else the first line naming a venue-like place
+  const venueLine =
+    labelled(lines, /venue|location|place/) ??
+    lines.find((line) => VENUE_KEYWORDS.test(line) && !NOISE.test(line) && !/\bvs?\b/i.test(line));
+  if (venueLine) {
+    // "Wembley Stadium, London" or "Madison Square Garden - New York, NY"
+    const [name, ...rest] = venueLine.split(/\s*[,–-]\s+|\s*,\s*/);
+    fields.venueName = stripTrailingDetails(name);
+    if (rest.length > 0) fields.venueCity = clean(rest[0]);
+  }
+
+  // Concerts: explicit artist label, "X presents Y", or the first prominent line
+  const artist =
+    labelled(lines, /artist|performer|headliner/) ??
+    lines.map((line) => line.match(/^.+?\bpresents:?\s+(.+)$/i)?.[1]).find(Boolean);
+  const tourLine = lines.find((line) => /\btour\b/i.test(line) && !NOISE.test(line));
+
+  // "Taylor Swift | The Eras Tour" - the tour part and, often, the artist
+  const tourParts = tourLine?.split(/\s*[|:–-]\s+/) ?? [];
+  if (tourLine) {
+    fields.tourName = clean(tourParts.find((part) => /\btour\b/i.test(part)) ?? tourLine);
+  }
+
+  if (artist) {
+    fields.artistName = clean(artist);
+  } else if (!fields.homeTeam) {
+    const candidate =
+      tourParts.find((part) => !/\btour\b/i.test(part)) ??
+      lines.find(
+        (line) =>
+          line !== venueLine &&
+          line !== tourLine &&
+          !NOISE.test(line) &&
+          !VENUE_KEYWORDS.test(line) &&
+          !parseTicketDate(line, options.dayFirst) &&
+          !parseSeat(line) &&
+          /[a-z]{2,}/i.test(line) &&
+          line.length <= 60
+      );
+    if (candidate) fields.artistName = stripTrailingDetails(candidate);
+  }
+
+  return fields;
+}
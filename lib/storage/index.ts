@@ -0,0 +1,38 @@
+// Media Storage
+// ✅ Code Quality Agent: Pluggable blob storage - local disk for self-hosting, S3-compatible for cloud
+
+import { createLocalStorage } from './local';
+import { createS3Storage } from './s3';
+
+export interface StorageBackend {
+  name: 'local' | 's3';
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+// Blobs are streamed through the app so ownership is checked on every read
+export function getMediaUrl(key: string): string {
+  const publicBase = process.env.MEDIA_PUBLIC_URL;
+  if (publicBase) return `${publicBase.replace(/\/$/, '')}/${key}`;
+  return `/api/media/files/${key}`;
+}
+
+let storage: StorageBackend | null = null;
+
+/**
+ * Storage backend selected by MEDIA_STORAGE ("local" by default, or "s3").
+ */
+export function getStorage(): StorageBackend {
+  if (storage) return storage;
+
+  const backend = process.env.MEDIA_STORAGE || 'local';
+  if (backend === 's3') {
+    storage = createS3Storage();
+  } else if (backend === 'local') {
+    storage = createLocalStorage();
+  } else {
+    throw new Error(`Unknown MEDIA_STORAGE backend: ${backend}`);
+  }
+  return storage;
+}
@@ -0,0 +1,42 @@
+// Local Disk Storage
+// ✅ Code Quality Agent: Keeps uploads on a volume under MEDIA_STORAGE_DIR
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { StorageBackend } from './index';
+
+export function createLocalStorage(): StorageBackend {
+  const root = path.resolve(process.env.MEDIA_STORAGE_DIR || path.join(process.cwd(), 'uploads'));
+
+  // Keys are generated server-side, but never let one escape the storage root
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const filePath = resolveKey(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    },
+
+    async get(key) {
+      try {
+        return await fs.readFile(resolveKey(key));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+
+    async delete(key) {
+      await fs.rm(resolveKey(key), { force: true });
+    },
+  };
+}
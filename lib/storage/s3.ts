@@ -0,0 +1,139 @@
+// S3-Compatible Storage
+// 📚 Library Research Agent: AWS Signature Version 4 over fetch - works with S3, R2, MinIO, B2
+// API Docs: https://docs.aws.amazon.com/AmazonS3/latest/API/sig-v4-authenticating-requests.html
+
+import { createHash, createHmac } from 'crypto';
+import type { StorageBackend } from './index';
+
+interface S3Config {
+  bucket: string;
+  region: string;
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean;
+}
+
+function getConfig(): S3Config {
+  const bucket = process.env.S3_BUCKET;
+  const accessKeyId = process.env.S3_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.S3_SECRET_ACCESS_KEY;
+
+  if (!bucket || !accessKeyId || !secretAccessKey) {
+    throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY must be configured');
+  }
+
+  const region = process.env.S3_REGION || 'us-east-1';
+  return {
+    bucket,
+    region,
+    endpoint: process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+    accessKeyId,
+    secretAccessKey,
+    // Custom endpoints (MinIO, R2) generally need path-style URLs
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : Boolean(process.env.S3_ENDPOINT),
+  };
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function objectUrl(config: S3Config, key: string): URL {
+  const base = new URL(config.endpoint);
+  const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+  return config.forcePathStyle
+    ? new URL(`${base.origin}/${config.bucket}/${encodedKey}`)
+    : new URL(`${base.protocol}//${config.bucket}.${base.host}/${encodedKey}`);
+}
+
+// Sign and send a single-object request
+async function s3Request(
+  method: 'GET' | 'PUT' | 'DELETE',
+  key: string,
+  body?: Buffer,
+  contentType?: string
+): Promise<Response> {
+  const config = getConfig();
+  const url = objectUrl(config, key);
+
+  const amzDate = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = sha256(body ?? '');
+
+  // fetch sets Host itself, but it still has to be signed
+  const requestHeaders: Record<string, string> = {
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  if (contentType) requestHeaders['content-type'] = contentType;
+  const headers: Record<string, string> = { host: url.host, ...requestHeaders };
+
+  const signedHeaders = Object.keys(headers).sort();
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    '',
+    signedHeaders.map((name) => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders.join(';'),
+    payloadHash,
+  ].join('\n');
+
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'),
+    'aws4_request'
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return fetch(url, {
+    method,
+    headers: {
+      ...requestHeaders,
+      Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+    },
+    body: body ? new Uint8Array(body) : undefined,
+    cache: 'no-store',
+  });
+}
+
+export function createS3Storage(): StorageBackend {
+  // Fail at startup rather than on the first upload
+  getConfig();
+
+  return {
+    name: 's3',
+
+    async put(key, data, contentType) {
+      const response = await s3Request('PUT', key, data, contentType);
+      if (!response.ok) {
+        throw new Error(`S3 upload failed: ${response.status} ${await response.text()}`);
+      }
+    },
+
+    async get(key) {
+      const response = await s3Request('GET', key);
+      if (response.status === 404) return null;
+      if (!response.ok) {
+        throw new Error(`S3 download failed: ${response.status}`);
+      }
+      return Buffer.from(await response.arrayBuffer());
+    },
+
+    async delete(key) {
+      const response = await s3Request('DELETE', key);
+      // S3 answers 204 for missing keys too
+      if (!response.ok && response.status !== 404) {
+        throw new Error(`S3 delete failed: ${response.status}`);
+      }
+    },
+  };
+}
@@ -3,6 +3,7 @@
 // 📚 Library Research Agent: Mapbox Geocoding API (free tier: 100k requests/month)
 
 import { prisma } from '@/lib/prisma';
+import { lookupTimezone, setVenueCoordinates } from '@/lib/db/venue-timezones';
 
 const MAPBOX_GEOCODING_BASE = 'https://api.mapbox.com/geocoding/v5/mapbox.places';
 
@@ -99,25 +100,21 @@ export async function ensureVenueCoordinates(
     // Check if venue already has coordinates
     const venue = await prisma.venue.findUnique({
       where: { id: venueId },
-      select: { latitude: true, longitude: true },
+      select: { latitude: true, longitude: true, timezone: true },
     });
 
     if (venue?.latitude && venue?.longitude) {
-      return; // Already geocoded
+      // Already geocoded - venues from before time zones only need the zone
+      if (!venue.timezone) await setVenueCoordinates(venueId, venue.latitude, venue.longitude);
+      return;
     }
 
     // Geocode the venue
     const result = await geocodeVenue(name, city, country);
     if (!result) return;
 
-    // Update venue with coordinates
-    await prisma.venue.update({
-      where: { id: venueId },
-      data: {
-        latitude: result.latitude,
-        longitude: result.longitude,
-      },
-    });
+    // Update venue with coordinates (and the time zone they fall in)
+    await setVenueCoordinates(venueId, result.latitude, result.longitude);
 
     console.log(`[Geocode] Updated venue "${name}" (${venueId}): ${result.latitude}, ${result.longitude}`);
   } catch (error) {
@@ -126,6 +123,30 @@ export async function ensureVenueCoordinates(
   }
 }
 
+/**
+ * Time zone of a venue as typed on a form: the stored venue's zone when it has
+ * one, otherwise the zone its geocoded coordinates fall in. Nothing is saved.
+ */
+export async function findVenueTimezone(
+  name: string,
+  city: string,
+  country: string
+): Promise<string | null> {
+  const venue = await prisma.venue.findFirst({
+    where: {
+      name,
+      ...(city && { city }),
+      ...(country && { country }),
+      timezone: { not: null },
+    },
+    select: { timezone: true },
+  });
+  if (venue?.timezone) return venue.timezone;
+
+  const result = await geocodeVenue(name, city, country);
+  return result ? lookupTimezone(result.latitude, result.longitude) : null;
+}
+
 /**
  * Update a venue with specific coordinates (e.g., from Setlist.fm data).
  */
@@ -135,10 +156,7 @@ export async function updateVenueCoordinates(
   longitude: number
 ): Promise<void> {
   try {
-    await prisma.venue.update({
-      where: { id: venueId },
-      data: { latitude, longitude },
-    });
+    await setVenueCoordinates(venueId, latitude, longitude);
   } catch (error) {
     console.error(`[Geocode] Failed to set coordinates for venue ${venueId}:`, error);
   }
@@ -0,0 +1,145 @@
+// Line Scores
+// ✅ Code Quality Agent: Per-period scoring for team sports - labels, totals and what the game looked like
+//
+// Periods are stored in playing order: innings for baseball, quarters for basketball,
+// halves for soccer. Overtime covers extra innings, NBA overtime and soccer extra time.
+// A soccer shootout is kept as its own period but never counts towards the final score.
+
+export const PERIOD_TYPES = ['REGULAR', 'OVERTIME', 'SHOOTOUT'] as const;
+export type PeriodType = (typeof PERIOD_TYPES)[number];
+
+export type LineScoreSport = 'SOCCER' | 'BASKETBALL' | 'BASEBALL';
+
+export interface PeriodScoreInput {
+  type: PeriodType;
+  homeScore: number | null; // null when not played, e.g. the bottom of the 9th
+  awayScore: number | null;
+}
+
+// Regulation length per sport
+export const REGULAR_PERIODS: Record<LineScoreSport, number> = {
+  SOCCER: 2,
+  BASKETBALL: 4,
+  BASEBALL: 9,
+};
+
+// Smallest deficit at a period break the winner must overturn to count as a comeback.
+// Trailing after a quarter is routine in basketball, so it takes more there.
+export const COMEBACK_MARGINS: Record<LineScoreSport, number> = {
+  SOCCER: 1,
+  BASKETBALL: 10,
+  BASEBALL: 3,
+};
+
+/**
+ * Column headings for a line score: 1-9 (then 10, 11...) for innings,
+ * Q1-Q4/OT/2OT for quarters, 1H/2H/ET/PEN for halves.
+ */
+export function periodLabels(sport: LineScoreSport, periods: { type: PeriodType }[]): string[] {
+  const overtimes = periods.filter((p) => p.type === 'OVERTIME').length;
+  let regular = 0;
+  let overtime = 0;
+
+  return periods.map((period, index) => {
+    if (sport === 'BASEBALL') return String(index + 1);
+
+    if (period.type === 'SHOOTOUT') return 'PEN';
+    if (period.type === 'OVERTIME') {
+      overtime++;
+      if (sport === 'SOCCER') return overtimes > 1 ? `ET${overtime}` : 'ET';
+      return overtime === 1 ? 'OT' : `${overtime}OT`;
+    }
+
+    regular++;
+    return sport === 'SOCCER' ? `${regular}H` : `Q${regular}`;
+  });
+}
+
+/**
+ * Empty regulation periods to start a manual line score from.
+ */
+export function emptyLineScore(sport: LineScoreSport): PeriodScoreInput[] {
+  return Array.from({ length: REGULAR_PERIODS[sport] }, () => ({
+    type: 'REGULAR' as const,
+    homeScore: 0,
+    awayScore: 0,
+  }));
+}
+
+/**
+ * Type of the next period to add: extra innings, another overtime, or
+ * extra time then penalties for soccer. Null once nothing more can follow.
+ */
+export function nextPeriodType(sport: LineScoreSport, periods: { type: PeriodType }[]): PeriodType | null {
+  const regular = periods.filter((p) => p.type === 'REGULAR').length;
+  if (regular < REGULAR_PERIODS[sport]) return 'REGULAR';
+  if (sport !== 'SOCCER') return 'OVERTIME';
+
+  if (periods.some((p) => p.type === 'SHOOTOUT')) return null;
+  const extraTime = periods.filter((p) => p.type === 'OVERTIME').length;
+  return extraTime === 0 ? 'OVERTIME' : 'SHOOTOUT';
+}
+
+/**
+ * Final score the periods add up to, shootout excluded.
+ */
+export function lineScoreTotals(periods: PeriodScoreInput[]): { home: number; away: number } {
+  return periods
+    .filter((p) => p.type !== 'SHOOTOUT')
+    .reduce(
+      (totals, p) => ({ home: totals.home + (p.homeScore ?? 0), away: totals.away + (p.awayScore ?? 0) }),
+      { home: 0, away: 0 }
+    );
+}
+
+export interface LineScoreSummary {
+  winner: 'home' | 'away' | null;
+  overtime: boolean; // Extra innings, overtime, extra time or penalties
+  comebackFrom: number; // Largest deficit the winner overturned at a period break, 0 if none
+  comeback: boolean; // comebackFrom reached the sport's margin
+  walkOff: boolean; // Baseball: the home side won it in its last turn at bat
+}
+
+/**
+ * What a line score says about the game beyond the final score.
+ */
+export function summarizeLineScore(sport: LineScoreSport, periods: PeriodScoreInput[]): LineScoreSummary {
+  const totals = lineScoreTotals(periods);
+  const shootout = periods.find((p) => p.type === 'SHOOTOUT');
+
+  let winner: LineScoreSummary['winner'] = null;
+  if (totals.home !== totals.away) {
+    winner = totals.home > totals.away ? 'home' : 'away';
+  } else if (shootout && shootout.homeScore !== shootout.awayScore) {
+    winner = (shootout.homeScore ?? 0) > (shootout.awayScore ?? 0) ? 'home' : 'away';
+  }
+
+  // Running score at each break before the final period
+  let comebackFrom = 0;
+  if (winner) {
+    let home = 0;
+    let away = 0;
+    const played = periods.filter((p) => p.type !== 'SHOOTOUT');
+    for (const period of played.slice(0, -1)) {
+      home += period.homeScore ?? 0;
+      away += period.awayScore ?? 0;
+      const deficit = winner === 'home' ? away - home : home - away;
+      comebackFrom = Math.max(comebackFrom, deficit);
+    }
+  }
+
+  // Home side behind or level going into its final turn at bat, then won
+  let walkOff = false;
+  const last = periods[periods.length - 1];
+  if (sport === 'BASEBALL' && winner === 'home' && last && (last.homeScore ?? 0) > 0) {
+    walkOff = totals.home - (last.homeScore ?? 0) <= totals.away;
+  }
+
+  return {
+    winner,
+    overtime: periods.some((p) => p.type !== 'REGULAR'),
+    comebackFrom,
+    comeback: comebackFrom >= COMEBACK_MARGINS[sport],
+    walkOff,
+  };
+}
@@ -0,0 +1,164 @@
+// Match Results
+// ✅ Code Quality Agent: Who won a match or a two-legged tie, shootouts included
+//
+// Scores are stored after extra time with any shootout kept apart, so a cup final
+// won 4-3 on penalties stays 1-1 but still has a winner. A shootout only settles
+// the match it was played in when the score was level - after a second leg that
+// wasn't, it settled the tie, and the leg keeps its own result.
+// Away goals aren't applied to ties.
+
+export type MatchWinner = 'home' | 'away';
+
+export interface ScoreLine {
+  homeScore: number;
+  awayScore: number;
+  extraTime?: boolean;
+  homePenalties?: number | null;
+  awayPenalties?: number | null;
+}
+
+export interface LegScore extends ScoreLine {
+  homeTeam: string;
+  awayTeam: string;
+}
+
+export interface Aggregate {
+  home: number; // From the second leg's point of view
+  away: number;
+  winner: MatchWinner | null;
+  decidedBy: 'aggregate' | 'penalties' | null;
+}
+
+// Football-Data.org fills in regularTime only beyond 90 minutes, and its fullTime
+// counts shootout goals - API-Football's doesn't
+interface ApiScore {
+  fullTime: { home: number | null; away: number | null };
+  regularTime?: { home: number | null; away: number | null };
+  extraTime?: { home: number | null; away: number | null };
+  penalties?: { home: number | null; away: number | null };
+  duration?: 'REGULAR' | 'EXTRA_TIME' | 'PENALTY_SHOOTOUT';
+}
+
+export function hasShootout(score: ScoreLine): boolean {
+  return score.homePenalties != null && score.awayPenalties != null;
+}
+
+/**
+ * Problems with a shootout score: both sides or neither, and someone has to win it.
+ */
+export function shootoutIssues(home: number | null | undefined, away: number | null | undefined): string[] {
+  if (home == null && away == null) return [];
+  if (home == null || away == null) return ['Enter both penalty scores, or neither'];
+  if (home === away) return ['A penalty shootout needs a winner'];
+  return [];
+}
+
+/**
+ * The side that won the match, or null for a draw.
+ */
+export function matchWinner(score: ScoreLine): MatchWinner | null {
+  if (score.homeScore !== score.awayScore) return score.homeScore > score.awayScore ? 'home' : 'away';
+  if (hasShootout(score) && score.homePenalties !== score.awayPenalties) {
+    return score.homePenalties! > score.awayPenalties! ? 'home' : 'away';
+  }
+  return null;
+}
+
+/**
+ * W/D/L from one side's point of view.
+ */
+export function resultForSide(side: MatchWinner, score: ScoreLine): 'W' | 'D' | 'L' {
+  const winner = matchWinner(score);
+  if (!winner) return 'D';
+  return winner === side ? 'W' : 'L';
+}
+
+/**
+ * What follows the score: " (4-3 pens)", " aet" or nothing, with `side`'s penalties first.
+ */
+export function scoreLineSuffix(score: ScoreLine, side: MatchWinner = 'home'): string {
+  if (hasShootout(score)) {
+    const [pensFor, pensAgainst] =
+      side === 'away' ? [score.awayPenalties, score.homePenalties] : [score.homePenalties, score.awayPenalties];
+    return ` (${pensFor}-${pensAgainst} pens)`;
+  }
+  return score.extraTime ? ' aet' : '';
+}
+
+/**
+ * "1-1 (4-3 pens)", "2-1 aet" or "2-0", with `side`'s score first.
+ */
+export function formatScoreLine(score: ScoreLine, side: MatchWinner = 'home'): string {
+  const [scored, conceded] =
+    side === 'away' ? [score.awayScore, score.homeScore] : [score.homeScore, score.awayScore];
+  return `${scored}-${conceded}${scoreLineSuffix(score, side)}`;
+}
+
+/**
+ * Final score without shootout goals, whether extra time was played, and the
+ * shootout score. Null until the match has a full-time score.
+ */
+export function soccerResultFromApi(
+  score: ApiScore
+): { homeScore: number; awayScore: number; extraTime: boolean; homePenalties: number | null; awayPenalties: number | null } | null {
+  const { fullTime, regularTime, extraTime, penalties } = score;
+  if (!fullTime || fullTime.home === null || fullTime.away === null) return null;
+
+  const shootout = penalties && penalties.home !== null && penalties.away !== null ? penalties : null;
+  const playedExtraTime =
+    score.duration === 'EXTRA_TIME' ||
+    (!!extraTime && extraTime.home !== null && extraTime.away !== null) ||
+    (score.duration === 'PENALTY_SHOOTOUT' && !!regularTime && regularTime.home !== null);
+
+  let homeScore = fullTime.home;
+  let awayScore = fullTime.away;
+  if (shootout && regularTime && regularTime.home !== null && regularTime.away !== null) {
+    homeScore = regularTime.home + (extraTime?.home ?? 0);
+    awayScore = regularTime.away + (extraTime?.away ?? 0);
+  }
+
+  return {
+    homeScore,
+    awayScore,
+    extraTime: playedExtraTime,
+    homePenalties: shootout?.home ?? null,
+    awayPenalties: shootout?.away ?? null,
+  };
+}
+
+function sameTeam(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+/**
+ * Whether two matches were between the same pair of teams, either way round.
+ */
+export function isSamePairing(a: { homeTeam: string; awayTeam: string }, b: { homeTeam: string; awayTeam: string }): boolean {
+  return (
+    (sameTeam(a.homeTeam, b.homeTeam) && sameTeam(a.awayTeam, b.awayTeam)) ||
+    (sameTeam(a.homeTeam, b.awayTeam) && sameTeam(a.awayTeam, b.homeTeam))
+  );
+}
+
+/**
+ * Aggregate over both legs, from the second leg's home side. A level aggregate
+ * goes to the second leg's shootout; without one the tie is undecided.
+ */
+export function aggregateScore(firstLeg: LegScore, secondLeg: LegScore): Aggregate {
+  const swapped = sameTeam(firstLeg.homeTeam, secondLeg.awayTeam);
+  const home = secondLeg.homeScore + (swapped ? firstLeg.awayScore : firstLeg.homeScore);
+  const away = secondLeg.awayScore + (swapped ? firstLeg.homeScore : firstLeg.awayScore);
+
+  if (home !== away) {
+    return { home, away, winner: home > away ? 'home' : 'away', decidedBy: 'aggregate' };
+  }
+  if (hasShootout(secondLeg) && secondLeg.homePenalties !== secondLeg.awayPenalties) {
+    return {
+      home,
+      away,
+      winner: secondLeg.homePenalties! > secondLeg.awayPenalties! ? 'home' : 'away',
+      decidedBy: 'penalties',
+    };
+  }
+  return { home, away, winner: null, decidedBy: null };
+}
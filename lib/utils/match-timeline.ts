@@ -0,0 +1,157 @@
+// Soccer Match Timeline
+// ✅ Code Quality Agent: Goals, cards, substitutions and VAR calls in minute order
+//
+// `team` is the side a goal counts for - an own goal is credited to the opponents of
+// the player who put it in. For everything else it's the player's own side. Assists
+// ride on the goal as the related player; on a substitution the related player is
+// the one coming on.
+
+export const MATCH_EVENT_TYPES = [
+  'GOAL',
+  'OWN_GOAL',
+  'PENALTY_GOAL',
+  'MISSED_PENALTY',
+  'YELLOW_CARD',
+  'SECOND_YELLOW',
+  'RED_CARD',
+  'SUBSTITUTION',
+  'VAR',
+] as const;
+export type MatchEventType = (typeof MATCH_EVENT_TYPES)[number];
+
+export const MATCH_EVENT_LABELS: Record<MatchEventType, { label: string; icon: string }> = {
+  GOAL: { label: 'Goal', icon: '⚽' },
+  OWN_GOAL: { label: 'Own goal', icon: '⚽' },
+  PENALTY_GOAL: { label: 'Penalty', icon: '⚽' },
+  MISSED_PENALTY: { label: 'Missed penalty', icon: '❌' },
+  YELLOW_CARD: { label: 'Yellow card', icon: '🟨' },
+  SECOND_YELLOW: { label: 'Second yellow', icon: '🟨🟥' },
+  RED_CARD: { label: 'Red card', icon: '🟥' },
+  SUBSTITUTION: { label: 'Substitution', icon: '🔄' },
+  VAR: { label: 'VAR', icon: '📺' },
+};
+
+// What the related player means for each type, where it has one
+export const RELATED_PLAYER_LABELS: Partial<Record<MatchEventType, string>> = {
+  GOAL: 'Assist',
+  PENALTY_GOAL: 'Won by',
+  SUBSTITUTION: 'On',
+};
+
+export interface MatchEventInput {
+  type: MatchEventType;
+  minute: number;
+  extraMinute: number | null;
+  team: 'home' | 'away';
+  playerName: string | null;
+  relatedPlayerName: string | null;
+  detail: string | null;
+}
+
+const SCORING_TYPES: readonly MatchEventType[] = ['GOAL', 'OWN_GOAL', 'PENALTY_GOAL'];
+
+export function isGoal(type: MatchEventType): boolean {
+  return SCORING_TYPES.includes(type);
+}
+
+/**
+ * Minute as printed on a scoreboard: 45', 90+3'.
+ */
+export function formatMinute(minute: number, extraMinute: number | null | undefined): string {
+  return extraMinute ? `${minute}+${extraMinute}'` : `${minute}'`;
+}
+
+/**
+ * Events in match order. Stoppage time sorts after the minute it's added to,
+ * and events in the same minute keep the order they were given in.
+ */
+export function sortTimeline<T extends { minute: number; extraMinute: number | null }>(events: T[]): T[] {
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort(
+      (a, b) =>
+        a.event.minute - b.event.minute ||
+        (a.event.extraMinute ?? 0) - (b.event.extraMinute ?? 0) ||
+        a.index - b.index
+    )
+    .map(({ event }) => event);
+}
+
+/**
+ * Score after each goal, keyed by position in the sorted timeline.
+ */
+export function runningScores<T extends { type: MatchEventType; team: 'home' | 'away' }>(
+  sorted: T[]
+): Map<number, { home: number; away: number }> {
+  const scores = new Map<number, { home: number; away: number }>();
+  let home = 0;
+  let away = 0;
+  sorted.forEach((event, index) => {
+    if (!isGoal(event.type)) return;
+    if (event.team === 'home') home++;
+    else away++;
+    scores.set(index, { home, away });
+  });
+  return scores;
+}
+
+/**
+ * The goal that put the winners ahead for good - their (loser's total + 1)th goal.
+ * Null for draws, or when the timeline doesn't have all of the winner's goals.
+ */
+export function findWinningGoal<T extends { type: MatchEventType; team: 'home' | 'away'; minute: number; extraMinute: number | null }>(
+  events: T[],
+  homeScore: number,
+  awayScore: number
+): T | null {
+  if (homeScore === awayScore) return null;
+  const winner = homeScore > awayScore ? 'home' : 'away';
+  const loserGoals = Math.min(homeScore, awayScore);
+
+  const winnerGoals = sortTimeline(events).filter((e) => isGoal(e.type) && e.team === winner);
+  if (winnerGoals.length !== Math.max(homeScore, awayScore)) return null;
+  return winnerGoals[loserGoals];
+}
+
+/**
+ * Players who scored three or more in the match. Own goals don't count.
+ */
+export function findHatTricks<T extends { type: MatchEventType; playerName: string | null }>(
+  events: T[]
+): { playerName: string; goals: number }[] {
+  const goals = new Map<string, number>();
+  for (const event of events) {
+    if ((event.type === 'GOAL' || event.type === 'PENALTY_GOAL') && event.playerName) {
+      goals.set(event.playerName, (goals.get(event.playerName) ?? 0) + 1);
+    }
+  }
+  return [...goals.entries()]
+    .filter(([, count]) => count >= 3)
+    .map(([playerName, count]) => ({ playerName, goals: count }));
+}
+
+// A stored timeline row with its players loaded
+export interface StoredMatchEvent {
+  type: MatchEventType;
+  minute: number;
+  extraMinute: number | null;
+  isHome: boolean;
+  detail: string | null;
+  player: { name: string } | null;
+  relatedPlayer: { name: string } | null;
+}
+
+/**
+ * Stored timeline rows back into form input.
+ */
+export function toMatchEventInputs(rows: StoredMatchEvent[]): MatchEventInput[] {
+  return rows.map((row) => ({
+    type: row.type,
+    minute: row.minute,
+    extraMinute: row.extraMinute,
+    team: row.isHome ? 'home' : 'away',
+    playerName: row.player?.name ?? null,
+    relatedPlayerName: row.relatedPlayer?.name ?? null,
+    detail: row.detail,
+  }));
+}
@@ -0,0 +1,89 @@
+// Pitching Lines
+// ✅ Code Quality Agent: Innings pitched, decisions and ERA for baseball pitching appearances
+//
+// Innings are stored as outs recorded. Box scores write them as whole innings
+// plus outs after the dot, so "6.1" is six innings and one out (19 outs), not 6.1.
+
+export const PITCHING_DECISIONS = ['WIN', 'LOSS', 'SAVE'] as const;
+export type PitchingDecision = (typeof PITCHING_DECISIONS)[number];
+
+export const DECISION_LABELS: Record<PitchingDecision, string> = {
+  WIN: 'W',
+  LOSS: 'L',
+  SAVE: 'S',
+};
+
+export const INNINGS_PITCHED_PATTERN = /^\d{1,2}(\.[0-2])?$/;
+
+// Outs in a complete nine-inning game
+export const OUTS_PER_GAME = 27;
+
+// A pitching line as entered or read from a box score
+export interface PitchingLine {
+  inningsPitched: string; // "6.1"
+  hits: number;
+  runs: number;
+  earnedRuns: number;
+  walks: number;
+  strikeOuts: number;
+  pitchCount: number | null;
+  decision: PitchingDecision | null;
+}
+
+/**
+ * Outs recorded from box-score innings ("6.1" → 19). Null if it isn't valid.
+ */
+export function parseInningsPitched(value: string | number): number | null {
+  const text = String(value).trim();
+  if (!INNINGS_PITCHED_PATTERN.test(text)) return null;
+  const [innings, outs = '0'] = text.split('.');
+  return parseInt(innings, 10) * 3 + parseInt(outs, 10);
+}
+
+/**
+ * Box-score innings from outs recorded (19 → "6.1").
+ */
+export function formatInningsPitched(outsRecorded: number): string {
+  const outs = outsRecorded % 3;
+  const innings = Math.floor(outsRecorded / 3);
+  return outs === 0 ? `${innings}.0` : `${innings}.${outs}`;
+}
+
+/**
+ * Decision from an MLB box-score note such as "(W, 5-2)" or "(S, 12)".
+ * Holds and blown saves aren't decisions and are skipped - a reliever who blew
+ * the save and then won the game is noted "(BS, 2)(W, 5-3)".
+ */
+export function decisionFromNote(note: string | undefined): PitchingDecision | null {
+  const match = note?.match(/\((W|L|S),/);
+  if (!match) return null;
+  return match[1] === 'W' ? 'WIN' : match[1] === 'L' ? 'LOSS' : 'SAVE';
+}
+
+/**
+ * Earned run average over the innings pitched, or null with no outs recorded.
+ */
+export function earnedRunAverage(earnedRuns: number, outsRecorded: number): number | null {
+  if (outsRecorded === 0) return null;
+  return Math.round(((earnedRuns * OUTS_PER_GAME) / outsRecorded) * 100) / 100;
+}
+
+/**
+ * Whether one side's pitchers held the other to no hits over at least nine innings.
+ * Lines with an unknown side only count on their own (a solo no-hitter).
+ */
+export function isNoHitter(
+  lines: { isHome: boolean | null; outsRecorded: number; hits: number }[]
+): boolean {
+  const sides = [
+    lines.filter((line) => line.isHome === true),
+    lines.filter((line) => line.isHome === false),
+    ...lines.filter((line) => line.isHome === null).map((line) => [line]),
+  ];
+  return sides.some(
+    (side) =>
+      side.length > 0 &&
+      side.reduce((outs, line) => outs + line.outsRecorded, 0) >= OUTS_PER_GAME &&
+      side.every((line) => line.hits === 0)
+  );
+}
@@ -0,0 +1,209 @@
+// Season Model
+// ✅ Code Quality Agent: Maps events to club seasons that span calendar years
+//
+// Seasons are identified by the year they start in: European football's
+// 2024-25 season is season 2024, as is the 2024 MLB season. Each sport has a
+// default boundary, and competitions that run with the calendar year (MLS,
+// WNBA, ...) override it. Boundaries are the 1st of a month in venue-local time.
+
+import type { Prisma } from '@prisma/client';
+import { localDateWhere } from '@/lib/utils/timezone';
+
+export interface SeasonRule {
+  sport: string;
+  startMonth: number; // 1-12
+  competitions?: string[]; // Matched case-insensitively as substrings; omitted for the sport default
+}
+
+// First matching rule wins, so competition overrides come before the sport default
+export const SEASON_RULES: SeasonRule[] = [
+  {
+    sport: 'SOCCER',
+    startMonth: 1,
+    competitions: [
+      'MLS',
+      'Major League Soccer',
+      'Brasileir',
+      'Allsvenskan',
+      'Eliteserien',
+      'J1 League',
+      'J.League',
+      'K League',
+      'Chinese Super League',
+      'League of Ireland',
+      'Veikkausliiga',
+    ],
+  },
+  { sport: 'SOCCER', startMonth: 7 },
+  { sport: 'BASKETBALL', startMonth: 1, competitions: ['WNBA'] },
+  { sport: 'BASKETBALL', startMonth: 8 },
+  // Baseball, tennis and concerts follow the calendar year
+];
+
+const CALENDAR_RULE: Omit<SeasonRule, 'sport'> = { startMonth: 1 };
+
+export interface Season {
+  startYear: number;
+  label: string; // "2024-25", or "2024" for calendar-year seasons
+  start: Date;
+  end: Date; // Exclusive
+}
+
+function matchesCompetition(rule: SeasonRule, competition?: string | null): boolean {
+  if (!rule.competitions) return true;
+  if (!competition) return false;
+  const name = competition.toLowerCase();
+  return rule.competitions.some((c) => name.includes(c.toLowerCase()));
+}
+
+export function getSeasonRule(sport: string, competition?: string | null): Omit<SeasonRule, 'sport'> {
+  return (
+    SEASON_RULES.find((rule) => rule.sport === sport && matchesCompetition(rule, competition)) ??
+    CALENDAR_RULE
+  );
+}
+
+export function seasonFor(startYear: number, rule: Omit<SeasonRule, 'sport'>): Season {
+  const crossesYear = rule.startMonth > 1;
+  return {
+    startYear,
+    label: crossesYear ? `${startYear}-${String((startYear + 1) % 100).padStart(2, '0')}` : `${startYear}`,
+    start: new Date(Date.UTC(startYear, rule.startMonth - 1, 1)),
+    end: new Date(Date.UTC(startYear + 1, rule.startMonth - 1, 1)),
+  };
+}
+
+/**
+ * The season an event on `date` belongs to.
+ */
+export function getSeason(date: Date, sport: string, competition?: string | null): Season {
+  const rule = getSeasonRule(sport, competition);
+  const startYear = date.getUTCMonth() + 1 >= rule.startMonth
+    ? date.getUTCFullYear()
+    : date.getUTCFullYear() - 1;
+  return seasonFor(startYear, rule);
+}
+
+/**
+ * Parse "2024", "2024-25", "2024/25" or "2024-2025" into the season's start year.
+ */
+export function parseSeason(value: string | null | undefined): number | null {
+  const match = value?.trim().match(/^(\d{4})(?:[-/](\d{2}|\d{4}))?$/);
+  if (!match) return null;
+
+  const startYear = parseInt(match[1], 10);
+  if (match[2]) {
+    const end = parseInt(match[2], 10);
+    const expected = match[2].length === 2 ? (startYear + 1) % 100 : startYear + 1;
+    if (end !== expected) return null;
+  }
+  return startYear >= 1900 && startYear <= 2100 ? startYear : null;
+}
+
+// Event relation holding each team sport's competition
+const COMPETITION_RELATIONS: Record<string, 'soccerMatch' | 'basketballGame' | 'baseballGame'> = {
+  SOCCER: 'soccerMatch',
+  BASKETBALL: 'basketballGame',
+  BASEBALL: 'baseballGame',
+};
+
+const EVENT_TYPES = ['SOCCER', 'BASKETBALL', 'BASEBALL', 'TENNIS', 'CONCERT'] as const;
+
+function competitionWhere(sport: string, competitions: string[]): Prisma.EventWhereInput {
+  const relation = COMPETITION_RELATIONS[sport];
+  if (!relation) return {};
+  return {
+    [relation]: {
+      OR: competitions.map((name) => ({ competition: { contains: name, mode: 'insensitive' } })),
+    },
+  };
+}
+
+/**
+ * Event filter for one season across every sport - each event is matched
+ * against its own sport's (and competition's) boundaries.
+ */
+export function seasonEventWhere(startYear: number): Prisma.EventWhereInput {
+  const clauses: Prisma.EventWhereInput[] = [];
+
+  for (const type of EVENT_TYPES) {
+    const rules = SEASON_RULES.filter((rule) => rule.sport === type);
+    const overrides = rules.filter((rule) => rule.competitions);
+    const fallback = rules.find((rule) => !rule.competitions) ?? CALENDAR_RULE;
+
+    for (const rule of overrides) {
+      const season = seasonFor(startYear, rule);
+      clauses.push({
+        type,
+        ...competitionWhere(type, rule.competitions as string[]),
+        AND: [localDateWhere(season.start, season.end)],
+      });
+    }
+
+    // NOT alone would also drop matches with no competition (NULL never matches)
+    const season = seasonFor(startYear, fallback);
+    const relation = COMPETITION_RELATIONS[type];
+    clauses.push({
+      type,
+      AND: [
+        localDateWhere(season.start, season.end),
+        ...(overrides.length > 0 && relation
+          ? [{
+              OR: [
+                { [relation]: { competition: null } },
+                { NOT: overrides.map((rule) => competitionWhere(type, rule.competitions as string[])) },
+              ],
+            }]
+          : []),
+      ],
+    });
+  }
+
+  return { OR: clauses };
+}
+
+// Calendar year or season filter shared by the stats and events routes
+export interface StatsPeriod {
+  year?: number;
+  season?: number; // Start year, see parseSeason
+}
+
+/**
+ * Read ?year= and ?season= from a request. Returns null if either is malformed.
+ */
+export function parseStatsPeriod(searchParams: URLSearchParams): StatsPeriod | null {
+  const period: StatsPeriod = {};
+
+  const year = searchParams.get('year');
+  if (year) {
+    const parsed = parseInt(year, 10);
+    if (isNaN(parsed) || parsed < 1900 || parsed > 2100) return null;
+    period.year = parsed;
+  }
+
+  const season = searchParams.get('season');
+  if (season) {
+    const parsed = parseSeason(season);
+    if (parsed === null) return null;
+    period.season = parsed;
+  }
+
+  return period;
+}
+
+/**
+ * Event filter for a period, on venue-local dates - spread it into an event where clause.
+ * With both set, events must fall in the year and the season.
+ */
+export function periodEventWhere(period: StatsPeriod = {}): Prisma.EventWhereInput {
+  const clauses: Prisma.EventWhereInput[] = [];
+  if (period.year) {
+    clauses.push(
+      localDateWhere(new Date(Date.UTC(period.year, 0, 1)), new Date(Date.UTC(period.year + 1, 0, 1)))
+    );
+  }
+  if (period.season) {
+    clauses.push(seasonEventWhere(period.season));
+  }
+  return clauses.length > 0 ? { AND: clauses } : {};
+}
@@ -0,0 +1,54 @@
+// Song Name Normalization
+// Folds setlist variants of one song together
+// Example: "Creep (Live)", "Creep - Acoustic" and "creep" → one song, "Creep"
+
+// Variant tags setlist.fm and users add to a title, in brackets or after a dash
+const VARIANT_WORDS = [
+  'live',
+  'acoustic',
+  'unplugged',
+  'piano',
+  'stripped',
+  'extended',
+  'short',
+  'snippet',
+  'radio edit',
+  'remix',
+  'demo',
+];
+const VARIANT = `(?:${VARIANT_WORDS.join('|')})(?:\\s+(?:version|at\\b.*|in\\b.*|from\\b.*))?|[^()\\[\\]]*\\bversion`;
+const BRACKETED_VARIANT = new RegExp(`\\s*[([]\\s*(?:${VARIANT})\\s*[)\\]]\\s*$`, 'i');
+const DASHED_VARIANT = new RegExp(`\\s+[-–—]\\s*(?:${VARIANT})\\s*$`, 'i');
+
+/**
+ * The song's title without variant tags, as shown in stats.
+ */
+export function canonicalSongName(name: string): string {
+  let canonical = name.trim().replace(/\s+/g, ' ');
+  let previous;
+  // Tags can stack: "Creep (Acoustic) (Live)"
+  do {
+    previous = canonical;
+    canonical = canonical.replace(BRACKETED_VARIANT, '').replace(DASHED_VARIANT, '').trim();
+  } while (canonical !== previous && canonical.length > 0);
+  return canonical || name.trim();
+}
+
+/**
+ * Lookup key for a song within one artist: the canonical title, lowercased,
+ * with "&" read as "and" and punctuation dropped.
+ */
+export function songKey(name: string): string {
+  return canonicalSongName(name)
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+// setlist.fm writes a segue into the next song as "->" or ">" in the song's info
+export function isSegueNote(info: string | undefined): boolean {
+  return !!info && /^\s*-?>/.test(info);
+}
@@ -0,0 +1,31 @@
+// Supported Team Resolution
+// ✅ Code Quality Agent: Works out which side of a match the user was cheering for
+//
+// An explicit per-event tag wins. NEUTRAL opts the event out entirely. Without a
+// tag, a favourite team playing decides it - unless both sides are favourites.
+
+import { resultForSide, type ScoreLine } from '@/lib/utils/match-result';
+
+export type SupportedSide = 'HOME' | 'AWAY' | 'NEUTRAL';
+
+export type MatchResult = 'W' | 'D' | 'L';
+
+export function resolveSupportedSide(
+  explicit: SupportedSide | null | undefined,
+  homeTeamId: string | null | undefined,
+  awayTeamId: string | null | undefined,
+  favoriteTeamIds: ReadonlySet<string>
+): 'HOME' | 'AWAY' | null {
+  if (explicit === 'NEUTRAL') return null;
+  if (explicit) return explicit;
+
+  const home = !!homeTeamId && favoriteTeamIds.has(homeTeamId);
+  const away = !!awayTeamId && favoriteTeamIds.has(awayTeamId);
+  if (home === away) return null;
+  return home ? 'HOME' : 'AWAY';
+}
+
+// Result from the supported side's point of view - a shootout win counts as a win
+export function supportedResult(side: 'HOME' | 'AWAY', score: ScoreLine): MatchResult {
+  return resultForSide(side === 'HOME' ? 'home' : 'away', score);
+}
@@ -0,0 +1,200 @@
+// Tennis Score Parser
+// ✅ Code Quality Agent: Turns "6-4, 3-6, 7-6(5)" into validated sets, winner and sets won
+//
+// Scores are written from player 1's side. Supported:
+//   6-4 3-6 7-5          regular sets, commas or spaces
+//   7-6(5) / 6-7(5)      tiebreak, loser's points in brackets
+//   7-6(10-8)            tiebreak with both players' points (player 1 first)
+//   [10-8] / 6-4 4-6 10-8  match tiebreak in place of a deciding set
+//   11-9                 advantage deciding set
+//   6-3 2-1 RET          retirement (incomplete last set allowed)
+//   W/O                  walkover
+
+export type TennisOutcome = 'COMPLETED' | 'RETIRED' | 'WALKOVER';
+
+export interface ParsedTennisSet {
+  setNumber: number;
+  player1Games: number; // Points, for a match tiebreak
+  player2Games: number;
+  tiebreakPlayer1: number | null;
+  tiebreakPlayer2: number | null;
+  isMatchTiebreak: boolean;
+  isComplete: boolean;
+  winner: 1 | 2 | null;
+}
+
+export interface ParsedTennisScore {
+  sets: ParsedTennisSet[];
+  outcome: TennisOutcome;
+  winner: 1 | 2 | null; // null for retirements/walkovers - the score alone doesn't say who
+  setsWon: [number, number];
+  bestOf: 3 | 5 | null;
+  errors: string[];
+}
+
+const RETIRED = /\b(?:ret(?:ired|\.)?|retd|def(?:ault)?|abd)\b\.?/i;
+const WALKOVER = /\b(?:w\/o|wo|walkover)\b/i;
+const SET_TOKEN = /^(\[)?(\d{1,2})-(\d{1,2})(\])?(?:\((\d{1,2})(?:-(\d{1,2}))?\))?$/;
+
+// Is W-L (winner's games first) a valid finished set?
+function isValidSet(w: number, l: number, deciding: boolean): boolean {
+  if (w === 6 && l <= 4) return true;
+  if (w === 7 && (l === 5 || l === 6)) return true;
+  if (!deciding) return false;
+  // Advantage final set (no tiebreak), or the 12-all tiebreak used at Wimbledon
+  return (w > 7 && w - l === 2) || (w === 13 && l === 12);
+}
+
+function isValidMatchTiebreak(w: number, l: number): boolean {
+  return (w === 10 && l <= 8) || (w > 10 && w - l === 2);
+}
+
+/**
+ * Parse a free-text tennis score. Never throws - problems are returned in `errors`.
+ */
+export function parseTennisScore(score: string): ParsedTennisScore {
+  const result: ParsedTennisScore = {
+    sets: [],
+    outcome: 'COMPLETED',
+    winner: null,
+    setsWon: [0, 0],
+    bestOf: null,
+    errors: [],
+  };
+
+  let text = score.trim().replace(/[–—]/g, '-');
+  if (!text) return result; // Upcoming match - nothing to parse
+
+  if (WALKOVER.test(text)) {
+    result.outcome = 'WALKOVER';
+    if (text.replace(WALKOVER, '').trim()) {
+      result.errors.push('A walkover has no set scores');
+    }
+    return result;
+  }
+
+  if (RETIRED.test(text)) {
+    result.outcome = 'RETIRED';
+    text = text.replace(RETIRED, ' ');
+  }
+
+  const tokens = text
+    .replace(/\(\s*/g, '(')
+    .replace(/\s*\)/g, ')')
+    .split(/[\s,;/]+/)
+    .filter(Boolean);
+
+  for (const [index, token] of tokens.entries()) {
+    const match = token.match(SET_TOKEN);
+    if (!match) {
+      result.errors.push(`Unrecognised set "${token}"`);
+      continue;
+    }
+
+    const [, open, g1, g2, close, tbA, tbB] = match;
+    const p1 = Number(g1);
+    const p2 = Number(g2);
+    const isLast = index === tokens.length - 1;
+    const deciding = result.setsWon[0] === result.setsWon[1] && result.setsWon[0] > 0;
+    const setNumber = result.sets.length + 1;
+    const w = Math.max(p1, p2);
+    const l = Math.min(p1, p2);
+
+    if (Boolean(open) !== Boolean(close)) {
+      result.errors.push(`Set ${setNumber}: unbalanced brackets in "${token}"`);
+      continue;
+    }
+
+    // Bracketed, or a bare score that's only valid as a match tiebreak
+    const isMatchTiebreak =
+      Boolean(open) || (deciding && !isValidSet(w, l, true) && isValidMatchTiebreak(w, l));
+
+    const set: ParsedTennisSet = {
+      setNumber,
+      player1Games: p1,
+      player2Games: p2,
+      tiebreakPlayer1: null,
+      tiebreakPlayer2: null,
+      isMatchTiebreak,
+      isComplete: true,
+      winner: p1 > p2 ? 1 : p2 > p1 ? 2 : null,
+    };
+
+    if (isMatchTiebreak) {
+      if (!deciding) {
+        result.errors.push(`Set ${setNumber}: a match tiebreak can only decide a match at one set all`);
+      } else if (!isValidMatchTiebreak(w, l)) {
+        set.isComplete = false;
+        if (!(isLast && result.outcome === 'RETIRED')) {
+          result.errors.push(`Set ${setNumber}: ${token} is not a finished match tiebreak`);
+        }
+      }
+    } else if (tbA !== undefined) {
+      // Tiebreaks only happen at 6-6 (or 12-12 in some deciding sets)
+      if (!((w === 7 && l === 6) || (w === 13 && l === 12))) {
+        result.errors.push(`Set ${setNumber}: tiebreak score on a ${p1}-${p2} set`);
+      } else if (tbB !== undefined) {
+        set.tiebreakPlayer1 = Number(tbA);
+        set.tiebreakPlayer2 = Number(tbB);
+        if ((set.tiebreakPlayer1 > set.tiebreakPlayer2) !== (p1 > p2)) {
+          result.errors.push(`Set ${setNumber}: tiebreak winner doesn't match the set winner`);
+        }
+      } else {
+        // "7-6(5)" gives the loser's points; the winner needed two more, at least 7
+        const loserPoints = Number(tbA);
+        const winnerPoints = Math.max(7, loserPoints + 2);
+        set.tiebreakPlayer1 = p1 > p2 ? winnerPoints : loserPoints;
+        set.tiebreakPlayer2 = p1 > p2 ? loserPoints : winnerPoints;
+      }
+    } else if (!isValidSet(w, l, deciding)) {
+      set.isComplete = false;
+      if (!(isLast && result.outcome === 'RETIRED')) {
+        result.errors.push(`Set ${setNumber}: ${token} is not a valid set score`);
+      }
+    }
+
+    if (!set.isComplete) set.winner = null;
+    if (set.winner) result.setsWon[set.winner - 1]++;
+    result.sets.push(set);
+
+    // Anything after the deciding set is a mistake
+    if (result.setsWon.includes(3) && !isLast) {
+      result.errors.push('Sets listed after the match was already won');
+      break;
+    }
+  }
+
+  const [won1, won2] = result.setsWon;
+  const leader = Math.max(won1, won2);
+  const lastSet = result.sets[result.sets.length - 1];
+
+  if (result.outcome === 'COMPLETED') {
+    if (result.sets.length === 0) {
+      result.errors.push('No sets found');
+    } else if (won1 === won2 || leader < 2 || lastSet?.winner !== (won1 > won2 ? 1 : 2)) {
+      // The match ends on the set that clinches it
+      result.errors.push('Match is not finished - add the remaining sets, RET or W/O');
+    } else {
+      result.bestOf = leader === 3 ? 5 : 3;
+      result.winner = won1 > won2 ? 1 : 2;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Human-readable form, e.g. "6-4, 6-7(5), [10-8]".
+ */
+export function formatTennisScore(parsed: ParsedTennisScore): string {
+  if (parsed.outcome === 'WALKOVER') return 'W/O';
+
+  const sets = parsed.sets.map((set) => {
+    if (set.isMatchTiebreak) return `[${set.player1Games}-${set.player2Games}]`;
+    const base = `${set.player1Games}-${set.player2Games}`;
+    if (set.tiebreakPlayer1 === null || set.tiebreakPlayer2 === null) return base;
+    return `${base}(${Math.min(set.tiebreakPlayer1, set.tiebreakPlayer2)})`;
+  });
+
+  return parsed.outcome === 'RETIRED' ? `${sets.join(', ')} RET` : sets.join(', ');
+}
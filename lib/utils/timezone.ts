@@ -0,0 +1,203 @@
+// Venue Time Zones
+// ✅ Code Quality Agent: Resolves venue-local dates and kickoff times for events
+//
+// Each event keeps three things:
+//   localDate   - the calendar date at the venue (null until it can be worked out)
+//   kickoffTime - "HH:mm" at the venue, null for date-only entries
+//   date        - the UTC instant, used for ordering and planned/attended checks
+// Date-only entries are typed as a bare "yyyy-MM-dd" and stored with that day
+// as both `date` (midnight UTC) and `localDate`, and no kickoff time. An
+// instant is never taken to be date-only just because it falls on midnight UTC.
+// Grouping by day, month or year always uses the local date.
+// Zones come from venue coordinates - see lib/db/venue-timezones.
+
+import type { Prisma } from '@prisma/client';
+
+export const KICKOFF_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// A date typed without a time of day
+export function isDateOnlyInput(value: string): boolean {
+  return DATE_ONLY_PATTERN.test(value);
+}
+
+function utcMidnight(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+// Wall-clock fields of an instant in a time zone
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parseInt(parts.find((part) => part.type === type)?.value ?? '0', 10);
+
+  return {
+    year: get('year'),
+    month: get('month') - 1,
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// Offset of a time zone from UTC at an instant, in milliseconds
+function zoneOffset(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  return Date.UTC(p.year, p.month, p.day, p.hour, p.minute, p.second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Venue-local date (as midnight UTC) and "HH:mm" kickoff time of an instant.
+ */
+export function toVenueLocal(date: Date, timeZone: string): { localDate: Date; kickoffTime: string } {
+  const p = zonedParts(date, timeZone);
+  return {
+    localDate: new Date(Date.UTC(p.year, p.month, p.day)),
+    kickoffTime: `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`,
+  };
+}
+
+/**
+ * The UTC instant of a venue-local date and "HH:mm" time. Times skipped by a
+ * DST change resolve to the equivalent time after the change.
+ */
+export function fromVenueLocal(localDate: Date, kickoffTime: string, timeZone: string): Date {
+  const [hours, minutes] = kickoffTime.split(':').map((part) => parseInt(part, 10));
+  const wallClock = Date.UTC(
+    localDate.getUTCFullYear(),
+    localDate.getUTCMonth(),
+    localDate.getUTCDate(),
+    hours,
+    minutes
+  );
+
+  // Apply the offset at the first guess, then again in case it crossed a DST change
+  const instant = wallClock - zoneOffset(new Date(wallClock), timeZone);
+  const corrected = wallClock - zoneOffset(new Date(instant), timeZone);
+  if (corrected === instant) return new Date(instant);
+  if (wallClock - zoneOffset(new Date(corrected), timeZone) === corrected) return new Date(corrected);
+
+  // Neither offset fits, so the time falls in a gap - the later instant is the
+  // wall time read with the pre-change offset, i.e. the same time after the change
+  return new Date(Math.max(instant, corrected));
+}
+
+export interface EventTiming {
+  date: Date;
+  localDate: Date | null;
+  kickoffTime: string | null;
+}
+
+/**
+ * Work out an event's stored timing from what was entered.
+ *
+ * - With a kickoff time, `date` is read as the venue-local day and the instant
+ *   is derived from the venue's zone (UTC until the venue has one).
+ * - A bare "yyyy-MM-dd" string is a date-only entry for that day.
+ * - Anything else is an instant (from a fixture API or an import) and is
+ *   converted to the venue's zone; without one the local date stays null
+ *   until it's known.
+ */
+export function resolveEventTiming(
+  input: Date | string,
+  kickoffTime: string | null | undefined,
+  timeZone: string | null | undefined
+): EventTiming {
+  const date = new Date(input);
+  if (kickoffTime) {
+    const localDate = utcMidnight(date);
+    return { date: fromVenueLocal(localDate, kickoffTime, timeZone || 'UTC'), localDate, kickoffTime };
+  }
+  if (typeof input === 'string' && isDateOnlyInput(input)) {
+    return { date, localDate: date, kickoffTime: null };
+  }
+  if (timeZone) {
+    return { date, ...toVenueLocal(date, timeZone) };
+  }
+  return { date, localDate: null, kickoffTime: null };
+}
+
+/**
+ * Re-resolve a stored event once its venue's zone is known or has changed.
+ */
+export function reanchorEventTiming(
+  event: { date: Date; localDate: Date | null; kickoffTime: string | null },
+  timeZone: string
+): EventTiming {
+  if (event.localDate && event.kickoffTime) {
+    return resolveEventTiming(event.localDate, event.kickoffTime, timeZone);
+  }
+  if (event.localDate) {
+    return { date: event.date, localDate: event.localDate, kickoffTime: null };
+  }
+  return resolveEventTiming(event.date, null, timeZone);
+}
+
+/**
+ * The venue-local calendar date to group an event by, as midnight UTC - read
+ * it with the getUTC* methods. Falls back to the UTC date when unresolved.
+ */
+export function eventLocalDate(event: { date: Date | string; localDate?: Date | string | null }): Date {
+  return event.localDate ? new Date(event.localDate) : utcMidnight(new Date(event.date));
+}
+
+export function localDayKey(event: { date: Date | string; localDate?: Date | string | null }): string {
+  return eventLocalDate(event).toISOString().split('T')[0];
+}
+
+/**
+ * Event filter for venue-local dates in [start, end) - both at midnight UTC.
+ * Events whose local date isn't resolved yet are matched on their UTC date.
+ */
+export function localDateWhere(start: Date, end: Date): Prisma.EventWhereInput {
+  return {
+    OR: [
+      { localDate: { gte: start, lt: end } },
+      { localDate: null, date: { gte: start, lt: end } },
+    ],
+  };
+}
+
+// A fixture's UTC instant and the "yyyy-MM-dd" the form showed for it
+export interface FixtureDate {
+  instant: string;
+  day: string;
+}
+
+/**
+ * Date fields for an event form. A kickoff typed in is sent with the local day;
+ * otherwise a fixture's instant is sent as-is while the form still shows its
+ * day, so the server can place it in the venue's zone. Anything else is sent
+ * as the bare day - a date-only entry.
+ */
+export function eventDateFields(
+  date: string,
+  kickoffTime: string | undefined,
+  fixture: FixtureDate | null
+): { date: string; kickoffTime: string | undefined } {
+  if (kickoffTime) return { date, kickoffTime };
+  if (fixture && fixture.day === date) {
+    return { date: fixture.instant, kickoffTime: undefined };
+  }
+  return { date, kickoffTime: undefined };
+}
+
+/**
+ * The event's venue-local day as a Date in the runtime's own zone, so date-fns
+ * `format` prints the right day wherever it runs.
+ */
+export function localDisplayDate(event: { date: Date | string; localDate?: Date | string | null }): Date {
+  const day = eventLocalDate(event);
+  return new Date(day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate());
+}
@@ -0,0 +1,78 @@
+// Maintenance Job Runner (CLI)
+// ✅ Code Quality Agent: Same jobs as the /admin dashboard, for deploy hooks and first-time setup
+//
+//   npm run job -- list
+//   npm run job -- <job-id> [--user <userId>]
+//   npm run job -- grant-admin <email>
+//   npm run job -- revoke-admin <email>
+
+import prisma from '@/lib/prisma';
+import { getMaintenanceJob, listMaintenanceJobs, runMaintenanceJob } from '@/lib/admin/jobs';
+
+const USAGE = `Usage:
+  npm run job -- list
+  npm run job -- <job-id> [--user <userId>]
+  npm run job -- grant-admin <email>
+  npm run job -- revoke-admin <email>`;
+
+function print(line: string) {
+  process.stdout.write(`${line}\n`);
+}
+
+async function listJobs() {
+  for (const job of await listMaintenanceJobs()) {
+    const last = job.lastRun
+      ? `${job.lastRun.status.toLowerCase()} ${job.lastRun.startedAt.toISOString()}`
+      : 'never run';
+    print(`${job.id.padEnd(24)} ${job.name} (${last})`);
+  }
+}
+
+async function setRole(email: string | undefined, role: 'USER' | 'ADMIN') {
+  if (!email) throw new Error(USAGE);
+
+  const { count } = await prisma.user.updateMany({ where: { email }, data: { role } });
+  if (count === 0) throw new Error(`No user with email ${email} - sign in once first`);
+
+  // Sessions pick the new role up at next sign-in; admin routes check it immediately
+  print(`${email} is now ${role === 'ADMIN' ? 'an admin' : 'a regular user'}`);
+}
+
+async function runJob(jobId: string, args: string[]) {
+  const job = getMaintenanceJob(jobId);
+  if (!job) throw new Error(`Unknown job: ${jobId}\n\n${USAGE}`);
+
+  const userFlag = args.indexOf('--user');
+  const userId = userFlag >= 0 ? args[userFlag + 1] : undefined;
+
+  print(`Running ${job.name}...`);
+  const run = await runMaintenanceJob(job, { userId });
+  print(JSON.stringify(run.result, null, 2));
+}
+
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case undefined:
+    case 'help':
+    case '--help':
+      print(USAGE);
+      return;
+    case 'list':
+      return listJobs();
+    case 'grant-admin':
+      return setRole(args[0], 'ADMIN');
+    case 'revoke-admin':
+      return setRole(args[0], 'USER');
+    default:
+      return runJob(command, args);
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -12,11 +12,14 @@ import type {
   TennisMatch,
   Concert,
   SoccerAppearance,
+  SoccerMatchEvent,
   BasketballAppearance,
   BaseballAppearance,
+  BaseballPitchingAppearance,
   TennisAppearance,
   SetlistItem,
   Media,
+  PeriodScore,
   Achievement,
   UserAchievement,
   User,
@@ -34,11 +37,14 @@ export type {
   TennisMatch,
   Concert,
   SoccerAppearance,
+  SoccerMatchEvent,
   BasketballAppearance,
   BaseballAppearance,
+  BaseballPitchingAppearance,
   TennisAppearance,
   SetlistItem,
   Media,
+  PeriodScore,
   Achievement,
   UserAchievement,
   User,
@@ -51,6 +57,7 @@ export type EventType = 'SOCCER' | 'BASKETBALL' | 'BASEBALL' | 'TENNIS' | 'CONCE
 export type EventWithRelations = Event & {
   venue: Venue;
   media: Media[];
+  periodScores?: PeriodScore[];
   soccerMatch?: SoccerMatchWithAppearances | null;
   basketballGame?: BasketballGameWithAppearances | null;
   baseballGame?: BaseballGameWithAppearances | null;
@@ -61,6 +68,8 @@ export type EventWithRelations = Event & {
 // Sport-specific types with relations
 export type SoccerMatchWithAppearances = SoccerMatch & {
   appearances: (SoccerAppearance & { player: Player })[];
+  timeline?: (SoccerMatchEvent & { player: Player | null; relatedPlayer: Player | null })[];
+  firstLeg?: { eventId: string } | null;
 };
 
 export type BasketballGameWithAppearances = BasketballGame & {
@@ -69,6 +78,7 @@ export type BasketballGameWithAppearances = BasketballGame & {
 
 export type BaseballGameWithAppearances = BaseballGame & {
   appearances: (BaseballAppearance & { player: Player })[];
+  pitching: (BaseballPitchingAppearance & { player: Player })[];
 };
 
 export type TennisMatchWithAppearances = TennisMatch & {
@@ -119,6 +129,12 @@ export interface SoccerFormInput extends EventFormInput {
   competition?: string;
   externalMatchId?: string;
   appearances?: SoccerAppearanceInput[];
+  lineScore?: PeriodScoreFormInput[];
+  timeline?: MatchEventFormInput[];
+  extraTime?: boolean;
+  homePenalties?: number | null;
+  awayPenalties?: number | null;
+  firstLegEventId?: string; // Second leg of a two-legged tie
 }
 
 // Soccer appearance inputs
@@ -139,6 +155,7 @@ export interface BasketballFormInput extends EventFormInput {
   competition?: string;
   externalGameId?: string;
   appearances?: BasketballAppearanceInput[];
+  lineScore?: PeriodScoreFormInput[];
 }
 
 export interface BasketballAppearanceInput {
@@ -154,6 +171,8 @@ export interface BaseballFormInput extends EventFormInput {
   competition?: string;
   externalGameId?: string;
   appearances?: BaseballAppearanceInput[];
+  pitching?: BaseballPitchingInput[];
+  lineScore?: PeriodScoreFormInput[];
 }
 
 export interface BaseballAppearanceInput {
@@ -162,6 +181,36 @@ export interface BaseballAppearanceInput {
   rbis?: number;
 }
 
+export interface BaseballPitchingInput {
+  playerName: string;
+  inningsPitched: string; // "6.1" - six innings and one out
+  hits?: number;
+  runs?: number;
+  earnedRuns?: number;
+  walks?: number;
+  strikeOuts?: number;
+  pitchCount?: number | null;
+  decision?: 'WIN' | 'LOSS' | 'SAVE' | null;
+}
+
+// One inning, quarter or half - in playing order, overtime and shootout last
+export interface PeriodScoreFormInput {
+  type?: 'REGULAR' | 'OVERTIME' | 'SHOOTOUT';
+  homeScore: number | null;
+  awayScore: number | null;
+}
+
+// A goal, card, substitution or VAR call - `team` is the side a goal counts for
+export interface MatchEventFormInput {
+  type: SoccerMatchEvent['type'];
+  minute: number;
+  extraMinute?: number | null;
+  team: 'home' | 'away';
+  playerName?: string | null;
+  relatedPlayerName?: string | null; // Assist, or the player coming on
+  detail?: string | null;
+}
+
 export interface TennisFormInput extends EventFormInput {
   player1Name: string;
   player2Name: string;
@@ -245,6 +294,13 @@ declare module 'next-auth' {
       name?: string | null;
       email?: string | null;
       image?: string | null;
+      role: 'USER' | 'ADMIN';
     };
   }
 }
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    role?: 'USER' | 'ADMIN';
+  }
+}